@@ -1,6 +1,6 @@
 // App.tsx
 // Main entry point for the Curator AI app's component tree and routing.
-// Sets up global providers (React Query, Auth, Tooltip) and defines the main routes.
+// Sets up global providers (React Query, Auth, Workspace, Tooltip) and defines the main routes.
 // made by Divyansh
 
 import { Toaster } from "@/components/ui/toaster";
@@ -9,8 +9,15 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { WorkspaceProvider } from "@/contexts/WorkspaceContext";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
+import Tags from "./pages/Tags";
+import Trash from "./pages/Trash";
+import Duplicates from "./pages/Duplicates";
+import Reader from "./pages/Reader";
+import SharedCollection from "./pages/SharedCollection";
+import Invite from "./pages/Invite";
 import NotFound from "./pages/NotFound";
 
 // Create a React Query client for data fetching and caching
@@ -20,29 +27,44 @@ const queryClient = new QueryClient();
  * The App component wraps the entire application with global providers:
  * - QueryClientProvider: Enables React Query for data fetching and caching.
  * - AuthProvider: Manages user authentication state and logic.
+ * - WorkspaceProvider: Tracks the user's workspaces and which space is open.
  * - TooltipProvider: Enables tooltips throughout the app.
  * It also sets up the main routes for the app using React Router.
  */
 const App = () => (
-  // Provide React Query, Auth, and Tooltip context to the whole app
+  // Provide React Query, Auth, Workspace, and Tooltip context to the whole app
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
-      <TooltipProvider>
-        {/* Toast notifications for user feedback */}
-        <Toaster />
-        <Sonner />
-        {/* App routing: main page, auth page, and 404 fallback */}
-        <BrowserRouter>
-          <Routes>
-            {/* Home/dashboard page for logged-in users */}
-            <Route path="/" element={<Index />} />
-            {/* Authentication page (sign in/up) */}
-            <Route path="/auth" element={<Auth />} />
-            {/* Catch-all route for 404 pages */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
+      <WorkspaceProvider>
+        <TooltipProvider>
+          {/* Toast notifications for user feedback */}
+          <Toaster />
+          <Sonner />
+          {/* App routing: main page, auth page, tag manager, trash, duplicates, reader, shared collections, invitations, and 404 fallback */}
+          <BrowserRouter>
+            <Routes>
+              {/* Home/dashboard page for logged-in users */}
+              <Route path="/" element={<Index />} />
+              {/* Authentication page (sign in/up) */}
+              <Route path="/auth" element={<Auth />} />
+              {/* Tag manager: rename, merge, nest and color tags */}
+              <Route path="/tags" element={<Tags />} />
+              {/* Deleted bookmarks: restore or delete permanently */}
+              <Route path="/trash" element={<Trash />} />
+              {/* Duplicate finder: merge bookmarks saved more than once */}
+              <Route path="/duplicates" element={<Duplicates />} />
+              {/* Reader view of a bookmark's archived article */}
+              <Route path="/read/:bookmarkId" element={<Reader />} />
+              {/* Public, read-only view of a shared collection; no sign-in needed */}
+              <Route path="/s/:slug" element={<SharedCollection />} />
+              {/* Workspace invitation link from an email */}
+              <Route path="/invite/:token" element={<Invite />} />
+              {/* Catch-all route for 404 pages */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </TooltipProvider>
+      </WorkspaceProvider>
     </AuthProvider>
   </QueryClientProvider>
 );
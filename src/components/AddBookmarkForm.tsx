@@ -1,130 +1,202 @@
 // AddBookmarkForm.tsx
-// Form component for adding a new bookmark. Handles metadata extraction, summary generation, and saving to Supabase.
+// Form component for adding a new bookmark to the open space. Saves it to Supabase straight away and queues it for background enrichment.
+// Suggests tags from the user's existing tags and the page being saved, and warns when the link is already saved.
 
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
-import { Plus, Loader2, Link2, Sparkles } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Plus, Loader2, Link2, Upload, CopyCheck, Eye } from 'lucide-react';
+import { format } from 'date-fns';
 import { toast } from '@/hooks/use-toast';
+import { useAddBookmark, useBookmarkCache } from '@/hooks/use-bookmarks';
+import { useCollectionCache } from '@/hooks/use-collections';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import ImportBookmarksDialog from './ImportBookmarksDialog';
+import { requestEnrichment } from '@/lib/enrichment';
+import { fetchPageMetadata } from '@/lib/metadata';
+import { normalizeUrl } from '@/lib/normalize-url';
+import { findSavedBookmark, isDuplicateUrlError, SavedBookmark } from '@/lib/duplicates';
+import { canonicalTag, countTags, PageTagContext, suggestTags } from '@/lib/tags';
+import { canEditBookmarks, inSpace } from '@/lib/workspaces';
+import TagInput from './TagInput';
+
+// Wait for the user to stop typing the URL before fetching the page for tag suggestions
+const PAGE_LOOKUP_DEBOUNCE_MS = 600;
 
 interface AddBookmarkFormProps {
-  onBookmarkAdded: () => void;
+  // Collection new bookmarks are saved into; null leaves them unfiled. Ignored in a workspace.
+  collectionId: string | null;
+  // Shows the bookmark a pasted URL is already saved as
+  onOpenExisting: (bookmark: SavedBookmark) => void;
 }
 
 /**
  * AddBookmarkForm allows the user to submit a new bookmark URL and tags.
- * - Extracts metadata (title) from the URL.
- * - Generates an AI summary for the link.
- * - Saves the bookmark to Supabase.
- * - Notifies parent to refresh bookmarks on success.
+ * - Saves the bookmark to Supabase immediately, in the open workspace (or the currently selected personal collection),
+ *   with the hostname as a placeholder title. Viewers of a workspace can't add bookmarks.
+ * - Queues it for background enrichment (title, summary, preview metadata), which the grid shows per card.
+ * - Adds it to the cached bookmark lists (see use-bookmarks.ts), and notifies the parent on success.
+ * - Tags are entered in a token input with suggestions ranked from the user's tag vocabulary
+ *   and the page's keywords, domain and title; existing spellings are reused ("JS" becomes "js").
+ * - Looks the URL up by its normalized form while typing; if it's already saved in this space, shows when and
+ *   offers to open the existing card instead of saving a duplicate.
+ * - Opens the import dialog for bulk-importing a browser bookmark export into the personal bookmarks.
  */
-const AddBookmarkForm: React.FC<AddBookmarkFormProps> = ({ onBookmarkAdded }) => {
+const AddBookmarkForm: React.FC<AddBookmarkFormProps> = ({ collectionId, onOpenExisting }) => {
   const { user } = useAuth();
+  const { activeWorkspace } = useWorkspace();
+  const workspaceId = activeWorkspace?.id ?? null;
+  const canEdit = canEditBookmarks(activeWorkspace);
+  const addBookmark = useAddBookmark();
+  const bookmarkCache = useBookmarkCache();
+  const collectionCache = useCollectionCache();
   const [isLoading, setIsLoading] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [formData, setFormData] = useState({
     url: '',
-    tags: '',
+    tags: [] as string[],
   });
+  // How often each of the user's tags is used, for ranking suggestions
+  const [tagCounts, setTagCounts] = useState<Map<string, number>>(new Map());
+  // Title and keywords of the page being saved, once looked up
+  const [pageContext, setPageContext] = useState<PageTagContext>({});
+  // Bookmark the URL is already saved as, with the URL that was looked up
+  const [existing, setExisting] = useState<{ url: string; bookmark: SavedBookmark } | null>(null);
 
-  // Extracts the title from the target URL using a CORS proxy
-  const extractMetadata = async (url: string) => {
-    try {
-      // Try to fetch the page to extract title
-      const response = await fetch(`https://api.allorigins.win/get?url=${encodeURIComponent(url)}`);
-      const data = await response.json();
-      
-      if (data.contents) {
-        const parser = new DOMParser();
-        const doc = parser.parseFromString(data.contents, 'text/html');
-        
-        // Extract title from <title> or og:title meta tag
-        const title = doc.querySelector('title')?.textContent?.trim() || 
-                     doc.querySelector('meta[property="og:title"]')?.getAttribute('content') || 
-                     new URL(url).hostname;
-        
-        return { title };
-      }
-    } catch (error) {
-      console.error('Error fetching metadata:', error);
+  // Load the tag vocabulary of the open space (every bookmark, not just the current collection)
+  const fetchTagVocabulary = useCallback(async () => {
+    if (!user) return;
+    const query = supabase.from('bookmarks').select('tags');
+    const { data, error } = await inSpace(query, user.id, workspaceId);
+    if (error) {
+      console.error('Error loading tags:', error);
+      return;
     }
-    
-    // Fallback to hostname if extraction fails
+    setTagCounts(countTags(data || []));
+  }, [user, workspaceId]);
+
+  useEffect(() => {
+    fetchTagVocabulary();
+  }, [fetchTagVocabulary]);
+
+  // Look up the page's title and keywords once the URL stops changing
+  useEffect(() => {
+    const value = formData.url.trim();
+    let url: URL;
     try {
-      return { title: new URL(url).hostname };
+      url = new URL(value);
     } catch {
-      return { title: url };
+      setPageContext({});
+      return;
     }
-  };
+    setPageContext({ url: url.toString() });
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const metadata = await fetchPageMetadata(url.toString(), { summarize: false });
+        if (!cancelled) setPageContext({ url: url.toString(), title: metadata.title, keywords: metadata.keywords });
+      } catch {
+        // Suggestions still work from the domain and existing tags
+      }
+    }, PAGE_LOOKUP_DEBOUNCE_MS);
 
-  // Generates a summary for the URL using an external AI API
-  const generateSummary = async (url: string): Promise<string | null> => {
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [formData.url]);
+
+  // Check whether the URL is already saved once it stops changing
+  useEffect(() => {
+    const value = formData.url.trim();
+    if (!user) return;
     try {
-      const target = encodeURIComponent(url);
-      const response = await fetch(`https://r.jina.ai/${target}`);
+      new URL(value);
+    } catch {
+      return;
+    }
 
-      if (!response.ok) {
-        console.error('Jina AI error:', response.status, response.statusText);
-        return 'Summary temporarily unavailable.';
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const bookmark = await findSavedBookmark(user.id, value, workspaceId);
+        if (!cancelled) setExisting(bookmark && { url: value, bookmark });
+      } catch (error) {
+        console.error('Error checking for duplicates:', error);
       }
+    }, PAGE_LOOKUP_DEBOUNCE_MS);
 
-      const summary = await response.text();
-      // Trim the summary to a reasonable length for display
-      return summary.length > 500 ? summary.substring(0, 500) + '...' : summary;
-    } catch (error) {
-      console.error('Error generating summary:', error);
-      return 'Summary temporarily unavailable.';
-    }
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [user, workspaceId, formData.url]);
+
+  // Only warn about the URL that was looked up, not one typed since
+  const savedAs = existing && normalizeUrl(existing.url) === normalizeUrl(formData.url) ? existing.bookmark : null;
+
+  const handleOpenExisting = () => {
+    if (!savedAs) return;
+    onOpenExisting(savedAs);
+    setFormData({ url: '', tags: [] });
+    setExisting(null);
   };
 
-  // Handles form submission: validates, extracts metadata, generates summary, and saves to Supabase
+  const getTagSuggestions = useCallback(
+    (query: string) => suggestTags(query, tagCounts, pageContext, formData.tags),
+    [tagCounts, pageContext, formData.tags]
+  );
+
+  const normalizeTag = useCallback((tag: string) => canonicalTag(tag, tagCounts.keys()), [tagCounts]);
+
+  // Handles form submission: validates, saves to Supabase, and asks the worker to enrich the bookmark
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user || !formData.url.trim()) return;
+    if (!user || !canEdit || !formData.url.trim() || savedAs) return;
 
     setIsLoading(true);
     try {
       // Validate URL
       const url = new URL(formData.url.trim());
       
-      // Extract metadata and generate summary
-      const [metadata, summary] = await Promise.all([
-        extractMetadata(url.toString()),
-        generateSummary(url.toString())
-      ]);
-
-      // Parse tags from comma-separated string
-      const tags = formData.tags
-        .split(',')
-        .map(tag => tag.trim())
-        .filter(tag => tag.length > 0);
-
-      // Save to database
-      const { error } = await supabase
-        .from('bookmarks')
-        .insert({
-          user_id: user.id,
-          url: url.toString(),
-          title: metadata.title,
-          summary: summary ? summary.substring(0, 1000) : null, // Limit summary length
-          tags: tags,
-          favicon_url: `${url.protocol}//${url.hostname}/favicon.ico`,
-        });
-
-      if (error) throw error;
+      // Save to database; enrichment_status defaults to 'pending'
+      const bookmark = await addBookmark.mutateAsync({
+        user_id: user.id,
+        url: url.toString(),
+        title: url.hostname,
+        tags: formData.tags,
+        favicon_url: `${url.protocol}//${url.hostname}/favicon.ico`,
+        collection_id: workspaceId ? null : collectionId,
+        workspace_id: workspaceId,
+      });
 
       toast({
         title: "Bookmark saved!",
-        description: "Your link has been saved and summarized.",
+        description: "Fetching the title and summary in the background.",
       });
 
-      setFormData({ url: '', tags: '' });
-      onBookmarkAdded();
+      setFormData({ url: '', tags: [] });
+      fetchTagVocabulary();
+
+      // Don't wait for the worker; if this request fails the scheduled run picks the bookmark up
+      requestEnrichment(bookmark.id, url.toString())
+        .catch(enrichError => console.error('Error requesting enrichment:', enrichError));
     } catch (error: any) {
+      // Saved in the meantime, e.g. from another tab: show the warning instead
+      if (isDuplicateUrlError(error)) {
+        const bookmark = await findSavedBookmark(user.id, formData.url, workspaceId).catch(() => null);
+        if (bookmark) {
+          setExisting({ url: formData.url, bookmark });
+          return;
+        }
+      }
       toast({
         title: "Error saving bookmark",
         description: error.message || "Please check the URL and try again.",
@@ -135,7 +207,13 @@ const AddBookmarkForm: React.FC<AddBookmarkFormProps> = ({ onBookmarkAdded }) =>
     }
   };
 
-  // Handles input changes for both URL and tags fields
+  // Imported bookmarks aren't in the cached lists yet, and folders kept as collections are new
+  const handleImported = () => {
+    bookmarkCache.invalidate();
+    collectionCache.invalidate();
+  };
+
+  // Handles input changes for the URL field
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     setFormData(prev => ({
       ...prev,
@@ -146,72 +224,101 @@ const AddBookmarkForm: React.FC<AddBookmarkFormProps> = ({ onBookmarkAdded }) =>
   return (
     <Card className="glass-card">
       <CardHeader>
-        <div className="flex items-center gap-2">
-          <Link2 className="h-5 w-5 text-primary" />
-          <CardTitle>Add New Bookmark</CardTitle>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Link2 className="h-5 w-5 text-primary" />
+            <CardTitle>Add New Bookmark</CardTitle>
+          </div>
+          {!activeWorkspace && (
+            <Button variant="ghost" size="sm" onClick={() => setIsImportOpen(true)}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+          )}
         </div>
         <CardDescription>
-          Paste any URL to save it with an auto-generated summary
+          {activeWorkspace
+            ? `Paste any URL to save it to "${activeWorkspace.name}" with an auto-generated summary`
+            : 'Paste any URL to save it with an auto-generated summary'}
         </CardDescription>
       </CardHeader>
       <CardContent>
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="url">URL</Label>
-            <Input
-              id="url"
-              name="url"
-              type="url"
-              placeholder="https://example.com"
-              value={formData.url}
-              onChange={handleInputChange}
-              required
-              disabled={isLoading}
-              className="glass"
-            />
-          </div>
-          
-          <div className="space-y-2">
-            <Label htmlFor="tags">Tags (optional)</Label>
-            <Input
-              id="tags"
-              name="tags"
-              placeholder="work, article, important (comma-separated)"
-              value={formData.tags}
-              onChange={handleInputChange}
-              disabled={isLoading}
-              className="glass"
-            />
-          </div>
-          
-          <Button
-            type="submit"
-            disabled={isLoading || !formData.url.trim()}
-            className="w-full btn-primary"
-          >
-            {isLoading ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Saving & Summarizing...
-              </>
-            ) : (
-              <>
-                <Plus className="mr-2 h-4 w-4" />
-                Save Bookmark
-              </>
+        {!canEdit ? (
+          <Alert>
+            <Eye className="h-4 w-4" />
+            <AlertTitle>You're a viewer in this workspace</AlertTitle>
+            <AlertDescription>Ask an owner to make you an editor to add bookmarks.</AlertDescription>
+          </Alert>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="url">URL</Label>
+              <Input
+                id="url"
+                name="url"
+                type="url"
+                placeholder="https://example.com"
+                value={formData.url}
+                onChange={handleInputChange}
+                required
+                disabled={isLoading}
+                className="glass"
+              />
+            </div>
+
+            {savedAs && (
+              <Alert>
+                <CopyCheck className="h-4 w-4" />
+                <AlertTitle>Already saved on {format(new Date(savedAs.created_at), 'MMM d, yyyy')}</AlertTitle>
+                <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="truncate">as "{savedAs.title}"</span>
+                  <Button type="button" size="sm" variant="outline" onClick={handleOpenExisting}>
+                    Open existing
+                  </Button>
+                </AlertDescription>
+              </Alert>
             )}
-          </Button>
           
-          {isLoading && (
-            <div className="text-center">
-              <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
-                <Sparkles className="h-4 w-4 animate-pulse" />
-                Generating AI summary...
-              </div>
+            <div className="space-y-2">
+              <Label htmlFor="tags">Tags (optional)</Label>
+              <TagInput
+                id="tags"
+                value={formData.tags}
+                onChange={(tags) => setFormData(prev => ({ ...prev, tags }))}
+                getSuggestions={getTagSuggestions}
+                normalize={normalizeTag}
+                placeholder="work, article, important"
+                disabled={isLoading}
+              />
             </div>
-          )}
-        </form>
+          
+            <Button
+              type="submit"
+              disabled={isLoading || !formData.url.trim() || !!savedAs}
+              className="w-full btn-primary"
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Save Bookmark
+                </>
+              )}
+            </Button>
+
+          </form>
+        )}
       </CardContent>
+
+      <ImportBookmarksDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        onImported={handleImported}
+      />
     </Card>
   );
 };
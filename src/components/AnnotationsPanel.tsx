@@ -0,0 +1,334 @@
+// AnnotationsPanel.tsx
+// Side panel with a bookmark's Markdown notes and the highlights made in the reader.
+// Opened from a bookmark card or from the reader's toolbar.
+
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { BookOpen, Download, Highlighter, Loader2, Pencil, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import MarkdownText from '@/components/MarkdownText';
+import {
+  deleteHighlight,
+  fetchHighlights,
+  Highlight,
+  HIGHLIGHT_COLORS,
+  HighlightColor,
+  highlightColor,
+  saveNotes,
+  updateHighlight,
+} from '@/lib/annotations';
+import { downloadFile, serializeAnnotations } from '@/lib/export';
+
+export interface AnnotatedBookmark {
+  id: string;
+  title: string;
+  url: string;
+  notes: string | null;
+}
+
+interface AnnotationsPanelProps {
+  // The bookmark whose notes are shown; the panel is closed while null
+  bookmark: AnnotatedBookmark | null;
+  onOpenChange: (open: boolean) => void;
+  // Called after the notes are saved, with the bookmark's new updated_at
+  onNotesSaved?: (bookmarkId: string, notes: string | null, updatedAt: string) => void;
+  // Called whenever a highlight is edited or deleted here
+  onHighlightsChange?: (highlights: Highlight[]) => void;
+  // Hides "Open in reader" when the panel is opened from the reader itself
+  inReader?: boolean;
+}
+
+/**
+ * AnnotationsPanel edits a bookmark's notes and lists its highlights.
+ * - Notes are Markdown, with an edit/preview toggle.
+ * - Highlights can be recolored, commented on and deleted; new ones are made in the reader.
+ * - "Export Markdown" downloads the notes and highlights as a .md file.
+ */
+const AnnotationsPanel: React.FC<AnnotationsPanelProps> = ({
+  bookmark,
+  onOpenChange,
+  onNotesSaved,
+  onHighlightsChange,
+  inReader = false,
+}) => {
+  const [notes, setNotes] = useState('');
+  const [mode, setMode] = useState<'edit' | 'preview'>('preview');
+  const [isSavingNotes, setIsSavingNotes] = useState(false);
+  const [highlights, setHighlights] = useState<Highlight[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  // Highlight whose comment is being edited, with the draft text
+  const [editingComment, setEditingComment] = useState<{ id: string; comment: string } | null>(null);
+
+  const bookmarkId = bookmark?.id;
+  const savedNotes = bookmark?.notes ?? '';
+  const isDirty = notes !== savedNotes;
+
+  // Reset the editor and load the highlights whenever the panel opens for a bookmark
+  useEffect(() => {
+    setNotes(savedNotes);
+    setMode(savedNotes ? 'preview' : 'edit');
+    setEditingComment(null);
+    setHighlights([]);
+    if (!bookmarkId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    fetchHighlights(bookmarkId)
+      .then(result => {
+        if (!cancelled) setHighlights(result);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        toast({
+          title: "Error loading highlights",
+          description: (error as Error).message,
+          variant: "destructive",
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+    // savedNotes is only read when the panel opens, so a save doesn't reset the editor
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [bookmarkId]);
+
+  const replaceHighlights = (next: Highlight[]) => {
+    setHighlights(next);
+    onHighlightsChange?.(next);
+  };
+
+  const handleSaveNotes = async () => {
+    if (!bookmark) return;
+    setIsSavingNotes(true);
+    try {
+      const updatedAt = await saveNotes(bookmark.id, notes);
+      onNotesSaved?.(bookmark.id, notes.trim() ? notes : null, updatedAt);
+      setMode('preview');
+      toast({ title: "Notes saved" });
+    } catch (error) {
+      toast({
+        title: "Error saving notes",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingNotes(false);
+    }
+  };
+
+  const handleUpdateHighlight = async (id: string, changes: { color?: HighlightColor; comment?: string | null }) => {
+    try {
+      const updated = await updateHighlight(id, changes);
+      replaceHighlights(highlights.map(highlight => (highlight.id === id ? updated : highlight)));
+      setEditingComment(null);
+    } catch (error) {
+      toast({
+        title: "Error updating highlight",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteHighlight = async (id: string) => {
+    try {
+      await deleteHighlight(id);
+      replaceHighlights(highlights.filter(highlight => highlight.id !== id));
+    } catch (error) {
+      toast({
+        title: "Error deleting highlight",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExport = () => {
+    if (!bookmark) return;
+    const slug = bookmark.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+    downloadFile(
+      serializeAnnotations({ ...bookmark, notes }, highlights),
+      `${slug || 'notes'}.md`,
+      'text/markdown'
+    );
+  };
+
+  return (
+    <Sheet open={bookmark !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="glass-card flex w-full flex-col gap-6 overflow-y-auto sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle className="pr-6 line-clamp-2">{bookmark?.title ?? 'Notes'}</SheetTitle>
+          <SheetDescription>Your notes and highlights for this page.</SheetDescription>
+        </SheetHeader>
+
+        {/* Notes */}
+        <section className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold">Notes</h3>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={mode}
+              onValueChange={(value) => value && setMode(value as 'edit' | 'preview')}
+            >
+              <ToggleGroupItem value="edit">Edit</ToggleGroupItem>
+              <ToggleGroupItem value="preview">Preview</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+          {mode === 'edit' ? (
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Write your thoughts... Markdown is supported."
+              className="glass min-h-[160px] font-mono text-sm"
+              aria-label="Notes"
+            />
+          ) : notes.trim() ? (
+            <MarkdownText markdown={notes} className="glass rounded-md p-3" />
+          ) : (
+            <p className="text-sm text-muted-foreground">No notes yet.</p>
+          )}
+          {isDirty && (
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setNotes(savedNotes)} disabled={isSavingNotes}>
+                Discard
+              </Button>
+              <Button size="sm" className="btn-primary" onClick={handleSaveNotes} disabled={isSavingNotes}>
+                {isSavingNotes && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save notes
+              </Button>
+            </div>
+          )}
+        </section>
+
+        {/* Highlights */}
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold">
+            Highlights{highlights.length > 0 && ` (${highlights.length})`}
+          </h3>
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : highlights.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              <Highlighter className="mr-1 inline h-4 w-4" />
+              Select text in the reader to highlight it.
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {highlights.map(highlight => (
+                <li key={highlight.id} className="glass space-y-2 rounded-md p-3">
+                  <blockquote className="border-l-2 border-primary/50 pl-3 text-sm">
+                    <span className={`${highlightColor(highlight.color).markClass} rounded-sm`}>{highlight.text}</span>
+                  </blockquote>
+
+                  {editingComment?.id === highlight.id ? (
+                    <div className="space-y-2">
+                      <Textarea
+                        value={editingComment.comment}
+                        onChange={(e) => setEditingComment({ id: highlight.id, comment: e.target.value })}
+                        placeholder="Add a comment..."
+                        className="glass min-h-[60px] text-sm"
+                        aria-label="Comment"
+                        autoFocus
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setEditingComment(null)}>
+                          Cancel
+                        </Button>
+                        <Button
+                          size="sm"
+                          className="btn-primary"
+                          onClick={() => handleUpdateHighlight(highlight.id, { comment: editingComment.comment.trim() || null })}
+                        >
+                          Save
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    highlight.comment && <p className="text-sm text-muted-foreground whitespace-pre-line">{highlight.comment}</p>
+                  )}
+
+                  <div className="flex items-center gap-1">
+                    {HIGHLIGHT_COLORS.map(color => (
+                      <button
+                        key={color.value}
+                        type="button"
+                        onClick={() => handleUpdateHighlight(highlight.id, { color: color.value })}
+                        className={`h-4 w-4 rounded-full ${color.swatchClass} ${
+                          highlight.color === color.value ? 'ring-2 ring-primary ring-offset-1 ring-offset-background' : ''
+                        }`}
+                        aria-label={`${color.label} highlight`}
+                        aria-pressed={highlight.color === color.value}
+                      />
+                    ))}
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {format(new Date(highlight.created_at), 'MMM d, yyyy')}
+                    </span>
+                    <div className="ml-auto flex">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => setEditingComment({ id: highlight.id, comment: highlight.comment ?? '' })}
+                        aria-label="Edit comment"
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0 hover:text-destructive"
+                        onClick={() => handleDeleteHighlight(highlight.id)}
+                        aria-label="Delete highlight"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <div className="mt-auto flex flex-wrap justify-end gap-2">
+          {bookmark && !inReader && (
+            <Button variant="outline" size="sm" asChild>
+              <Link to={`/read/${bookmark.id}`}>
+                <BookOpen className="mr-2 h-4 w-4" />
+                Open in reader
+              </Link>
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleExport}
+            disabled={!notes.trim() && highlights.length === 0}
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Export Markdown
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default AnnotationsPanel;
@@ -0,0 +1,470 @@
+// ArticleReader.tsx
+// Distraction-free reader for a bookmark's archived article, with adjustable type and width.
+// Reads the latest snapshot; pages that haven't been archived yet are archived on first open.
+// Selecting text in the article offers to save it as a highlight.
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { AlertCircle, ArrowLeft, ExternalLink, Loader2, NotebookPen, RotateCw, Type, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import AnnotationsPanel from '@/components/AnnotationsPanel';
+import { archiveBookmark, fetchSnapshots, loadSnapshotHtml, Snapshot } from '@/lib/snapshots';
+import { loadAutoMarkRead, updateReadingState } from '@/lib/reading-state';
+import {
+  clearHighlightMarks,
+  createHighlight,
+  describeSelection,
+  fetchHighlights,
+  Highlight,
+  HIGHLIGHT_COLORS,
+  HighlightColor,
+  highlightColor,
+  locateHighlight,
+  TextSelection,
+  wrapTextRange,
+} from '@/lib/annotations';
+import {
+  loadReaderPreferences,
+  loadScrollPosition,
+  READER_FONT_SIZES,
+  ReaderFont,
+  ReaderPreferences,
+  ReaderWidth,
+  readingMinutes,
+  saveReaderPreferences,
+  saveScrollPosition,
+  snapshotArticleHtml,
+} from '@/lib/reader';
+
+// How long scrolling has to pause before the position is saved
+const SAVE_POSITION_DELAY_MS = 500;
+
+const WIDTH_CLASSES: Record<ReaderWidth, string> = {
+  narrow: 'max-w-[58ch]',
+  medium: 'max-w-[68ch]',
+  wide: 'max-w-[82ch]',
+};
+
+interface ReaderBookmark {
+  id: string;
+  url: string;
+  title: string;
+  site_name: string | null;
+  author: string | null;
+  published_at: string | null;
+  is_read: boolean;
+  notes: string | null;
+}
+
+// Text selected in the article, with where to show the highlight toolbar (page coordinates)
+interface PendingHighlight {
+  selection: TextSelection;
+  top: number;
+  left: number;
+}
+
+type ReaderState =
+  | { status: 'loading' }
+  // No snapshot yet, so the page is being archived
+  | { status: 'archiving' }
+  | { status: 'ready'; snapshot: Snapshot; html: string }
+  | { status: 'error'; message: string };
+
+interface ArticleReaderProps {
+  bookmarkId: string;
+}
+
+// Fraction of the page scrolled past, 0 at the top and 1 at the bottom
+const currentScrollProgress = () => {
+  const scrollable = document.documentElement.scrollHeight - window.innerHeight;
+  return scrollable > 0 ? Math.min(1, Math.max(0, window.scrollY / scrollable)) : 0;
+};
+
+/**
+ * ArticleReader shows a bookmark's article in a clean, themed reading view.
+ * - Font size, line width and serif/sans are adjustable and remembered across articles.
+ * - Shows the estimated reading time and a scroll progress bar.
+ * - Remembers how far each article was read and scrolls back there next time.
+ * - Opening an article marks the bookmark read, unless that's turned off.
+ * - Selecting text shows a toolbar to highlight it in a color, with an optional comment.
+ *   Saved highlights are painted over the article; clicking one opens the notes panel.
+ */
+const ArticleReader: React.FC<ArticleReaderProps> = ({ bookmarkId }) => {
+  const [bookmark, setBookmark] = useState<ReaderBookmark | null>(null);
+  const [state, setState] = useState<ReaderState>({ status: 'loading' });
+  const [preferences, setPreferences] = useState<ReaderPreferences>(loadReaderPreferences);
+  const [progress, setProgress] = useState(0);
+  const { user } = useAuth();
+  const [highlights, setHighlights] = useState<Highlight[]>([]);
+  const [pending, setPending] = useState<PendingHighlight | null>(null);
+  const [pendingComment, setPendingComment] = useState('');
+  const [isSavingHighlight, setIsSavingHighlight] = useState(false);
+  const [isAnnotationsOpen, setIsAnnotationsOpen] = useState(false);
+  const contentRef = useRef<HTMLDivElement>(null);
+  // Set once the saved position has been restored, so saving doesn't overwrite it first
+  const restoredRef = useRef(false);
+
+  const loadArticle = useCallback(async () => {
+    setState({ status: 'loading' });
+    restoredRef.current = false;
+    try {
+      const { data, error } = await supabase
+        .from('bookmarks')
+        .select('id, url, title, site_name, author, published_at, is_read, notes')
+        .eq('id', bookmarkId)
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) throw new Error('This bookmark was not found. It may have been deleted.');
+      setBookmark(data);
+      fetchHighlights(bookmarkId)
+        .then(setHighlights)
+        .catch(error => console.error('Error loading highlights:', error));
+      if (!data.is_read && loadAutoMarkRead()) {
+        updateReadingState([bookmarkId], { is_read: true })
+          .catch(error => console.error('Error marking bookmark read:', error));
+      }
+
+      let [snapshot] = await fetchSnapshots(bookmarkId);
+      if (!snapshot) {
+        setState({ status: 'archiving' });
+        snapshot = (await archiveBookmark(bookmarkId)).snapshot;
+      }
+      const html = snapshotArticleHtml(await loadSnapshotHtml(snapshot));
+      setState({ status: 'ready', snapshot, html });
+    } catch (error) {
+      setState({ status: 'error', message: (error as Error).message });
+    }
+  }, [bookmarkId]);
+
+  useEffect(() => {
+    loadArticle();
+  }, [loadArticle]);
+
+  const updatePreferences = (changes: Partial<ReaderPreferences>) => {
+    setPreferences(prev => {
+      const next = { ...prev, ...changes };
+      saveReaderPreferences(next);
+      return next;
+    });
+  };
+
+  // Resume where the article was left, once it has rendered
+  const isReady = state.status === 'ready';
+  useEffect(() => {
+    if (!isReady || restoredRef.current) return;
+    const position = loadScrollPosition(bookmarkId);
+    const frame = requestAnimationFrame(() => {
+      const scrollable = document.documentElement.scrollHeight - window.innerHeight;
+      window.scrollTo({ top: position * scrollable });
+      restoredRef.current = true;
+      setProgress(currentScrollProgress());
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isReady, bookmarkId]);
+
+  // Track scroll progress, saving the position whenever scrolling pauses and on leaving
+  useEffect(() => {
+    if (!isReady) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const handleScroll = () => {
+      setProgress(currentScrollProgress());
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        if (restoredRef.current) saveScrollPosition(bookmarkId, currentScrollProgress());
+      }, SAVE_POSITION_DELAY_MS);
+    };
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      window.removeEventListener('scroll', handleScroll);
+      clearTimeout(timer);
+      if (restoredRef.current) saveScrollPosition(bookmarkId, currentScrollProgress());
+    };
+  }, [isReady, bookmarkId]);
+
+  // Paint the saved highlights over the article. Wrapping text in <mark> doesn't change the
+  // article's text, so every highlight is located against the same offsets.
+  const html = state.status === 'ready' ? state.html : null;
+  useEffect(() => {
+    const container = contentRef.current;
+    if (!container || html === null) return;
+    clearHighlightMarks(container);
+    const text = container.textContent ?? '';
+    highlights.forEach(highlight => {
+      const position = locateHighlight(text, highlight);
+      if (position) {
+        wrapTextRange(container, position.start, position.end, highlight.id, highlightColor(highlight.color).markClass);
+      }
+    });
+  }, [html, highlights]);
+
+  // Offer the highlight toolbar for a selection inside the article
+  const handleSelectionEnd = () => {
+    const container = contentRef.current;
+    const selection = window.getSelection();
+    if (!container || !selection || selection.rangeCount === 0) return;
+    const range = selection.getRangeAt(0);
+    const described = describeSelection(container, range);
+    if (!described) {
+      setPending(null);
+      return;
+    }
+    const rect = range.getBoundingClientRect();
+    setPending({
+      selection: described,
+      top: rect.top + window.scrollY,
+      left: rect.left + rect.width / 2 + window.scrollX,
+    });
+    setPendingComment('');
+  };
+
+  // Clicking a highlight (rather than selecting text) opens the notes panel
+  const handleContentClick = (e: React.MouseEvent) => {
+    const selection = window.getSelection();
+    if (selection && !selection.isCollapsed) return;
+    if ((e.target as HTMLElement).closest('mark[data-highlight-id]')) setIsAnnotationsOpen(true);
+  };
+
+  const handleSaveHighlight = async (color: HighlightColor) => {
+    if (!pending || !user || state.status !== 'ready') return;
+    setIsSavingHighlight(true);
+    try {
+      const highlight = await createHighlight({
+        ...pending.selection,
+        user_id: user.id,
+        bookmark_id: bookmarkId,
+        snapshot_id: state.snapshot.id,
+        color,
+        comment: pendingComment.trim() || null,
+      });
+      setHighlights(prev => [...prev, highlight].sort((a, b) => a.start_offset - b.start_offset));
+      setPending(null);
+      window.getSelection()?.removeAllRanges();
+    } catch (error) {
+      toast({
+        title: "Error saving highlight",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingHighlight(false);
+    }
+  };
+
+  const snapshot = state.status === 'ready' ? state.snapshot : null;
+  const minutes = snapshot?.word_count ? readingMinutes(snapshot.word_count) : null;
+
+  return (
+    <div className="relative min-h-screen">
+      {/* Scroll progress */}
+      <div className="fixed inset-x-0 top-0 z-50 h-1 bg-transparent">
+        <div
+          className="h-full bg-primary transition-[width] duration-150"
+          style={{ width: `${Math.round(progress * 100)}%` }}
+          role="progressbar"
+          aria-label="Reading progress"
+          aria-valuenow={Math.round(progress * 100)}
+          aria-valuemin={0}
+          aria-valuemax={100}
+        />
+      </div>
+
+      {/* Toolbar */}
+      <header className="sticky top-0 z-40 border-b border-glass-border bg-background/90 backdrop-blur">
+        <div className="container mx-auto flex items-center justify-between gap-2 px-4 py-2">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to bookmarks
+            </Link>
+          </Button>
+          <div className="flex items-center gap-1">
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="ghost" size="sm" aria-label="Reading settings">
+                  <Type className="h-4 w-4" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="glass-card w-72 space-y-4" align="end">
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Font size</Label>
+                    <span className="text-xs text-muted-foreground">{preferences.fontSize}px</span>
+                  </div>
+                  <Slider
+                    min={READER_FONT_SIZES.min}
+                    max={READER_FONT_SIZES.max}
+                    step={READER_FONT_SIZES.step}
+                    value={[preferences.fontSize]}
+                    onValueChange={([fontSize]) => updatePreferences({ fontSize })}
+                    aria-label="Font size"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Line width</Label>
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    size="sm"
+                    value={preferences.width}
+                    onValueChange={(width) => width && updatePreferences({ width: width as ReaderWidth })}
+                    className="justify-start"
+                  >
+                    <ToggleGroupItem value="narrow">Narrow</ToggleGroupItem>
+                    <ToggleGroupItem value="medium">Medium</ToggleGroupItem>
+                    <ToggleGroupItem value="wide">Wide</ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
+                <div className="space-y-2">
+                  <Label>Typeface</Label>
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    size="sm"
+                    value={preferences.font}
+                    onValueChange={(font) => font && updatePreferences({ font: font as ReaderFont })}
+                    className="justify-start"
+                  >
+                    <ToggleGroupItem value="serif" className="font-serif">Serif</ToggleGroupItem>
+                    <ToggleGroupItem value="sans" className="font-sans">Sans</ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
+              </PopoverContent>
+            </Popover>
+            {bookmark && (
+              <Button variant="ghost" size="sm" onClick={() => setIsAnnotationsOpen(true)}>
+                <NotebookPen className="mr-2 h-4 w-4" />
+                Notes{highlights.length > 0 && ` (${highlights.length})`}
+              </Button>
+            )}
+            {bookmark && (
+              <Button variant="ghost" size="sm" asChild>
+                <a href={bookmark.url} target="_blank" rel="noopener noreferrer">
+                  <ExternalLink className="mr-2 h-4 w-4" />
+                  Original
+                </a>
+              </Button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className={`mx-auto px-4 py-10 ${WIDTH_CLASSES[preferences.width]}`}>
+        {state.status === 'loading' || state.status === 'archiving' ? (
+          <div className="flex flex-col items-center gap-3 py-24 text-muted-foreground">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            <p className="text-sm">
+              {state.status === 'archiving' ? 'Extracting the article for the first time...' : 'Loading article...'}
+            </p>
+          </div>
+        ) : state.status === 'error' ? (
+          <div className="glass-card flex flex-col items-center gap-4 rounded-lg p-8 text-center">
+            <AlertCircle className="h-10 w-10 text-destructive" />
+            <div>
+              <h2 className="text-lg font-semibold">Couldn't open this article</h2>
+              <p className="mt-1 text-sm text-muted-foreground">{state.message}</p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={loadArticle}>
+                <RotateCw className="mr-2 h-4 w-4" />
+                Try again
+              </Button>
+              {bookmark && (
+                <Button className="btn-primary" asChild>
+                  <a href={bookmark.url} target="_blank" rel="noopener noreferrer">
+                    <ExternalLink className="mr-2 h-4 w-4" />
+                    Open original
+                  </a>
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <article
+            className={`prose max-w-none dark:prose-invert prose-a:text-primary prose-img:rounded-md ${
+              preferences.font === 'serif' ? 'font-serif' : 'font-sans'
+            }`}
+            style={{ fontSize: `${preferences.fontSize}px` }}
+          >
+            <header className="not-prose mb-8 space-y-2">
+              <p className="text-sm text-muted-foreground">
+                {bookmark?.site_name || (bookmark && new URL(bookmark.url).hostname)}
+              </p>
+              <h1 className="text-[1.9em] font-bold leading-tight">{state.snapshot.title || bookmark?.title}</h1>
+              <p className="text-sm text-muted-foreground">
+                {(state.snapshot.byline || bookmark?.author) && <>By {state.snapshot.byline || bookmark?.author} · </>}
+                {bookmark?.published_at && <>{format(new Date(bookmark.published_at), 'MMM d, yyyy')} · </>}
+                {minutes && <>{minutes} min read · </>}
+                Archived {format(new Date(state.snapshot.fetched_at), 'MMM d, yyyy')}
+              </p>
+            </header>
+            {/* Sanitized by snapshotArticleHtml */}
+            <div
+              ref={contentRef}
+              onMouseUp={handleSelectionEnd}
+              onKeyUp={handleSelectionEnd}
+              onClick={handleContentClick}
+              dangerouslySetInnerHTML={{ __html: state.html }}
+            />
+          </article>
+        )}
+      </main>
+
+      {/* Highlight toolbar, above the selection */}
+      {pending && (
+        <div
+          className="glass-card absolute z-30 flex -translate-x-1/2 -translate-y-full items-center gap-2 rounded-lg p-2 shadow-lg"
+          style={{ top: pending.top - 8, left: pending.left }}
+        >
+          {HIGHLIGHT_COLORS.map(color => (
+            <button
+              key={color.value}
+              type="button"
+              onClick={() => handleSaveHighlight(color.value)}
+              disabled={isSavingHighlight}
+              className={`h-6 w-6 rounded-full ${color.swatchClass} transition-transform hover:scale-110 disabled:opacity-50`}
+              aria-label={`Highlight in ${color.label.toLowerCase()}`}
+              title={`Highlight in ${color.label.toLowerCase()}`}
+            />
+          ))}
+          <Input
+            value={pendingComment}
+            onChange={(e) => setPendingComment(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSaveHighlight(HIGHLIGHT_COLORS[0].value);
+              if (e.key === 'Escape') setPending(null);
+            }}
+            placeholder="Comment (optional)"
+            className="glass h-8 w-48 text-sm"
+            aria-label="Highlight comment"
+          />
+          {isSavingHighlight ? (
+            <Loader2 className="h-4 w-4 animate-spin text-primary" />
+          ) : (
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setPending(null)} aria-label="Cancel highlight">
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      )}
+
+      <AnnotationsPanel
+        bookmark={isAnnotationsOpen ? bookmark : null}
+        onOpenChange={setIsAnnotationsOpen}
+        onNotesSaved={(_, notes) => setBookmark(prev => prev && { ...prev, notes })}
+        onHighlightsChange={setHighlights}
+        inReader
+      />
+    </div>
+  );
+};
+
+export default ArticleReader;
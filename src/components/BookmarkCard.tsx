@@ -1,41 +1,93 @@
 // BookmarkCard.tsx
-// Displays a single bookmark with title, URL, summary, tags, and actions (open, delete, drag handle).
+// Displays a single bookmark with a preview image, title, site, summary, notes, tags, link health, reading state, and actions (open, edit, delete, drag handle).
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ExternalLink, Trash2, Globe, GripVertical } from 'lucide-react';
-import { format } from 'date-fns';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ExternalLink, Pencil, Trash2, Globe, GripVertical, Loader2, AlertCircle, RotateCw, StickyNote, Unlink, CornerUpRight, Archive, ArchiveRestore, FileClock, Star, Circle, CheckCircle2, NotebookPen } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Link } from 'react-router-dom';
 import {
   useSortable,
 } from '@dnd-kit/sortable';
 import {
   CSS,
 } from '@dnd-kit/utilities';
-
-interface Bookmark {
-  id: string;
-  url: string;
-  title: string;
-  favicon_url: string | null;
-  summary: string | null;
-  tags: string[];
-  created_at: string;
-  position: number;
-}
+import HighlightedText from './HighlightedText';
+import { Bookmark } from '@/lib/bookmarks';
+import { SearchHighlights } from '@/lib/search';
+import { resolveTagColor, tagBadgeStyle } from '@/lib/tags';
+import { isBrokenLink, linkStatusLabel } from '@/lib/link-health';
+import { ReadingState } from '@/lib/reading-state';
+import { markdownToPlainText } from '@/lib/markdown';
 
 interface BookmarkCardProps {
   bookmark: Bookmark;
-  onDelete: (id: string) => void;
+  // Read-only cards (e.g. on a shared collection page) only link to the page: no dragging,
+  // editing or reading state, so the action handlers below aren't needed
+  readOnly?: boolean;
+  onDelete?: (id: string) => void;
+  // Opens the edit dialog for this bookmark
+  onEdit?: (bookmark: Bookmark) => void;
+  // Puts a bookmark whose enrichment failed back in the queue
+  onRetryEnrichment?: (bookmark: Bookmark) => void;
+  // Replaces the URL of a moved link with where it redirects
+  onUpdateToRedirect?: (bookmark: Bookmark) => void;
+  // Opens the archived copy of the page (or offers to archive it)
+  onViewSnapshot?: (bookmark: Bookmark) => void;
+  // Opens the notes and highlights panel
+  onOpenAnnotations?: (bookmark: Bookmark) => void;
+  // Marks the bookmark read/unread, favorite or archived
+  onUpdateReadingState?: (bookmark: Bookmark, changes: Partial<ReadingState>) => void;
+  // Called when the live page is opened, e.g. to mark it read
+  onOpen?: (bookmark: Bookmark) => void;
+  // Tag colors by name, from the tag manager
+  tagColors?: Map<string, string | null>;
+  // Highlighted title/summary snippets when the card is a search result
+  highlights?: SearchHighlights;
+  // In selection mode the checkbox is always shown; otherwise it appears on hover
+  selectionMode?: boolean;
+  isSelected?: boolean;
+  // Called when the checkbox is clicked; shiftKey selects a range in the grid
+  onToggleSelect?: (id: string, shiftKey: boolean) => void;
+  // Briefly set when the grid scrolls to this card
+  isHighlighted?: boolean;
 }
 
+// Opens the article in the reader, or the live page on read-only cards (the reader needs an account)
+const ArticleLink: React.FC<{
+  bookmark: Bookmark;
+  readOnly: boolean;
+  className?: string;
+  'aria-label'?: string;
+  children: React.ReactNode;
+}> = ({ bookmark, readOnly, children, ...props }) =>
+  readOnly ? (
+    <a href={bookmark.url} target="_blank" rel="noopener noreferrer" {...props}>{children}</a>
+  ) : (
+    <Link to={`/read/${bookmark.id}`} {...props}>{children}</Link>
+  );
+
 /**
  * BookmarkCard displays a single bookmark's details and actions.
- * - Shows title, URL, summary, tags, and creation date.
- * - Allows opening the link, deleting the bookmark, and supports drag-and-drop.
+ * - Shows the page's preview image (when it has one), title, site, summary, tags, author and dates.
+ * - Shows the TL;DR and key points, falling back to the plain summary or page description.
+ * - Shows a plain-text preview of the user's Markdown notes, if any, and opens the notes and
+ *   highlights panel.
+ * - Shows highlighted snippets instead of the plain title/summary for search results.
+ * - Shows whether background enrichment is still running or failed, with a retry action.
+ * - Flags links the link checker found dead (404, timeout, errors) or moved, with an action to
+ *   update a moved link to its new address.
+ * - Has a checkbox for selecting it for bulk actions.
+ * - Shows an unread dot, and toggles for read, favorite and archived.
+ * - Opens the archived copy of the page, when it has one, or offers to archive it.
+ * - The title and preview image open the article in the reader; the link button opens the live site.
+ * - Allows opening the link, editing or deleting the bookmark, and supports drag-and-drop.
+ * - Read-only cards show the same details but only open the live page.
  */
-const BookmarkCard: React.FC<BookmarkCardProps> = ({ bookmark, onDelete }) => {
+const BookmarkCard: React.FC<BookmarkCardProps> = ({ bookmark, readOnly = false, onDelete, onEdit, onRetryEnrichment, onUpdateToRedirect, onViewSnapshot, onOpenAnnotations, onUpdateReadingState, onOpen, tagColors, highlights, selectionMode, isSelected, onToggleSelect, isHighlighted }) => {
   // DnD-kit hook for drag-and-drop functionality
   const {
     attributes,
@@ -44,7 +96,7 @@ const BookmarkCard: React.FC<BookmarkCardProps> = ({ bookmark, onDelete }) => {
     transform,
     transition,
     isDragging,
-  } = useSortable({ id: bookmark.id });
+  } = useSortable({ id: bookmark.id, disabled: readOnly });
 
   // Style for drag-and-drop transform/transition
   const style = {
@@ -52,9 +104,22 @@ const BookmarkCard: React.FC<BookmarkCardProps> = ({ bookmark, onDelete }) => {
     transition,
   };
 
+  // Hides the preview header if the image fails to load
+  const [imageFailed, setImageFailed] = useState(false);
+  const showPreviewImage = !!bookmark.image_url && !imageFailed;
+
+  // TL;DR, or the older plain summary / page description for bookmarks without one
+  const summary = bookmark.tldr || bookmark.summary || bookmark.description;
+
+  const linkLabel = linkStatusLabel(bookmark);
+  const linkCheckedAgo = bookmark.link_checked_at
+    ? formatDistanceToNow(new Date(bookmark.link_checked_at), { addSuffix: true })
+    : null;
+
   // Opens the bookmark URL in a new tab
   const handleOpenLink = () => {
     window.open(bookmark.url, '_blank', 'noopener,noreferrer');
+    onOpen?.(bookmark);
   };
 
   // Returns the favicon URL for the bookmark, or null if not available
@@ -71,22 +136,57 @@ const BookmarkCard: React.FC<BookmarkCardProps> = ({ bookmark, onDelete }) => {
   return (
     <Card 
       ref={setNodeRef} 
+      id={`bookmark-${bookmark.id}`}
       style={style} 
       className={`glass-card group hover:shadow-glow/20 transition-all duration-300 ${
         isDragging ? 'opacity-50 z-50' : ''
-      }`}
+      } ${isSelected || isHighlighted ? 'ring-2 ring-primary' : ''} ${isHighlighted ? 'shadow-glow' : ''} ${showPreviewImage ? 'overflow-hidden' : ''}`}
     >
+      {/* Preview image header */}
+      {showPreviewImage && (
+        <ArticleLink
+          bookmark={bookmark}
+          readOnly={readOnly}
+          className="block w-full aspect-[1.91/1] bg-muted overflow-hidden"
+          aria-label={`Read ${bookmark.title}`}
+        >
+          <img
+            src={bookmark.image_url!}
+            alt=""
+            loading="lazy"
+            referrerPolicy="no-referrer"
+            className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-[1.02]"
+            onError={() => setImageFailed(true)}
+          />
+        </ArticleLink>
+      )}
       <CardHeader className="pb-3">
         <div className="flex items-start justify-between gap-3">
           <div className="flex items-start gap-3 flex-1 min-w-0">
+            {/* Selection checkbox */}
+            {onToggleSelect && (
+              <Checkbox
+                checked={isSelected}
+                onClick={(e) => {
+                  e.preventDefault();
+                  onToggleSelect(bookmark.id, e.shiftKey);
+                }}
+                className={`mt-2 flex-shrink-0 transition-opacity ${
+                  selectionMode ? '' : 'opacity-0 group-hover:opacity-100 focus-visible:opacity-100'
+                }`}
+                aria-label={`Select ${bookmark.title}`}
+              />
+            )}
             {/* Drag handle */}
-            <div 
-              className="flex-shrink-0 w-8 h-8 rounded-lg bg-muted flex items-center justify-center cursor-grab active:cursor-grabbing"
-              {...attributes}
-              {...listeners}
-            >
-              <GripVertical className="w-4 h-4 text-muted-foreground" />
-            </div>
+            {!readOnly && (
+              <div 
+                className="flex-shrink-0 w-8 h-8 rounded-lg bg-muted flex items-center justify-center cursor-grab active:cursor-grabbing"
+                {...attributes}
+                {...listeners}
+              >
+                <GripVertical className="w-4 h-4 text-muted-foreground" />
+              </div>
+            )}
             {/* Favicon or globe icon */}
             <div className="flex-shrink-0 w-8 h-8 rounded-lg bg-muted dark:bg-muted-foreground/20 flex items-center justify-center">
               {getFaviconUrl() ? (
@@ -106,40 +206,174 @@ const BookmarkCard: React.FC<BookmarkCardProps> = ({ bookmark, onDelete }) => {
             {/* Title and hostname */}
             <div className="flex-1 min-w-0">
               <CardTitle className="text-lg leading-tight line-clamp-2 group-hover:text-primary transition-colors">
-                {bookmark.title}
+                {!readOnly && !bookmark.is_read && (
+                  <span className="mr-2 inline-block h-2 w-2 rounded-full bg-primary align-middle" aria-label="Unread" />
+                )}
+                <ArticleLink bookmark={bookmark} readOnly={readOnly} className="hover:underline">
+                  {highlights ? <HighlightedText snippet={highlights.title} /> : bookmark.title}
+                </ArticleLink>
               </CardTitle>
               <CardDescription className="text-sm mt-1 truncate">
-                {new URL(bookmark.url).hostname}
+                {bookmark.site_name || new URL(bookmark.url).hostname}
               </CardDescription>
             </div>
           </div>
-          {/* Actions: open link, delete */}
+          {/* Actions: open link, archived copy, notes, edit, delete */}
           <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
             <Button
               variant="ghost"
               size="sm"
               onClick={handleOpenLink}
               className="h-8 w-8 p-0 hover:bg-primary/20"
+              aria-label="Open original page"
             >
               <ExternalLink className="h-4 w-4" />
             </Button>
+            {!readOnly && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onViewSnapshot?.(bookmark)}
+                  className={`h-8 w-8 p-0 hover:bg-primary/20 ${bookmark.last_snapshot_at ? 'text-primary' : ''}`}
+                  aria-label={bookmark.last_snapshot_at ? 'View archived copy' : 'Archive page'}
+                  title={bookmark.last_snapshot_at
+                    ? `View archived copy (archived ${formatDistanceToNow(new Date(bookmark.last_snapshot_at), { addSuffix: true })})`
+                    : 'Archive page'}
+                >
+                  <FileClock className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onOpenAnnotations?.(bookmark)}
+                  className="h-8 w-8 p-0 hover:bg-primary/20"
+                  aria-label="Notes & highlights"
+                  title="Notes & highlights"
+                >
+                  <NotebookPen className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onEdit?.(bookmark)}
+                  className="h-8 w-8 p-0 hover:bg-primary/20"
+                  aria-label="Edit bookmark"
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onDelete?.(bookmark.id)}
+                  className="h-8 w-8 p-0 hover:bg-destructive/20 text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      
+      {/* Enrichment status */}
+      {bookmark.enrichment_status === 'pending' && (
+        <CardContent className="pt-0">
+          <p className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Fetching title and summary...
+          </p>
+        </CardContent>
+      )}
+      {bookmark.enrichment_status === 'failed' && (
+        <CardContent className="pt-0">
+          <div className="flex items-center justify-between gap-2 rounded-md bg-destructive/10 px-3 py-2">
+            <p className="flex items-center gap-2 text-xs text-destructive min-w-0" title={bookmark.enrichment_error ?? undefined}>
+              <AlertCircle className="h-3 w-3 flex-shrink-0" />
+              <span className="truncate">Couldn't fetch details{bookmark.enrichment_error ? `: ${bookmark.enrichment_error}` : ''}</span>
+            </p>
             <Button
               variant="ghost"
               size="sm"
-              onClick={() => onDelete(bookmark.id)}
-              className="h-8 w-8 p-0 hover:bg-destructive/20 text-destructive"
+              onClick={() => onRetryEnrichment?.(bookmark)}
+              className="h-7 px-2 text-xs flex-shrink-0"
             >
-              <Trash2 className="h-4 w-4" />
+              <RotateCw className="mr-1 h-3 w-3" />
+              Retry enrichment
             </Button>
           </div>
-        </div>
-      </CardHeader>
-      
-      {/* Summary */}
-      {bookmark.summary && (
+        </CardContent>
+      )}
+
+      {/* Link health */}
+      {isBrokenLink(bookmark) && (
+        <CardContent className="pt-0">
+          <p
+            className="flex items-center gap-2 rounded-md bg-destructive/10 px-3 py-2 text-xs text-destructive"
+            title={`Failed ${bookmark.link_failure_count} check${bookmark.link_failure_count !== 1 ? 's' : ''} in a row`}
+          >
+            <Unlink className="h-3 w-3 flex-shrink-0" />
+            <Badge variant="destructive" className="px-1.5 py-0 text-[10px]">{linkLabel}</Badge>
+            <span className="truncate">Link looks broken{linkCheckedAgo ? ` · checked ${linkCheckedAgo}` : ''}</span>
+          </p>
+        </CardContent>
+      )}
+      {bookmark.link_status === 'moved' && bookmark.link_final_url && (
+        <CardContent className="pt-0">
+          <div className="flex items-center justify-between gap-2 rounded-md bg-muted px-3 py-2">
+            <p className="flex items-center gap-2 text-xs text-muted-foreground min-w-0" title={bookmark.link_final_url}>
+              <Badge variant="outline" className="px-1.5 py-0 text-[10px]">{linkLabel}</Badge>
+              <span className="truncate">Now at {bookmark.link_final_url}</span>
+            </p>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onUpdateToRedirect?.(bookmark)}
+              className="h-7 px-2 text-xs flex-shrink-0"
+            >
+              <CornerUpRight className="mr-1 h-3 w-3" />
+              Update link
+            </Button>
+          </div>
+        </CardContent>
+      )}
+
+      {/* Summary (or the matching snippet for search results) */}
+      {summary && (
         <CardContent className="pt-0">
           <p className="text-sm text-muted-foreground leading-relaxed line-clamp-3">
-            {bookmark.summary}
+            {highlights?.summary ? <HighlightedText snippet={highlights.summary} /> : summary}
+          </p>
+        </CardContent>
+      )}
+
+      {/* Key points */}
+      {bookmark.key_points.length > 0 && (
+        <CardContent className="pt-0">
+          <ul className="list-disc pl-4 space-y-1 text-xs text-muted-foreground">
+            {bookmark.key_points.slice(0, 3).map((point, index) => (
+              <li key={index} className="line-clamp-2">{point}</li>
+            ))}
+          </ul>
+        </CardContent>
+      )}
+      
+      {/* Notes */}
+      {bookmark.notes && (
+        <CardContent className="pt-0">
+          <p className="flex items-start gap-2 text-xs text-muted-foreground italic">
+            <StickyNote className="h-3 w-3 mt-0.5 flex-shrink-0" />
+            {readOnly ? (
+              <span className="line-clamp-2 whitespace-pre-line">{markdownToPlainText(bookmark.notes)}</span>
+            ) : (
+              <button
+                type="button"
+                onClick={() => onOpenAnnotations?.(bookmark)}
+                className="line-clamp-2 whitespace-pre-line text-left hover:text-foreground"
+              >
+                {markdownToPlainText(bookmark.notes)}
+              </button>
+            )}
           </p>
         </CardContent>
       )}
@@ -149,7 +383,12 @@ const BookmarkCard: React.FC<BookmarkCardProps> = ({ bookmark, onDelete }) => {
         <CardContent className="pt-0">
           <div className="flex flex-wrap gap-1">
             {bookmark.tags.slice(0, 3).map((tag, index) => (
-              <Badge key={index} variant="secondary" className="text-xs">
+              <Badge
+                key={index}
+                variant="secondary"
+                className="text-xs"
+                style={tagColors ? tagBadgeStyle(resolveTagColor(tag, tagColors)) : undefined}
+              >
                 {tag}
               </Badge>
             ))}
@@ -162,11 +401,54 @@ const BookmarkCard: React.FC<BookmarkCardProps> = ({ bookmark, onDelete }) => {
         </CardContent>
       )}
       
-      {/* Creation date */}
+      {/* Author, published and saved dates; read, favorite and archive toggles */}
       <CardContent className="pt-0">
-        <p className="text-xs text-muted-foreground">
-          Saved {format(new Date(bookmark.created_at), 'MMM d, yyyy')}
-        </p>
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground truncate">
+            {bookmark.author && <>By {bookmark.author} · </>}
+            {bookmark.published_at && <>Published {format(new Date(bookmark.published_at), 'MMM d, yyyy')} · </>}
+            Saved {format(new Date(bookmark.created_at), 'MMM d, yyyy')}
+          </p>
+          {!readOnly && (
+            <div className="flex flex-shrink-0 gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onUpdateReadingState?.(bookmark, { is_read: !bookmark.is_read })}
+                className="h-7 w-7 p-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 transition-opacity"
+                aria-label={bookmark.is_read ? 'Mark as unread' : 'Mark as read'}
+                title={bookmark.is_read ? 'Mark as unread' : 'Mark as read'}
+              >
+                {bookmark.is_read ? <CheckCircle2 className="h-4 w-4" /> : <Circle className="h-4 w-4" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onUpdateReadingState?.(bookmark, { is_favorite: !bookmark.is_favorite })}
+                className={`h-7 w-7 p-0 transition-opacity ${
+                  bookmark.is_favorite ? 'text-yellow-500' : 'opacity-0 group-hover:opacity-100 focus-visible:opacity-100'
+                }`}
+                aria-label={bookmark.is_favorite ? 'Remove from favorites' : 'Add to favorites'}
+                aria-pressed={bookmark.is_favorite}
+                title={bookmark.is_favorite ? 'Remove from favorites' : 'Add to favorites'}
+              >
+                <Star className={`h-4 w-4 ${bookmark.is_favorite ? 'fill-current' : ''}`} />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onUpdateReadingState?.(bookmark, {
+                  archived_at: bookmark.archived_at ? null : new Date().toISOString(),
+                })}
+                className="h-7 w-7 p-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 transition-opacity"
+                aria-label={bookmark.archived_at ? 'Move to inbox' : 'Archive'}
+                title={bookmark.archived_at ? 'Move to inbox' : 'Archive'}
+              >
+                {bookmark.archived_at ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+              </Button>
+            </div>
+          )}
+        </div>
       </CardContent>
     </Card>
   );
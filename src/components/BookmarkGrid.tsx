@@ -1,160 +1,434 @@
 // BookmarkGrid.tsx
-// Displays a searchable, filterable, and draggable grid of all bookmarks for the current user.
-// Handles fetching, filtering, tag management, and drag-and-drop reordering.
+// Displays a searchable, filterable, and draggable grid of the bookmarks in the open space (a workspace, or the user's own).
+// Handles query-language search (local preview + server), tag filtering, and drag-and-drop reordering; data comes from use-bookmarks.
+// Must be rendered inside a DndContext (provided by the Index page) so cards can also be dropped on collections.
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { Search, Filter } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ToastAction } from '@/components/ui/toast';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Search, Filter, Loader2, AlertCircle, CheckSquare } from 'lucide-react';
 import BookmarkCard from './BookmarkCard';
+import EditBookmarkDialog, { EditConflict } from './EditBookmarkDialog';
+import BulkActionBar from './BulkActionBar';
+import ExportBookmarksDialog from './ExportBookmarksDialog';
+import SnapshotDialog from './SnapshotDialog';
+import AnnotationsPanel from './AnnotationsPanel';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
 import { toast } from '@/hooks/use-toast';
 import {
-  DndContext,
-  closestCenter,
-  KeyboardSensor,
-  PointerSensor,
-  useSensor,
-  useSensors,
-  DragEndEvent,
-} from '@dnd-kit/core';
+  useBookmarkCache,
+  useBookmarks,
+  useBookmarkSearch,
+  useReorderBookmarks,
+  useRestoreBookmarks,
+  useTrashBookmarks,
+  useUpdateBookmark,
+  useUpdateReadingState,
+} from '@/hooks/use-bookmarks';
+import { useDndMonitor, DragEndEvent } from '@dnd-kit/core';
 import {
-  arrayMove,
   SortableContext,
-  sortableKeyboardCoordinates,
   rectSortingStrategy,
 } from '@dnd-kit/sortable';
+import { COLLECTION_DROP_PREFIX } from '@/lib/collections';
+import { Bookmark, BOOKMARK_COLUMNS, toBookmark } from '@/lib/bookmarks';
+import { ENRICHMENT_POLL_LIMIT, ENRICHMENT_POLL_MS, requeueEnrichment, retryEnrichment } from '@/lib/enrichment';
+import { moveBookmarks, openInTabs, updateBookmarkTags } from '@/lib/bulk-actions';
+import { checkLinks, isBrokenLink, updateToRedirectTarget } from '@/lib/link-health';
+import { TRASH_RETENTION_DAYS } from '@/lib/trash';
+import { BOOKMARK_VIEWS, BookmarkView, isInView, loadAutoMarkRead, ReadingState } from '@/lib/reading-state';
+import { BookmarkEditValues } from '@/lib/bookmark-edit';
+import { collectTags, countTags, resolveTagColor, tagBadgeStyle, tagMatches } from '@/lib/tags';
+import { parseSearchQuery, matchesSearchQuery } from '@/lib/search-query';
+import { canEditBookmarks, inSpace } from '@/lib/workspaces';
+import { BookmarkSubscription, subscribeToBookmarks } from '@/lib/bookmark-sync';
+import { planMove } from '@/lib/bookmark-order';
 
-interface Bookmark {
-  id: string;
-  url: string;
-  title: string;
-  favicon_url: string | null;
-  summary: string | null;
-  tags: string[];
-  created_at: string;
-  position: number;
-}
+// Delay before a typed search is sent to the server
+const SEARCH_DEBOUNCE_MS = 250;
+// How long a card opened from elsewhere (e.g. "Open existing") stays highlighted
+const FOCUS_HIGHLIGHT_MS = 2500;
 
 interface BookmarkGridProps {
-  refreshTrigger: number;
+  // Only show bookmarks in this collection; null shows every bookmark
+  collectionId: string | null;
+  // Called with the bookmarks left after search and tag filters, e.g. for exporting the current view
+  onVisibleBookmarksChange?: (bookmarks: Bookmark[]) => void;
+  // Bookmark to scroll to and highlight, clearing filters that hide it
+  focusBookmarkId?: string | null;
+  // Called once the focused bookmark has been shown
+  onFocusHandled?: () => void;
+}
+
+// Bookmark open in the edit dialog, with the user's unsaved values after a failed save
+interface EditingState {
+  bookmark: Bookmark;
+  draft?: BookmarkEditValues;
+  conflict?: EditConflict;
 }
 
 /**
- * BookmarkGrid fetches and displays all bookmarks for the current user.
- * - Allows searching and filtering by tags.
- * - Supports drag-and-drop reordering (with persistence to the database).
+ * BookmarkGrid displays the bookmarks of the open workspace, or the user's own bookmarks in the selected collection.
+ * - Reads and changes bookmarks through the React Query hooks in use-bookmarks.ts, so changes show at once
+ *   and are rolled back if they fail.
+ * - Viewers of a workspace get read-only cards: no editing, selection, reordering or reading state.
+ * - Parses the search box with the query language (tag:, site:, before:, after:, is:, "phrases", OR, -).
+ *   Matches are previewed locally while typing, then replaced by ranked server results with snippets.
+ * - Tabs for the inbox, favorites, archive and everything, on top of the search and tag filters.
+ * - Filters by tags (a parent tag includes its nested tags), shown in the colors set in the tag manager.
+ * - Supports drag-and-drop reordering while not searching, also in filtered views. A move saves only the
+ *   moved bookmark, placed between its visible neighbours.
+ * - Deletes move bookmarks to the trash, with an undo action on the toast.
+ * - Edits bookmarks in a dialog, showing the change at once and reopening the dialog if the save fails or conflicts.
+ * - Selection mode: checkboxes on cards, shift-click to select a range, select all in the current view,
+ *   and a bulk action bar whose actions each take a single request.
+ * - Scrolls to and briefly highlights a bookmark opened from elsewhere, e.g. the add form's duplicate warning.
+ * - Marks bookmarks read, favorite or archived from their cards; opening a link marks it read unless
+ *   that's turned off.
+ * - Checks the selected bookmarks' links on demand, and updates a moved link to its new address.
+ * - Polls bookmarks that are still being enriched so their cards update live, and retries failed ones.
+ * - Merges bookmarks added, changed, reordered or deleted in other tabs and on other devices as it happens,
+ *   and refetches after the live connection drops.
  * - Shows loading and empty states.
  */
-const BookmarkGrid: React.FC<BookmarkGridProps> = ({ refreshTrigger }) => {
+const BookmarkGrid: React.FC<BookmarkGridProps> = ({
+  collectionId,
+  onVisibleBookmarksChange,
+  focusBookmarkId,
+  onFocusHandled,
+}) => {
   const { user } = useAuth();
-  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
-  const [filteredBookmarks, setFilteredBookmarks] = useState<Bookmark[]>([]);
+  const { activeWorkspace } = useWorkspace();
+  const workspaceId = activeWorkspace?.id ?? null;
+  const canEdit = canEditBookmarks(activeWorkspace);
+  const listFilter = useMemo(
+    () => (user ? { userId: user.id, workspaceId, collectionId } : null),
+    [user, workspaceId, collectionId]
+  );
+  const bookmarksQuery = useBookmarks(listFilter);
+  const bookmarks = useMemo(() => bookmarksQuery.data ?? [], [bookmarksQuery.data]);
+  const bookmarkCache = useBookmarkCache();
+  const updateBookmark = useUpdateBookmark();
+  const updateReadingState = useUpdateReadingState();
+  const trashBookmarks = useTrashBookmarks();
+  const restoreBookmarks = useRestoreBookmarks();
+  const reorderBookmarks = useReorderBookmarks();
   const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  // Ranked matches from the server for the debounced query
+  const searchQuery = useBookmarkSearch(listFilter, debouncedSearch);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
-  const [allTags, setAllTags] = useState<string[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-
-  // Set up drag-and-drop sensors
-  const sensors = useSensors(
-    useSensor(PointerSensor),
-    useSensor(KeyboardSensor, {
-      coordinateGetter: sortableKeyboardCoordinates,
-    })
+  const [view, setView] = useState<BookmarkView>('inbox');
+  // Colors from the tags table, by tag name
+  const [tagColors, setTagColors] = useState<Map<string, string | null>>(new Map());
+  const [editing, setEditing] = useState<EditingState | null>(null);
+  // Selection mode shows a checkbox on every card and the bulk action bar
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Last card clicked, where a shift-click range starts
+  const selectionAnchorRef = useRef<string | null>(null);
+  const [isBulkBusy, setIsBulkBusy] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  // Bookmark whose archived copy is open
+  const [snapshotBookmark, setSnapshotBookmark] = useState<Bookmark | null>(null);
+  // Bookmark whose notes and highlights panel is open
+  const [annotationsBookmark, setAnnotationsBookmark] = useState<Bookmark | null>(null);
+  // Live changes for the open space
+  const syncRef = useRef<BookmarkSubscription | null>(null);
+
+  // Report a failed load; the query has already retried
+  useEffect(() => {
+    if (!bookmarksQuery.error) return;
+    toast({
+      title: "Error loading bookmarks",
+      description: bookmarksQuery.error.message,
+      variant: "destructive",
+    });
+  }, [bookmarksQuery.error]);
+
+  // Unique tags for the filter bar, and how often each is used for tag suggestions
+  const allTags = useMemo(() => collectTags(bookmarks), [bookmarks]);
+  const tagVocabulary = useMemo(() => countTags(bookmarks), [bookmarks]);
+  // Bookmarks the link checker found broken, for the is:broken shortcut
+  const brokenCount = useMemo(() => bookmarks.filter(isBrokenLink).length, [bookmarks]);
+  // Unread bookmarks in this collection's inbox, shown on the Inbox tab
+  const inboxUnreadCount = useMemo(
+    () => bookmarks.filter(bookmark => !bookmark.is_read && isInView(bookmark, 'inbox')).length,
+    [bookmarks]
   );
 
-  // Fetch bookmarks from Supabase for the current user
-  const fetchBookmarks = async () => {
+  // Fetch the open space's tag colors, set in the tag manager
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchTagColors = async () => {
+      const query = supabase.from('tags').select('name, color');
+      const { data, error } = await inSpace(query, user.id, workspaceId);
+      if (error) {
+        console.error('Error loading tag colors:', error);
+        return;
+      }
+      setTagColors(new Map((data || []).map(tag => [tag.name, tag.color])));
+    };
+
+    fetchTagColors();
+  }, [user, workspaceId]);
+
+  // Merge changes made in other tabs and on other devices into the cached bookmarks
+  useEffect(() => {
     if (!user) return;
 
+    const subscription = subscribeToBookmarks(user.id, workspaceId, {
+      onUpsert: (bookmark) => bookmarkCache.upsert(bookmark, workspaceId),
+      onRemove: (ids) => bookmarkCache.remove(ids),
+      onResync: () => bookmarkCache.invalidate(),
+    });
+    syncRef.current = subscription;
+    return () => {
+      subscription.unsubscribe();
+      syncRef.current = null;
+    };
+  }, [user, workspaceId, bookmarkCache]);
+
+  // Filters and selections don't carry over to another space
+  useEffect(() => {
+    setSelectedTags([]);
+    setSelectionMode(false);
+    setSelectedIds(new Set());
+  }, [workspaceId]);
+
+  // Debounce the search input so the server is queried once the user pauses typing
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  // Parse the query as it's typed, for the local preview and inline error hints
+  const parsedQuery = useMemo(() => parseSearchQuery(searchTerm), [searchTerm]);
+  const isSearchActive = parsedQuery.ast !== null;
+
+  useEffect(() => {
+    if (!searchQuery.error) return;
+    toast({
+      title: "Error searching bookmarks",
+      description: searchQuery.error.message,
+      variant: "destructive",
+    });
+  }, [searchQuery.error]);
+
+  // Server results for the current query, if they have arrived
+  const currentResults = isSearchActive && debouncedSearch === searchTerm.trim() ? searchQuery.data ?? null : null;
+  const isSearching = isSearchActive && searchQuery.isFetching;
+
+  // Bookmarks (search results, or the local preview while they load) filtered by tab and selected tags
+  const filteredBookmarks = useMemo(() => {
+    let filtered = currentResults?.bookmarks
+      ?? (parsedQuery.ast ? bookmarks.filter(bookmark => matchesSearchQuery(parsedQuery.ast!, bookmark)) : bookmarks);
+
+    filtered = filtered.filter(bookmark => isInView(bookmark, view));
+
+    // Filter by selected tags; a parent tag also matches its nested tags
+    if (selectedTags.length > 0) {
+      filtered = filtered.filter(bookmark =>
+        selectedTags.some(selected => bookmark.tags.some(tag => tagMatches(tag, selected)))
+      );
+    }
+
+    return filtered;
+  }, [bookmarks, currentResults, parsedQuery, selectedTags, view]);
+
+  // Report the visible bookmarks to the parent
+  useEffect(() => {
+    onVisibleBookmarksChange?.(filteredBookmarks);
+  }, [filteredBookmarks, onVisibleBookmarksChange]);
+
+  // Undo a delete by restoring the bookmarks from the trash
+  const handleUndoTrash = async (removed: Bookmark[]) => {
     try {
-      const { data, error } = await supabase
-        .from('bookmarks')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('position', { ascending: true });
-
-      if (error) throw error;
-
-      // Ensure position exists for all bookmarks
-      const bookmarksWithOrder = (data || []).map((bookmark, index) => ({
-        ...bookmark,
-        position: bookmark.position ?? index,
-      }));
-
-      setBookmarks(bookmarksWithOrder);
-      
-      // Extract all unique tags
-      const tags = new Set<string>();
-      data?.forEach(bookmark => {
-        bookmark.tags?.forEach((tag: string) => tags.add(tag));
+      await restoreBookmarks.mutateAsync(removed.map(bookmark => bookmark.id));
+      toast({
+        title: removed.length === 1 ? "Bookmark restored" : "Bookmarks restored",
+        description: removed.length === 1
+          ? `"${removed[0].title}" is back in your collection.`
+          : `${removed.length} bookmarks are back in your collection.`,
       });
-      setAllTags(Array.from(tags).sort());
-    } catch (error: any) {
+    } catch (error) {
       toast({
-        title: "Error loading bookmarks",
-        description: error.message,
+        title: "Error restoring bookmarks",
+        description: (error as Error).message,
         variant: "destructive",
       });
-    } finally {
-      setIsLoading(false);
     }
   };
 
-  // Fetch bookmarks when user or refreshTrigger changes
-  useEffect(() => {
-    fetchBookmarks();
-  }, [user, refreshTrigger]);
-
-  // Filter bookmarks by search term and selected tags
-  useEffect(() => {
-    let filtered = bookmarks;
+  // Move bookmarks to the trash in one request, with an undo action on the toast
+  const handleTrash = async (ids: string[]) => {
+    const targets = new Set(ids);
+    const removed = [...bookmarks, ...(searchQuery.data?.bookmarks ?? [])]
+      .filter((bookmark, index, all) => targets.has(bookmark.id) && all.findIndex(item => item.id === bookmark.id) === index);
+    if (removed.length === 0) return;
 
-    // Filter by search term
-    if (searchTerm) {
-      filtered = filtered.filter(bookmark =>
-        bookmark.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        bookmark.url.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        bookmark.summary?.toLowerCase().includes(searchTerm.toLowerCase())
-      );
+    try {
+      const count = await trashBookmarks.mutateAsync(ids);
+      syncRef.current?.announceTrashed(ids);
+      toast({
+        title: count === 1 ? "Moved to trash" : `${count} bookmarks moved to trash`,
+        description: `Deleted permanently after ${TRASH_RETENTION_DAYS} days.`,
+        action: (
+          <ToastAction altText="Undo delete" onClick={() => handleUndoTrash(removed)}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    } catch (error) {
+      toast({
+        title: "Error deleting bookmarks",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
     }
+  };
 
-    // Filter by selected tags
-    if (selectedTags.length > 0) {
-      filtered = filtered.filter(bookmark =>
-        selectedTags.some(tag => bookmark.tags.includes(tag))
-      );
-    }
+  // Move a single bookmark to the trash
+  const handleDeleteBookmark = (id: string) => handleTrash([id]);
 
-    setFilteredBookmarks(filtered);
-  }, [bookmarks, searchTerm, selectedTags]);
+  // Save an edit optimistically; the dialog reopens with the user's values if the save doesn't go through
+  const handleSaveEdit = async (base: Bookmark, values: BookmarkEditValues, { force }: { force: boolean }) => {
+    setEditing(null);
 
-  // Delete a bookmark by id
-  const handleDeleteBookmark = async (id: string) => {
     try {
-      const { error } = await supabase
+      const result = await updateBookmark.mutateAsync({ base, values, force });
+      if (result.status === 'conflict') {
+        setEditing({ bookmark: base, draft: values, conflict: { latest: result.latest, fields: result.fields } });
+        return;
+      }
+      toast({
+        title: "Bookmark updated",
+        description: "Your changes have been saved.",
+      });
+    } catch (error) {
+      setEditing({ bookmark: base, draft: values });
+      toast({
+        title: "Error saving bookmark",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Ids of bookmarks the enrichment worker hasn't finished yet, as a stable key for the polling effect.
+  // Capped so a long queue (e.g. after re-running enrichment on many bookmarks) keeps requests short.
+  const pendingIds = useMemo(
+    () => [...bookmarks, ...(searchQuery.data?.bookmarks ?? [])]
+      .filter(bookmark => bookmark.enrichment_status === 'pending')
+      .map(bookmark => bookmark.id)
+      .filter((id, index, ids) => ids.indexOf(id) === index)
+      .slice(0, ENRICHMENT_POLL_LIMIT)
+      .join(','),
+    [bookmarks, searchQuery.data]
+  );
+
+  // Re-fetch pending bookmarks until the worker has filled them in
+  useEffect(() => {
+    if (!pendingIds) return;
+
+    const interval = setInterval(async () => {
+      const { data, error } = await supabase
         .from('bookmarks')
-        .delete()
-        .eq('id', id)
-        .eq('user_id', user?.id);
+        .select(BOOKMARK_COLUMNS)
+        .in('id', pendingIds.split(','))
+        .neq('enrichment_status', 'pending');
+
+      if (error || !data || data.length === 0) return;
+
+      const updates = new Map(data.map(row => [row.id, row]));
+      bookmarkCache.update(bookmark => {
+        const row = updates.get(bookmark.id);
+        return row ? { ...toBookmark(row, bookmark.position), position: bookmark.position } : bookmark;
+      });
+    }, ENRICHMENT_POLL_MS);
 
-      if (error) throw error;
+    return () => clearInterval(interval);
+  }, [pendingIds, bookmarkCache]);
 
-      setBookmarks(prev => prev.filter(b => b.id !== id));
+  // Queue a bookmark for enrichment again after it failed
+  const handleRetryEnrichment = async (bookmark: Bookmark) => {
+    bookmarkCache.update(item =>
+      item.id === bookmark.id ? { ...item, enrichment_status: 'pending', enrichment_error: null } : item
+    );
+
+    try {
+      await retryEnrichment(bookmark.id, bookmark.url);
+    } catch (error) {
+      // The row is back in the queue if the reset succeeded; the scheduled worker will get to it
+      console.error('Error retrying enrichment:', error);
+    }
+  };
+
+  // Point a moved bookmark at the address it now redirects to
+  const handleUpdateToRedirect = async (bookmark: Bookmark) => {
+    try {
+      const changes = await updateToRedirectTarget(bookmark);
+      bookmarkCache.update(item => (item.id === bookmark.id ? { ...item, ...changes } : item));
       toast({
-        title: "Bookmark deleted",
-        description: "The bookmark has been removed from your collection.",
+        title: "Link updated",
+        description: `"${bookmark.title}" now points to ${changes.url}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error updating link",
+        description: (error as Error).message,
+        variant: "destructive",
       });
-    } catch (error: any) {
+    }
+  };
+
+  // Set read, favorite or archived on bookmarks, showing the change at once
+  const setReadingState = async (targets: Bookmark[], changes: Partial<ReadingState>) => {
+    await updateReadingState.mutateAsync({ ids: targets.map(bookmark => bookmark.id), changes });
+  };
+
+  // Toggle a card's read, favorite or archived state; archiving offers an undo
+  const handleUpdateReadingState = async (bookmark: Bookmark, changes: Partial<ReadingState>) => {
+    try {
+      await setReadingState([bookmark], changes);
+      if (changes.archived_at !== undefined) {
+        const archived = changes.archived_at !== null;
+        toast({
+          title: archived ? "Archived" : "Moved to inbox",
+          description: `"${bookmark.title}" ${archived ? 'was moved to the archive' : 'is back in your inbox'}.`,
+          action: (
+            <ToastAction
+              altText="Undo"
+              onClick={() => handleUpdateReadingState({ ...bookmark, ...changes }, { archived_at: bookmark.archived_at })}
+            >
+              Undo
+            </ToastAction>
+          ),
+        });
+      }
+    } catch (error) {
       toast({
-        title: "Error deleting bookmark",
-        description: error.message,
+        title: "Error updating bookmark",
+        description: (error as Error).message,
         variant: "destructive",
       });
     }
   };
 
+  // Mark bookmarks read when their links are opened, unless the user turned that off
+  const markOpened = (opened: Bookmark[]) => {
+    const unread = opened.filter(bookmark => !bookmark.is_read);
+    if (unread.length === 0 || !loadAutoMarkRead()) return;
+    setReadingState(unread, { is_read: true }).catch(error => console.error('Error marking bookmarks read:', error));
+  };
+
   // Toggle a tag in the selectedTags filter
   const toggleTag = (tag: string) => {
     setSelectedTags(prev =>
@@ -164,60 +438,225 @@ const BookmarkGrid: React.FC<BookmarkGridProps> = ({ refreshTrigger }) => {
     );
   };
 
-  // Handle drag-and-drop reordering and persist new order to the database
-  const handleDragEnd = async (event: DragEndEvent) => {
-    const { active, over } = event;
+  // Selected bookmarks, in grid order
+  const selectedBookmarks = useMemo(
+    () => filteredBookmarks.filter(bookmark => selectedIds.has(bookmark.id)),
+    [filteredBookmarks, selectedIds]
+  );
 
-    if (active.id !== over?.id) {
-      const oldIndex = filteredBookmarks.findIndex((item) => item.id === active.id);
-      const newIndex = filteredBookmarks.findIndex((item) => item.id === over?.id);
-
-      const newOrderedBookmarks = arrayMove(filteredBookmarks, oldIndex, newIndex);
-      
-      // Update local state immediately for better UX
-      setFilteredBookmarks(newOrderedBookmarks);
-      
-      // Update position in database
-      try {
-        const updates = newOrderedBookmarks.map((bookmark, index) => ({
-          id: bookmark.id,
-          position: index,
-        }));
-
-        for (const update of updates) {
-          await supabase
-            .from('bookmarks')
-            .update({ position: update.position })
-            .eq('id', update.id)
-            .eq('user_id', user?.id);
-        }
+  // Show the focused bookmark: clear the search and tag filters (and switch tabs) if they hide it, then scroll to it
+  useEffect(() => {
+    const focused = bookmarks.find(bookmark => bookmark.id === focusBookmarkId);
+    if (!focusBookmarkId || !focused) return;
+    if (!filteredBookmarks.some(bookmark => bookmark.id === focusBookmarkId)) {
+      setSearchTerm('');
+      setSelectedTags([]);
+      if (!isInView(focused, view)) setView('all');
+      return;
+    }
 
-        // Update the main bookmarks array to maintain consistency
-        setBookmarks(prev => {
-          const updated = [...prev];
-          newOrderedBookmarks.forEach((bookmark, index) => {
-            const bookmarkIndex = updated.findIndex(b => b.id === bookmark.id);
-            if (bookmarkIndex !== -1) {
-              updated[bookmarkIndex] = { ...bookmark, position: index };
-            }
-          });
-          return updated.sort((a, b) => a.position - b.position);
-        });
+    document.getElementById(`bookmark-${focusBookmarkId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedId(focusBookmarkId);
+    onFocusHandled?.();
+  }, [focusBookmarkId, bookmarks, filteredBookmarks, view, onFocusHandled]);
 
-      } catch (error: any) {
-        toast({
-          title: "Error updating order",
-          description: error.message,
-          variant: "destructive",
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timeout = setTimeout(() => setHighlightedId(null), FOCUS_HIGHLIGHT_MS);
+    return () => clearTimeout(timeout);
+  }, [highlightedId]);
+
+  // Drop selected bookmarks that are no longer shown, so bulk actions only touch what's visible
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const visible = new Set(filteredBookmarks.map(bookmark => bookmark.id));
+      const next = new Set([...prev].filter(id => visible.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [filteredBookmarks]);
+
+  const exitSelectionMode = () => {
+    setSelectionMode(false);
+    setSelectedIds(new Set());
+    selectionAnchorRef.current = null;
+  };
+
+  // Escape leaves selection mode, unless a dialog or popover is open to handle it
+  useEffect(() => {
+    if (!selectionMode) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape' || document.querySelector('[role="dialog"], [role="alertdialog"], [role="menu"]')) return;
+      setSelectionMode(false);
+      setSelectedIds(new Set());
+      selectionAnchorRef.current = null;
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectionMode]);
+
+  // Toggle one card; with shift held, give every card between it and the last one clicked the same state
+  const handleToggleSelect = (id: string, shiftKey: boolean) => {
+    setSelectionMode(true);
+    const ids = filteredBookmarks.map(bookmark => bookmark.id);
+    const anchor = selectionAnchorRef.current;
+    const from = anchor ? ids.indexOf(anchor) : -1;
+    const to = ids.indexOf(id);
+    selectionAnchorRef.current = id;
+
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (shiftKey && from !== -1 && to !== -1) {
+        const select = prev.has(anchor!);
+        ids.slice(Math.min(from, to), Math.max(from, to) + 1).forEach(rangeId => {
+          if (select) {
+            next.add(rangeId);
+          } else {
+            next.delete(rangeId);
+          }
         });
-        // Revert on error
-        setFilteredBookmarks(arrayMove(newOrderedBookmarks, newIndex, oldIndex));
+      } else if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
       }
+      return next;
+    });
+  };
+
+  // Runs a bulk request, reporting failures in a toast
+  const runBulkAction = async (errorTitle: string, action: () => Promise<void>) => {
+    setIsBulkBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: errorTitle,
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsBulkBusy(false);
     }
   };
 
+  const handleBulkDelete = () => {
+    const ids = selectedBookmarks.map(bookmark => bookmark.id);
+    exitSelectionMode();
+    handleTrash(ids);
+  };
+
+  const handleBulkTags = (change: { add?: string[]; remove?: string[] }) =>
+    runBulkAction("Error updating tags", async () => {
+      const updated = await updateBookmarkTags(selectedBookmarks.map(bookmark => bookmark.id), change);
+      bookmarkCache.update(bookmark => (updated.has(bookmark.id) ? { ...bookmark, tags: updated.get(bookmark.id)! } : bookmark));
+      const tags = (change.add ?? change.remove ?? []).join(', ');
+      toast({
+        title: "Tags updated",
+        description: `${change.add ? 'Added' : 'Removed'} ${tags} on ${updated.size} bookmark${updated.size !== 1 ? 's' : ''}.`,
+      });
+    });
+
+  const handleBulkMove = (targetId: string | null) =>
+    runBulkAction("Error moving bookmarks", async () => {
+      const ids = selectedBookmarks.map(bookmark => bookmark.id);
+      await moveBookmarks(ids, targetId);
+      // Bookmarks moved out of a collection leave its list
+      bookmarkCache.update((bookmark, filter) => {
+        if (!ids.includes(bookmark.id)) return bookmark;
+        return filter.collectionId && filter.collectionId !== targetId ? null : { ...bookmark, collection_id: targetId };
+      });
+      toast({
+        title: "Bookmarks moved",
+        description: `${ids.length} bookmark${ids.length !== 1 ? 's' : ''} ${targetId ? 'moved to the collection' : 'removed from their collection'}.`,
+      });
+    });
+
+  const handleBulkReenrich = () =>
+    runBulkAction("Error queueing enrichment", async () => {
+      const ids = new Set(selectedBookmarks.map(bookmark => bookmark.id));
+      await requeueEnrichment(selectedBookmarks);
+      // Marked pending locally so the cards show progress and get polled
+      bookmarkCache.update(bookmark =>
+        ids.has(bookmark.id) ? { ...bookmark, enrichment_status: 'pending', enrichment_error: null } : bookmark
+      );
+      toast({
+        title: "Enrichment queued",
+        description: `${ids.size} bookmark${ids.size !== 1 ? 's' : ''} will be refreshed in the background.`,
+      });
+    });
+
+  const handleBulkCheckLinks = () =>
+    runBulkAction("Error checking links", async () => {
+      const health = await checkLinks(selectedBookmarks.map(bookmark => bookmark.id));
+      bookmarkCache.update(bookmark => (health.has(bookmark.id) ? { ...bookmark, ...health.get(bookmark.id)! } : bookmark));
+      const results = Array.from(health.values());
+      const broken = results.filter(isBrokenLink).length;
+      const moved = results.filter(result => result.link_status === 'moved').length;
+      toast({
+        title: "Links checked",
+        description: `${results.length} checked: ${broken} broken, ${moved} moved.`,
+      });
+    });
+
+  const handleOpenAll = () => {
+    const blocked = openInTabs(selectedBookmarks.map(bookmark => bookmark.url));
+    markOpened(selectedBookmarks);
+    if (blocked > 0) {
+      toast({
+        title: "Some tabs were blocked",
+        description: `Your browser blocked ${blocked} of ${selectedBookmarks.length} tabs. Allow pop-ups for this site and try again.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Handle drag-and-drop reordering and persist the move to the database
+  const handleDragEnd = async (event: DragEndEvent) => {
+    const { active, over } = event;
+
+    // Drops onto a collection are handled by CollectionSidebar
+    if (!over || String(over.id).startsWith(COLLECTION_DROP_PREFIX)) return;
+
+    // Neighbours come from the view as shown; bookmarks hidden by filters keep their place
+    const move = planMove(filteredBookmarks, String(active.id), String(over.id));
+    if (!move) return;
+
+    // The grid shows the new order at once and goes back to the old one if it can't be saved
+    try {
+      await reorderBookmarks.mutateAsync(move);
+    } catch (error) {
+      toast({
+        title: "Error updating order",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  useDndMonitor({ onDragEnd: handleDragEnd });
+
+  // Empty grid message for the current filters and tab
+  const getEmptyState = () => {
+    if (searchTerm || selectedTags.length > 0) {
+      return { title: 'No bookmarks found', hint: 'Try adjusting your search criteria' };
+    }
+    if (bookmarks.length > 0 && view === 'favorites') {
+      return { title: 'No favorites yet', hint: 'Star a bookmark to find it here' };
+    }
+    if (bookmarks.length > 0 && view === 'archive') {
+      return { title: 'Nothing archived yet', hint: 'Archive bookmarks you want to keep for reference' };
+    }
+    if (bookmarks.length > 0 && view === 'inbox') {
+      return { title: 'Inbox zero', hint: 'Everything here has been archived' };
+    }
+    return collectionId
+      ? { title: 'This collection is empty', hint: 'Add a bookmark above or drag one onto this folder in the sidebar' }
+      : { title: 'No bookmarks yet', hint: 'Start by adding your first bookmark above' };
+  };
+  const emptyState = getEmptyState();
+
   // Show loading skeletons while bookmarks are loading
-  if (isLoading) {
+  if (bookmarksQuery.isPending) {
     return (
       <div className="space-y-6">
         <div className="h-10 bg-muted rounded-lg animate-pulse" />
@@ -234,16 +673,52 @@ const BookmarkGrid: React.FC<BookmarkGridProps> = ({ refreshTrigger }) => {
     <div className="space-y-6">
       {/* Search and Filters */}
       <div className="space-y-4">
+        {/* Inbox / Favorites / Archive / All */}
+        <Tabs value={view} onValueChange={(value) => setView(value as BookmarkView)}>
+          <TabsList className="glass">
+            {BOOKMARK_VIEWS.map(({ value, label }) => (
+              <TabsTrigger key={value} value={value}>
+                {label}
+                {value === 'inbox' && inboxUnreadCount > 0 && (
+                  <Badge variant="secondary" className="ml-2 px-1.5 py-0 text-[10px]">
+                    {inboxUnreadCount}
+                  </Badge>
+                )}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
         <div className="relative">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
           <Input
-            placeholder="Search bookmarks..."
+            placeholder='Search bookmarks... e.g. rust tag:work -tag:old site:github.com "exact phrase"'
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
-            className="pl-10 glass"
+            className="pl-10 pr-10 glass"
           />
+          {isSearching && (
+            <Loader2 className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4 animate-spin" />
+          )}
         </div>
 
+        {/* Inline hints for malformed queries */}
+        {parsedQuery.errors.length > 0 && (
+          <ul className="space-y-1">
+            {parsedQuery.errors.map((error, index) => (
+              <li key={index} className="flex items-center gap-2 text-xs text-destructive">
+                <AlertCircle className="h-3 w-3 flex-shrink-0" />
+                <span>
+                  {error.message}
+                  <code className="ml-2 rounded bg-destructive/10 px-1">
+                    {searchTerm.slice(error.start, error.end)}
+                  </code>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
         {allTags.length > 0 && (
           <div className="space-y-2">
             <div className="flex items-center gap-2 text-sm font-medium">
@@ -251,16 +726,21 @@ const BookmarkGrid: React.FC<BookmarkGridProps> = ({ refreshTrigger }) => {
               Filter by tags:
             </div>
             <div className="flex flex-wrap gap-2">
-              {allTags.map(tag => (
-                <Badge
-                  key={tag}
-                  variant={selectedTags.includes(tag) ? "default" : "outline"}
-                  className="cursor-pointer hover:bg-primary/20 transition-colors"
-                  onClick={() => toggleTag(tag)}
-                >
-                  {tag}
-                </Badge>
-              ))}
+              {allTags.map(tag => {
+                const isSelected = selectedTags.includes(tag);
+                const color = resolveTagColor(tag, tagColors);
+                return (
+                  <Badge
+                    key={tag}
+                    variant={isSelected ? "default" : "outline"}
+                    className="cursor-pointer hover:bg-primary/20 transition-colors"
+                    style={isSelected && color ? { backgroundColor: color, borderColor: color, color: 'white' } : tagBadgeStyle(color)}
+                    onClick={() => toggleTag(tag)}
+                  >
+                    {tag}
+                  </Badge>
+                );
+              })}
             </div>
           </div>
         )}
@@ -272,17 +752,37 @@ const BookmarkGrid: React.FC<BookmarkGridProps> = ({ refreshTrigger }) => {
           {filteredBookmarks.length} bookmark{filteredBookmarks.length !== 1 ? 's' : ''}
           {searchTerm || selectedTags.length > 0 ? ' found' : ' total'}
         </p>
-        {(searchTerm || selectedTags.length > 0) && (
-          <button
-            onClick={() => {
-              setSearchTerm('');
-              setSelectedTags([]);
-            }}
-            className="text-sm text-primary hover:underline"
-          >
-            Clear filters
-          </button>
-        )}
+        <div className="flex items-center gap-4">
+          {brokenCount > 0 && !/\bis:broken\b/i.test(searchTerm) && (
+            <button
+              onClick={() => setSearchTerm('is:broken')}
+              className="text-sm text-destructive hover:underline"
+            >
+              {brokenCount} broken link{brokenCount !== 1 ? 's' : ''}
+            </button>
+          )}
+          {(searchTerm || selectedTags.length > 0) && (
+            <button
+              onClick={() => {
+                setSearchTerm('');
+                setSelectedTags([]);
+              }}
+              className="text-sm text-primary hover:underline"
+            >
+              Clear filters
+            </button>
+          )}
+          {filteredBookmarks.length > 0 && canEdit && (
+            <Button
+              variant={selectionMode ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => (selectionMode ? exitSelectionMode() : setSelectionMode(true))}
+            >
+              <CheckSquare className="mr-2 h-4 w-4" />
+              {selectionMode ? 'Done' : 'Select'}
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Bookmarks Grid */}
@@ -293,35 +793,98 @@ const BookmarkGrid: React.FC<BookmarkGridProps> = ({ refreshTrigger }) => {
               <Search className="h-8 w-8 text-muted-foreground" />
             </div>
             <h3 className="text-lg font-semibold mb-2">
-              {searchTerm || selectedTags.length > 0 ? 'No bookmarks found' : 'No bookmarks yet'}
+              {emptyState.title}
             </h3>
             <p className="text-muted-foreground">
-              {searchTerm || selectedTags.length > 0
-                ? 'Try adjusting your search criteria'
-                : 'Start by adding your first bookmark above'
-              }
+              {emptyState.hint}
             </p>
           </div>
         </div>
       ) : (
-        <DndContext
-          sensors={sensors}
-          collisionDetection={closestCenter}
-          onDragEnd={handleDragEnd}
+        // Results are ordered by relevance while searching, so reordering is disabled
+        <SortableContext
+          items={filteredBookmarks.map(b => b.id)}
+          strategy={rectSortingStrategy}
+          disabled={isSearchActive || !canEdit}
         >
-          <SortableContext items={filteredBookmarks.map(b => b.id)} strategy={rectSortingStrategy}>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {filteredBookmarks.map(bookmark => (
-                <BookmarkCard
-                  key={bookmark.id}
-                  bookmark={bookmark}
-                  onDelete={handleDeleteBookmark}
-                />
-              ))}
-            </div>
-          </SortableContext>
-        </DndContext>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {filteredBookmarks.map(bookmark => (
+              <BookmarkCard
+                key={bookmark.id}
+                bookmark={bookmark}
+                onDelete={handleDeleteBookmark}
+                onEdit={(item) => setEditing({ bookmark: item })}
+                onRetryEnrichment={handleRetryEnrichment}
+                onUpdateToRedirect={handleUpdateToRedirect}
+                onViewSnapshot={setSnapshotBookmark}
+                onOpenAnnotations={setAnnotationsBookmark}
+                onUpdateReadingState={handleUpdateReadingState}
+                onOpen={(item) => markOpened([item])}
+                selectionMode={selectionMode}
+                isSelected={selectedIds.has(bookmark.id)}
+                isHighlighted={highlightedId === bookmark.id}
+                onToggleSelect={handleToggleSelect}
+                tagColors={tagColors}
+                highlights={currentResults?.highlights[bookmark.id]}
+                readOnly={!canEdit}
+              />
+            ))}
+          </div>
+        </SortableContext>
+      )}
+
+      {selectionMode && (
+        <BulkActionBar
+          selected={selectedBookmarks}
+          visibleCount={filteredBookmarks.length}
+          tagVocabulary={tagVocabulary}
+          isBusy={isBulkBusy}
+          onSelectAll={() => setSelectedIds(new Set(filteredBookmarks.map(bookmark => bookmark.id)))}
+          onClear={exitSelectionMode}
+          onDelete={handleBulkDelete}
+          onAddTags={(tags) => handleBulkTags({ add: tags })}
+          onRemoveTags={(tags) => handleBulkTags({ remove: tags })}
+          onMove={workspaceId ? undefined : handleBulkMove}
+          onReenrich={handleBulkReenrich}
+          onCheckLinks={handleBulkCheckLinks}
+          onExport={() => setIsExportOpen(true)}
+          onOpenAll={handleOpenAll}
+        />
       )}
+
+      <ExportBookmarksDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        currentView={filteredBookmarks}
+        selection={selectedBookmarks}
+      />
+
+      <EditBookmarkDialog
+        bookmark={editing?.bookmark ?? null}
+        draft={editing?.draft}
+        conflict={editing?.conflict}
+        tagVocabulary={tagVocabulary}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSave={handleSaveEdit}
+      />
+
+      <SnapshotDialog
+        bookmark={snapshotBookmark}
+        onOpenChange={(open) => !open && setSnapshotBookmark(null)}
+        onArchived={(id, fetchedAt) =>
+          bookmarkCache.update(bookmark => (bookmark.id === id ? { ...bookmark, last_snapshot_at: fetchedAt } : bookmark))
+        }
+      />
+
+      <AnnotationsPanel
+        bookmark={annotationsBookmark}
+        onOpenChange={(open) => !open && setAnnotationsBookmark(null)}
+        onNotesSaved={(id, notes, updatedAt) => {
+          const patch = (bookmark: Bookmark) => (bookmark.id === id ? { ...bookmark, notes, updated_at: updatedAt } : bookmark);
+          bookmarkCache.update(patch);
+          setAnnotationsBookmark(prev => prev && patch(prev));
+        }}
+      />
     </div>
   );
 };
@@ -0,0 +1,291 @@
+// BulkActionBar.tsx
+// Floating bar shown while bookmarks are selected in the grid, with actions that apply to the whole selection.
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import {
+  CheckSquare,
+  Download,
+  ExternalLink,
+  Folder,
+  FolderInput,
+  HeartPulse,
+  Library,
+  RotateCw,
+  Tag as TagIcon,
+  Trash2,
+  X,
+} from 'lucide-react';
+import TagInput from './TagInput';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Bookmark } from '@/lib/bookmarks';
+import { Collection, CollectionNode, buildCollectionTree } from '@/lib/collections';
+import { OPEN_ALL_CONFIRM_THRESHOLD } from '@/lib/bulk-actions';
+import { canonicalTag, countTags, suggestTags } from '@/lib/tags';
+
+interface BulkActionBarProps {
+  selected: Bookmark[];
+  // Number of bookmarks in the current view, for "select all"
+  visibleCount: number;
+  // How often each tag is used, for tag suggestions
+  tagVocabulary: Map<string, number>;
+  // True while a bulk request is running
+  isBusy: boolean;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onDelete: () => void;
+  onAddTags: (tags: string[]) => void;
+  onRemoveTags: (tags: string[]) => void;
+  // Omitted where there are no collections to move to, e.g. in a workspace
+  onMove?: (collectionId: string | null) => void;
+  onReenrich: () => void;
+  onCheckLinks: () => void;
+  onExport: () => void;
+  onOpenAll: () => void;
+}
+
+// Flattens the collection tree into menu rows, indented by depth
+const flattenCollections = (nodes: CollectionNode[], depth = 0): { collection: Collection; depth: number }[] =>
+  nodes.flatMap(node => [{ collection: node, depth }, ...flattenCollections(node.children, depth + 1)]);
+
+/**
+ * BulkActionBar acts on every selected bookmark at once.
+ * - Delete (to the trash), add tags, remove tags, move to a collection, re-run enrichment,
+ *   check links, export the selection and open every link in a new tab.
+ * - Asks before opening more than OPEN_ALL_CONFIRM_THRESHOLD tabs.
+ */
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selected,
+  visibleCount,
+  tagVocabulary,
+  isBusy,
+  onSelectAll,
+  onClear,
+  onDelete,
+  onAddTags,
+  onRemoveTags,
+  onMove,
+  onReenrich,
+  onCheckLinks,
+  onExport,
+  onOpenAll,
+}) => {
+  const { user } = useAuth();
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [tagsToAdd, setTagsToAdd] = useState<string[]>([]);
+  const [isAddTagsOpen, setIsAddTagsOpen] = useState(false);
+  const [isOpenAllConfirmOpen, setIsOpenAllConfirmOpen] = useState(false);
+
+  // Collections for the "Move to" menu
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchCollections = async () => {
+      const { data, error } = await supabase
+        .from('collections')
+        .select('id, name, parent_id, position')
+        .eq('user_id', user.id);
+      if (error) {
+        console.error('Error loading collections:', error);
+        return;
+      }
+      setCollections(data || []);
+    };
+
+    fetchCollections();
+  }, [user]);
+
+  const collectionRows = useMemo(() => flattenCollections(buildCollectionTree(collections)), [collections]);
+  // Tags on the selected bookmarks, most common first, for "Remove tags"
+  const selectedTags = useMemo(
+    () => Array.from(countTags(selected)).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])),
+    [selected]
+  );
+
+  const getTagSuggestions = useCallback(
+    (query: string) => suggestTags(query, tagVocabulary, {}, tagsToAdd),
+    [tagVocabulary, tagsToAdd]
+  );
+  const normalizeTag = useCallback((tag: string) => canonicalTag(tag, tagVocabulary.keys()), [tagVocabulary]);
+
+  const handleAddTags = () => {
+    if (tagsToAdd.length === 0) return;
+    onAddTags(tagsToAdd);
+    setTagsToAdd([]);
+    setIsAddTagsOpen(false);
+  };
+
+  const handleOpenAll = () => {
+    if (selected.length > OPEN_ALL_CONFIRM_THRESHOLD) {
+      setIsOpenAllConfirmOpen(true);
+    } else {
+      onOpenAll();
+    }
+  };
+
+  const count = selected.length;
+
+  return (
+    <div className="glass-card fixed bottom-6 left-1/2 z-50 flex max-w-[calc(100vw-2rem)] -translate-x-1/2 flex-wrap items-center gap-1 rounded-lg border border-glass-border px-3 py-2 shadow-lg">
+      <span className="px-2 text-sm font-medium whitespace-nowrap">
+        {count} selected
+      </span>
+      {count < visibleCount && (
+        <Button variant="ghost" size="sm" onClick={onSelectAll} disabled={isBusy}>
+          <CheckSquare className="mr-2 h-4 w-4" />
+          Select all {visibleCount}
+        </Button>
+      )}
+      <Separator orientation="vertical" className="mx-1 h-6" />
+
+      {/* Add tags */}
+      <Popover open={isAddTagsOpen} onOpenChange={setIsAddTagsOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" disabled={isBusy || count === 0}>
+            <TagIcon className="mr-2 h-4 w-4" />
+            Add tags
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="glass-card w-80 space-y-3" side="top">
+          <TagInput
+            value={tagsToAdd}
+            onChange={setTagsToAdd}
+            getSuggestions={getTagSuggestions}
+            normalize={normalizeTag}
+            placeholder="Tags to add"
+          />
+          <Button size="sm" className="btn-primary w-full" onClick={handleAddTags} disabled={tagsToAdd.length === 0}>
+            Add to {count} bookmark{count !== 1 ? 's' : ''}
+          </Button>
+        </PopoverContent>
+      </Popover>
+
+      {/* Remove tags */}
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" disabled={isBusy || selectedTags.length === 0}>
+            <X className="mr-2 h-4 w-4" />
+            Remove tags
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="glass-card w-80 space-y-2" side="top">
+          <p className="text-xs text-muted-foreground">Click a tag to remove it from the selected bookmarks.</p>
+          <div className="flex flex-wrap gap-1">
+            {selectedTags.map(([tag, usage]) => (
+              <Badge
+                key={tag}
+                variant="outline"
+                className="cursor-pointer hover:bg-destructive/20 transition-colors"
+                onClick={() => onRemoveTags([tag])}
+              >
+                {tag} ({usage})
+              </Badge>
+            ))}
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {/* Move to collection */}
+      {onMove && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" disabled={isBusy || count === 0}>
+              <FolderInput className="mr-2 h-4 w-4" />
+              Move to
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent className="glass-card max-h-72 overflow-y-auto" side="top">
+            <DropdownMenuLabel>Move to collection</DropdownMenuLabel>
+            <DropdownMenuItem onSelect={() => onMove(null)}>
+              <Library className="mr-2 h-4 w-4" />
+              No collection
+            </DropdownMenuItem>
+            {collectionRows.length > 0 && <DropdownMenuSeparator />}
+            {collectionRows.map(({ collection, depth }) => (
+              <DropdownMenuItem
+                key={collection.id}
+                onSelect={() => onMove(collection.id)}
+                style={{ paddingLeft: `${0.5 + depth}rem` }}
+              >
+                <Folder className="mr-2 h-4 w-4" />
+                {collection.name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      <Button variant="ghost" size="sm" onClick={onReenrich} disabled={isBusy || count === 0}>
+        <RotateCw className="mr-2 h-4 w-4" />
+        Re-run enrichment
+      </Button>
+      <Button variant="ghost" size="sm" onClick={onCheckLinks} disabled={isBusy || count === 0}>
+        <HeartPulse className="mr-2 h-4 w-4" />
+        Check links
+      </Button>
+      <Button variant="ghost" size="sm" onClick={onExport} disabled={isBusy || count === 0}>
+        <Download className="mr-2 h-4 w-4" />
+        Export
+      </Button>
+      <Button variant="ghost" size="sm" onClick={handleOpenAll} disabled={count === 0}>
+        <ExternalLink className="mr-2 h-4 w-4" />
+        Open all
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onDelete}
+        disabled={isBusy || count === 0}
+        className="text-destructive hover:bg-destructive/20"
+      >
+        <Trash2 className="mr-2 h-4 w-4" />
+        Delete
+      </Button>
+
+      <Separator orientation="vertical" className="mx-1 h-6" />
+      <Button variant="ghost" size="sm" onClick={onClear} className="h-8 w-8 p-0" aria-label="Clear selection">
+        <X className="h-4 w-4" />
+      </Button>
+
+      {/* Confirmation before opening many tabs */}
+      <AlertDialog open={isOpenAllConfirmOpen} onOpenChange={setIsOpenAllConfirmOpen}>
+        <AlertDialogContent className="glass-card">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Open {count} tabs?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every selected link opens in a new tab. Your browser may ask you to allow pop-ups for this site.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={onOpenAll}>Open all</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default BulkActionBar;
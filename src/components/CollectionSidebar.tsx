@@ -0,0 +1,528 @@
+// CollectionSidebar.tsx
+// Sidebar tree of nested collections (folders). Handles browsing, creating, renaming, moving,
+// sharing and deleting collections, and accepts bookmark cards dropped onto a folder.
+
+import React, { useState, useEffect } from 'react';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+  SidebarMenuSub,
+} from '@/components/ui/sidebar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Collapsible, CollapsibleContent } from '@/components/ui/collapsible';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  ChevronRight,
+  Folder,
+  FolderInput,
+  FolderOpen,
+  FolderPlus,
+  Globe,
+  Library,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Share2,
+  Trash2,
+} from 'lucide-react';
+import { useDndMonitor, useDroppable, DragEndEvent } from '@dnd-kit/core';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { useCollectionCache, useCollections } from '@/hooks/use-collections';
+import {
+  Collection,
+  CollectionNode,
+  COLLECTION_DROP_PREFIX,
+  ROOT_DROP_ID,
+  buildCollectionTree,
+  getDescendantIds,
+} from '@/lib/collections';
+import ShareCollectionDialog from './ShareCollectionDialog';
+
+interface CollectionSidebarProps {
+  selectedCollectionId: string | null;
+  onSelectCollection: (id: string | null) => void;
+  onBookmarkMoved: () => void;
+}
+
+// State of the create/rename dialog
+type NameDialogState =
+  | { mode: 'create'; parentId: string | null; name: string }
+  | { mode: 'rename'; collection: Collection; name: string };
+
+interface CollectionTreeItemProps {
+  node: CollectionNode;
+  collections: Collection[];
+  selectedCollectionId: string | null;
+  expandedIds: Set<string>;
+  // Collections published with a share link
+  sharedIds: Set<string>;
+  onSelect: (id: string) => void;
+  onToggle: (id: string) => void;
+  onCreateChild: (parentId: string) => void;
+  onRename: (collection: Collection) => void;
+  onMove: (collection: Collection, parentId: string | null) => void;
+  onShare: (collection: Collection) => void;
+  onDelete: (collection: Collection) => void;
+}
+
+/**
+ * A single folder in the tree. Acts as a drop target for bookmark cards and
+ * renders its children recursively inside a collapsible sub-menu.
+ */
+const CollectionTreeItem: React.FC<CollectionTreeItemProps> = (props) => {
+  const { node, collections, selectedCollectionId, expandedIds, sharedIds, onSelect, onToggle } = props;
+  const { setNodeRef, isOver } = useDroppable({ id: `${COLLECTION_DROP_PREFIX}${node.id}` });
+  const isExpanded = expandedIds.has(node.id);
+  const hasChildren = node.children.length > 0;
+
+  // Valid "move to" targets: anything except this folder and its own descendants
+  const descendants = getDescendantIds(collections, node.id);
+  const moveTargets = collections.filter(c => c.id !== node.id && !descendants.has(c.id));
+
+  return (
+    <SidebarMenuItem>
+      <Collapsible open={isExpanded}>
+        {/* The button (not the whole item) is the drop target, so nested folders don't overlap it */}
+        <SidebarMenuButton
+          ref={setNodeRef}
+          isActive={selectedCollectionId === node.id}
+          onClick={() => onSelect(node.id)}
+          className={isOver ? 'ring-2 ring-primary bg-sidebar-accent' : ''}
+        >
+          <ChevronRight
+            className={`transition-transform ${isExpanded ? 'rotate-90' : ''} ${hasChildren ? '' : 'invisible'}`}
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggle(node.id);
+            }}
+          />
+          {selectedCollectionId === node.id ? <FolderOpen /> : <Folder />}
+          <span>{node.name}</span>
+          {sharedIds.has(node.id) && (
+            <Globe className="ml-auto !size-3 text-muted-foreground" aria-label="Shared" />
+          )}
+        </SidebarMenuButton>
+
+        {/* Folder actions */}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <SidebarMenuAction showOnHover>
+              <MoreHorizontal />
+              <span className="sr-only">Folder actions</span>
+            </SidebarMenuAction>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent side="right" align="start" className="w-48">
+            <DropdownMenuItem className="cursor-pointer" onClick={() => props.onCreateChild(node.id)}>
+              <FolderPlus className="mr-2 h-4 w-4" />
+              New subfolder
+            </DropdownMenuItem>
+            <DropdownMenuItem className="cursor-pointer" onClick={() => props.onRename(node)}>
+              <Pencil className="mr-2 h-4 w-4" />
+              Rename
+            </DropdownMenuItem>
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger className="cursor-pointer">
+                <FolderInput className="mr-2 h-4 w-4" />
+                Move to
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+                <DropdownMenuItem
+                  className="cursor-pointer"
+                  disabled={node.parent_id === null}
+                  onClick={() => props.onMove(node, null)}
+                >
+                  Top level
+                </DropdownMenuItem>
+                {moveTargets.map(target => (
+                  <DropdownMenuItem
+                    key={target.id}
+                    className="cursor-pointer"
+                    disabled={node.parent_id === target.id}
+                    onClick={() => props.onMove(node, target.id)}
+                  >
+                    {target.name}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+            <DropdownMenuItem className="cursor-pointer" onClick={() => props.onShare(node)}>
+              <Share2 className="mr-2 h-4 w-4" />
+              {sharedIds.has(node.id) ? 'Sharing...' : 'Share...'}
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem className="cursor-pointer text-destructive" onClick={() => props.onDelete(node)}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        {/* Nested folders */}
+        {hasChildren && (
+          <CollapsibleContent>
+            <SidebarMenuSub className="mr-0 pr-0">
+              {node.children.map(child => (
+                <CollectionTreeItem key={child.id} {...props} node={child} />
+              ))}
+            </SidebarMenuSub>
+          </CollapsibleContent>
+        )}
+      </Collapsible>
+    </SidebarMenuItem>
+  );
+};
+
+/**
+ * "All bookmarks" entry at the top of the tree. Dropping a card here removes it from its folder.
+ */
+const AllBookmarksItem: React.FC<{ isActive: boolean; onSelect: () => void }> = ({ isActive, onSelect }) => {
+  const { setNodeRef, isOver } = useDroppable({ id: ROOT_DROP_ID });
+
+  return (
+    <SidebarMenuItem ref={setNodeRef}>
+      <SidebarMenuButton
+        isActive={isActive}
+        onClick={onSelect}
+        className={isOver ? 'ring-2 ring-primary bg-sidebar-accent' : ''}
+      >
+        <Library />
+        <span>All bookmarks</span>
+      </SidebarMenuButton>
+    </SidebarMenuItem>
+  );
+};
+
+/**
+ * CollectionSidebar fetches the user's collections and renders them as a collapsible tree.
+ * - Selecting a folder scopes the bookmark grid to that collection.
+ * - Folders can be created (at the top level or nested), renamed, moved and deleted.
+ * - Folders can be shared as a read-only public link; shared ones are marked with a globe.
+ * - Bookmark cards dragged onto a folder are moved into it.
+ */
+const CollectionSidebar: React.FC<CollectionSidebarProps> = ({
+  selectedCollectionId,
+  onSelectCollection,
+  onBookmarkMoved,
+}) => {
+  const { user } = useAuth();
+  const collectionsQuery = useCollections(user?.id ?? null);
+  const collectionCache = useCollectionCache();
+  const collections = collectionsQuery.data?.collections ?? [];
+  const sharedIds = collectionsQuery.data?.sharedIds ?? new Set<string>();
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [nameDialog, setNameDialog] = useState<NameDialogState | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Collection | null>(null);
+  const [shareTarget, setShareTarget] = useState<Collection | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!collectionsQuery.error) return;
+    toast({
+      title: "Error loading collections",
+      description: collectionsQuery.error.message,
+      variant: "destructive",
+    });
+  }, [collectionsQuery.error]);
+
+  // Move a bookmark card into the folder it was dropped on
+  useDndMonitor({
+    onDragEnd: async (event: DragEndEvent) => {
+      const overId = event.over ? String(event.over.id) : null;
+      if (!overId?.startsWith(COLLECTION_DROP_PREFIX)) return;
+
+      const collectionId = overId === ROOT_DROP_ID ? null : overId.slice(COLLECTION_DROP_PREFIX.length);
+      const { error } = await supabase
+        .from('bookmarks')
+        .update({ collection_id: collectionId })
+        .eq('id', String(event.active.id))
+        .eq('user_id', user?.id);
+
+      if (error) {
+        toast({
+          title: "Error moving bookmark",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const target = collections.find(c => c.id === collectionId);
+      toast({
+        title: "Bookmark moved",
+        description: target ? `Moved to "${target.name}".` : "Removed from its collection.",
+      });
+      onBookmarkMoved();
+    },
+  });
+
+  // Expand or collapse a folder
+  const toggleExpanded = (id: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // Select a folder and make sure its children are visible
+  const handleSelect = (id: string) => {
+    setExpandedIds(prev => new Set(prev).add(id));
+    onSelectCollection(id);
+  };
+
+  // Create or rename a collection, depending on the dialog mode
+  const handleSaveName = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !nameDialog) return;
+    const name = nameDialog.name.trim();
+    if (!name) return;
+
+    setIsSaving(true);
+    try {
+      if (nameDialog.mode === 'create') {
+        const siblings = collections.filter(c => c.parent_id === nameDialog.parentId);
+        const position = siblings.reduce((max, c) => Math.max(max, (c.position ?? 0) + 1), 0);
+
+        const { error } = await supabase
+          .from('collections')
+          .insert({ user_id: user.id, parent_id: nameDialog.parentId, name, position });
+
+        if (error) throw error;
+
+        if (nameDialog.parentId) {
+          setExpandedIds(prev => new Set(prev).add(nameDialog.parentId!));
+        }
+      } else {
+        const { error } = await supabase
+          .from('collections')
+          .update({ name })
+          .eq('id', nameDialog.collection.id)
+          .eq('user_id', user.id);
+
+        if (error) throw error;
+      }
+
+      setNameDialog(null);
+      await collectionCache.invalidate();
+    } catch (error) {
+      toast({
+        title: nameDialog.mode === 'create' ? "Error creating folder" : "Error renaming folder",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Re-parent a collection (the database rejects moves that would create a cycle)
+  const handleMove = async (collection: Collection, parentId: string | null) => {
+    try {
+      const { error } = await supabase
+        .from('collections')
+        .update({ parent_id: parentId })
+        .eq('id', collection.id)
+        .eq('user_id', user?.id);
+
+      if (error) throw error;
+
+      if (parentId) {
+        setExpandedIds(prev => new Set(prev).add(parentId));
+      }
+      await collectionCache.invalidate();
+    } catch (error) {
+      toast({
+        title: "Error moving folder",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Delete a collection; subfolders cascade and bookmarks inside become unfiled
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    try {
+      const { error } = await supabase
+        .from('collections')
+        .delete()
+        .eq('id', deleteTarget.id)
+        .eq('user_id', user?.id);
+
+      if (error) throw error;
+
+      const removed = getDescendantIds(collections, deleteTarget.id).add(deleteTarget.id);
+      if (selectedCollectionId && removed.has(selectedCollectionId)) {
+        onSelectCollection(null);
+      }
+
+      toast({
+        title: "Folder deleted",
+        description: `"${deleteTarget.name}" has been deleted. Its bookmarks are still in All bookmarks.`,
+      });
+      await collectionCache.invalidate();
+      onBookmarkMoved();
+    } catch (error) {
+      toast({
+        title: "Error deleting folder",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setDeleteTarget(null);
+    }
+  };
+
+  const tree = buildCollectionTree(collections);
+
+  return (
+    <>
+      <Sidebar>
+        <SidebarContent>
+          <SidebarGroup>
+            <SidebarGroupLabel>Collections</SidebarGroupLabel>
+            <SidebarGroupAction
+              title="New folder"
+              onClick={() => setNameDialog({ mode: 'create', parentId: null, name: '' })}
+            >
+              <Plus />
+              <span className="sr-only">New folder</span>
+            </SidebarGroupAction>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                <AllBookmarksItem
+                  isActive={selectedCollectionId === null}
+                  onSelect={() => onSelectCollection(null)}
+                />
+                {collectionsQuery.isLoading
+                  ? [...Array(3)].map((_, i) => (
+                      <SidebarMenuItem key={i}>
+                        <SidebarMenuSkeleton showIcon />
+                      </SidebarMenuItem>
+                    ))
+                  : tree.map(node => (
+                      <CollectionTreeItem
+                        key={node.id}
+                        node={node}
+                        collections={collections}
+                        selectedCollectionId={selectedCollectionId}
+                        expandedIds={expandedIds}
+                        sharedIds={sharedIds}
+                        onSelect={handleSelect}
+                        onToggle={toggleExpanded}
+                        onCreateChild={(parentId) => setNameDialog({ mode: 'create', parentId, name: '' })}
+                        onRename={(collection) => setNameDialog({ mode: 'rename', collection, name: collection.name })}
+                        onMove={handleMove}
+                        onShare={setShareTarget}
+                        onDelete={setDeleteTarget}
+                      />
+                    ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        </SidebarContent>
+      </Sidebar>
+
+      {/* Create / rename dialog */}
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent className="glass-card">
+          <form onSubmit={handleSaveName} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{nameDialog?.mode === 'rename' ? 'Rename folder' : 'New folder'}</DialogTitle>
+              <DialogDescription>
+                {nameDialog?.mode === 'rename'
+                  ? 'Choose a new name for this folder.'
+                  : 'Folders can be nested to organize your bookmarks.'}
+              </DialogDescription>
+            </DialogHeader>
+            <Input
+              autoFocus
+              placeholder="Folder name"
+              value={nameDialog?.name ?? ''}
+              onChange={(e) => setNameDialog(prev => (prev ? { ...prev, name: e.target.value } : prev))}
+              disabled={isSaving}
+              className="glass"
+            />
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => setNameDialog(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving || !nameDialog?.name.trim()} className="btn-primary">
+                {nameDialog?.mode === 'rename' ? 'Rename' : 'Create'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ShareCollectionDialog
+        collection={shareTarget}
+        onOpenChange={(open) => !open && setShareTarget(null)}
+        onSharedChange={(id, shared) => user && collectionCache.setShared(user.id, id, shared)}
+      />
+
+      {/* Delete confirmation */}
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent className="glass-card">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleteTarget?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This also deletes every folder inside it. Bookmarks are kept and moved back to All bookmarks.
+              {deleteTarget && sharedIds.has(deleteTarget.id) && ' Its share link stops working.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default CollectionSidebar;
@@ -0,0 +1,210 @@
+// DuplicateFinder.tsx
+// Lists bookmarks saved more than once (same normalized URL) and merges each group into one bookmark.
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { CopyCheck, Globe, Loader2, Merge, StickyNote } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { DuplicateGroup, findDuplicateGroups, mergeBookmarks } from '@/lib/duplicates';
+
+// The columns shown for each bookmark in a group
+interface DuplicateBookmark {
+  id: string;
+  url: string;
+  title: string;
+  favicon_url: string | null;
+  tags: string[] | null;
+  notes: string | null;
+  created_at: string;
+}
+
+/**
+ * DuplicateFinder groups the user's bookmarks by normalized URL and shows every group with more than one.
+ * - The oldest bookmark in a group is kept by default; any other can be picked instead.
+ * - Merging gives the kept bookmark the others' tags, notes and earliest saved date, and moves the others to the trash.
+ * - "Merge all" merges every group with its picked bookmark.
+ */
+const DuplicateFinder: React.FC = () => {
+  const { user } = useAuth();
+  const [groups, setGroups] = useState<DuplicateGroup<DuplicateBookmark>[]>([]);
+  // Bookmark to keep in each group, by normalized URL; groups not listed keep their oldest
+  const [keepIds, setKeepIds] = useState<Map<string, string>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  // Normalized URLs of groups with a merge in flight
+  const [mergingUrls, setMergingUrls] = useState<Set<string>>(new Set());
+
+  const loadDuplicates = useCallback(async () => {
+    if (!user) return;
+    try {
+      const { data, error } = await supabase
+        .from('bookmarks')
+        .select('id, url, title, favicon_url, tags, notes, created_at')
+        .eq('user_id', user.id)
+        .is('workspace_id', null);
+      if (error) throw error;
+      setGroups(findDuplicateGroups(data ?? []));
+    } catch (error) {
+      toast({
+        title: "Error loading bookmarks",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadDuplicates();
+  }, [loadDuplicates]);
+
+  const keepIdFor = (group: DuplicateGroup<DuplicateBookmark>) =>
+    keepIds.get(group.normalizedUrl) ?? group.bookmarks[0].id;
+
+  const setMerging = (urls: string[], merging: boolean) => {
+    setMergingUrls(prev => {
+      const next = new Set(prev);
+      urls.forEach(url => (merging ? next.add(url) : next.delete(url)));
+      return next;
+    });
+  };
+
+  // Merge groups one after another; returns how many bookmarks went to the trash
+  const mergeGroups = async (targets: DuplicateGroup<DuplicateBookmark>[]) => {
+    const urls = targets.map(group => group.normalizedUrl);
+    setMerging(urls, true);
+    let merged = 0;
+    try {
+      for (const group of targets) {
+        const keepId = keepIdFor(group);
+        const duplicateIds = group.bookmarks.map(bookmark => bookmark.id).filter(id => id !== keepId);
+        await mergeBookmarks(keepId, duplicateIds);
+        merged += duplicateIds.length;
+        setGroups(prev => prev.filter(item => item.normalizedUrl !== group.normalizedUrl));
+      }
+      toast({
+        title: "Duplicates merged",
+        description: `${merged} duplicate${merged !== 1 ? 's' : ''} moved to the trash.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error merging duplicates",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setMerging(urls, false);
+    }
+  };
+
+  const isAnyMerging = mergingUrls.size > 0;
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <CopyCheck className="h-5 w-5 text-primary" />
+            <CardTitle>Duplicates</CardTitle>
+          </div>
+          {groups.length > 1 && (
+            <Button variant="outline" size="sm" onClick={() => mergeGroups(groups)} disabled={isAnyMerging}>
+              <Merge className="mr-2 h-4 w-4" />
+              Merge all
+            </Button>
+          )}
+        </div>
+        <CardDescription>
+          Links saved more than once, ignoring tracking parameters, "www.", http/https and #fragments.
+          Merging keeps the selected bookmark with everyone's tags and notes, and moves the rest to the trash.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-24 w-full" />
+            ))}
+          </div>
+        ) : groups.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No duplicates found.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {groups.map(group => {
+              const keepId = keepIdFor(group);
+              const isMerging = mergingUrls.has(group.normalizedUrl);
+              return (
+                <div key={group.normalizedUrl} className="rounded-lg border border-border p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-xs text-muted-foreground truncate" title={group.normalizedUrl}>
+                      {group.normalizedUrl}
+                    </p>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => mergeGroups([group])}
+                      disabled={isAnyMerging}
+                      className="flex-shrink-0"
+                    >
+                      {isMerging ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Merge className="mr-2 h-4 w-4" />
+                      )}
+                      Merge {group.bookmarks.length}
+                    </Button>
+                  </div>
+                  <RadioGroup
+                    value={keepId}
+                    onValueChange={(id) => setKeepIds(prev => new Map(prev).set(group.normalizedUrl, id))}
+                    disabled={isMerging}
+                  >
+                    {group.bookmarks.map(bookmark => (
+                      <div key={bookmark.id} className="flex items-center gap-3">
+                        <RadioGroupItem value={bookmark.id} id={`keep-${bookmark.id}`} />
+                        <Label htmlFor={`keep-${bookmark.id}`} className="flex flex-1 min-w-0 items-center gap-2 font-normal cursor-pointer">
+                          {bookmark.favicon_url ? (
+                            <img src={bookmark.favicon_url} alt="" className="w-4 h-4 rounded flex-shrink-0" />
+                          ) : (
+                            <Globe className="w-4 h-4 flex-shrink-0 text-muted-foreground" />
+                          )}
+                          <span className="flex-1 min-w-0">
+                            <span className="block truncate font-medium" title={bookmark.title}>{bookmark.title}</span>
+                            <span className="block truncate text-xs text-muted-foreground" title={bookmark.url}>
+                              {bookmark.url} · Saved {format(new Date(bookmark.created_at), 'MMM d, yyyy')}
+                            </span>
+                          </span>
+                          {bookmark.notes && <StickyNote className="h-4 w-4 flex-shrink-0 text-muted-foreground" />}
+                          {(bookmark.tags?.length ?? 0) > 0 && (
+                            <Badge variant="outline" className="flex-shrink-0 text-xs">
+                              {bookmark.tags!.length} tag{bookmark.tags!.length !== 1 ? 's' : ''}
+                            </Badge>
+                          )}
+                          {bookmark.id === keepId && (
+                            <Badge variant="secondary" className="flex-shrink-0 text-xs">Keep</Badge>
+                          )}
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DuplicateFinder;
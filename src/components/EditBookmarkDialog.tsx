@@ -0,0 +1,259 @@
+// EditBookmarkDialog.tsx
+// Dialog for editing a saved bookmark's title, URL, summary, tags and notes.
+// Validation uses the zod schema in lib/bookmark-edit; saving is left to the parent so it can update the grid optimistically.
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertTriangle } from 'lucide-react';
+import TagInput from './TagInput';
+import { Bookmark } from '@/lib/bookmarks';
+import {
+  BookmarkEditValues,
+  EDIT_FIELD_LABELS,
+  bookmarkEditSchema,
+  getEditValues,
+} from '@/lib/bookmark-edit';
+import { canonicalTag, suggestTags } from '@/lib/tags';
+
+// A save that was rejected because the bookmark changed elsewhere
+export interface EditConflict {
+  latest: Bookmark;
+  fields: (keyof BookmarkEditValues)[];
+}
+
+interface EditBookmarkDialogProps {
+  // Bookmark being edited, as it was when the edit started; null closes the dialog
+  bookmark: Bookmark | null;
+  // Values to show instead of the bookmark's own, e.g. the user's edit after a conflict
+  draft?: BookmarkEditValues;
+  conflict?: EditConflict;
+  // How often each tag is used, for tag suggestions
+  tagVocabulary: Map<string, number>;
+  onOpenChange: (open: boolean) => void;
+  // `base` is the version the edit applies to; `force` overwrites changes made elsewhere
+  onSave: (base: Bookmark, values: BookmarkEditValues, options: { force: boolean }) => void;
+}
+
+// Shortens a conflicting value for display
+const describeValue = (values: BookmarkEditValues, field: keyof BookmarkEditValues) => {
+  const value = field === 'tags' ? values.tags.join(', ') : values[field];
+  if (!value) return '(empty)';
+  return value.length > 80 ? `${value.slice(0, 80)}…` : value;
+};
+
+/**
+ * EditBookmarkDialog edits a bookmark without deleting and re-adding it, so its date and position are kept.
+ * - Every field is validated with zod; errors show under the field.
+ * - Tags use the same token input and suggestions as the add form.
+ * - After a conflict it keeps the user's edit, shows what changed elsewhere, and offers to
+ *   overwrite it or load the latest version.
+ */
+const EditBookmarkDialog: React.FC<EditBookmarkDialogProps> = ({
+  bookmark,
+  draft,
+  conflict,
+  tagVocabulary,
+  onOpenChange,
+  onSave,
+}) => {
+  // The version being edited; replaced by the latest one when the user reloads after a conflict
+  const [base, setBase] = useState<Bookmark | null>(bookmark);
+  const [currentConflict, setCurrentConflict] = useState<EditConflict | undefined>(conflict);
+
+  const form = useForm<BookmarkEditValues>({
+    resolver: zodResolver(bookmarkEditSchema),
+    defaultValues: { title: '', url: '', summary: '', tags: [], notes: '' },
+  });
+
+  // Load the bookmark (or the restored draft) whenever the dialog opens for one
+  useEffect(() => {
+    setBase(bookmark);
+    setCurrentConflict(conflict);
+    if (bookmark) form.reset(draft ?? getEditValues(bookmark));
+  }, [bookmark, draft, conflict, form]);
+
+  const title = form.watch('title');
+  const url = form.watch('url');
+  const tags = form.watch('tags');
+  const pageContext = useMemo(() => ({ url, title }), [url, title]);
+
+  const getTagSuggestions = useCallback(
+    (query: string) => suggestTags(query, tagVocabulary, pageContext, tags),
+    [tagVocabulary, pageContext, tags]
+  );
+  const normalizeTag = useCallback((tag: string) => canonicalTag(tag, tagVocabulary.keys()), [tagVocabulary]);
+
+  const handleSubmit = (values: BookmarkEditValues) => {
+    if (base) onSave(base, values, { force: false });
+  };
+
+  const handleOverwrite = form.handleSubmit(values => {
+    if (base) onSave(base, values, { force: true });
+  });
+
+  const handleLoadLatest = () => {
+    if (!currentConflict) return;
+    setBase(currentConflict.latest);
+    form.reset(getEditValues(currentConflict.latest));
+    setCurrentConflict(undefined);
+  };
+
+  const latestValues = currentConflict ? getEditValues(currentConflict.latest) : null;
+
+  return (
+    <Dialog open={bookmark !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="glass-card max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit bookmark</DialogTitle>
+          <DialogDescription>
+            Changes keep the bookmark's saved date and position.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Conflict with a change made elsewhere */}
+        {currentConflict && latestValues && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>This bookmark was changed somewhere else</AlertTitle>
+            <AlertDescription className="space-y-2">
+              <p>Your changes weren't saved. It now has:</p>
+              <ul className="space-y-1 text-xs">
+                {currentConflict.fields.map(field => (
+                  <li key={field}>
+                    <span className="font-medium">{EDIT_FIELD_LABELS[field]}:</span>{' '}
+                    <span className="break-all">{describeValue(latestValues, field)}</span>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex flex-wrap gap-2 pt-1">
+                <Button type="button" size="sm" variant="outline" onClick={handleOverwrite}>
+                  Overwrite with my changes
+                </Button>
+                <Button type="button" size="sm" variant="ghost" onClick={handleLoadLatest}>
+                  Discard mine and load latest
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title</FormLabel>
+                  <FormControl>
+                    <Input {...field} className="glass" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="url"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>URL</FormLabel>
+                  <FormControl>
+                    <Input type="url" {...field} className="glass" />
+                  </FormControl>
+                  {base && field.value.trim() !== base.url && (
+                    <FormDescription>
+                      The preview and summary still describe the old link until you edit them.
+                    </FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="summary"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Summary</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} {...field} className="glass resize-none" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="tags"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tags</FormLabel>
+                  <FormControl>
+                    <TagInput
+                      value={field.value}
+                      onChange={field.onChange}
+                      getSuggestions={getTagSuggestions}
+                      normalize={normalizeTag}
+                      placeholder="work, article, important"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea rows={4} placeholder="Why you saved it, what to follow up on..." {...field} className="glass" />
+                  </FormControl>
+                  <FormDescription>
+                    Markdown is supported: **bold**, *italic*, lists, quotes and [links](https://...).
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!!currentConflict} className="btn-primary">
+                Save changes
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditBookmarkDialog;
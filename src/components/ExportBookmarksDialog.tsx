@@ -0,0 +1,195 @@
+// ExportBookmarksDialog.tsx
+// Dialog for downloading bookmarks as JSON, CSV, Netscape bookmark HTML or Markdown.
+
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Download, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { Bookmark } from '@/lib/bookmarks';
+import { inSpace } from '@/lib/workspaces';
+import { downloadFile, EXPORT_FORMATS, ExportedBookmark, ExportFormat, serializeBookmarks } from '@/lib/export';
+
+// Supabase returns at most this many rows per request, so larger libraries are paged
+const EXPORT_PAGE_SIZE = 1000;
+
+type ExportScope = 'all' | 'view' | 'selection';
+
+interface ExportBookmarksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Bookmarks currently shown in the grid (after collection, search and tag filters)
+  currentView: Bookmark[];
+  // Bookmarks selected in the grid; offered (and preselected) when given
+  selection?: Bookmark[];
+}
+
+// Keeps only the exported fields; the TL;DR is exported as the summary when there is one
+const toExported = (bookmark: Pick<Bookmark, keyof ExportedBookmark | 'tldr'>): ExportedBookmark => ({
+  title: bookmark.title,
+  url: bookmark.url,
+  summary: bookmark.tldr || bookmark.summary,
+  tags: bookmark.tags ?? [],
+  created_at: bookmark.created_at,
+  position: bookmark.position ?? 0,
+});
+
+/**
+ * ExportBookmarksDialog exports the user's bookmarks.
+ * - Scope: every bookmark in the open space, the current filtered view of the grid, or the bookmarks selected in it.
+ * - Formats: versioned JSON (re-importable), CSV, Netscape bookmark HTML and Markdown.
+ */
+const ExportBookmarksDialog: React.FC<ExportBookmarksDialogProps> = ({ open, onOpenChange, currentView, selection }) => {
+  const { user } = useAuth();
+  const { activeWorkspace } = useWorkspace();
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
+  const [scope, setScope] = useState<ExportScope>('all');
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Start from the selection when exporting from the bulk action bar
+  useEffect(() => {
+    if (open) setScope(selection ? 'selection' : 'all');
+  }, [open, selection]);
+
+  const scopeBookmarks = scope === 'selection' ? selection ?? [] : currentView;
+
+  // Fetch every bookmark in the open space, one page at a time
+  const fetchAllBookmarks = async (userId: string): Promise<ExportedBookmark[]> => {
+    const rows: ExportedBookmark[] = [];
+
+    for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+      const query = supabase
+        .from('bookmarks')
+        .select('title, url, summary, tldr, tags, created_at, position')
+        .order('position', { ascending: true })
+        .range(from, from + EXPORT_PAGE_SIZE - 1);
+      const { data, error } = await inSpace(query, userId, activeWorkspace?.id ?? null);
+
+      if (error) throw error;
+
+      rows.push(...(data || []).map(toExported));
+      if (!data || data.length < EXPORT_PAGE_SIZE) break;
+    }
+
+    return rows;
+  };
+
+  const handleExport = async () => {
+    if (!user) return;
+
+    setIsExporting(true);
+    try {
+      const bookmarks = scope === 'all' ? await fetchAllBookmarks(user.id) : scopeBookmarks.map(toExported);
+      const { extension, mimeType } = EXPORT_FORMATS[exportFormat];
+
+      downloadFile(
+        serializeBookmarks(bookmarks, exportFormat),
+        `bookmarks-${format(new Date(), 'yyyy-MM-dd')}.${extension}`,
+        mimeType
+      );
+
+      toast({
+        title: "Export ready",
+        description: `${bookmarks.length} bookmark${bookmarks.length !== 1 ? 's' : ''} exported.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isExporting && onOpenChange(value)}>
+      <DialogContent className="glass-card">
+        <DialogHeader>
+          <DialogTitle>Export bookmarks</DialogTitle>
+          <DialogDescription>
+            Download your bookmarks. JSON exports can be imported again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Scope */}
+          <div className="space-y-2">
+            <Label>Bookmarks</Label>
+            <RadioGroup value={scope} onValueChange={(value) => setScope(value as ExportScope)}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="all" id="export-scope-all" />
+                <Label htmlFor="export-scope-all" className="font-normal">All bookmarks</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="view" id="export-scope-view" />
+                <Label htmlFor="export-scope-view" className="font-normal">
+                  Current view ({currentView.length})
+                </Label>
+              </div>
+              {selection && (
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="selection" id="export-scope-selection" />
+                  <Label htmlFor="export-scope-selection" className="font-normal">
+                    Selected bookmarks ({selection.length})
+                  </Label>
+                </div>
+              )}
+            </RadioGroup>
+          </div>
+
+          {/* Format */}
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <RadioGroup value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(key => (
+                <div key={key} className="flex items-center gap-2">
+                  <RadioGroupItem value={key} id={`export-format-${key}`} />
+                  <Label htmlFor={`export-format-${key}`} className="font-normal">
+                    {EXPORT_FORMATS[key].label}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="ghost" onClick={() => onOpenChange(false)} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleExport}
+            disabled={isExporting || (scope !== 'all' && scopeBookmarks.length === 0)}
+            className="btn-primary"
+          >
+            {isExporting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportBookmarksDialog;
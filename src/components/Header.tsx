@@ -1,22 +1,48 @@
 // Header.tsx
-// The main navigation/header bar for Curator AI. Shows app branding, user info, theme toggle, and sign out.
+// The main navigation/header bar for Curator AI. Shows app branding, the workspace switcher, the unread count, user info, export, tag manager, duplicates and trash links, reading settings, theme toggle, and sign out.
 // made by Divyansh
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from '@/components/ui/dropdown-menu';
-import { Bookmark, Sparkles, LogOut, User, Sun, Moon } from 'lucide-react';
+import { DropdownMenu, DropdownMenuCheckboxItem, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from '@/components/ui/dropdown-menu';
+import { Bookmark, Sparkles, LogOut, User, Sun, Moon, Download, Tags, Trash2, CopyCheck, Inbox } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { useUnreadCount } from '@/hooks/use-bookmarks';
 import { useTheme } from 'next-themes';
+import ExportBookmarksDialog from './ExportBookmarksDialog';
+import WorkspaceSwitcher from './WorkspaceSwitcher';
+import type { Bookmark as BookmarkRow } from '@/lib/bookmarks';
+import { loadAutoMarkRead, saveAutoMarkRead } from '@/lib/reading-state';
+
+interface HeaderProps {
+  // Bookmarks currently shown in the grid, offered as an export scope
+  currentView?: BookmarkRow[];
+}
 
 /**
- * Header component displays the app's logo, user info, and a dropdown menu
- * for profile, theme switching, and sign out. Stays at the top of the page.
+ * Header component displays the app's logo, the workspace switcher, the number of unread bookmarks in the open space's inbox, user info, and a dropdown menu
+ * for profile, exporting bookmarks, managing tags, finding duplicates, opening the trash, marking bookmarks read when opened,
+ * theme switching, and sign out. Stays at the top of the page.
  */
-const Header = () => {
+const Header: React.FC<HeaderProps> = ({ currentView = [] }) => {
   const { user, signOut } = useAuth();
+  const { activeWorkspace } = useWorkspace();
   const { theme, setTheme } = useTheme();
+  const navigate = useNavigate();
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [autoMarkRead, setAutoMarkRead] = useState(loadAutoMarkRead);
+
+  // Unread count of the open space for the badge; refetched whenever bookmarks change
+  const { data: unreadCount } = useUnreadCount(user?.id ?? null, activeWorkspace?.id ?? null);
+
+  // Turns marking bookmarks read when they're opened on or off
+  const handleAutoMarkReadChange = (enabled: boolean) => {
+    setAutoMarkRead(enabled);
+    saveAutoMarkRead(enabled);
+  };
 
   // Signs the user out when called
   const handleSignOut = async () => {
@@ -49,8 +75,21 @@ const Header = () => {
             </div>
           </div>
 
-          {/* User dropdown menu */}
+          {/* Workspace switcher, unread count and user dropdown menu */}
           <div className="flex items-center gap-4">
+            <WorkspaceSwitcher />
+            {!!unreadCount && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate('/')}
+                className="gap-2 text-muted-foreground"
+                title="Unread bookmarks in your inbox"
+              >
+                <Inbox className="h-4 w-4" />
+                {unreadCount} unread
+              </Button>
+            )}
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="ghost" className="relative h-10 w-10 rounded-full">
@@ -74,7 +113,35 @@ const Header = () => {
                   <User className="mr-2 h-4 w-4" />
                   Profile
                 </DropdownMenuItem>
+                {/* Export bookmarks */}
+                <DropdownMenuItem className="cursor-pointer" onSelect={() => setIsExportOpen(true)}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export bookmarks
+                </DropdownMenuItem>
+                {/* Tag manager */}
+                <DropdownMenuItem className="cursor-pointer" onSelect={() => navigate('/tags')}>
+                  <Tags className="mr-2 h-4 w-4" />
+                  Manage tags
+                </DropdownMenuItem>
+                {/* Duplicate finder */}
+                <DropdownMenuItem className="cursor-pointer" onSelect={() => navigate('/duplicates')}>
+                  <CopyCheck className="mr-2 h-4 w-4" />
+                  Find duplicates
+                </DropdownMenuItem>
+                {/* Trash */}
+                <DropdownMenuItem className="cursor-pointer" onSelect={() => navigate('/trash')}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Trash
+                </DropdownMenuItem>
                 <DropdownMenuSeparator />
+                {/* Reading setting */}
+                <DropdownMenuCheckboxItem
+                  className="cursor-pointer"
+                  checked={autoMarkRead}
+                  onCheckedChange={handleAutoMarkReadChange}
+                >
+                  Mark as read when opened
+                </DropdownMenuCheckboxItem>
                 {/* Theme toggle */}
                 <DropdownMenuItem
                   className="cursor-pointer"
@@ -107,6 +174,12 @@ const Header = () => {
           </div>
         </div>
       </div>
+
+      <ExportBookmarksDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        currentView={currentView}
+      />
     </header>
   );
 };
@@ -0,0 +1,28 @@
+// HighlightedText.tsx
+// Renders a search snippet with matched terms wrapped in <mark>.
+
+import React from 'react';
+import { splitHighlights } from '@/lib/search';
+
+interface HighlightedTextProps {
+  snippet: string;
+}
+
+/**
+ * HighlightedText renders text returned by the search RPC, highlighting matched terms.
+ */
+const HighlightedText: React.FC<HighlightedTextProps> = ({ snippet }) => (
+  <>
+    {splitHighlights(snippet).map((segment, index) =>
+      segment.highlighted ? (
+        <mark key={index} className="bg-primary/30 text-foreground rounded-sm px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+export default HighlightedText;
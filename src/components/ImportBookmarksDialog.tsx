@@ -0,0 +1,472 @@
+// ImportBookmarksDialog.tsx
+// Dialog for importing a browser bookmark export (Netscape bookmarks.html) or a JSON export from this app.
+// Parses the file, previews the folder tree for selection, and inserts the chosen links in batches.
+
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ChevronRight, Folder, Globe, Loader2, Upload } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { TablesInsert } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  NetscapeFolder,
+  NetscapeNode,
+  parseNetscapeBookmarks,
+  flattenSelectedLinks,
+  collectNodeIds,
+  countLinks,
+} from '@/lib/netscape';
+import { parseBookmarksJSON } from '@/lib/export';
+import { POSITION_STEP } from '@/lib/bookmark-order';
+import { normalizeUrl } from '@/lib/normalize-url';
+import { isDuplicateUrlError } from '@/lib/duplicates';
+
+// Rows per insert request
+const IMPORT_BATCH_SIZE = 100;
+
+// URLs per lookup of already saved links; they go in the request's query string
+const LOOKUP_BATCH_SIZE = 50;
+
+/**
+ * Inserts bookmarks, skipping any whose link is already saved, e.g. by another tab while the
+ * import ran. Returns how many were inserted.
+ */
+const insertSkippingDuplicates = async (rows: TablesInsert<'bookmarks'>[]): Promise<number> => {
+  const { error } = await supabase.from('bookmarks').insert(rows);
+  if (!error) return rows.length;
+  if (!isDuplicateUrlError(error)) throw error;
+
+  // The batch failed as a whole; insert its rows one at a time to keep the new ones
+  let inserted = 0;
+  for (const row of rows) {
+    const { error: rowError } = await supabase.from('bookmarks').insert(row);
+    if (rowError && !isDuplicateUrlError(rowError)) throw rowError;
+    if (!rowError) inserted++;
+  }
+  return inserted;
+};
+
+// How the folder hierarchy of the export is kept
+type FolderMode = 'tags' | 'collections';
+
+interface ImportBookmarksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+interface ImportTreeNodeProps {
+  node: NetscapeNode;
+  depth: number;
+  selectedIds: Set<string>;
+  expandedIds: Set<string>;
+  onToggleSelected: (node: NetscapeNode, checked: boolean) => void;
+  onToggleExpanded: (id: string) => void;
+}
+
+/**
+ * One row of the preview tree: a folder (expandable, selects its whole subtree) or a link.
+ */
+const ImportTreeNode: React.FC<ImportTreeNodeProps> = ({
+  node,
+  depth,
+  selectedIds,
+  expandedIds,
+  onToggleSelected,
+  onToggleExpanded,
+}) => {
+  const indent = { paddingLeft: `${depth * 1.25}rem` };
+
+  if (node.kind === 'link') {
+    return (
+      <label className="flex items-center gap-2 py-1 text-sm cursor-pointer" style={indent}>
+        <span className="w-4" />
+        <Checkbox
+          checked={selectedIds.has(node.id)}
+          onCheckedChange={(checked) => onToggleSelected(node, checked === true)}
+        />
+        <Globe className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+        <span className="truncate">{node.title}</span>
+      </label>
+    );
+  }
+
+  const ids = collectNodeIds(node);
+  const selectedCount = ids.filter(id => selectedIds.has(id)).length;
+  const checked = selectedCount === ids.length ? true : selectedCount > 0 ? 'indeterminate' : false;
+  const isExpanded = expandedIds.has(node.id);
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 py-1 text-sm" style={indent}>
+        <button
+          type="button"
+          onClick={() => onToggleExpanded(node.id)}
+          className="w-4 text-muted-foreground"
+          aria-label={isExpanded ? 'Collapse folder' : 'Expand folder'}
+        >
+          <ChevronRight className={`h-4 w-4 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+        </button>
+        <Checkbox
+          checked={checked}
+          onCheckedChange={(value) => onToggleSelected(node, value === true)}
+        />
+        <Folder className="h-4 w-4 flex-shrink-0 text-primary" />
+        <span className="truncate font-medium">{node.title}</span>
+        <span className="text-xs text-muted-foreground">({countLinks(node)})</span>
+      </div>
+      {isExpanded && node.children.map(child => (
+        <ImportTreeNode
+          key={child.id}
+          node={child}
+          depth={depth + 1}
+          selectedIds={selectedIds}
+          expandedIds={expandedIds}
+          onToggleSelected={onToggleSelected}
+          onToggleExpanded={onToggleExpanded}
+        />
+      ))}
+    </div>
+  );
+};
+
+/**
+ * ImportBookmarksDialog lets the user import bookmarks exported from their browser or from this app.
+ * - Parses the Netscape bookmark HTML format (or a JSON export) and previews the folder tree.
+ * - Folders and links can be deselected before importing.
+ * - Folders become tags or collections; ADD_DATE is kept as the saved date.
+ * - Links that are already saved, or appear twice in the file, are skipped (compared by normalized URL).
+ * - Inserts run in batches with a progress bar.
+ */
+const ImportBookmarksDialog: React.FC<ImportBookmarksDialogProps> = ({ open, onOpenChange, onImported }) => {
+  const { user } = useAuth();
+  const [root, setRoot] = useState<NetscapeFolder | null>(null);
+  const [skipped, setSkipped] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [folderMode, setFolderMode] = useState<FolderMode>('tags');
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  // Clear the dialog back to the file picker
+  const reset = () => {
+    setRoot(null);
+    setSkipped(0);
+    setSelectedIds(new Set());
+    setExpandedIds(new Set());
+    setProgress(0);
+  };
+
+  // Read and parse the chosen file, selecting everything by default
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const isJSON = file.name.toLowerCase().endsWith('.json') || text.trimStart().startsWith('{');
+      const parsed = isJSON
+        ? { root: parseBookmarksJSON(text), skipped: 0 }
+        : parseNetscapeBookmarks(text);
+
+      if (countLinks(parsed.root) === 0) {
+        throw new Error("No bookmarks were found. Make sure this is a browser bookmark export (.html) or a JSON export.");
+      }
+
+      setRoot(parsed.root);
+      setSkipped(parsed.skipped);
+      setSelectedIds(new Set(collectNodeIds(parsed.root)));
+      setExpandedIds(new Set([parsed.root.id]));
+    } catch (error) {
+      toast({
+        title: "Could not read bookmarks file",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Select or deselect a node and everything below it
+  const handleToggleSelected = (node: NetscapeNode, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      collectNodeIds(node).forEach(id => (checked ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const handleToggleExpanded = (id: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // Insert the selected links (and, in collections mode, their folders) in batches
+  const handleImport = async () => {
+    if (!user || !root) return;
+
+    const selectedLinks = flattenSelectedLinks(root, selectedIds);
+    if (selectedLinks.length === 0) return;
+
+    setIsImporting(true);
+    setProgress(0);
+    try {
+      // Skip links that are already saved or repeated in the file. Only the file's links are
+      // looked up, so the check doesn't depend on how many bookmarks the user has.
+      const candidates = selectedLinks.map(selected => ({ ...selected, normalizedUrl: normalizeUrl(selected.link.url) }));
+      const candidateUrls = Array.from(new Set(candidates.map(({ normalizedUrl }) => normalizedUrl)));
+      const seenUrls = new Set<string>();
+      for (let i = 0; i < candidateUrls.length; i += LOOKUP_BATCH_SIZE) {
+        const { data: saved, error: savedError } = await supabase
+          .from('bookmarks')
+          .select('normalized_url')
+          .eq('user_id', user.id)
+          .is('workspace_id', null)
+          .is('deleted_at', null)
+          .in('normalized_url', candidateUrls.slice(i, i + LOOKUP_BATCH_SIZE));
+        if (savedError) throw savedError;
+        for (const row of saved ?? []) {
+          if (row.normalized_url) seenUrls.add(row.normalized_url);
+        }
+      }
+      const links = candidates.filter(({ normalizedUrl }) => {
+        if (seenUrls.has(normalizedUrl)) return false;
+        seenUrls.add(normalizedUrl);
+        return true;
+      });
+      let duplicateCount = selectedLinks.length - links.length;
+
+      if (links.length === 0) {
+        toast({
+          title: "Nothing to import",
+          description: "Every selected bookmark is already saved.",
+        });
+        reset();
+        onOpenChange(false);
+        return;
+      }
+
+      // Map each folder that holds a selected link to a new collection id
+      const collectionIds = new Map<string, string>();
+      const folderLevels: TablesInsert<'collections'>[][] = [];
+      if (folderMode === 'collections') {
+        links.forEach(({ folderPath }) => {
+          folderPath.forEach((folder, depth) => {
+            if (collectionIds.has(folder.id)) return;
+            const id = crypto.randomUUID();
+            collectionIds.set(folder.id, id);
+            (folderLevels[depth] ??= []).push({
+              id,
+              user_id: user.id,
+              name: folder.title,
+              parent_id: depth > 0 ? collectionIds.get(folderPath[depth - 1].id) : null,
+              position: folderLevels[depth].length,
+            });
+          });
+        });
+      }
+
+      const totalSteps = collectionIds.size + links.length;
+      let completedSteps = 0;
+
+      // Parents are inserted before children so the parent check passes
+      for (const level of folderLevels) {
+        for (let i = 0; i < level.length; i += IMPORT_BATCH_SIZE) {
+          const batch = level.slice(i, i + IMPORT_BATCH_SIZE);
+          const { error } = await supabase.from('collections').insert(batch);
+          if (error) throw error;
+          completedSteps += batch.length;
+          setProgress(Math.round((completedSteps / totalSteps) * 100));
+        }
+      }
+
+      // Append imported bookmarks after the existing ones
+      const { data: last, error: positionError } = await supabase
+        .from('bookmarks')
+        .select('position')
+        .eq('user_id', user.id)
+        .is('workspace_id', null)
+        .order('position', { ascending: false, nullsFirst: false })
+        .limit(1);
+      if (positionError) throw positionError;
+      const startPosition = (last?.[0]?.position ?? 0) + POSITION_STEP;
+
+      const rows: TablesInsert<'bookmarks'>[] = links.map(({ link, folderPath }, index) => {
+        const url = new URL(link.url);
+        const folderTags = folderMode === 'tags' ? folderPath.map(folder => folder.title) : [];
+        return {
+          user_id: user.id,
+          url: link.url,
+          title: link.title.substring(0, 500),
+          summary: link.description ? link.description.substring(0, 1000) : null,
+          tags: Array.from(new Set([...folderTags, ...link.tags])),
+          favicon_url: `${url.protocol}//${url.hostname}/favicon.ico`,
+          position: startPosition + index * POSITION_STEP,
+          // Not queued for enrichment: a large import would hold up the queue for everyone's new
+          // bookmarks. Imports keep their own title and description; "Re-run enrichment" fills in the rest.
+          enrichment_status: 'done',
+          collection_id: folderPath.length > 0 ? collectionIds.get(folderPath[folderPath.length - 1].id) ?? null : null,
+          ...(link.addedAt ? { created_at: link.addedAt } : {}),
+        };
+      });
+
+      let importedCount = 0;
+      for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+        const batch = rows.slice(i, i + IMPORT_BATCH_SIZE);
+        importedCount += await insertSkippingDuplicates(batch);
+        completedSteps += batch.length;
+        setProgress(Math.round((completedSteps / totalSteps) * 100));
+      }
+      duplicateCount += rows.length - importedCount;
+      const duplicateNote = duplicateCount > 0
+        ? ` ${duplicateCount} already saved or repeated link${duplicateCount !== 1 ? 's were' : ' was'} skipped.`
+        : '';
+
+      toast({
+        title: "Bookmarks imported",
+        description: `${importedCount} bookmark${importedCount !== 1 ? 's' : ''} imported${
+          collectionIds.size > 0 ? ` into ${collectionIds.size} collection${collectionIds.size !== 1 ? 's' : ''}` : ''
+        }.${duplicateNote}`,
+      });
+      reset();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+      // Refresh even after a partial failure so already-imported batches show up
+      onImported();
+    }
+  };
+
+  const selectedLinkCount = root ? flattenSelectedLinks(root, selectedIds).length : 0;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        if (isImporting) return;
+        if (!value) reset();
+        onOpenChange(value);
+      }}
+    >
+      <DialogContent className="glass-card max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import bookmarks</DialogTitle>
+          <DialogDescription>
+            Import the bookmarks.html file exported from Chrome, Firefox, Safari or Edge, or a JSON export from Link Saver.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!root ? (
+          <div className="space-y-2">
+            <Label htmlFor="import-file">Bookmarks file</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".html,.htm,.json,text/html,application/json"
+              onChange={handleFileChange}
+              className="glass"
+            />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {/* Preview tree */}
+            <ScrollArea className="h-72 rounded-md border p-2">
+              {root.children.map(node => (
+                <ImportTreeNode
+                  key={node.id}
+                  node={node}
+                  depth={0}
+                  selectedIds={selectedIds}
+                  expandedIds={expandedIds}
+                  onToggleSelected={handleToggleSelected}
+                  onToggleExpanded={handleToggleExpanded}
+                />
+              ))}
+            </ScrollArea>
+            <p className="text-xs text-muted-foreground">
+              {selectedLinkCount} of {countLinks(root)} bookmarks selected
+              {skipped > 0 && ` · ${skipped} non-web link${skipped !== 1 ? 's' : ''} skipped`}
+            </p>
+
+            {/* Folder handling */}
+            <div className="space-y-2">
+              <Label>Keep folders as</Label>
+              <RadioGroup
+                value={folderMode}
+                onValueChange={(value) => setFolderMode(value as FolderMode)}
+                className="flex gap-6"
+                disabled={isImporting}
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="tags" id="folder-mode-tags" />
+                  <Label htmlFor="folder-mode-tags" className="font-normal">Tags</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="collections" id="folder-mode-collections" />
+                  <Label htmlFor="folder-mode-collections" className="font-normal">Collections</Label>
+                </div>
+              </RadioGroup>
+            </div>
+
+            {isImporting && <Progress value={progress} className="h-2" />}
+          </div>
+        )}
+
+        <DialogFooter>
+          {root && (
+            <Button type="button" variant="ghost" onClick={reset} disabled={isImporting}>
+              Choose another file
+            </Button>
+          )}
+          <Button
+            type="button"
+            onClick={handleImport}
+            disabled={!root || selectedLinkCount === 0 || isImporting}
+            className="btn-primary"
+          >
+            {isImporting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Importing... {progress}%
+              </>
+            ) : (
+              <>
+                <Upload className="mr-2 h-4 w-4" />
+                Import {selectedLinkCount > 0 ? selectedLinkCount : ''} bookmark{selectedLinkCount !== 1 ? 's' : ''}
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportBookmarksDialog;
@@ -0,0 +1,78 @@
+// MarkdownText.tsx
+// Renders Markdown (bookmark notes) as React elements.
+
+import React from 'react';
+import { InlineNode, MarkdownBlock, parseMarkdown } from '@/lib/markdown';
+
+interface MarkdownTextProps {
+  markdown: string;
+  className?: string;
+}
+
+const HEADING_CLASSES = ['text-lg font-semibold', 'text-base font-semibold', 'text-sm font-semibold'];
+
+const renderInline = (nodes: InlineNode[]): React.ReactNode =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case 'code':
+        return <code key={index} className="rounded bg-muted px-1 py-0.5 text-[0.9em]">{node.text}</code>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="text-primary underline">
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+const renderBlock = (block: MarkdownBlock, index: number): React.ReactNode => {
+  switch (block.type) {
+    case 'heading':
+      return (
+        <p key={index} role="heading" aria-level={block.level} className={HEADING_CLASSES[Math.min(block.level, 3) - 1]}>
+          {renderInline(block.children)}
+        </p>
+      );
+    case 'paragraph':
+      return <p key={index} className="whitespace-pre-line">{renderInline(block.children)}</p>;
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List key={index} className={`pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+          {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>)}
+        </List>
+      );
+    }
+    case 'quote':
+      return (
+        <blockquote key={index} className="border-l-2 border-primary/50 pl-3 text-muted-foreground space-y-2">
+          {block.blocks.map(renderBlock)}
+        </blockquote>
+      );
+    case 'code':
+      return (
+        <pre key={index} className="overflow-x-auto rounded-md bg-muted p-3 text-xs">
+          <code>{block.text}</code>
+        </pre>
+      );
+    case 'rule':
+      return <hr key={index} className="border-border" />;
+  }
+};
+
+/**
+ * MarkdownText renders notes written in Markdown. Links only open http(s) and mailto addresses.
+ */
+const MarkdownText: React.FC<MarkdownTextProps> = ({ markdown, className }) => (
+  <div className={`space-y-2 text-sm leading-relaxed ${className ?? ''}`}>
+    {parseMarkdown(markdown).map(renderBlock)}
+  </div>
+);
+
+export default MarkdownText;
@@ -0,0 +1,267 @@
+// ShareCollectionDialog.tsx
+// Dialog for publishing a collection as a read-only link, and managing or revoking that link.
+
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Copy, Globe, Link2Off, Loader2, RotateCw } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { Collection } from '@/lib/collections';
+import {
+  CollectionShare,
+  createShare,
+  fetchShare,
+  regenerateShareSlug,
+  revokeShare,
+  shareUrl,
+  updateShare,
+} from '@/lib/shares';
+
+interface ShareCollectionDialogProps {
+  // The collection being shared; the dialog is closed while null
+  collection: Collection | null;
+  onOpenChange: (open: boolean) => void;
+  // Called when the collection starts or stops being shared
+  onSharedChange: (collectionId: string, shared: boolean) => void;
+}
+
+/**
+ * ShareCollectionDialog publishes a collection at an unguessable /s/... address.
+ * - Anyone with the link sees the bookmarks filed directly in the collection, read-only.
+ * - Notes and summaries can each be hidden from visitors.
+ * - "New link" replaces the address (the old one stops working); "Stop sharing" revokes it.
+ */
+const ShareCollectionDialog: React.FC<ShareCollectionDialogProps> = ({ collection, onOpenChange, onSharedChange }) => {
+  const { user } = useAuth();
+  const [share, setShare] = useState<CollectionShare | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  // Action waiting for confirmation, since both break the current link
+  const [confirming, setConfirming] = useState<'regenerate' | 'revoke' | null>(null);
+
+  const collectionId = collection?.id;
+
+  useEffect(() => {
+    setShare(null);
+    if (!collectionId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    fetchShare(collectionId)
+      .then(result => {
+        if (!cancelled) setShare(result);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        toast({
+          title: "Error loading sharing settings",
+          description: (error as Error).message,
+          variant: "destructive",
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [collectionId]);
+
+  // Runs a change to the share, reporting failures under `title`
+  const run = async (title: string, action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title,
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = () =>
+    run("Error sharing collection", async () => {
+      if (!user || !collection) return;
+      setShare(await createShare(user.id, collection.id));
+      onSharedChange(collection.id, true);
+    });
+
+  const handleToggle = (changes: { hide_notes?: boolean; hide_summaries?: boolean }) =>
+    run("Error updating sharing settings", async () => {
+      if (!share) return;
+      setShare(await updateShare(share.id, changes));
+    });
+
+  const handleRegenerate = () =>
+    run("Error creating a new link", async () => {
+      if (!share) return;
+      const slug = await regenerateShareSlug(share.id);
+      setShare({ ...share, slug });
+      toast({ title: "New link created", description: "The previous link no longer works." });
+    });
+
+  const handleRevoke = () =>
+    run("Error stopping sharing", async () => {
+      if (!share || !collection) return;
+      await revokeShare(share.id);
+      setShare(null);
+      onSharedChange(collection.id, false);
+      toast({ title: "Sharing stopped", description: `"${collection.name}" is private again.` });
+    });
+
+  const handleCopy = async () => {
+    if (!share) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl(share.slug));
+      toast({ title: "Link copied" });
+    } catch {
+      toast({
+        title: "Couldn't copy the link",
+        description: "Select the link and copy it instead.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={collection !== null} onOpenChange={onOpenChange}>
+        <DialogContent className="glass-card">
+          <DialogHeader>
+            <DialogTitle>Share "{collection?.name}"</DialogTitle>
+            <DialogDescription>
+              Anyone with the link can view the bookmarks in this folder, without signing in. They can't
+              change anything, and subfolders aren't included.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : share ? (
+            <div className="space-y-4">
+              <div className="flex gap-2">
+                <Input
+                  readOnly
+                  value={shareUrl(share.slug)}
+                  onFocus={(e) => e.target.select()}
+                  className="glass font-mono text-xs"
+                  aria-label="Share link"
+                />
+                <Button variant="outline" onClick={handleCopy}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  Copy
+                </Button>
+              </div>
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor="share-hide-notes">Hide my notes</Label>
+                  <Switch
+                    id="share-hide-notes"
+                    checked={share.hide_notes}
+                    onCheckedChange={(hide_notes) => handleToggle({ hide_notes })}
+                    disabled={isBusy}
+                  />
+                </div>
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor="share-hide-summaries">Hide summaries and key points</Label>
+                  <Switch
+                    id="share-hide-summaries"
+                    checked={share.hide_summaries}
+                    onCheckedChange={(hide_summaries) => handleToggle({ hide_summaries })}
+                    disabled={isBusy}
+                  />
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center gap-3 py-4 text-center">
+              <Globe className="h-10 w-10 text-muted-foreground" />
+              <p className="text-sm text-muted-foreground">This folder is private.</p>
+            </div>
+          )}
+
+          <DialogFooter className="gap-2 sm:justify-between">
+            {share ? (
+              <>
+                <div className="flex gap-2">
+                  <Button variant="ghost" onClick={() => setConfirming('regenerate')} disabled={isBusy}>
+                    <RotateCw className="mr-2 h-4 w-4" />
+                    New link
+                  </Button>
+                  <Button variant="ghost" className="text-destructive" onClick={() => setConfirming('revoke')} disabled={isBusy}>
+                    <Link2Off className="mr-2 h-4 w-4" />
+                    Stop sharing
+                  </Button>
+                </div>
+                <Button onClick={() => onOpenChange(false)} className="btn-primary">
+                  Done
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button variant="ghost" onClick={() => onOpenChange(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleCreate} disabled={isBusy || isLoading} className="btn-primary">
+                  {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Create link
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Confirmation for actions that break the current link */}
+      <AlertDialog open={confirming !== null} onOpenChange={(open) => !open && setConfirming(null)}>
+        <AlertDialogContent className="glass-card">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirming === 'revoke' ? 'Stop sharing this folder?' : 'Create a new link?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirming === 'revoke'
+                ? 'The current link stops working right away. You can share the folder again later with a new link.'
+                : 'The current link stops working right away. Anyone who should keep access needs the new one.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirming === 'revoke' ? handleRevoke : handleRegenerate}>
+              {confirming === 'revoke' ? 'Stop sharing' : 'Create new link'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default ShareCollectionDialog;
@@ -0,0 +1,114 @@
+// SharedBookmarkGrid.tsx
+// Read-only grid of the bookmarks in a shared collection, for visitors of a /s/:slug link.
+
+import React, { useMemo, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Search, Filter } from 'lucide-react';
+import BookmarkCard from './BookmarkCard';
+import { Bookmark } from '@/lib/bookmarks';
+import { collectTags, tagMatches } from '@/lib/tags';
+import { matchesSearchQuery, parseSearchQuery } from '@/lib/search-query';
+
+interface SharedBookmarkGridProps {
+  bookmarks: Bookmark[];
+}
+
+/**
+ * SharedBookmarkGrid shows a shared collection the way its owner's grid does, without any of
+ * the owner's actions.
+ * - Cards are read-only: no dragging, editing, selection or reading state.
+ * - Search (with the same query language, matched in the browser) and tag filters still work.
+ */
+const SharedBookmarkGrid: React.FC<SharedBookmarkGridProps> = ({ bookmarks }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+
+  const allTags = useMemo(() => collectTags(bookmarks), [bookmarks]);
+
+  const filteredBookmarks = useMemo(() => {
+    const { ast } = parseSearchQuery(searchTerm);
+    return bookmarks.filter(bookmark =>
+      (!ast || matchesSearchQuery(ast, bookmark)) &&
+      (selectedTags.length === 0 ||
+        selectedTags.some(selected => bookmark.tags.some(tag => tagMatches(tag, selected))))
+    );
+  }, [bookmarks, searchTerm, selectedTags]);
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Search and tag filters */}
+      <div className="space-y-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+          <Input
+            placeholder="Search this collection..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10 glass"
+          />
+        </div>
+
+        {allTags.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <Filter className="h-4 w-4" />
+              Filter by tags:
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {allTags.map(tag => (
+                <Badge
+                  key={tag}
+                  variant={selectedTags.includes(tag) ? "default" : "outline"}
+                  className="cursor-pointer hover:bg-primary/20 transition-colors"
+                  onClick={() => toggleTag(tag)}
+                >
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Results */}
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {filteredBookmarks.length} bookmark{filteredBookmarks.length !== 1 ? 's' : ''}
+          {searchTerm || selectedTags.length > 0 ? ' found' : ''}
+        </p>
+        {(searchTerm || selectedTags.length > 0) && (
+          <button
+            onClick={() => {
+              setSearchTerm('');
+              setSelectedTags([]);
+            }}
+            className="text-sm text-primary hover:underline"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {filteredBookmarks.length === 0 ? (
+        <div className="glass-card rounded-lg p-8 text-center">
+          <p className="text-muted-foreground">
+            {bookmarks.length === 0 ? 'This collection is empty.' : 'No bookmarks match your filters.'}
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {filteredBookmarks.map(bookmark => (
+            <BookmarkCard key={bookmark.id} bookmark={bookmark} readOnly />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SharedBookmarkGrid;
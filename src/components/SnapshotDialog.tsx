@@ -0,0 +1,205 @@
+// SnapshotDialog.tsx
+// Dialog showing the archived, readable copy of a bookmarked page, with its version history.
+// The snapshot HTML is rendered in a sandboxed iframe so nothing in it can run or reach the app.
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Archive, ExternalLink, Highlighter, Loader2, RotateCw } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { Bookmark } from '@/lib/bookmarks';
+import { archiveBookmark, fetchSnapshots, loadSnapshotHtml, Snapshot } from '@/lib/snapshots';
+
+interface SnapshotDialogProps {
+  // The bookmark whose archive is shown; the dialog is closed while null
+  bookmark: Bookmark | null;
+  onOpenChange: (open: boolean) => void;
+  // Called after archiving, with when the page was fetched
+  onArchived: (bookmarkId: string, fetchedAt: string) => void;
+}
+
+/**
+ * SnapshotDialog shows a bookmark's archived copy.
+ * - Lists every archived version, newest first, and shows the selected one.
+ * - "Archive again" fetches the page now; changed content becomes a new version.
+ * - Bookmarks without a snapshot get an "Archive now" action instead.
+ * - The sandboxed frame can't report selections, so highlighting happens in the reader.
+ */
+const SnapshotDialog: React.FC<SnapshotDialogProps> = ({ bookmark, onOpenChange, onArchived }) => {
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [html, setHtml] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isArchiving, setIsArchiving] = useState(false);
+
+  const bookmarkId = bookmark?.id;
+  const selected = snapshots.find(snapshot => snapshot.id === selectedId) ?? null;
+
+  const loadVersions = useCallback(async (id: string) => {
+    setIsLoading(true);
+    try {
+      const versions = await fetchSnapshots(id);
+      setSnapshots(versions);
+      setSelectedId(versions[0]?.id ?? null);
+    } catch (error) {
+      toast({
+        title: "Error loading archive",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Load the version list whenever the dialog opens for a bookmark
+  useEffect(() => {
+    setSnapshots([]);
+    setSelectedId(null);
+    setHtml(null);
+    if (bookmarkId) loadVersions(bookmarkId);
+  }, [bookmarkId, loadVersions]);
+
+  // Download the selected version's page
+  const selectedPath = selected?.html_path;
+  useEffect(() => {
+    if (!selectedPath) return;
+    let cancelled = false;
+    setHtml(null);
+    loadSnapshotHtml({ html_path: selectedPath })
+      .then(content => {
+        if (!cancelled) setHtml(content);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        toast({
+          title: "Error loading archived copy",
+          description: (error as Error).message,
+          variant: "destructive",
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedPath]);
+
+  const handleArchive = async () => {
+    if (!bookmark) return;
+    setIsArchiving(true);
+    try {
+      const { snapshot, unchanged } = await archiveBookmark(bookmark.id);
+      onArchived(bookmark.id, snapshot.fetched_at);
+      toast({
+        title: unchanged ? "Page unchanged" : "Page archived",
+        description: unchanged
+          ? `The page still matches version ${snapshot.version}.`
+          : `Saved version ${snapshot.version} of "${bookmark.title}".`,
+      });
+      await loadVersions(bookmark.id);
+    } catch (error) {
+      toast({
+        title: "Error archiving page",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  return (
+    <Dialog open={bookmark !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="glass-card flex h-[90vh] flex-col sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="pr-6 line-clamp-1">{bookmark?.title ?? 'Archived copy'}</DialogTitle>
+          <DialogDescription>
+            {selected
+              ? `Archived ${format(new Date(selected.fetched_at), 'MMM d, yyyy HH:mm')}${selected.word_count ? ` · ${selected.word_count.toLocaleString()} words` : ''}`
+              : 'A readable copy of the page, kept in case it changes or disappears.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Version picker and actions */}
+        <div className="flex flex-wrap items-center gap-2">
+          {snapshots.length > 0 && (
+            <Select value={selectedId ?? undefined} onValueChange={setSelectedId}>
+              <SelectTrigger className="glass w-auto min-w-[220px]" aria-label="Version">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {snapshots.map(snapshot => (
+                  <SelectItem key={snapshot.id} value={snapshot.id}>
+                    Version {snapshot.version} · {format(new Date(snapshot.created_at), 'MMM d, yyyy')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <div className="ml-auto flex gap-2">
+            {bookmark && snapshots.length > 0 && (
+              <Button variant="outline" size="sm" asChild>
+                <Link to={`/read/${bookmark.id}`}>
+                  <Highlighter className="mr-2 h-4 w-4" />
+                  Read & highlight
+                </Link>
+              </Button>
+            )}
+            {bookmark && (
+              <Button variant="outline" size="sm" asChild>
+                <a href={bookmark.url} target="_blank" rel="noopener noreferrer">
+                  <ExternalLink className="mr-2 h-4 w-4" />
+                  Open original
+                </a>
+              </Button>
+            )}
+            {snapshots.length > 0 && (
+              <Button variant="outline" size="sm" onClick={handleArchive} disabled={isArchiving}>
+                {isArchiving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCw className="mr-2 h-4 w-4" />}
+                Archive again
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Archived page */}
+        <div className="min-h-0 flex-1 overflow-hidden rounded-md border bg-white">
+          {isLoading || (selected && html === null) ? (
+            <div className="flex h-full items-center justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : selected && html !== null ? (
+            // The sandbox blocks scripts, forms and same-origin access; links may still open in a new tab
+            <iframe
+              title={`Archived copy of ${bookmark?.title ?? 'the page'}`}
+              srcDoc={html}
+              sandbox="allow-popups allow-popups-to-escape-sandbox"
+              className="h-full w-full"
+            />
+          ) : (
+            <div className="flex h-full flex-col items-center justify-center gap-4 p-6 text-center bg-background">
+              <Archive className="h-10 w-10 text-muted-foreground" />
+              <p className="text-sm text-muted-foreground">
+                This page hasn't been archived yet.
+              </p>
+              <Button onClick={handleArchive} disabled={isArchiving} className="btn-primary">
+                {isArchiving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Archive className="mr-2 h-4 w-4" />}
+                Archive now
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SnapshotDialog;
@@ -0,0 +1,204 @@
+// TagInput.tsx
+// Token input for tags: selected tags render as removable chips and suggestions appear as clickable chips below.
+
+import React, { useId, useMemo, useRef, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Sparkles, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { TagSuggestion } from '@/lib/tags';
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  // Returns ranked suggestions for the text being typed (tags already in `value` excluded)
+  getSuggestions: (query: string) => TagSuggestion[];
+  // Maps typed text to the tag that should be stored, e.g. reusing an existing spelling
+  normalize?: (tag: string) => string;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+/**
+ * TagInput edits a list of tags.
+ * - Enter, Tab or comma turns the typed text into a chip; pasting "a, b, c" adds several at once.
+ * - Backspace in an empty field removes the last chip.
+ * - Arrow keys move through the suggestion chips, Enter or Tab accepts the highlighted one and Escape hides them.
+ */
+const TagInput: React.FC<TagInputProps> = ({
+  id,
+  value,
+  onChange,
+  getSuggestions,
+  normalize = tag => tag.trim(),
+  placeholder,
+  disabled,
+}) => {
+  const listId = useId();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState('');
+  // Index of the highlighted suggestion; -1 when none is highlighted
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [showSuggestions, setShowSuggestions] = useState(true);
+
+  const suggestions = useMemo(
+    () => (showSuggestions && !disabled ? getSuggestions(query) : []),
+    [getSuggestions, query, showSuggestions, disabled]
+  );
+
+  // Adds tags, skipping blanks and ones already present (case-insensitively)
+  const addTags = (tags: string[]) => {
+    const next = [...value];
+    tags.map(normalize).forEach(tag => {
+      if (tag && !next.some(existing => existing.toLowerCase() === tag.toLowerCase())) next.push(tag);
+    });
+    if (next.length !== value.length) onChange(next);
+    setQuery('');
+    setActiveIndex(-1);
+    setShowSuggestions(true);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter(existing => existing !== tag));
+    inputRef.current?.focus();
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const text = e.target.value;
+    // A comma finishes the current tag; pasted lists are split
+    if (text.includes(',')) {
+      const parts = text.split(',');
+      addTags(parts.slice(0, -1));
+      setQuery(parts[parts.length - 1].trimStart());
+      return;
+    }
+    setQuery(text);
+    setActiveIndex(-1);
+    setShowSuggestions(true);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        if (suggestions.length === 0) return;
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        // Cycles through the suggestions and back to the text field (-1)
+        setActiveIndex(prev => {
+          const next = prev + step;
+          if (next >= suggestions.length) return -1;
+          return next < -1 ? suggestions.length - 1 : next;
+        });
+        break;
+      }
+      case 'Enter':
+      case 'Tab': {
+        const highlighted = suggestions[activeIndex];
+        if (highlighted) {
+          e.preventDefault();
+          addTags([highlighted.tag]);
+        } else if (query.trim()) {
+          e.preventDefault();
+          addTags([query]);
+        }
+        // With nothing typed, Enter submits the form and Tab moves focus as usual
+        break;
+      }
+      case 'Backspace':
+        if (!query && value.length > 0) {
+          e.preventDefault();
+          onChange(value.slice(0, -1));
+        }
+        break;
+      case 'Escape':
+        if (suggestions.length > 0) {
+          e.preventDefault();
+          setShowSuggestions(false);
+          setActiveIndex(-1);
+        }
+        break;
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {/* Chips and the text field, styled as a single input */}
+      <div
+        className={cn(
+          'glass flex min-h-10 w-full flex-wrap items-center gap-1 rounded-md border border-input px-3 py-1.5 text-sm',
+          'focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2 ring-offset-background',
+          disabled && 'cursor-not-allowed opacity-50'
+        )}
+        onClick={() => inputRef.current?.focus()}
+      >
+        {value.map(tag => (
+          <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+            {tag}
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                removeTag(tag);
+              }}
+              disabled={disabled}
+              className="rounded-full p-0.5 hover:bg-muted-foreground/20"
+              aria-label={`Remove tag ${tag}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <input
+          ref={inputRef}
+          id={id}
+          value={query}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onBlur={() => query.trim() && addTags([query])}
+          placeholder={value.length === 0 ? placeholder : undefined}
+          disabled={disabled}
+          role="combobox"
+          aria-expanded={suggestions.length > 0}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-activedescendant={activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+          className="min-w-[8rem] flex-1 bg-transparent py-1 outline-none placeholder:text-muted-foreground disabled:cursor-not-allowed"
+        />
+      </div>
+
+      {/* Suggestion chips */}
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <Sparkles className="h-3.5 w-3.5 text-muted-foreground" />
+          <ul id={listId} role="listbox" aria-label="Suggested tags" className="contents">
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={suggestion.tag}
+                id={`${listId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+              >
+                <Badge
+                  variant={index === activeIndex ? 'default' : 'outline'}
+                  className={cn(
+                    'cursor-pointer hover:bg-primary/20 transition-colors',
+                    suggestion.source === 'page' && index !== activeIndex && 'border-dashed'
+                  )}
+                  // Keep focus in the input so typing can continue after a click
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => addTags([suggestion.tag])}
+                  title={suggestion.source === 'vocabulary' ? 'One of your tags' : 'New tag from this page'}
+                >
+                  {suggestion.tag}
+                </Badge>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,555 @@
+// TagManager.tsx
+// Lists the tags of the open space as a nested tree with usage counts, and handles renaming, nesting,
+// merging, deleting and coloring them. Renames and merges run in the database so every
+// bookmark using the tag is updated at once.
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Combine, MoreHorizontal, Pencil, Tags, Trash2, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { toast } from '@/hooks/use-toast';
+import {
+  Tag,
+  TagNode,
+  TAG_COLORS,
+  TAG_SEPARATOR,
+  buildTagTree,
+  findDuplicateTags,
+  getParentTagName,
+  getTagLeafName,
+  tagBadgeStyle,
+  tagMatches,
+} from '@/lib/tags';
+import { canEditBookmarks, inSpace } from '@/lib/workspaces';
+
+// Value used by the parent select for "no parent"
+const NO_PARENT = '__none__';
+
+// State of the rename / move dialog
+interface EditState {
+  tag: Tag;
+  leaf: string;
+  parent: string | null;
+}
+
+// State of the merge dialog: every source is merged into the target
+interface MergeState {
+  sourceIds: string[];
+  targetId: string | null;
+}
+
+interface TagRowProps {
+  node: TagNode;
+  // False for workspace viewers, who only see the tags
+  canEdit: boolean;
+  selectedIds: Set<string>;
+  onToggleSelected: (id: string) => void;
+  onColor: (tag: Tag, color: string | null) => void;
+  onEdit: (tag: Tag) => void;
+  onMerge: (tag: Tag) => void;
+  onDelete: (tag: Tag) => void;
+}
+
+// One tag and, recursively, the tags nested under it
+const TagRow: React.FC<TagRowProps> = ({ node, canEdit, selectedIds, onToggleSelected, onColor, onEdit, onMerge, onDelete }) => (
+  <>
+    <li
+      className="flex items-center gap-3 rounded-md px-2 py-2 hover:bg-muted/50"
+      style={{ paddingLeft: `${0.5 + node.depth * 1.5}rem` }}
+    >
+      {canEdit && (
+        <Checkbox
+          checked={selectedIds.has(node.id)}
+          onCheckedChange={() => onToggleSelected(node.id)}
+          aria-label={`Select ${node.name}`}
+        />
+      )}
+
+      {/* Color picker */}
+      {canEdit ? (
+        <Popover>
+          <PopoverTrigger asChild>
+            <button
+              type="button"
+              className="h-4 w-4 flex-shrink-0 rounded-full border border-border"
+              style={{ backgroundColor: node.color ?? 'transparent' }}
+              aria-label={`Color for ${node.name}`}
+            />
+          </PopoverTrigger>
+          <PopoverContent className="glass-card w-auto p-3">
+            <div className="grid grid-cols-5 gap-2">
+              {TAG_COLORS.map(color => (
+                <button
+                  key={color}
+                  type="button"
+                  className={`h-6 w-6 rounded-full border-2 ${node.color === color ? 'border-foreground' : 'border-transparent'}`}
+                  style={{ backgroundColor: color }}
+                  onClick={() => onColor(node, color)}
+                  aria-label={color}
+                />
+              ))}
+            </div>
+            {node.color && (
+              <Button variant="ghost" size="sm" className="mt-2 w-full" onClick={() => onColor(node, null)}>
+                <X className="mr-2 h-3 w-3" />
+                No color
+              </Button>
+            )}
+          </PopoverContent>
+        </Popover>
+      ) : (
+        <span
+          className="h-4 w-4 flex-shrink-0 rounded-full border border-border"
+          style={{ backgroundColor: node.color ?? 'transparent' }}
+        />
+      )}
+
+      <Badge variant="secondary" style={tagBadgeStyle(node.color)} title={node.name}>
+        {getTagLeafName(node.name)}
+      </Badge>
+      <span className="text-xs text-muted-foreground">
+        {node.usage} bookmark{node.usage !== 1 ? 's' : ''}
+      </span>
+
+      {canEdit && (
+        <div className="ml-auto">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                <MoreHorizontal className="h-4 w-4" />
+                <span className="sr-only">Actions for {node.name}</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="glass-card">
+              <DropdownMenuItem onSelect={() => onEdit(node)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Rename or move
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => onMerge(node)}>
+                <Combine className="mr-2 h-4 w-4" />
+                Merge into...
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem className="text-destructive" onSelect={() => onDelete(node)}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      )}
+    </li>
+    {node.children.map(child => (
+      <TagRow
+        key={child.id}
+        node={child}
+        canEdit={canEdit}
+        selectedIds={selectedIds}
+        onToggleSelected={onToggleSelected}
+        onColor={onColor}
+        onEdit={onEdit}
+        onMerge={onMerge}
+        onDelete={onDelete}
+      />
+    ))}
+  </>
+);
+
+/**
+ * TagManager lets the user organize the tags of the open space.
+ * - Shows every tag in a tree (nested tags use "parent/child" names) with how many bookmarks use it.
+ * - Rename or move a tag under another; nested tags move with it.
+ * - Merge tags, either from a tag's menu or by selecting several; likely duplicates (JS/js) are pointed out.
+ * - Delete a tag (it is removed from every bookmark) and pick a color shown in the grid and on cards.
+ * - Workspace tags are shared by the members; viewers see them without the actions.
+ */
+const TagManager: React.FC = () => {
+  const { user } = useAuth();
+  const { activeWorkspace } = useWorkspace();
+  const workspaceId = activeWorkspace?.id ?? null;
+  const canEdit = canEditBookmarks(activeWorkspace);
+  const [tags, setTags] = useState<Tag[]>([]);
+  // Bookmarks per tag id
+  const [usage, setUsage] = useState<Map<string, number>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [editState, setEditState] = useState<EditState | null>(null);
+  const [mergeState, setMergeState] = useState<MergeState | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Tag | null>(null);
+
+  // Fetch tags with their usage counts
+  const fetchTags = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const query = supabase
+        .from('tags')
+        .select('id, name, color, bookmark_tags(count)')
+        .order('name', { ascending: true });
+      const { data, error } = await inSpace(query, user.id, workspaceId);
+
+      if (error) throw error;
+
+      setTags((data || []).map(({ id, name, color }) => ({ id, name, color })));
+      setUsage(new Map((data || []).map(tag => [tag.id, tag.bookmark_tags[0]?.count ?? 0])));
+      setSelectedIds(prev => new Set([...prev].filter(id => data?.some(tag => tag.id === id))));
+    } catch (error) {
+      toast({
+        title: "Error loading tags",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, workspaceId]);
+
+  useEffect(() => {
+    fetchTags();
+  }, [fetchTags]);
+
+  const tree = useMemo(() => buildTagTree(tags, usage), [tags, usage]);
+  const duplicates = useMemo(() => findDuplicateTags(tags, usage), [tags, usage]);
+  const tagById = useMemo(() => new Map(tags.map(tag => [tag.id, tag])), [tags]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // Runs a change, reports errors and reloads the list
+  const runChange = async (title: string, change: () => PromiseLike<{ error: { message: string } | null }>) => {
+    setIsSaving(true);
+    try {
+      const { error } = await change();
+      if (error) throw error;
+      await fetchTags();
+      return true;
+    } catch (error) {
+      toast({
+        title,
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleColor = async (tag: Tag, color: string | null) => {
+    // Update locally first so the swatch responds immediately
+    setTags(prev => prev.map(t => (t.id === tag.id ? { ...t, color } : t)));
+    await runChange("Error saving color", () =>
+      supabase.from('tags').update({ color }).eq('id', tag.id)
+    );
+  };
+
+  const openEdit = (tag: Tag) => {
+    setEditState({ tag, leaf: getTagLeafName(tag.name), parent: getParentTagName(tag.name) });
+  };
+
+  // The full name the edit dialog would save, e.g. "lang" + "rust" -> "lang/rust"
+  const editedName = editState
+    ? (editState.parent ? `${editState.parent}${TAG_SEPARATOR}` : '') + editState.leaf.trim()
+    : '';
+  const editError = editState && editState.leaf.includes(TAG_SEPARATOR)
+    ? `Use the parent field to nest tags instead of "${TAG_SEPARATOR}".`
+    : null;
+
+  const handleSaveEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editState || !editState.leaf.trim() || editError) return;
+
+    const saved = await runChange("Error renaming tag", () =>
+      supabase.rpc('rename_tag', { tag_id: editState.tag.id, new_name: editedName })
+    );
+    if (saved) {
+      toast({ title: "Tag updated", description: `"${editState.tag.name}" is now "${editedName}".` });
+      setEditState(null);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!mergeState?.targetId) return;
+    const target = tagById.get(mergeState.targetId);
+    const sourceIds = mergeState.sourceIds.filter(id => id !== mergeState.targetId);
+
+    const merged = await runChange("Error merging tags", () =>
+      supabase.rpc('merge_tags', { source_ids: sourceIds, target_id: mergeState.targetId! })
+    );
+    if (merged) {
+      toast({
+        title: "Tags merged",
+        description: `${sourceIds.length} tag${sourceIds.length !== 1 ? 's' : ''} merged into "${target?.name}".`,
+      });
+      setMergeState(null);
+      setSelectedIds(new Set());
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    const deleted = await runChange("Error deleting tag", () =>
+      supabase.rpc('delete_tag', { tag_id: deleteTarget.id })
+    );
+    if (deleted) {
+      toast({ title: "Tag deleted", description: `"${deleteTarget.name}" was removed from every bookmark.` });
+    }
+    setDeleteTarget(null);
+  };
+
+  // Parents the edited tag can move under: anything except itself and its own nested tags
+  const parentOptions = editState
+    ? tags.filter(tag => !tagMatches(tag.name, editState.tag.name))
+    : [];
+  const mergeSources = mergeState ? mergeState.sourceIds.filter(id => id !== mergeState.targetId) : [];
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Tags className="h-5 w-5 text-primary" />
+            <CardTitle>Tags</CardTitle>
+          </div>
+          {canEdit && selectedIds.size > 1 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setMergeState({ sourceIds: [...selectedIds], targetId: null })}
+            >
+              <Combine className="mr-2 h-4 w-4" />
+              Merge {selectedIds.size} selected
+            </Button>
+          )}
+        </div>
+        <CardDescription>
+          {activeWorkspace
+            ? `Tags shared by everyone in ${activeWorkspace.name}.`
+            : 'Your personal tags.'}{' '}
+          {canEdit
+            ? 'Rename, merge, nest and color them. Changes apply to every bookmark using them.'
+            : 'Viewers can see them but not change them.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Likely duplicates, for those who can merge them */}
+        {canEdit && duplicates.map(group => (
+          <Alert key={group[0].id}>
+            <AlertDescription className="flex items-center justify-between gap-2">
+              <span>
+                Possible duplicates: {group.map(tag => `"${tag.name}"`).join(', ')}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setMergeState({ sourceIds: group.map(tag => tag.id), targetId: group[0].id })}
+              >
+                Merge
+              </Button>
+            </AlertDescription>
+          </Alert>
+        ))}
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[...Array(5)].map((_, i) => (
+              <Skeleton key={i} className="h-8 w-full" />
+            ))}
+          </div>
+        ) : tree.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No tags yet. Tags you add to bookmarks show up here.
+          </p>
+        ) : (
+          <ul className="space-y-1">
+            {tree.map(node => (
+              <TagRow
+                key={node.id}
+                node={node}
+                canEdit={canEdit}
+                selectedIds={selectedIds}
+                onToggleSelected={toggleSelected}
+                onColor={handleColor}
+                onEdit={openEdit}
+                onMerge={(tag) => setMergeState({ sourceIds: [tag.id], targetId: null })}
+                onDelete={setDeleteTarget}
+              />
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      {/* Rename / move dialog */}
+      <Dialog open={editState !== null} onOpenChange={(open) => !open && setEditState(null)}>
+        <DialogContent className="glass-card">
+          <form onSubmit={handleSaveEdit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Rename or move "{editState?.tag.name}"</DialogTitle>
+              <DialogDescription>
+                Every bookmark using this tag is updated. Tags nested under it move along.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="tag-name">Name</Label>
+              <Input
+                id="tag-name"
+                autoFocus
+                value={editState?.leaf ?? ''}
+                onChange={(e) => setEditState(prev => (prev ? { ...prev, leaf: e.target.value } : prev))}
+                disabled={isSaving}
+                className="glass"
+              />
+              {editError && <p className="text-xs text-destructive">{editError}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label>Nested under</Label>
+              <Select
+                value={editState?.parent ?? NO_PARENT}
+                onValueChange={(value) =>
+                  setEditState(prev => (prev ? { ...prev, parent: value === NO_PARENT ? null : value } : prev))
+                }
+                disabled={isSaving}
+              >
+                <SelectTrigger className="glass">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PARENT}>No parent (top level)</SelectItem>
+                  {parentOptions.map(tag => (
+                    <SelectItem key={tag.id} value={tag.name}>{tag.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {editState?.leaf.trim() && (
+                <p className="text-xs text-muted-foreground">Will be saved as "{editedName}".</p>
+              )}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => setEditState(null)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isSaving || !editState?.leaf.trim() || !!editError || editedName === editState?.tag.name}
+                className="btn-primary"
+              >
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Merge dialog */}
+      <Dialog open={mergeState !== null} onOpenChange={(open) => !open && setMergeState(null)}>
+        <DialogContent className="glass-card">
+          <DialogHeader>
+            <DialogTitle>Merge tags</DialogTitle>
+            <DialogDescription>
+              Bookmarks tagged with {mergeSources.length > 0
+                ? mergeSources.map(id => `"${tagById.get(id)?.name}"`).join(', ')
+                : 'the selected tags'} will get the tag you pick instead. The merged tags are deleted.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Merge into</Label>
+            <Select
+              value={mergeState?.targetId ?? undefined}
+              onValueChange={(value) => setMergeState(prev => (prev ? { ...prev, targetId: value } : prev))}
+              disabled={isSaving}
+            >
+              <SelectTrigger className="glass">
+                <SelectValue placeholder="Choose a tag" />
+              </SelectTrigger>
+              <SelectContent>
+                {tags.map(tag => (
+                  <SelectItem key={tag.id} value={tag.id}>
+                    {tag.name} ({usage.get(tag.id) ?? 0})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => setMergeState(null)}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={handleMerge}
+              disabled={isSaving || !mergeState?.targetId || mergeSources.length === 0}
+              className="btn-primary"
+            >
+              Merge
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent className="glass-card">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleteTarget?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The tag is removed from {usage.get(deleteTarget?.id ?? '') ?? 0} bookmark(s). The bookmarks themselves
+              and any tags nested under it are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default TagManager;
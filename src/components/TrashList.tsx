@@ -0,0 +1,237 @@
+// TrashList.tsx
+// Lists bookmarks in the trash with restore and permanent-delete actions.
+// Bookmarks left in the trash are purged automatically after TRASH_RETENTION_DAYS.
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Globe, RotateCcw, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { canEditBookmarks } from '@/lib/workspaces';
+import {
+  TRASH_RETENTION_DAYS,
+  TrashedBookmark,
+  daysUntilPurge,
+  deleteTrashedBookmarks,
+  fetchTrashedBookmarks,
+  restoreBookmarks,
+} from '@/lib/trash';
+
+// What the confirmation dialog is about to delete: one bookmark, or everything
+type PendingDelete = { type: 'one'; bookmark: TrashedBookmark } | { type: 'all' };
+
+// Hostname of a URL for display, or the URL itself if it can't be parsed
+const getHost = (url: string) => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * TrashList shows the deleted bookmarks of the open space.
+ * - Each row shows when it was deleted and how long until it's purged.
+ * - Restore puts a bookmark back in the grid with its tags, collection and position.
+ * - "Delete forever" and "Empty trash" ask for confirmation first.
+ * - Workspace viewers see the trash without the actions.
+ */
+const TrashList: React.FC = () => {
+  const { activeWorkspace } = useWorkspace();
+  const workspaceId = activeWorkspace?.id ?? null;
+  const canEdit = canEditBookmarks(activeWorkspace);
+  const [items, setItems] = useState<TrashedBookmark[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Ids of rows with a restore or delete in flight
+  const [busyIds, setBusyIds] = useState<Set<string>>(new Set());
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setItems(await fetchTrashedBookmarks(workspaceId));
+    } catch (error) {
+      toast({
+        title: "Error loading trash",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workspaceId]);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const setBusy = (id: string, busy: boolean) => {
+    setBusyIds(prev => {
+      const next = new Set(prev);
+      if (busy) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const handleRestore = async (bookmark: TrashedBookmark) => {
+    setBusy(bookmark.id, true);
+    try {
+      await restoreBookmarks([bookmark.id]);
+      setItems(prev => prev.filter(item => item.id !== bookmark.id));
+      toast({
+        title: "Bookmark restored",
+        description: `"${bookmark.title}" is back in your collection.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error restoring bookmark",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(bookmark.id, false);
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete) return;
+    const target = pendingDelete;
+    setPendingDelete(null);
+
+    if (target.type === 'one') setBusy(target.bookmark.id, true);
+    try {
+      const count = await deleteTrashedBookmarks(target.type === 'one' ? [target.bookmark.id] : undefined, workspaceId);
+      setItems(prev => (target.type === 'one' ? prev.filter(item => item.id !== target.bookmark.id) : []));
+      toast({
+        title: target.type === 'one' ? "Bookmark deleted forever" : "Trash emptied",
+        description: `${count} bookmark${count !== 1 ? 's' : ''} permanently deleted.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error deleting bookmarks",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      if (target.type === 'one') setBusy(target.bookmark.id, false);
+    }
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Trash2 className="h-5 w-5 text-primary" />
+            <CardTitle>Trash</CardTitle>
+          </div>
+          {items.length > 0 && canEdit && (
+            <Button variant="outline" size="sm" onClick={() => setPendingDelete({ type: 'all' })}>
+              Empty trash
+            </Button>
+          )}
+        </div>
+        <CardDescription>
+          Deleted bookmarks stay here for {TRASH_RETENTION_DAYS} days before they're removed for good.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {[...Array(4)].map((_, i) => (
+              <Skeleton key={i} className="h-14 w-full" />
+            ))}
+          </div>
+        ) : items.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            The trash is empty.
+          </p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {items.map(item => {
+              const daysLeft = daysUntilPurge(item.deleted_at);
+              const isBusy = busyIds.has(item.id);
+              return (
+                <li key={item.id} className="flex items-center gap-3 py-3">
+                  <div className="flex-shrink-0 w-8 h-8 rounded-lg bg-muted flex items-center justify-center">
+                    {item.favicon_url ? (
+                      <img src={item.favicon_url} alt="" className="w-5 h-5 rounded" />
+                    ) : (
+                      <Globe className="w-4 h-4 text-muted-foreground" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate" title={item.title}>{item.title}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {item.site_name || getHost(item.url)} · Deleted {formatDistanceToNow(new Date(item.deleted_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <Badge variant={daysLeft <= 3 ? 'destructive' : 'outline'} className="flex-shrink-0 text-xs">
+                    {daysLeft === 0 ? 'Purged today' : `${daysLeft} day${daysLeft !== 1 ? 's' : ''} left`}
+                  </Badge>
+                  {canEdit && (
+                    <>
+                      <Button variant="ghost" size="sm" onClick={() => handleRestore(item)} disabled={isBusy}>
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                        Restore
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setPendingDelete({ type: 'one', bookmark: item })}
+                        disabled={isBusy}
+                        className="text-destructive hover:bg-destructive/20"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Delete forever</span>
+                      </Button>
+                    </>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+
+      {/* Permanent delete confirmation */}
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent className="glass-card">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingDelete?.type === 'one' ? `Delete "${pendingDelete.bookmark.title}" forever?` : 'Empty the trash?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.type === 'one'
+                ? 'This bookmark will be permanently deleted. This cannot be undone.'
+                : `All ${items.length} bookmark${items.length !== 1 ? 's' : ''} in the trash will be permanently deleted. This cannot be undone.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete}>Delete forever</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default TrashList;
@@ -0,0 +1,404 @@
+// WorkspaceMembersDialog.tsx
+// Dialog listing a workspace's members and open invitations. Owners invite people by email, change roles and remove members.
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, Loader2, LogOut, Mail, Trash2, UserMinus } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import {
+  deleteWorkspace,
+  fetchPendingInvitations,
+  fetchWorkspaceMembers,
+  InvitableRole,
+  invitationUrl,
+  inviteMember,
+  removeMember,
+  revokeInvitation,
+  roleLabel,
+  updateMemberRole,
+  Workspace,
+  WorkspaceInvitation,
+  WorkspaceMember,
+  WorkspaceRole,
+  WORKSPACE_ROLES,
+} from '@/lib/workspaces';
+
+interface WorkspaceMembersDialogProps {
+  // Workspace whose members are shown; the dialog is closed while null
+  workspace: Workspace | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Actions that need confirmation
+type PendingConfirm =
+  | { type: 'remove'; member: WorkspaceMember }
+  | { type: 'leave' }
+  | { type: 'delete' };
+
+/**
+ * WorkspaceMembersDialog manages who can use a workspace.
+ * - Everyone sees the members and their roles, and can leave the workspace.
+ * - Owners invite by email (as editor or viewer), change roles, remove members, withdraw
+ *   open invitations and delete the workspace. A workspace always keeps at least one owner.
+ * - When the server can't send email, the invitation link is shown to copy and share by hand.
+ */
+const WorkspaceMembersDialog: React.FC<WorkspaceMembersDialogProps> = ({ workspace, onOpenChange }) => {
+  const { user } = useAuth();
+  const { refreshWorkspaces } = useWorkspace();
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<InvitableRole>('editor');
+  // Link of the last invitation, shown when it couldn't be emailed
+  const [unsentLink, setUnsentLink] = useState<string | null>(null);
+  const [confirming, setConfirming] = useState<PendingConfirm | null>(null);
+
+  const workspaceId = workspace?.id;
+  const isOwner = workspace?.role === 'owner';
+
+  const loadMembers = useCallback(async () => {
+    if (!workspaceId) return;
+    const [memberList, invitationList] = await Promise.all([
+      fetchWorkspaceMembers(workspaceId),
+      isOwner ? fetchPendingInvitations(workspaceId) : Promise.resolve([]),
+    ]);
+    setMembers(memberList);
+    setInvitations(invitationList);
+  }, [workspaceId, isOwner]);
+
+  useEffect(() => {
+    setMembers([]);
+    setInvitations([]);
+    setUnsentLink(null);
+    setInviteEmail('');
+    if (!workspaceId) return;
+
+    setIsLoading(true);
+    loadMembers()
+      .catch(error => {
+        toast({
+          title: "Error loading members",
+          description: (error as Error).message,
+          variant: "destructive",
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, [workspaceId, loadMembers]);
+
+  // Runs a change, reporting failures under `title`
+  const run = async (title: string, action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title,
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    run("Error sending invitation", async () => {
+      if (!workspace || !inviteEmail.trim()) return;
+      const sent = await inviteMember(workspace.id, inviteEmail, inviteRole);
+      setInviteEmail('');
+      setUnsentLink(sent.emailed ? null : sent.invite_url);
+      setInvitations(prev => [sent.invitation, ...prev.filter(invitation => invitation.email !== sent.invitation.email)]);
+      toast(
+        sent.emailed
+          ? { title: "Invitation sent", description: `${sent.invitation.email} will get an email with a link to join.` }
+          : { title: "Invitation created", description: "Email isn't set up, so copy the link and send it yourself." }
+      );
+    });
+  };
+
+  const handleRoleChange = (member: WorkspaceMember, role: WorkspaceRole) =>
+    run("Error changing role", async () => {
+      if (!workspace) return;
+      await updateMemberRole(workspace.id, member.user_id, role);
+      setMembers(prev => prev.map(item => (item.user_id === member.user_id ? { ...item, role } : item)));
+      // Owners who step down lose the owner controls
+      if (member.user_id === user?.id) await refreshWorkspaces();
+    });
+
+  const handleRevokeInvitation = (invitation: WorkspaceInvitation) =>
+    run("Error withdrawing invitation", async () => {
+      await revokeInvitation(invitation.id);
+      setInvitations(prev => prev.filter(item => item.id !== invitation.id));
+      if (unsentLink === invitationUrl(invitation.token)) setUnsentLink(null);
+    });
+
+  const handleConfirm = () =>
+    run("Error updating workspace", async () => {
+      if (!workspace || !user || !confirming) return;
+      if (confirming.type === 'remove') {
+        await removeMember(workspace.id, confirming.member.user_id);
+        setMembers(prev => prev.filter(item => item.user_id !== confirming.member.user_id));
+        return;
+      }
+      if (confirming.type === 'leave') {
+        await removeMember(workspace.id, user.id);
+        toast({ title: "Left workspace", description: `You're no longer a member of "${workspace.name}".` });
+      } else {
+        await deleteWorkspace(workspace.id);
+        toast({ title: "Workspace deleted", description: `"${workspace.name}" and its bookmarks were deleted.` });
+      }
+      onOpenChange(false);
+      await refreshWorkspaces();
+    });
+
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Link copied" });
+    } catch {
+      toast({
+        title: "Couldn't copy the link",
+        description: "Select the link and copy it instead.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={workspace !== null} onOpenChange={onOpenChange}>
+        <DialogContent className="glass-card max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{workspace?.name} members</DialogTitle>
+            <DialogDescription>
+              Editors can add, change and delete bookmarks; viewers can only read them.
+              {isOwner && ' Owners also manage members.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {isOwner && (
+            <form onSubmit={handleInvite} className="space-y-2">
+              <div className="flex gap-2">
+                <Input
+                  type="email"
+                  placeholder="teammate@example.com"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  disabled={isBusy}
+                  className="glass"
+                  aria-label="Email address to invite"
+                />
+                <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as InvitableRole)}>
+                  <SelectTrigger className="glass w-28" aria-label="Role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="editor">Editor</SelectItem>
+                    <SelectItem value="viewer">Viewer</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button type="submit" disabled={isBusy || !inviteEmail.trim()} className="btn-primary">
+                  <Mail className="mr-2 h-4 w-4" />
+                  Invite
+                </Button>
+              </div>
+              {unsentLink && (
+                <div className="flex gap-2">
+                  <Input
+                    readOnly
+                    value={unsentLink}
+                    onFocus={(e) => e.target.select()}
+                    className="glass font-mono text-xs"
+                    aria-label="Invitation link"
+                  />
+                  <Button type="button" variant="outline" onClick={() => handleCopy(unsentLink)}>
+                    <Copy className="mr-2 h-4 w-4" />
+                    Copy
+                  </Button>
+                </div>
+              )}
+            </form>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            <div className="max-h-80 space-y-4 overflow-y-auto">
+              <ul className="space-y-2">
+                {members.map(member => {
+                  const isSelf = member.user_id === user?.id;
+                  return (
+                    <li key={member.user_id} className="flex items-center gap-3">
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium">
+                          {member.full_name ?? member.email ?? 'Unknown user'}
+                          {isSelf && <span className="text-muted-foreground"> (you)</span>}
+                        </p>
+                        {member.full_name && member.email && (
+                          <p className="truncate text-xs text-muted-foreground">{member.email}</p>
+                        )}
+                      </div>
+                      {isOwner ? (
+                        <Select
+                          value={member.role}
+                          onValueChange={(role) => handleRoleChange(member, role as WorkspaceRole)}
+                          disabled={isBusy}
+                        >
+                          <SelectTrigger className="glass h-8 w-28" aria-label={`Role of ${member.email ?? 'member'}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {WORKSPACE_ROLES.map(option => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Badge variant="outline">{roleLabel(member.role)}</Badge>
+                      )}
+                      {isOwner && !isSelf && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive"
+                          onClick={() => setConfirming({ type: 'remove', member })}
+                          disabled={isBusy}
+                          title="Remove from workspace"
+                        >
+                          <UserMinus className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+
+              {invitations.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Invited</p>
+                  <ul className="space-y-2">
+                    {invitations.map(invitation => {
+                      const expired = new Date(invitation.expires_at) < new Date();
+                      return (
+                        <li key={invitation.id} className="flex items-center gap-3">
+                          <div className="min-w-0 flex-1">
+                            <p className="truncate text-sm">{invitation.email}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {roleLabel(invitation.role)} ·{' '}
+                              {expired
+                                ? 'expired'
+                                : `expires ${formatDistanceToNow(new Date(invitation.expires_at), { addSuffix: true })}`}
+                            </p>
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => handleCopy(invitationUrl(invitation.token))}
+                            disabled={expired}
+                            title="Copy invitation link"
+                          >
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-destructive"
+                            onClick={() => handleRevokeInvitation(invitation)}
+                            disabled={isBusy}
+                            title="Withdraw invitation"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter className="gap-2 sm:justify-between">
+            <div className="flex gap-2">
+              <Button variant="ghost" className="text-destructive" onClick={() => setConfirming({ type: 'leave' })} disabled={isBusy}>
+                <LogOut className="mr-2 h-4 w-4" />
+                Leave
+              </Button>
+              {isOwner && (
+                <Button variant="ghost" className="text-destructive" onClick={() => setConfirming({ type: 'delete' })} disabled={isBusy}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete workspace
+                </Button>
+              )}
+            </div>
+            <Button onClick={() => onOpenChange(false)} className="btn-primary">
+              Done
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Confirmation for removing people and deleting the workspace */}
+      <AlertDialog open={confirming !== null} onOpenChange={(open) => !open && setConfirming(null)}>
+        <AlertDialogContent className="glass-card">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirming?.type === 'remove'
+                ? `Remove ${confirming.member.full_name ?? confirming.member.email ?? 'this member'}?`
+                : confirming?.type === 'leave'
+                  ? `Leave "${workspace?.name}"?`
+                  : `Delete "${workspace?.name}"?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirming?.type === 'remove'
+                ? "They lose access to the workspace's bookmarks right away. Bookmarks they added stay."
+                : confirming?.type === 'leave'
+                  ? "You lose access to the workspace's bookmarks until someone invites you again. Bookmarks you added stay."
+                  : 'This permanently deletes the workspace and every bookmark in it for all members. It cannot be undone.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirm}>
+              {confirming?.type === 'remove' ? 'Remove' : confirming?.type === 'leave' ? 'Leave' : 'Delete workspace'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default WorkspaceMembersDialog;
@@ -0,0 +1,155 @@
+// WorkspaceSwitcher.tsx
+// Header menu for switching between the personal bookmarks and team workspaces, creating a workspace and managing its members.
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Check, ChevronsUpDown, Plus, User, Users, UserCog } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { createWorkspace, roleLabel } from '@/lib/workspaces';
+import WorkspaceMembersDialog from './WorkspaceMembersDialog';
+
+/**
+ * WorkspaceSwitcher shows which space is open and switches between them.
+ * - "Personal" holds the user's private bookmarks; each workspace lists the user's role in it.
+ * - "New workspace" creates one with the user as its owner and opens it.
+ * - "Members" opens the member list of the current workspace, where owners invite people and change roles.
+ */
+const WorkspaceSwitcher: React.FC = () => {
+  const { user } = useAuth();
+  const { workspaces, activeWorkspace, setActiveWorkspaceId, refreshWorkspaces } = useWorkspace();
+  // Name typed in the "New workspace" dialog; null while it's closed
+  const [newName, setNewName] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isMembersOpen, setIsMembersOpen] = useState(false);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !newName?.trim()) return;
+
+    setIsCreating(true);
+    try {
+      const workspace = await createWorkspace(user.id, newName);
+      await refreshWorkspaces();
+      setActiveWorkspaceId(workspace.id);
+      setNewName(null);
+      toast({
+        title: "Workspace created",
+        description: `Invite your team to "${workspace.name}" from the Members menu.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error creating workspace",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="glass max-w-[12rem] gap-2">
+            {activeWorkspace ? <Users className="h-4 w-4 flex-shrink-0" /> : <User className="h-4 w-4 flex-shrink-0" />}
+            <span className="truncate">{activeWorkspace?.name ?? 'Personal'}</span>
+            <ChevronsUpDown className="h-3 w-3 flex-shrink-0 opacity-60" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className="w-60 glass-card" align="end">
+          <DropdownMenuItem className="cursor-pointer" onSelect={() => setActiveWorkspaceId(null)}>
+            <User className="mr-2 h-4 w-4" />
+            <span className="flex-1">Personal</span>
+            {!activeWorkspace && <Check className="h-4 w-4" />}
+          </DropdownMenuItem>
+          {workspaces.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs text-muted-foreground">Workspaces</DropdownMenuLabel>
+              {workspaces.map(workspace => (
+                <DropdownMenuItem
+                  key={workspace.id}
+                  className="cursor-pointer"
+                  onSelect={() => setActiveWorkspaceId(workspace.id)}
+                >
+                  <Users className="mr-2 h-4 w-4 flex-shrink-0" />
+                  <span className="flex-1 truncate">{workspace.name}</span>
+                  <span className="ml-2 text-xs text-muted-foreground">{roleLabel(workspace.role)}</span>
+                  {activeWorkspace?.id === workspace.id && <Check className="ml-2 h-4 w-4" />}
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+          <DropdownMenuSeparator />
+          {activeWorkspace && (
+            <DropdownMenuItem className="cursor-pointer" onSelect={() => setIsMembersOpen(true)}>
+              <UserCog className="mr-2 h-4 w-4" />
+              Members
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem className="cursor-pointer" onSelect={() => setNewName('')}>
+            <Plus className="mr-2 h-4 w-4" />
+            New workspace
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* New workspace dialog */}
+      <Dialog open={newName !== null} onOpenChange={(open) => !open && setNewName(null)}>
+        <DialogContent className="glass-card">
+          <form onSubmit={handleCreate} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>New workspace</DialogTitle>
+              <DialogDescription>
+                A shared space for your team's bookmarks. You'll be its owner and can invite people next.
+              </DialogDescription>
+            </DialogHeader>
+            <Input
+              autoFocus
+              placeholder="Workspace name"
+              value={newName ?? ''}
+              onChange={(e) => setNewName(e.target.value)}
+              disabled={isCreating}
+              className="glass"
+            />
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => setNewName(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isCreating || !newName?.trim()} className="btn-primary">
+                Create
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <WorkspaceMembersDialog
+        workspace={isMembersOpen ? activeWorkspace : null}
+        onOpenChange={setIsMembersOpen}
+      />
+    </>
+  );
+};
+
+export default WorkspaceSwitcher;
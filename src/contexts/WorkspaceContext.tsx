@@ -0,0 +1,99 @@
+// WorkspaceContext.tsx
+// Provides the user's workspaces and the active space (a workspace, or the personal bookmarks) to the app.
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  fetchWorkspaces,
+  loadActiveWorkspaceId,
+  saveActiveWorkspaceId,
+  Workspace,
+} from '@/lib/workspaces';
+
+interface WorkspaceContextType {
+  workspaces: Workspace[];
+  // The open workspace; null while the personal space is open
+  activeWorkspace: Workspace | null;
+  // True until the user's workspaces have loaded
+  loading: boolean;
+  setActiveWorkspaceId: (id: string | null) => void;
+  // Reloads the workspace list, e.g. after creating, joining or leaving one
+  refreshWorkspaces: () => Promise<Workspace[]>;
+}
+
+// Create the WorkspaceContext
+const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined);
+
+/**
+ * useWorkspace is a custom hook to access the user's workspaces and the active space.
+ * Throws an error if used outside of WorkspaceProvider.
+ */
+export const useWorkspace = () => {
+  const context = useContext(WorkspaceContext);
+  if (context === undefined) {
+    throw new Error('useWorkspace must be used within a WorkspaceProvider');
+  }
+  return context;
+};
+
+/**
+ * WorkspaceProvider loads the signed-in user's workspaces and tracks which space is open.
+ * - The choice is remembered in localStorage across visits.
+ * - Falls back to the personal space when the remembered workspace is gone.
+ * - Must be rendered inside AuthProvider.
+ */
+export const WorkspaceProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(loadActiveWorkspaceId);
+  const [loading, setLoading] = useState(true);
+
+  const refreshWorkspaces = useCallback(async () => {
+    if (!user) {
+      setWorkspaces([]);
+      setLoading(false);
+      return [];
+    }
+    try {
+      const result = await fetchWorkspaces(user.id);
+      setWorkspaces(result);
+      // Forget a workspace the user no longer belongs to (left, removed or deleted)
+      setActiveId(current => {
+        if (!current || result.some(workspace => workspace.id === current)) return current;
+        saveActiveWorkspaceId(null);
+        return null;
+      });
+      return result;
+    } catch (error) {
+      console.error('Error loading workspaces:', error);
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    setLoading(true);
+    refreshWorkspaces();
+  }, [refreshWorkspaces]);
+
+  const setActiveWorkspaceId = useCallback((id: string | null) => {
+    setActiveId(id);
+    saveActiveWorkspaceId(id);
+  }, []);
+
+  const activeWorkspace = useMemo(
+    () => workspaces.find(workspace => workspace.id === activeId) ?? null,
+    [workspaces, activeId]
+  );
+
+  const value = {
+    workspaces,
+    activeWorkspace,
+    loading,
+    setActiveWorkspaceId,
+    refreshWorkspaces,
+  };
+
+  return <WorkspaceContext.Provider value={value}>{children}</WorkspaceContext.Provider>;
+};
@@ -0,0 +1,218 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReactNode } from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Bookmark } from '@/lib/bookmarks';
+import {
+  BookmarkListFilter,
+  bookmarkKeys,
+  useBookmarks,
+  useReorderBookmarks,
+  useTrashBookmarks,
+  useUpdateReadingState,
+} from './use-bookmarks';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() },
+}));
+
+const from = vi.mocked(supabase.from);
+const rpc = vi.mocked(supabase.rpc);
+
+interface QueryResult {
+  data?: unknown;
+  error?: Error | null;
+}
+
+// A query builder that records its calls, e.g. 'eq("collection_id","c1")', and resolves to `result`
+const fakeQuery = (result: QueryResult | Promise<QueryResult>) => {
+  const calls: string[] = [];
+  const query: object = new Proxy({}, {
+    get: (_target, method: string) =>
+      method === 'then'
+        ? (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+            Promise.resolve(result).then(value => ({ data: null, error: null, ...value })).then(resolve, reject)
+        : (...args: unknown[]) => {
+            calls.push(`${method}(${args.map(arg => JSON.stringify(arg)).join(',')})`);
+            return query;
+          },
+  });
+  return { query: query as never, calls };
+};
+
+// A result the test resolves when it's ready, to look at the cache in the meantime
+const deferred = () => {
+  let resolve!: (value: QueryResult) => void;
+  const promise = new Promise<QueryResult>(done => { resolve = done; });
+  return { promise, resolve };
+};
+
+const USER = 'user-1';
+const personal: BookmarkListFilter = { userId: USER, workspaceId: null, collectionId: null };
+const inCollection: BookmarkListFilter = { userId: USER, workspaceId: null, collectionId: 'c1' };
+
+const bookmark = (id: string, position: number) =>
+  ({
+    id,
+    position,
+    tags: [],
+    key_points: [],
+    is_read: false,
+    created_at: '2025-08-01T00:00:00Z',
+    updated_at: '2025-08-01T00:00:00Z',
+  }) as Bookmark;
+
+const list = [bookmark('a', 1024), bookmark('b', 2048), bookmark('c', 3072)];
+const ids = (bookmarks: Bookmark[] | undefined) => bookmarks?.map(item => item.id);
+
+let queryClient: QueryClient;
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+);
+
+beforeEach(() => {
+  // Retries happen at once, so failing mutations settle quickly
+  queryClient = new QueryClient({
+    defaultOptions: { queries: { retryDelay: 0 }, mutations: { retryDelay: 0 } },
+  });
+  queryClient.setQueryData(bookmarkKeys.list(personal), list);
+  queryClient.setQueryData(bookmarkKeys.list(inCollection), [list[1]]);
+  queryClient.setQueryData(bookmarkKeys.search(personal, 'rust'), { bookmarks: [list[2], list[0]], highlights: {} });
+  queryClient.setQueryData(bookmarkKeys.unreadCount(USER, null), 3);
+});
+
+afterEach(() => {
+  queryClient.clear();
+  vi.resetAllMocks();
+});
+
+describe('useBookmarks', () => {
+  it('caches each filter under its own key', async () => {
+    queryClient.clear();
+    const queries: string[][] = [];
+    from.mockImplementation(() => {
+      const { query, calls } = fakeQuery({ data: [{ id: `row-${queries.length}`, position: 1024 }] });
+      queries.push(calls);
+      return query;
+    });
+    const workspace: BookmarkListFilter = { userId: USER, workspaceId: 'w1', collectionId: null };
+
+    for (const filter of [personal, inCollection, workspace]) {
+      const { result } = renderHook(() => useBookmarks(filter), { wrapper });
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    }
+
+    expect(ids(queryClient.getQueryData(bookmarkKeys.list(personal)))).toEqual(['row-0']);
+    expect(ids(queryClient.getQueryData(bookmarkKeys.list(inCollection)))).toEqual(['row-1']);
+    expect(ids(queryClient.getQueryData(bookmarkKeys.list(workspace)))).toEqual(['row-2']);
+    expect(queries[0]).toEqual(expect.arrayContaining(['eq("user_id","user-1")', 'is("workspace_id",null)']));
+    expect(queries[0]).not.toContain('eq("collection_id","c1")');
+    expect(queries[1]).toContain('eq("collection_id","c1")');
+    expect(queries[2]).toContain('eq("workspace_id","w1")');
+  });
+});
+
+describe('useUpdateReadingState', () => {
+  it('shows the change in every list at once, then keeps the saved version', async () => {
+    const response = deferred();
+    from.mockReturnValue(fakeQuery(response.promise).query);
+    const { result } = renderHook(() => useUpdateReadingState(), { wrapper });
+
+    act(() => result.current.mutate({ ids: ['b'], changes: { is_read: true } }));
+
+    await waitFor(() => expect(queryClient.getQueryData<Bookmark[]>(bookmarkKeys.list(personal))?.[1].is_read).toBe(true));
+    expect(queryClient.getQueryData<Bookmark[]>(bookmarkKeys.list(inCollection))?.[0].is_read).toBe(true);
+
+    response.resolve({ data: [{ id: 'b', updated_at: '2025-08-02T00:00:00Z' }] });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(queryClient.getQueryData<Bookmark[]>(bookmarkKeys.list(personal))?.[1]).toMatchObject({
+      is_read: true,
+      updated_at: '2025-08-02T00:00:00Z',
+    });
+    // The unread badge refetches
+    expect(queryClient.getQueryState(bookmarkKeys.unreadCount(USER, null))?.isInvalidated).toBe(true);
+  });
+
+  it('rolls back every list when the save fails, after retrying', async () => {
+    from.mockImplementation(() => fakeQuery({ error: new Error('offline') }).query);
+    const { result } = renderHook(() => useUpdateReadingState(), { wrapper });
+
+    act(() => result.current.mutate({ ids: ['b'], changes: { is_read: true } }));
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(from).toHaveBeenCalledTimes(3);
+    expect(queryClient.getQueryData(bookmarkKeys.list(personal))).toEqual(list);
+    expect(queryClient.getQueryData<Bookmark[]>(bookmarkKeys.list(inCollection))).toEqual([list[1]]);
+  });
+});
+
+describe('useTrashBookmarks', () => {
+  it('takes the bookmarks out of lists and search results at once', async () => {
+    const response = deferred();
+    rpc.mockReturnValue(fakeQuery(response.promise).query);
+    const { result } = renderHook(() => useTrashBookmarks(), { wrapper });
+
+    act(() => result.current.mutate(['a', 'b']));
+
+    await waitFor(() => expect(ids(queryClient.getQueryData(bookmarkKeys.list(personal)))).toEqual(['c']));
+    expect(queryClient.getQueryData(bookmarkKeys.list(inCollection))).toEqual([]);
+    expect(ids(queryClient.getQueryData<{ bookmarks: Bookmark[] }>(bookmarkKeys.search(personal, 'rust'))?.bookmarks)).toEqual(['c']);
+
+    response.resolve({ data: 2 });
+    await waitFor(() => expect(result.current.data).toBe(2));
+    expect(rpc).toHaveBeenCalledWith('trash_bookmarks', { bookmark_ids: ['a', 'b'] });
+  });
+
+  it('puts them back when the request fails', async () => {
+    rpc.mockImplementation(() => fakeQuery({ error: new Error('offline') }).query);
+    const { result } = renderHook(() => useTrashBookmarks(), { wrapper });
+
+    act(() => result.current.mutate(['a']));
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(queryClient.getQueryData(bookmarkKeys.list(personal))).toEqual(list);
+    expect(ids(queryClient.getQueryData<{ bookmarks: Bookmark[] }>(bookmarkKeys.search(personal, 'rust'))?.bookmarks)).toEqual(['c', 'a']);
+  });
+});
+
+describe('useReorderBookmarks', () => {
+  const move = { id: 'c', afterId: null, beforeId: 'a', position: 0 };
+
+  it('reorders the lists at once and keeps the order when saved', async () => {
+    const response = deferred();
+    rpc.mockReturnValue(fakeQuery(response.promise).query);
+    const { result } = renderHook(() => useReorderBookmarks(), { wrapper });
+
+    act(() => result.current.mutate(move));
+
+    await waitFor(() => expect(ids(queryClient.getQueryData(bookmarkKeys.list(personal)))).toEqual(['c', 'a', 'b']));
+    // Search results keep their ranking
+    expect(ids(queryClient.getQueryData<{ bookmarks: Bookmark[] }>(bookmarkKeys.search(personal, 'rust'))?.bookmarks)).toEqual(['c', 'a']);
+
+    response.resolve({ data: 0 });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(queryClient.getQueryState(bookmarkKeys.list(personal))?.isInvalidated).toBe(false);
+  });
+
+  it('refetches when the database rebalanced the space', async () => {
+    rpc.mockReturnValue(fakeQuery({ data: 512 }).query);
+    const { result } = renderHook(() => useReorderBookmarks(), { wrapper });
+
+    act(() => result.current.mutate(move));
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(queryClient.getQueryState(bookmarkKeys.list(personal))?.isInvalidated).toBe(true);
+  });
+
+  it('restores the previous order when the move fails', async () => {
+    rpc.mockImplementation(() => fakeQuery({ error: new Error('The list changed while moving this bookmark') }).query);
+    const { result } = renderHook(() => useReorderBookmarks(), { wrapper });
+
+    act(() => result.current.mutate(move));
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(ids(queryClient.getQueryData(bookmarkKeys.list(personal)))).toEqual(['a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,375 @@
+// use-bookmarks.ts
+// React Query hooks for bookmarks: the list of a space (optionally one collection), ranked search,
+// the unread count, and the mutations that change them. Mutations update every cached list and search at once,
+// optimistically where the outcome is known up front, and roll back if the request fails.
+// All requests go through the shared Supabase client module, so tests can mock it.
+
+import { useMemo } from 'react';
+import { keepPreviousData, QueryClient, QueryKey, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Json, TablesInsert } from '@/integrations/supabase/types';
+import { Bookmark, BOOKMARK_COLUMNS, toBookmark } from '@/lib/bookmarks';
+import { BookmarkMove, moveBookmark } from '@/lib/bookmark-order';
+import { applyEditValues, BookmarkEditValues, saveBookmarkEdit } from '@/lib/bookmark-edit';
+import { expectEcho, isNewerVersion } from '@/lib/bookmark-sync';
+import { fetchUnreadCount, ReadingState, updateReadingState } from '@/lib/reading-state';
+import { SearchHighlights } from '@/lib/search';
+import { getSearchText, parseSearchQuery } from '@/lib/search-query';
+import { restoreBookmarks, trashBookmarks } from '@/lib/trash';
+import { inSpace } from '@/lib/workspaces';
+
+// Retries for reads, and for writes that are safe to repeat. Inserts aren't retried.
+const RETRY_COUNT = 2;
+
+// Which bookmarks a list holds: those of a space, optionally only one of its collections
+export interface BookmarkListFilter {
+  userId: string;
+  // null for the user's personal bookmarks
+  workspaceId: string | null;
+  // null for every bookmark in the space
+  collectionId: string | null;
+}
+
+// Ranked server search results, with title and summary snippets by bookmark id
+export interface BookmarkSearchResults {
+  bookmarks: Bookmark[];
+  highlights: Record<string, SearchHighlights>;
+}
+
+export const bookmarkKeys = {
+  all: ['bookmarks'] as const,
+  lists: () => [...bookmarkKeys.all, 'list'] as const,
+  list: (filter: BookmarkListFilter) => [...bookmarkKeys.lists(), filter] as const,
+  searches: () => [...bookmarkKeys.all, 'search'] as const,
+  search: (filter: BookmarkListFilter, query: string) => [...bookmarkKeys.searches(), filter, query] as const,
+  unreadCounts: () => [...bookmarkKeys.all, 'unread'] as const,
+  unreadCount: (userId: string, workspaceId: string | null) => [...bookmarkKeys.unreadCounts(), userId, workspaceId] as const,
+};
+
+// Cached queries as they were before an optimistic update, to roll back to
+type CacheSnapshot = [QueryKey, unknown][];
+
+/**
+ * The bookmarks of a list, in their saved order.
+ */
+export const fetchBookmarkList = async ({ userId, workspaceId, collectionId }: BookmarkListFilter): Promise<Bookmark[]> => {
+  let query = supabase
+    .from('bookmarks')
+    .select(BOOKMARK_COLUMNS)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: false });
+
+  if (collectionId) {
+    query = query.eq('collection_id', collectionId);
+  }
+
+  const { data, error } = await inSpace(query, userId, workspaceId);
+  if (error) throw error;
+  // Rows saved before positions existed keep the order they were fetched in
+  return (data ?? []).map((row, index) => toBookmark(row, index));
+};
+
+/**
+ * Runs a query-language search on the server, within the list's space and collection.
+ */
+export const fetchSearchResults = async (filter: BookmarkListFilter, query: string): Promise<BookmarkSearchResults> => {
+  const { ast } = parseSearchQuery(query);
+  const { data, error } = await supabase.rpc('search_bookmarks', {
+    search_text: getSearchText(ast),
+    collection_filter: filter.collectionId,
+    query_ast: ast as unknown as Json,
+    workspace_filter: filter.workspaceId,
+  });
+  if (error) throw error;
+
+  const bookmarks = (data ?? []).map(row => {
+    const bookmark = row.bookmark as unknown as Bookmark;
+    return { ...bookmark, tags: bookmark.tags ?? [], key_points: bookmark.key_points ?? [], position: bookmark.position ?? 0 };
+  });
+  const highlights: Record<string, SearchHighlights> = {};
+  (data ?? []).forEach((row, index) => {
+    highlights[bookmarks[index].id] = { title: row.title_highlight, summary: row.summary_highlight };
+  });
+  return { bookmarks, highlights };
+};
+
+// Maps a list, returning the same array when nothing changed so unaffected views don't re-render
+const mapList = (list: Bookmark[], update: (bookmark: Bookmark) => Bookmark | null): Bookmark[] => {
+  let changed = false;
+  const next: Bookmark[] = [];
+  list.forEach(bookmark => {
+    const updated = update(bookmark);
+    if (updated !== bookmark) changed = true;
+    if (updated) next.push(updated);
+  });
+  return changed ? next : list;
+};
+
+// Same order as the database: by position, newest first where positions are equal
+const byPosition = (a: Bookmark, b: Bookmark) =>
+  a.position - b.position || new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+
+/**
+ * Applies `update` to every cached bookmark, in lists and in search results. Returning null takes
+ * the bookmark out; `resort` puts lists back in position order afterwards.
+ */
+const patchCachedBookmarks = (
+  queryClient: QueryClient,
+  update: (bookmark: Bookmark, filter: BookmarkListFilter) => Bookmark | null,
+  { resort = false }: { resort?: boolean } = {}
+) => {
+  queryClient.getQueriesData<Bookmark[]>({ queryKey: bookmarkKeys.lists() }).forEach(([key, list]) => {
+    if (!list) return;
+    const filter = key[2] as BookmarkListFilter;
+    const next = mapList(list, bookmark => update(bookmark, filter));
+    queryClient.setQueryData(key, resort && next !== list ? [...next].sort(byPosition) : next);
+  });
+  // Search results keep their ranking
+  queryClient.getQueriesData<BookmarkSearchResults>({ queryKey: bookmarkKeys.searches() }).forEach(([key, results]) => {
+    if (!results) return;
+    const filter = key[2] as BookmarkListFilter;
+    const bookmarks = mapList(results.bookmarks, bookmark => update(bookmark, filter));
+    if (bookmarks !== results.bookmarks) queryClient.setQueryData(key, { ...results, bookmarks });
+  });
+};
+
+const removeCachedBookmarks = (queryClient: QueryClient, ids: string[]) => {
+  const removed = new Set(ids);
+  patchCachedBookmarks(queryClient, bookmark => (removed.has(bookmark.id) ? null : bookmark));
+};
+
+/**
+ * Adds or replaces a bookmark of a space in the cached lists it belongs in, and refreshes it in
+ * search results. A version older than the cached one is ignored.
+ */
+const upsertCachedBookmark = (queryClient: QueryClient, bookmark: Bookmark, workspaceId: string | null) => {
+  const belongsIn = (filter: BookmarkListFilter) =>
+    filter.workspaceId === workspaceId && (!filter.collectionId || filter.collectionId === bookmark.collection_id);
+
+  queryClient.getQueriesData<Bookmark[]>({ queryKey: bookmarkKeys.lists() }).forEach(([key, list]) => {
+    const filter = key[2] as BookmarkListFilter;
+    if (!list || filter.workspaceId !== workspaceId) return;
+    const current = list.find(item => item.id === bookmark.id);
+    if (current && !isNewerVersion(bookmark, current)) return;
+    if (!current && !belongsIn(filter)) return;
+
+    const others = list.filter(item => item.id !== bookmark.id);
+    queryClient.setQueryData(key, belongsIn(filter) ? [...others, bookmark].sort(byPosition) : others);
+  });
+  // Search results keep their ranking; new bookmarks show up with the next search
+  queryClient.getQueriesData<BookmarkSearchResults>({ queryKey: bookmarkKeys.searches() }).forEach(([key, results]) => {
+    const filter = key[2] as BookmarkListFilter;
+    if (!results || filter.workspaceId !== workspaceId) return;
+    const bookmarks = mapList(results.bookmarks, item => {
+      if (item.id !== bookmark.id || !isNewerVersion(bookmark, item)) return item;
+      return belongsIn(filter) ? bookmark : null;
+    });
+    if (bookmarks !== results.bookmarks) queryClient.setQueryData(key, { ...results, bookmarks });
+  });
+};
+
+// Stops refetches that would overwrite an optimistic update, and remembers the cache to roll back to
+const snapshotBookmarks = async (queryClient: QueryClient): Promise<CacheSnapshot> => {
+  await queryClient.cancelQueries({ queryKey: bookmarkKeys.all });
+  return queryClient.getQueriesData({ queryKey: bookmarkKeys.all });
+};
+
+const restoreSnapshot = (queryClient: QueryClient, snapshot: CacheSnapshot | undefined) => {
+  snapshot?.forEach(([key, data]) => {
+    queryClient.setQueryData(key, data);
+  });
+};
+
+// Refetches the unread counts after bookmarks were added, read, archived or removed
+const invalidateUnreadCounts = (queryClient: QueryClient) =>
+  queryClient.invalidateQueries({ queryKey: bookmarkKeys.unreadCounts() });
+
+/**
+ * The bookmarks of a list. Pass null while there's no signed-in user. While another list loads
+ * (e.g. after picking a different collection), the previous one stays on screen.
+ */
+export const useBookmarks = (filter: BookmarkListFilter | null) =>
+  useQuery({
+    queryKey: filter ? bookmarkKeys.list(filter) : bookmarkKeys.lists(),
+    queryFn: () => fetchBookmarkList(filter!),
+    enabled: !!filter,
+    placeholderData: keepPreviousData,
+    retry: RETRY_COUNT,
+  });
+
+/**
+ * Ranked server results for a query-language search. Idle while the query has nothing to search for.
+ */
+export const useBookmarkSearch = (filter: BookmarkListFilter | null, query: string) => {
+  const hasQuery = useMemo(() => parseSearchQuery(query).ast !== null, [query]);
+  return useQuery({
+    queryKey: filter ? bookmarkKeys.search(filter, query) : bookmarkKeys.searches(),
+    queryFn: () => fetchSearchResults(filter!, query),
+    enabled: !!filter && hasQuery,
+    retry: RETRY_COUNT,
+  });
+};
+
+/**
+ * Number of unread bookmarks in the inbox of a space, for the header badge. Pass null while
+ * there's no signed-in user.
+ */
+export const useUnreadCount = (userId: string | null, workspaceId: string | null) =>
+  useQuery({
+    queryKey: userId ? bookmarkKeys.unreadCount(userId, workspaceId) : bookmarkKeys.unreadCounts(),
+    queryFn: () => fetchUnreadCount(userId!, workspaceId),
+    enabled: !!userId,
+    retry: RETRY_COUNT,
+  });
+
+/**
+ * Saves a new bookmark and adds it to the cached lists it belongs in.
+ */
+export const useAddBookmark = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (values: TablesInsert<'bookmarks'>) => {
+      const { data, error } = await supabase
+        .from('bookmarks')
+        .insert(values)
+        .select(BOOKMARK_COLUMNS)
+        .single();
+      if (error) throw error;
+      return toBookmark(data, 0);
+    },
+    onSuccess: (bookmark, values) => {
+      upsertCachedBookmark(queryClient, bookmark, values.workspace_id ?? null);
+      invalidateUnreadCounts(queryClient);
+    },
+  });
+};
+
+/**
+ * Saves an edit from the edit dialog, showing it at once. Resolves with the save result, which
+ * may be a conflict with a change made elsewhere (see saveBookmarkEdit).
+ */
+export const useUpdateBookmark = () => {
+  const queryClient = useQueryClient();
+  // Keep the position the grid is showing, which may not be saved yet
+  const replace = (bookmark: Bookmark) =>
+    patchCachedBookmarks(queryClient, item => (item.id === bookmark.id ? { ...bookmark, position: item.position } : item));
+
+  return useMutation({
+    mutationFn: ({ base, values, force }: { base: Bookmark; values: BookmarkEditValues; force: boolean }) =>
+      saveBookmarkEdit(base, values, { force }),
+    onMutate: async ({ base, values }) => {
+      const snapshot = await snapshotBookmarks(queryClient);
+      replace(applyEditValues(base, values));
+      return { snapshot };
+    },
+    onSuccess: (result) => replace(result.status === 'saved' ? result.bookmark : result.latest),
+    onError: (_error, _variables, context) => restoreSnapshot(queryClient, context?.snapshot),
+    retry: RETRY_COUNT,
+  });
+};
+
+/**
+ * Sets read, favorite or archived on bookmarks, showing the change at once.
+ */
+export const useUpdateReadingState = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ ids, changes }: { ids: string[]; changes: Partial<ReadingState> }) => updateReadingState(ids, changes),
+    onMutate: async ({ ids, changes }) => {
+      const snapshot = await snapshotBookmarks(queryClient);
+      const targets = new Set(ids);
+      expectEcho(ids, changes);
+      patchCachedBookmarks(queryClient, bookmark => (targets.has(bookmark.id) ? { ...bookmark, ...changes } : bookmark));
+      return { snapshot };
+    },
+    // Keep updated_at current for the edit dialog's conflict detection
+    onSuccess: (updatedAt) =>
+      patchCachedBookmarks(queryClient, bookmark =>
+        updatedAt.has(bookmark.id) ? { ...bookmark, updated_at: updatedAt.get(bookmark.id)! } : bookmark
+      ),
+    onError: (_error, _variables, context) => restoreSnapshot(queryClient, context?.snapshot),
+    onSettled: (_data, _error, { changes }) => {
+      if ('is_read' in changes || 'archived_at' in changes) invalidateUnreadCounts(queryClient);
+    },
+    retry: RETRY_COUNT,
+  });
+};
+
+/**
+ * Moves bookmarks to the trash, taking them out of every list at once. Resolves with how many were moved.
+ */
+export const useTrashBookmarks = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (ids: string[]) => trashBookmarks(ids),
+    onMutate: async (ids) => {
+      const snapshot = await snapshotBookmarks(queryClient);
+      removeCachedBookmarks(queryClient, ids);
+      return { snapshot };
+    },
+    onError: (_error, _ids, context) => restoreSnapshot(queryClient, context?.snapshot),
+    onSettled: () => invalidateUnreadCounts(queryClient),
+    retry: RETRY_COUNT,
+  });
+};
+
+/**
+ * Takes bookmarks back out of the trash, then refetches so they reappear where they were.
+ */
+export const useRestoreBookmarks = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (ids: string[]) => restoreBookmarks(ids),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: bookmarkKeys.all }),
+    retry: RETRY_COUNT,
+  });
+};
+
+/**
+ * Moves a bookmark between two others (see planMove), showing the new order at once. Only the
+ * moved bookmark is saved; if the database had to rebalance the space to make room, every list
+ * is refetched to pick up the renumbered positions.
+ */
+export const useReorderBookmarks = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (move: BookmarkMove) => moveBookmark(move),
+    onMutate: async ({ id, position }) => {
+      const snapshot = await snapshotBookmarks(queryClient);
+      expectEcho([id], { position });
+      patchCachedBookmarks(queryClient, bookmark => (bookmark.id === id ? { ...bookmark, position } : bookmark), {
+        resort: true,
+      });
+      return { snapshot };
+    },
+    onSuccess: (position, move) => {
+      if (position !== move.position) queryClient.invalidateQueries({ queryKey: bookmarkKeys.all });
+    },
+    onError: (_error, _move, context) => restoreSnapshot(queryClient, context?.snapshot),
+    retry: RETRY_COUNT,
+  });
+};
+
+/**
+ * Direct access to the cached bookmarks, for changes made elsewhere (other tabs, the enrichment
+ * worker) or only known once a request has returned (bulk tags, link checks). Bookmarks added or
+ * removed through it also refresh the unread counts.
+ */
+export const useBookmarkCache = () => {
+  const queryClient = useQueryClient();
+  return useMemo(() => ({
+    // `update` gets each cached bookmark with the filter of its list; returning null takes it out of that list
+    update: (update: (bookmark: Bookmark, filter: BookmarkListFilter) => Bookmark | null) =>
+      patchCachedBookmarks(queryClient, update),
+    remove: (ids: string[]) => {
+      removeCachedBookmarks(queryClient, ids);
+      invalidateUnreadCounts(queryClient);
+    },
+    upsert: (bookmark: Bookmark, workspaceId: string | null) => {
+      upsertCachedBookmark(queryClient, bookmark, workspaceId);
+      invalidateUnreadCounts(queryClient);
+    },
+    // Refetches every list, search and count, e.g. after an import or when live changes may have been missed
+    invalidate: () => queryClient.invalidateQueries({ queryKey: bookmarkKeys.all }),
+  }), [queryClient]);
+};
@@ -0,0 +1,72 @@
+// use-collections.ts
+// React Query hooks for the user's collections (folders) and which of them are shared. Anything
+// that changes collections, including an import that creates folders, invalidates them here
+// instead of telling the sidebar to refetch.
+
+import { useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Collection } from '@/lib/collections';
+import { fetchSharedCollectionIds } from '@/lib/shares';
+
+// Retries for reads
+const RETRY_COUNT = 2;
+
+// A user's collections in position order, and the ids of those published with a share link
+export interface CollectionList {
+  collections: Collection[];
+  sharedIds: Set<string>;
+}
+
+export const collectionKeys = {
+  all: ['collections'] as const,
+  list: (userId: string) => [...collectionKeys.all, userId] as const,
+};
+
+/**
+ * The user's collections, with the ones that are shared.
+ */
+export const fetchCollectionList = async (userId: string): Promise<CollectionList> => {
+  const { data, error } = await supabase
+    .from('collections')
+    .select('id, name, parent_id, position')
+    .eq('user_id', userId)
+    .order('position', { ascending: true });
+  if (error) throw error;
+
+  return { collections: data ?? [], sharedIds: await fetchSharedCollectionIds(userId) };
+};
+
+/**
+ * The user's collections. Pass null while there's no signed-in user.
+ */
+export const useCollections = (userId: string | null) =>
+  useQuery({
+    queryKey: userId ? collectionKeys.list(userId) : collectionKeys.all,
+    queryFn: () => fetchCollectionList(userId!),
+    enabled: !!userId,
+    retry: RETRY_COUNT,
+  });
+
+/**
+ * Direct access to the cached collections, for changes saved elsewhere.
+ */
+export const useCollectionCache = () => {
+  const queryClient = useQueryClient();
+  return useMemo(() => ({
+    // Marks a collection shared or not, once its share link was created or removed
+    setShared: (userId: string, id: string, shared: boolean) =>
+      queryClient.setQueryData<CollectionList>(collectionKeys.list(userId), list => {
+        if (!list) return list;
+        const sharedIds = new Set(list.sharedIds);
+        if (shared) {
+          sharedIds.add(id);
+        } else {
+          sharedIds.delete(id);
+        }
+        return { ...list, sharedIds };
+      }),
+    // Refetches the collections, e.g. after one was created, renamed, moved or deleted
+    invalidate: () => queryClient.invalidateQueries({ queryKey: collectionKeys.all }),
+  }), [queryClient]);
+};
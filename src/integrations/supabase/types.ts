@@ -14,44 +14,321 @@ export type Database = {
   }
   public: {
     Tables: {
+      bookmark_tags: {
+        Row: {
+          bookmark_id: string
+          created_at: string
+          tag_id: string
+        }
+        Insert: {
+          bookmark_id: string
+          created_at?: string
+          tag_id: string
+        }
+        Update: {
+          bookmark_id?: string
+          created_at?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bookmark_tags_bookmark_id_fkey"
+            columns: ["bookmark_id"]
+            isOneToOne: false
+            referencedRelation: "bookmarks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookmark_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       bookmarks: {
         Row: {
+          archived_at: string | null
+          author: string | null
+          canonical_url: string | null
+          collection_id: string | null
           created_at: string
+          deleted_at: string | null
+          description: string | null
+          enrichment_attempts: number
+          enrichment_error: string | null
+          enrichment_next_attempt_at: string
+          enrichment_status: string
           favicon_url: string | null
           id: string
+          image_url: string | null
+          is_favorite: boolean
+          is_read: boolean
+          key_points: string[]
+          last_snapshot_at: string | null
+          link_checked_at: string | null
+          link_failure_count: number
+          link_final_url: string | null
+          link_http_status: number | null
+          link_next_check_at: string
+          link_status: string | null
+          normalized_url: string | null
+          notes: string | null
           position: number | null
+          published_at: string | null
+          search_vector: unknown
+          site_name: string | null
           summary: string | null
           tags: string[] | null
           title: string
+          tldr: string | null
           updated_at: string
           url: string
           user_id: string
+          workspace_id: string | null
         }
         Insert: {
+          archived_at?: string | null
+          author?: string | null
+          canonical_url?: string | null
+          collection_id?: string | null
           created_at?: string
+          deleted_at?: string | null
+          description?: string | null
+          enrichment_attempts?: number
+          enrichment_error?: string | null
+          enrichment_next_attempt_at?: string
+          enrichment_status?: string
           favicon_url?: string | null
           id?: string
+          image_url?: string | null
+          is_favorite?: boolean
+          is_read?: boolean
+          key_points?: string[]
+          last_snapshot_at?: string | null
+          link_checked_at?: string | null
+          link_failure_count?: number
+          link_final_url?: string | null
+          link_http_status?: number | null
+          link_next_check_at?: string
+          link_status?: string | null
+          normalized_url?: string | null
+          notes?: string | null
           position?: number | null
+          published_at?: string | null
+          search_vector?: never
+          site_name?: string | null
           summary?: string | null
           tags?: string[] | null
           title: string
+          tldr?: string | null
           updated_at?: string
           url: string
           user_id: string
+          workspace_id?: string | null
         }
         Update: {
+          archived_at?: string | null
+          author?: string | null
+          canonical_url?: string | null
+          collection_id?: string | null
           created_at?: string
+          deleted_at?: string | null
+          description?: string | null
+          enrichment_attempts?: number
+          enrichment_error?: string | null
+          enrichment_next_attempt_at?: string
+          enrichment_status?: string
           favicon_url?: string | null
           id?: string
+          image_url?: string | null
+          is_favorite?: boolean
+          is_read?: boolean
+          key_points?: string[]
+          last_snapshot_at?: string | null
+          link_checked_at?: string | null
+          link_failure_count?: number
+          link_final_url?: string | null
+          link_http_status?: number | null
+          link_next_check_at?: string
+          link_status?: string | null
+          normalized_url?: string | null
+          notes?: string | null
           position?: number | null
+          published_at?: string | null
+          search_vector?: never
+          site_name?: string | null
           summary?: string | null
           tags?: string[] | null
           title?: string
+          tldr?: string | null
           updated_at?: string
           url?: string
           user_id?: string
+          workspace_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "bookmarks_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookmarks_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      collection_shares: {
+        Row: {
+          collection_id: string
+          created_at: string
+          hide_notes: boolean
+          hide_summaries: boolean
+          id: string
+          slug: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          collection_id: string
+          created_at?: string
+          hide_notes?: boolean
+          hide_summaries?: boolean
+          id?: string
+          slug?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          collection_id?: string
+          created_at?: string
+          hide_notes?: boolean
+          hide_summaries?: boolean
+          id?: string
+          slug?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collection_shares_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: true
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      collections: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          parent_id: string | null
+          position: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          parent_id?: string | null
+          position?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          parent_id?: string | null
+          position?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collections_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      highlights: {
+        Row: {
+          bookmark_id: string
+          color: string
+          comment: string | null
+          created_at: string
+          end_offset: number
+          id: string
+          prefix: string
+          search_vector: unknown
+          snapshot_id: string | null
+          start_offset: number
+          suffix: string
+          text: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          bookmark_id: string
+          color?: string
+          comment?: string | null
+          created_at?: string
+          end_offset: number
+          id?: string
+          prefix?: string
+          search_vector?: never
+          snapshot_id?: string | null
+          start_offset: number
+          suffix?: string
+          text: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          bookmark_id?: string
+          color?: string
+          comment?: string | null
+          created_at?: string
+          end_offset?: number
+          id?: string
+          prefix?: string
+          search_vector?: never
+          snapshot_id?: string | null
+          start_offset?: number
+          suffix?: string
+          text?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "highlights_bookmark_id_fkey"
+            columns: ["bookmark_id"]
+            isOneToOne: false
+            referencedRelation: "bookmarks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "highlights_snapshot_id_fkey"
+            columns: ["snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "snapshots"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -80,12 +357,414 @@ export type Database = {
         }
         Relationships: []
       }
+      snapshots: {
+        Row: {
+          bookmark_id: string
+          byline: string | null
+          content_hash: string
+          created_at: string
+          excerpt: string | null
+          fetched_at: string
+          html_path: string
+          id: string
+          text_path: string
+          title: string
+          url: string
+          user_id: string
+          version: number
+          word_count: number
+        }
+        Insert: {
+          bookmark_id: string
+          byline?: string | null
+          content_hash: string
+          created_at?: string
+          excerpt?: string | null
+          fetched_at?: string
+          html_path: string
+          id?: string
+          text_path: string
+          title: string
+          url: string
+          user_id: string
+          version: number
+          word_count?: number
+        }
+        Update: {
+          bookmark_id?: string
+          byline?: string | null
+          content_hash?: string
+          created_at?: string
+          excerpt?: string | null
+          fetched_at?: string
+          html_path?: string
+          id?: string
+          text_path?: string
+          title?: string
+          url?: string
+          user_id?: string
+          version?: number
+          word_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "snapshots_bookmark_id_fkey"
+            columns: ["bookmark_id"]
+            isOneToOne: false
+            referencedRelation: "bookmarks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tags: {
+        Row: {
+          color: string | null
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+          workspace_id: string | null
+        }
+        Insert: {
+          color?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+          workspace_id?: string | null
+        }
+        Update: {
+          color?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tags_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string
+          role: string
+          token: string
+          workspace_id: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by: string
+          role?: string
+          token?: string
+          workspace_id: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string
+          role?: string
+          token?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_invitations_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_members: {
+        Row: {
+          created_at: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_workspace_invitation: {
+        Args: { invite_token: string }
+        Returns: string
+      }
+      build_search_query: {
+        Args: { search_text: string }
+        Returns: unknown
+      }
+      can_access_bookmark: {
+        Args: { owner_id: string; ws: string | null; min_role?: string }
+        Returns: boolean
+      }
+      can_access_bookmark_id: {
+        Args: { bookmark: string; min_role?: string }
+        Returns: boolean
+      }
+      can_access_snapshot_file: {
+        Args: { object_name: string; min_role?: string }
+        Returns: boolean
+      }
+      can_use_bookmark_channel: {
+        Args: { topic: string; min_role?: string }
+        Returns: boolean
+      }
+      claim_enrichment_jobs: {
+        Args: {
+          batch_size?: number
+          bookmark_filter?: string | null
+        }
+        Returns: {
+          id: string
+          url: string
+          title: string
+          attempts: number
+        }[]
+      }
+      claim_link_checks: {
+        Args: { batch_size?: number; bookmark_filter?: string[] | null }
+        Returns: {
+          id: string
+          url: string
+          failure_count: number
+        }[]
+      }
+      compile_search_node: {
+        Args: { node: Json }
+        Returns: string
+      }
+      delete_tag: {
+        Args: { tag_id: string }
+        Returns: undefined
+      }
+      delete_trashed_bookmarks: {
+        Args: { bookmark_ids?: string[] | null; workspace_filter?: string | null }
+        Returns: number
+      }
+      get_shared_collection: {
+        Args: { share_slug: string }
+        Returns: {
+          name: string
+          hide_notes: boolean
+          hide_summaries: boolean
+          shared_at: string
+        }[]
+      }
+      get_workspace_invitation: {
+        Args: { invite_token: string }
+        Returns: {
+          workspace_name: string
+          email: string
+          role: string
+          invited_by_name: string | null
+          expires_at: string
+          accepted_at: string | null
+        }[]
+      }
+      has_workspace_role: {
+        Args: { ws: string; min_role?: string }
+        Returns: boolean
+      }
+      list_shared_bookmarks: {
+        Args: { share_slug: string }
+        Returns: {
+          id: string
+          url: string
+          title: string
+          favicon_url: string | null
+          summary: string | null
+          tldr: string | null
+          key_points: string[]
+          description: string | null
+          notes: string | null
+          tags: string[]
+          image_url: string | null
+          site_name: string | null
+          author: string | null
+          published_at: string | null
+          created_at: string
+          position: number | null
+        }[]
+      }
+      list_trashed_bookmarks: {
+        Args: { workspace_filter?: string | null }
+        Returns: {
+          id: string
+          url: string
+          title: string
+          favicon_url: string | null
+          site_name: string | null
+          tags: string[]
+          created_at: string
+          deleted_at: string
+        }[]
+      }
+      list_workspace_members: {
+        Args: { ws: string }
+        Returns: {
+          user_id: string
+          email: string | null
+          full_name: string | null
+          role: string
+          created_at: string
+        }[]
+      }
+      merge_bookmarks: {
+        Args: { keep_id: string; duplicate_ids: string[] }
+        Returns: undefined
+      }
+      merge_tags: {
+        Args: { source_ids: string[]; target_id: string }
+        Returns: undefined
+      }
+      move_bookmark: {
+        Args: {
+          bookmark_id: string
+          after_id?: string | null
+          before_id?: string | null
+        }
+        Returns: number
+      }
+      normalize_url: {
+        Args: { url: string }
+        Returns: string
+      }
+      rebalance_bookmark_positions: {
+        Args: { owner_id: string; ws: string }
+        Returns: number
+      }
+      rebalance_crowded_bookmark_positions: {
+        Args: { min_gap?: number }
+        Returns: number
+      }
+      regenerate_share_slug: {
+        Args: { share_id: string }
+        Returns: string
+      }
+      rename_tag: {
+        Args: { tag_id: string; new_name: string }
+        Returns: undefined
+      }
+      replace_tag_in_bookmarks: {
+        Args: { old_name: string; new_name: string; ws?: string | null }
+        Returns: undefined
+      }
+      restore_bookmarks: {
+        Args: { bookmark_ids: string[] }
+        Returns: number
+      }
+      search_bookmarks: {
+        Args: {
+          search_text: string
+          collection_filter?: string | null
+          match_limit?: number
+          query_ast?: Json | null
+          workspace_filter?: string | null
+        }
+        Returns: {
+          bookmark: Json
+          rank: number
+          title_highlight: string
+          summary_highlight: string | null
+        }[]
+      }
+      tags_to_text: {
+        Args: { tags: string[] }
+        Returns: string
+      }
+      trash_bookmarks: {
+        Args: { bookmark_ids: string[] }
+        Returns: number
+      }
+      update_bookmark_tags: {
+        Args: {
+          bookmark_ids: string[]
+          add_tags?: string[]
+          remove_tags?: string[]
+        }
+        Returns: {
+          id: string
+          tags: string[]
+        }[]
+      }
+      workspace_role_rank: {
+        Args: { role: string }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
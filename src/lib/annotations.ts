@@ -0,0 +1,193 @@
+// annotations.ts
+// The user's own notes and highlights on a bookmark. Notes are Markdown in bookmarks.notes;
+// highlights are passages selected in the reader, stored with a color and an optional comment.
+// Both are matched by search.
+
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+// Characters of surrounding text stored with a highlight, to find it again in a newer snapshot
+const CONTEXT_LENGTH = 32;
+
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink' | 'purple';
+
+// Colors offered for highlights, with the classes used to paint them. Must match the CHECK on highlights.color.
+export const HIGHLIGHT_COLORS: { value: HighlightColor; label: string; markClass: string; swatchClass: string }[] = [
+  { value: 'yellow', label: 'Yellow', markClass: 'bg-yellow-300/60 dark:bg-yellow-400/40', swatchClass: 'bg-yellow-400' },
+  { value: 'green', label: 'Green', markClass: 'bg-green-300/60 dark:bg-green-400/40', swatchClass: 'bg-green-400' },
+  { value: 'blue', label: 'Blue', markClass: 'bg-sky-300/60 dark:bg-sky-400/40', swatchClass: 'bg-sky-400' },
+  { value: 'pink', label: 'Pink', markClass: 'bg-pink-300/60 dark:bg-pink-400/40', swatchClass: 'bg-pink-400' },
+  { value: 'purple', label: 'Purple', markClass: 'bg-violet-300/60 dark:bg-violet-400/40', swatchClass: 'bg-violet-400' },
+];
+
+export const highlightColor = (color: string) =>
+  HIGHLIGHT_COLORS.find(option => option.value === color) ?? HIGHLIGHT_COLORS[0];
+
+export type Highlight = Omit<Tables<'highlights'>, 'search_vector'>;
+
+const HIGHLIGHT_COLUMNS = 'id, user_id, bookmark_id, snapshot_id, text, start_offset, end_offset, prefix, suffix, color, comment, created_at, updated_at';
+
+// A passage selected in an article, as offsets into the article's text
+export interface TextSelection {
+  text: string;
+  start_offset: number;
+  end_offset: number;
+  prefix: string;
+  suffix: string;
+}
+
+/**
+ * Saves a bookmark's Markdown notes. Returns the bookmark's new updated_at.
+ */
+export const saveNotes = async (bookmarkId: string, notes: string): Promise<string> => {
+  const { data, error } = await supabase
+    .from('bookmarks')
+    .update({ notes: notes.trim() ? notes : null })
+    .eq('id', bookmarkId)
+    .select('updated_at')
+    .single();
+  if (error) throw error;
+  return data.updated_at;
+};
+
+/**
+ * A bookmark's highlights, in reading order.
+ */
+export const fetchHighlights = async (bookmarkId: string): Promise<Highlight[]> => {
+  const { data, error } = await supabase
+    .from('highlights')
+    .select(HIGHLIGHT_COLUMNS)
+    .eq('bookmark_id', bookmarkId)
+    .order('start_offset', { ascending: true });
+  if (error) throw error;
+  return data ?? [];
+};
+
+export const createHighlight = async (highlight: TextSelection & {
+  user_id: string;
+  bookmark_id: string;
+  snapshot_id: string | null;
+  color: HighlightColor;
+  comment: string | null;
+}): Promise<Highlight> => {
+  const { data, error } = await supabase
+    .from('highlights')
+    .insert(highlight)
+    .select(HIGHLIGHT_COLUMNS)
+    .single();
+  if (error) throw error;
+  return data;
+};
+
+export const updateHighlight = async (
+  id: string,
+  changes: { color?: HighlightColor; comment?: string | null }
+): Promise<Highlight> => {
+  const { data, error } = await supabase
+    .from('highlights')
+    .update(changes)
+    .eq('id', id)
+    .select(HIGHLIGHT_COLUMNS)
+    .single();
+  if (error) throw error;
+  return data;
+};
+
+export const deleteHighlight = async (id: string) => {
+  const { error } = await supabase.from('highlights').delete().eq('id', id);
+  if (error) throw error;
+};
+
+/**
+ * Describes a selected range inside `container` by its offsets into the container's text.
+ * Returns null when the selection is empty or reaches outside the container.
+ */
+export const describeSelection = (container: HTMLElement, range: Range): TextSelection | null => {
+  if (range.collapsed || !container.contains(range.commonAncestorContainer)) return null;
+
+  const before = document.createRange();
+  before.selectNodeContents(container);
+  before.setEnd(range.startContainer, range.startOffset);
+
+  const fullText = container.textContent ?? '';
+  const start = before.toString().length;
+  const text = range.toString();
+  if (!text.trim()) return null;
+
+  const end = start + text.length;
+  return {
+    text,
+    start_offset: start,
+    end_offset: end,
+    prefix: fullText.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+    suffix: fullText.slice(end, end + CONTEXT_LENGTH),
+  };
+};
+
+/**
+ * Where a highlight sits in an article's text. Uses the stored offsets while the passage is still
+ * there (the same snapshot); in a newer snapshot, looks for the passage, preferring the occurrence
+ * whose surrounding text matches. Returns null when the passage is no longer in the article.
+ */
+export const locateHighlight = (
+  text: string,
+  highlight: Pick<Highlight, 'text' | 'start_offset' | 'end_offset' | 'prefix' | 'suffix'>
+): { start: number; end: number } | null => {
+  if (text.slice(highlight.start_offset, highlight.end_offset) === highlight.text) {
+    return { start: highlight.start_offset, end: highlight.end_offset };
+  }
+
+  let best: number | null = null;
+  let bestScore = -1;
+  for (let index = text.indexOf(highlight.text); index !== -1; index = text.indexOf(highlight.text, index + 1)) {
+    const end = index + highlight.text.length;
+    const score = (text.slice(0, index).endsWith(highlight.prefix) ? 1 : 0) +
+      (text.slice(end).startsWith(highlight.suffix) ? 1 : 0);
+    if (score > bestScore) {
+      best = index;
+      bestScore = score;
+    }
+  }
+  return best === null ? null : { start: best, end: best + highlight.text.length };
+};
+
+/**
+ * Wraps the text between two offsets of `container` in <mark> elements (one per text node the
+ * passage spans), tagged with the highlight's id.
+ */
+export const wrapTextRange = (container: HTMLElement, start: number, end: number, id: string, className: string) => {
+  const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+  const nodes: { node: Text; offset: number }[] = [];
+  let offset = 0;
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const length = (node as Text).data.length;
+    if (offset + length > start && offset < end) nodes.push({ node: node as Text, offset });
+    offset += length;
+  }
+
+  nodes.forEach(({ node, offset: nodeOffset }) => {
+    const from = Math.max(0, start - nodeOffset);
+    const to = Math.min(node.data.length, end - nodeOffset);
+    // Whitespace between blocks (e.g. between list items) can't hold a <mark>
+    if (!node.data.slice(from, to).trim()) return;
+
+    const middle = from > 0 ? node.splitText(from) : node;
+    if (to - from < middle.data.length) middle.splitText(to - from);
+
+    const mark = document.createElement('mark');
+    mark.dataset.highlightId = id;
+    mark.className = `${className} rounded-sm text-inherit`;
+    middle.replaceWith(mark);
+    mark.appendChild(middle);
+  });
+};
+
+/**
+ * Removes the <mark> elements added by wrapTextRange, leaving the text as it was.
+ */
+export const clearHighlightMarks = (container: HTMLElement) => {
+  container.querySelectorAll('mark[data-highlight-id]').forEach(mark => {
+    mark.replaceWith(...Array.from(mark.childNodes));
+  });
+  container.normalize();
+};
@@ -0,0 +1,151 @@
+// bookmark-edit.ts
+// Validation and saving for the edit bookmark dialog. Saves are conditional on the row's
+// updated_at, so an edit made elsewhere in the meantime is reported instead of overwritten.
+
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { Bookmark, BOOKMARK_COLUMNS, toBookmark } from './bookmarks';
+import { TAG_SEPARATOR } from './tags';
+import { isDuplicateUrlError } from './duplicates';
+
+const MAX_TAGS = 50;
+const MAX_TAG_LENGTH = 50;
+
+// Problem with a tag, or null when it's valid. Matches the tags table's name check.
+const tagProblem = (tag: string): string | null => {
+  if (!tag) return 'Tags cannot be empty';
+  if (tag.length > MAX_TAG_LENGTH) return `"${tag.slice(0, 20)}…" is longer than ${MAX_TAG_LENGTH} characters`;
+  if (tag.startsWith(TAG_SEPARATOR) || tag.endsWith(TAG_SEPARATOR) || tag.includes(TAG_SEPARATOR + TAG_SEPARATOR)) {
+    return `"${tag}": "${TAG_SEPARATOR}" only separates nested tags, e.g. lang/rust`;
+  }
+  return null;
+};
+
+export const bookmarkEditSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(500, 'Title can be at most 500 characters'),
+  url: z
+    .string()
+    .trim()
+    .url('Enter a valid URL')
+    .refine(url => /^https?:\/\//i.test(url), 'Only http and https links can be saved'),
+  summary: z.string().trim().max(2000, 'Summary can be at most 2000 characters'),
+  // Checked as a whole so the message shows under the tag input rather than on a single chip
+  tags: z.array(z.string().trim()).superRefine((tags, ctx) => {
+    const problem = tags.map(tagProblem).find(Boolean)
+      ?? (tags.length > MAX_TAGS ? `A bookmark can have at most ${MAX_TAGS} tags` : null)
+      ?? (new Set(tags.map(tag => tag.toLowerCase())).size !== tags.length ? 'Each tag can only be added once' : null);
+    if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+  }),
+  notes: z.string().max(10000, 'Notes can be at most 10,000 characters'),
+});
+
+export type BookmarkEditValues = z.infer<typeof bookmarkEditSchema>;
+
+// Labels for the editable fields, used when listing what changed
+export const EDIT_FIELD_LABELS: Record<keyof BookmarkEditValues, string> = {
+  title: 'Title',
+  url: 'URL',
+  summary: 'Summary',
+  tags: 'Tags',
+  notes: 'Notes',
+};
+
+/**
+ * Form values for a bookmark. The summary field edits the TL;DR, starting from the
+ * older plain summary for bookmarks saved before structured summaries.
+ */
+export const getEditValues = (bookmark: Bookmark): BookmarkEditValues => ({
+  title: bookmark.title,
+  url: bookmark.url,
+  summary: bookmark.tldr ?? bookmark.summary ?? '',
+  tags: bookmark.tags,
+  notes: bookmark.notes ?? '',
+});
+
+/**
+ * Names of the fields whose values differ between two sets of form values.
+ */
+export const changedEditFields = (a: BookmarkEditValues, b: BookmarkEditValues): (keyof BookmarkEditValues)[] =>
+  (Object.keys(EDIT_FIELD_LABELS) as (keyof BookmarkEditValues)[]).filter(field =>
+    field === 'tags' ? a.tags.join('\n') !== b.tags.join('\n') : a[field] !== b[field]
+  );
+
+/**
+ * Bookmark with the edited values applied, for showing the change before the server confirms it.
+ */
+export const applyEditValues = (bookmark: Bookmark, values: BookmarkEditValues): Bookmark => {
+  const summaryChanged = values.summary !== getEditValues(bookmark).summary;
+  return {
+    ...bookmark,
+    title: values.title,
+    url: values.url,
+    tldr: summaryChanged ? values.summary || null : bookmark.tldr,
+    // An edited plain summary moves into the TL;DR, so the old text isn't shown as a fallback
+    summary: summaryChanged && bookmark.tldr === null ? null : bookmark.summary,
+    tags: values.tags,
+    notes: values.notes.trim() ? values.notes : null,
+  };
+};
+
+export type SaveEditResult =
+  | { status: 'saved'; bookmark: Bookmark }
+  // Someone else changed one of the edited fields; `latest` is the row as it is now
+  | { status: 'conflict'; latest: Bookmark; fields: (keyof BookmarkEditValues)[] };
+
+/**
+ * Saves the edit if the row hasn't changed since `original` was loaded.
+ * - When it has, but only in fields the dialog doesn't edit (its position, enrichment status...)
+ *   or in ways that match the edit, the save goes ahead against the newer row.
+ * - Otherwise a conflict is returned with the latest row and the fields that changed.
+ * - `force` skips the check and overwrites whatever is there.
+ */
+export const saveBookmarkEdit = async (
+  original: Bookmark,
+  values: BookmarkEditValues,
+  { force = false }: { force?: boolean } = {}
+): Promise<SaveEditResult> => {
+  const updated = applyEditValues(original, values);
+  const patch = {
+    title: updated.title,
+    url: updated.url,
+    tldr: updated.tldr,
+    summary: updated.summary,
+    tags: updated.tags,
+    notes: updated.notes,
+  };
+
+  let query = supabase.from('bookmarks').update(patch).eq('id', original.id);
+  if (!force) query = query.eq('updated_at', original.updated_at);
+
+  const { data, error } = await query.select(BOOKMARK_COLUMNS).maybeSingle();
+  if (isDuplicateUrlError(error)) throw new Error('Another bookmark already has this URL.');
+  if (error) throw error;
+  if (data) return { status: 'saved', bookmark: toBookmark(data, original.position) };
+
+  // No row matched: it was changed (or deleted) since the dialog was opened
+  const { data: latestRow, error: latestError } = await supabase
+    .from('bookmarks')
+    .select(BOOKMARK_COLUMNS)
+    .eq('id', original.id)
+    .maybeSingle();
+  if (latestError) throw latestError;
+  if (!latestRow) throw new Error('This bookmark has been deleted.');
+
+  const latest = toBookmark(latestRow, original.position);
+  const originalValues = getEditValues(original);
+  const latestValues = getEditValues(latest);
+  const edited = new Set(changedEditFields(originalValues, values));
+  // A conflict is a field someone else changed that this edit also changed, to something different
+  const fields = changedEditFields(originalValues, latestValues).filter(field =>
+    edited.has(field) && changedEditFields(latestValues, values).includes(field)
+  );
+
+  if (fields.length > 0) return { status: 'conflict', latest, fields };
+
+  // Carry over the other changes and save against the newer row
+  const merged = { ...latestValues };
+  edited.forEach(field => {
+    (merged as Record<string, unknown>)[field] = values[field];
+  });
+  return saveBookmarkEdit(latest, merged);
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { Bookmark } from './bookmarks';
+import { planMove, POSITION_STEP, positionBetween } from './bookmark-order';
+
+const bookmark = (id: string, position: number) => ({ id, position }) as Bookmark;
+
+// The full list, in order; filtered views below show a subset of it
+const all = [
+  bookmark('a', 1024),
+  bookmark('b', 2048),
+  bookmark('c', 3072),
+  bookmark('d', 4096),
+  bookmark('e', 5120),
+  bookmark('f', 6144),
+];
+const byId = (ids: string[]) => ids.map(id => all.find(item => item.id === id)!);
+
+// Order of the full list after applying a move's position, optionally only the bookmarks shown
+const orderAfter = (move: { id: string; position: number }, shown?: Bookmark[]) =>
+  all
+    .map(item => (item.id === move.id ? { ...item, position: move.position } : item))
+    .sort((a, b) => a.position - b.position)
+    .map(item => item.id)
+    .filter(id => !shown || shown.some(item => item.id === id));
+
+describe('positionBetween', () => {
+  it('splits the gap between two neighbours', () => {
+    expect(positionBetween(1024, 2048, 0)).toBe(1536);
+  });
+
+  it('goes one step past the only neighbour at either end', () => {
+    expect(positionBetween(null, 1024, 0)).toBe(1024 - POSITION_STEP);
+    expect(positionBetween(5120, null, 0)).toBe(5120 + POSITION_STEP);
+  });
+
+  it('keeps the current position without neighbours', () => {
+    expect(positionBetween(null, null, 42)).toBe(42);
+  });
+});
+
+describe('planMove', () => {
+  it('moves down in the full list', () => {
+    const move = planMove(all, 'b', 'd');
+    expect(move).toEqual({ id: 'b', afterId: 'd', beforeId: 'e', position: 4608 });
+    expect(orderAfter(move!)).toEqual(['a', 'c', 'd', 'b', 'e', 'f']);
+  });
+
+  it('moves up in the full list', () => {
+    const move = planMove(all, 'e', 'b');
+    expect(move).toEqual({ id: 'e', afterId: 'a', beforeId: 'b', position: 1536 });
+    expect(orderAfter(move!)).toEqual(['a', 'e', 'b', 'c', 'd', 'f']);
+  });
+
+  it('returns null when dropped on itself or on a bookmark not shown', () => {
+    expect(planMove(all, 'c', 'c')).toBeNull();
+    expect(planMove(byId(['a', 'c']), 'a', 'b')).toBeNull();
+    expect(planMove(byId(['a', 'c']), 'b', 'c')).toBeNull();
+  });
+
+  describe('in a filtered view', () => {
+    // b, d and f are hidden by the filter
+    const shown = byId(['a', 'c', 'e']);
+
+    it('lands between the visible neighbours', () => {
+      const move = planMove(shown, 'a', 'c')!;
+      expect(move).toMatchObject({ afterId: 'c', beforeId: 'e' });
+      expect(move.position).toBeGreaterThan(3072);
+      expect(move.position).toBeLessThan(5120);
+      expect(orderAfter(move, shown)).toEqual(['c', 'a', 'e']);
+    });
+
+    it('keeps the order of the hidden bookmarks', () => {
+      const move = planMove(shown, 'e', 'c')!;
+      expect(move).toMatchObject({ afterId: 'a', beforeId: 'c' });
+      expect(orderAfter(move, shown)).toEqual(['a', 'e', 'c']);
+      expect(orderAfter(move, byId(['b', 'd', 'f']))).toEqual(['b', 'd', 'f']);
+    });
+
+    it('moves to the top of the view', () => {
+      const move = planMove(shown, 'e', 'a');
+      expect(move).toMatchObject({ afterId: null, beforeId: 'a', position: 1024 - POSITION_STEP });
+      expect(orderAfter(move!)).toEqual(['e', 'a', 'b', 'c', 'd', 'f']);
+    });
+
+    it('moves to the bottom of the view', () => {
+      const move = planMove(shown, 'a', 'e');
+      expect(move).toMatchObject({ afterId: 'e', beforeId: null, position: 5120 + POSITION_STEP });
+      expect(orderAfter(move!, shown)).toEqual(['c', 'e', 'a']);
+    });
+
+    it('only changes the moved bookmark', () => {
+      const move = planMove(shown, 'c', 'e')!;
+      const moved = all.map(item => (item.id === move.id ? move.position : item.position));
+      expect(moved.filter((position, index) => position !== all[index].position)).toHaveLength(1);
+    });
+
+    it('does nothing when the filter leaves one bookmark', () => {
+      expect(planMove(byId(['d']), 'd', 'd')).toBeNull();
+    });
+  });
+});
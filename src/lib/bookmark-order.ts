@@ -0,0 +1,68 @@
+// bookmark-order.ts
+// Manual bookmark order. Positions are fractional: a moved bookmark gets a position halfway
+// between its new neighbours, so a reorder saves one row however long the list is. The database
+// keeps positions POSITION_STEP apart and rebalances a space when two get too close to split.
+
+import { supabase } from '@/integrations/supabase/client';
+import { Bookmark } from './bookmarks';
+
+// Gap between positions; must match move_bookmark, place_new_bookmark and the rebalance functions
+export const POSITION_STEP = 1024;
+
+// A bookmark dropped between two others, as they are shown
+export interface BookmarkMove {
+  id: string;
+  // Shown just above it after the move; null at the top
+  afterId: string | null;
+  // Shown just below it after the move; null at the bottom
+  beforeId: string | null;
+  // Where the grid shows it until the server answers
+  position: number;
+}
+
+/**
+ * A position between two neighbours' positions, either null at the ends of the list. Same as
+ * move_bookmark, so the grid can show a move before it's saved.
+ */
+export const positionBetween = (lower: number | null, upper: number | null, current: number): number => {
+  if (lower === null && upper === null) return current;
+  if (lower === null) return upper! - POSITION_STEP;
+  if (upper === null) return lower + POSITION_STEP;
+  return (lower + upper) / 2;
+};
+
+/**
+ * The move for dropping `activeId` onto `overId` in a list as it's shown, which may be filtered.
+ * The bookmark lands between its new visible neighbours; bookmarks hidden by the filter keep
+ * their place in the full list. Null when nothing moves.
+ */
+export const planMove = (shown: Bookmark[], activeId: string, overId: string): BookmarkMove | null => {
+  const from = shown.findIndex(bookmark => bookmark.id === activeId);
+  const to = shown.findIndex(bookmark => bookmark.id === overId);
+  if (from === -1 || to === -1 || from === to) return null;
+
+  // The dropped bookmark takes the index of the one it was dropped on
+  const others = shown.filter(bookmark => bookmark.id !== activeId);
+  const after = others[to - 1] ?? null;
+  const before = others[to] ?? null;
+  return {
+    id: activeId,
+    afterId: after?.id ?? null,
+    beforeId: before?.id ?? null,
+    position: positionBetween(after?.position ?? null, before?.position ?? null, shown[from].position),
+  };
+};
+
+/**
+ * Saves a move. Returns the saved position, which differs from the planned one when the
+ * database had to rebalance the space first; the other bookmarks moved with it then.
+ */
+export const moveBookmark = async ({ id, afterId, beforeId }: BookmarkMove): Promise<number> => {
+  const { data, error } = await supabase.rpc('move_bookmark', {
+    bookmark_id: id,
+    after_id: afterId,
+    before_id: beforeId,
+  });
+  if (error) throw error;
+  return data;
+};
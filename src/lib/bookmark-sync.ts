@@ -0,0 +1,151 @@
+// bookmark-sync.ts
+// Live bookmark changes through Supabase Realtime, so a bookmark saved, edited or reordered in one
+// tab or device shows up in the others without a refetch. Realtime applies the bookmarks select
+// policy to every change, so a subscriber only hears about rows it can see.
+
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { Bookmark, BOOKMARK_COLUMNS, BookmarkRow, toBookmark } from './bookmarks';
+
+// How long a write from this tab waits for its own change to come back before it's forgotten
+const ECHO_TIMEOUT_MS = 30_000;
+
+// Broadcast event for bookmarks moved to the trash (see announceTrashed)
+const TRASHED_EVENT = 'trashed';
+
+type TableRow = Tables<'bookmarks'>;
+
+export interface BookmarkChangeHandlers {
+  // A bookmark was added or changed elsewhere
+  onUpsert: (bookmark: Bookmark) => void;
+  // Bookmarks were deleted or moved to the trash elsewhere
+  onRemove: (ids: string[]) => void;
+  // The connection came back after dropping; changes made in between were missed
+  onResync: () => void;
+}
+
+export interface BookmarkSubscription {
+  // Tells the other tabs and devices that bookmarks went to the trash
+  announceTrashed: (ids: string[]) => void;
+  unsubscribe: () => void;
+}
+
+// Changes written from this tab that haven't come back from Realtime yet, by bookmark id
+const pendingEchoes = new Map<string, { changes: Partial<Bookmark>; expiresAt: number }[]>();
+
+/**
+ * Registers changes this tab is about to write, so their echo from Realtime is ignored instead of
+ * overwriting newer optimistic state (e.g. a second reorder made before the first one came back).
+ */
+export const expectEcho = (ids: string[], changes: Partial<Bookmark> | ((id: string) => Partial<Bookmark>)) => {
+  const expiresAt = Date.now() + ECHO_TIMEOUT_MS;
+  ids.forEach(id => {
+    const pending = (pendingEchoes.get(id) ?? []).filter(echo => echo.expiresAt > Date.now());
+    pending.push({ changes: typeof changes === 'function' ? changes(id) : changes, expiresAt });
+    pendingEchoes.set(id, pending);
+  });
+};
+
+// Timestamps come back in Postgres' format rather than the one they were written in
+const sameValue = (a: unknown, b: unknown) =>
+  a === b || (typeof a === 'string' && typeof b === 'string' && !isNaN(Date.parse(a)) && Date.parse(a) === Date.parse(b));
+
+// True, and forgets the write, when the bookmark is exactly what this tab wrote earlier
+const consumeEcho = (bookmark: Bookmark): boolean => {
+  const pending = (pendingEchoes.get(bookmark.id) ?? []).filter(echo => echo.expiresAt > Date.now());
+  const index = pending.findIndex(({ changes }) =>
+    Object.entries(changes).every(([key, value]) => sameValue(bookmark[key as keyof Bookmark], value))
+  );
+  if (index !== -1) pending.splice(index, 1);
+
+  if (pending.length > 0) {
+    pendingEchoes.set(bookmark.id, pending);
+  } else {
+    pendingEchoes.delete(bookmark.id);
+  }
+  return index !== -1;
+};
+
+// Keeps the grid's columns of a changed row (Realtime sends all of them, search_vector included)
+const pickBookmark = (row: TableRow): Bookmark => {
+  const fields = Object.fromEntries(
+    BOOKMARK_COLUMNS.split(', ').map(column => [column, row[column as keyof TableRow]])
+  ) as unknown as BookmarkRow;
+  return toBookmark(fields, 0);
+};
+
+/**
+ * True when `incoming` is a later version of `current`. Changes can arrive after the grid has
+ * already loaded or saved the same or a newer version.
+ */
+export const isNewerVersion = (incoming: Bookmark, current: Bookmark) =>
+  new Date(incoming.updated_at).getTime() > new Date(current.updated_at).getTime();
+
+/**
+ * Listens for changes to the bookmarks of one space: the workspace's, or the user's own outside
+ * any workspace. Realtime rejoins by itself after the connection drops; onResync is called once
+ * it's back so the caller can catch up.
+ *
+ * Moving a bookmark to the trash hides it from the select policy, so Realtime never delivers that
+ * change; the tab that trashed it announces it on the same channel instead. The channel is
+ * private: only members of the space can join it, and only its editors can announce.
+ */
+export const subscribeToBookmarks = (
+  userId: string,
+  workspaceId: string | null,
+  { onUpsert, onRemove, onResync }: BookmarkChangeHandlers
+): BookmarkSubscription => {
+  let hasSubscribed = false;
+
+  const handleChange = (payload: RealtimePostgresChangesPayload<TableRow>) => {
+    if (payload.eventType === 'DELETE') {
+      // Deletes can't be filtered and only carry the primary key; unknown ids are ignored by the caller
+      if (payload.old.id) onRemove([payload.old.id]);
+      return;
+    }
+
+    const row = payload.new;
+    if (row.workspace_id !== workspaceId || row.deleted_at) {
+      onRemove([row.id]);
+      return;
+    }
+    const bookmark = pickBookmark(row);
+    if (!consumeEcho(bookmark)) onUpsert(bookmark);
+  };
+
+  const channel: RealtimeChannel = supabase
+    .channel(`bookmarks:${workspaceId ?? userId}`, { config: { private: true } })
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'bookmarks',
+        filter: workspaceId ? `workspace_id=eq.${workspaceId}` : `user_id=eq.${userId}`,
+      },
+      handleChange
+    )
+    .on('broadcast', { event: TRASHED_EVENT }, ({ payload }) => {
+      if (Array.isArray(payload?.ids)) onRemove(payload.ids.filter((id: unknown) => typeof id === 'string'));
+    })
+    .subscribe((status, error) => {
+      if (status === 'SUBSCRIBED') {
+        if (hasSubscribed) onResync();
+        hasSubscribed = true;
+      } else if (error) {
+        console.error('Bookmark sync interrupted:', error);
+      }
+    });
+
+  return {
+    announceTrashed: (ids) => {
+      channel
+        .send({ type: 'broadcast', event: TRASHED_EVENT, payload: { ids } })
+        .catch(error => console.error('Error announcing trashed bookmarks:', error));
+    },
+    unsubscribe: () => {
+      supabase.removeChannel(channel);
+    },
+  };
+};
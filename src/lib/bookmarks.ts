@@ -0,0 +1,73 @@
+// bookmarks.ts
+// Shared shape of a bookmark row as used by the grid and cards.
+
+// Progress of the background worker that fills in title, summary and preview metadata
+export type EnrichmentStatus = 'pending' | 'done' | 'failed';
+
+// Outcome of the last link check (see link-health.ts); null until a link has been checked
+export type LinkStatus = 'ok' | 'moved' | 'not_found' | 'timeout' | 'error';
+
+export interface Bookmark {
+  id: string;
+  url: string;
+  title: string;
+  favicon_url: string | null;
+  // Imported description, or the summary of bookmarks saved before structured summaries
+  summary: string | null;
+  // Written by the enrichment worker's summarizer
+  tldr: string | null;
+  key_points: string[];
+  tags: string[];
+  // The user's own notes, edited in the edit dialog
+  notes: string | null;
+  created_at: string;
+  // Bumped on every write; the edit dialog uses it to detect changes made elsewhere
+  updated_at: string;
+  position: number;
+  collection_id: string | null;
+  // Link preview metadata (Open Graph, Twitter Card, JSON-LD)
+  image_url: string | null;
+  description: string | null;
+  site_name: string | null;
+  author: string | null;
+  published_at: string | null;
+  canonical_url: string | null;
+  enrichment_status: EnrichmentStatus;
+  // Last worker error, shown when enrichment failed
+  enrichment_error: string | null;
+  // Link checker results (see link-health.ts)
+  link_status: LinkStatus | null;
+  link_http_status: number | null;
+  link_final_url: string | null;
+  link_checked_at: string | null;
+  link_failure_count: number;
+  // When a snapshot of the page was last saved; null if it has no archived copy
+  last_snapshot_at: string | null;
+  // Reading state (see reading-state.ts)
+  is_read: boolean;
+  is_favorite: boolean;
+  // When the bookmark was moved out of the inbox; null while it's in the inbox
+  archived_at: string | null;
+}
+
+// Columns fetched for the grid. Leaves out large server-only columns such as search_vector.
+export const BOOKMARK_COLUMNS = 'id, url, title, favicon_url, summary, tldr, key_points, tags, notes, created_at, updated_at, position, collection_id, image_url, description, site_name, author, published_at, canonical_url, enrichment_status, enrichment_error, link_status, link_http_status, link_final_url, link_checked_at, link_failure_count, last_snapshot_at, is_read, is_favorite, archived_at';
+
+// A row selected with BOOKMARK_COLUMNS, before its loosely typed columns are narrowed
+export type BookmarkRow = Omit<Bookmark, 'position' | 'tags' | 'enrichment_status' | 'link_status'> & {
+  position: number | null;
+  tags: string[] | null;
+  enrichment_status: string;
+  link_status: string | null;
+};
+
+/**
+ * Narrows a selected row to a Bookmark. `position` stands in for a missing position.
+ */
+export const toBookmark = (row: BookmarkRow, position: number): Bookmark => ({
+  ...row,
+  tags: row.tags ?? [],
+  position: row.position ?? position,
+  enrichment_status: row.enrichment_status as EnrichmentStatus,
+  link_status: row.link_status as LinkStatus | null,
+});
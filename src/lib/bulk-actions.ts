@@ -0,0 +1,45 @@
+// bulk-actions.ts
+// Operations on a selection of bookmarks. Each one is a single request, however many bookmarks are selected.
+
+import { supabase } from '@/integrations/supabase/client';
+
+// Above this many links, "open all" asks before opening tabs
+export const OPEN_ALL_CONFIRM_THRESHOLD = 10;
+
+/**
+ * Adds and removes tags on several bookmarks. Returns each updated bookmark's new tags.
+ */
+export const updateBookmarkTags = async (
+  ids: string[],
+  { add = [], remove = [] }: { add?: string[]; remove?: string[] }
+): Promise<Map<string, string[]>> => {
+  const { data, error } = await supabase.rpc('update_bookmark_tags', {
+    bookmark_ids: ids,
+    add_tags: add,
+    remove_tags: remove,
+  });
+  if (error) throw error;
+  return new Map((data ?? []).map(row => [row.id, row.tags ?? []]));
+};
+
+/**
+ * Moves several bookmarks into a collection; null leaves them unfiled.
+ */
+export const moveBookmarks = async (ids: string[], collectionId: string | null) => {
+  const { error } = await supabase
+    .from('bookmarks')
+    .update({ collection_id: collectionId })
+    .in('id', ids);
+  if (error) throw error;
+};
+
+/**
+ * Opens each URL in a new tab. Returns how many the browser blocked as pop-ups.
+ */
+export const openInTabs = (urls: string[]): number =>
+  urls.filter(url => {
+    // "noopener" would make window.open return null even on success, so the opener is cut afterwards
+    const tab = window.open(url, '_blank');
+    if (tab) tab.opener = null;
+    return tab === null;
+  }).length;
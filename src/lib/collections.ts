@@ -0,0 +1,87 @@
+// collections.ts
+// Helpers for turning the flat `collections` rows into a nested folder tree.
+
+export interface Collection {
+  id: string;
+  name: string;
+  parent_id: string | null;
+  position: number | null;
+}
+
+export interface CollectionNode extends Collection {
+  children: CollectionNode[];
+}
+
+// Prefix for dnd-kit droppable ids so collection targets never clash with bookmark ids
+export const COLLECTION_DROP_PREFIX = 'collection:';
+
+// Droppable id for the "All bookmarks" root, which unfiles a bookmark when dropped on
+export const ROOT_DROP_ID = `${COLLECTION_DROP_PREFIX}root`;
+
+/**
+ * Builds a tree from flat collection rows.
+ * Rows whose parent is missing are treated as top-level so nothing disappears.
+ * Siblings are ordered by position, then name.
+ */
+export const buildCollectionTree = (collections: Collection[]): CollectionNode[] => {
+  const nodes = new Map<string, CollectionNode>();
+  collections.forEach(collection => {
+    nodes.set(collection.id, { ...collection, children: [] });
+  });
+
+  const roots: CollectionNode[] = [];
+  nodes.forEach(node => {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  const sortNodes = (list: CollectionNode[]) => {
+    list.sort((a, b) => (a.position ?? 0) - (b.position ?? 0) || a.name.localeCompare(b.name));
+    list.forEach(node => sortNodes(node.children));
+  };
+  sortNodes(roots);
+
+  return roots;
+};
+
+/**
+ * Returns the ids of every collection nested below `id` (not including `id` itself).
+ */
+export const getDescendantIds = (collections: Collection[], id: string): Set<string> => {
+  const descendants = new Set<string>();
+  const queue = [id];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    collections.forEach(collection => {
+      if (collection.parent_id === current && !descendants.has(collection.id)) {
+        descendants.add(collection.id);
+        queue.push(collection.id);
+      }
+    });
+  }
+
+  return descendants;
+};
+
+/**
+ * Returns the chain of collections from the root down to `id`, e.g. for breadcrumbs.
+ */
+export const getCollectionPath = (collections: Collection[], id: string | null): Collection[] => {
+  const byId = new Map(collections.map(collection => [collection.id, collection]));
+  const path: Collection[] = [];
+  const seen = new Set<string>();
+  let current = id ? byId.get(id) : undefined;
+
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+
+  return path;
+};
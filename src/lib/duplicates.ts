@@ -0,0 +1,84 @@
+// duplicates.ts
+// Finding bookmarks saved more than once. Every bookmark stores the normalized form of its URL
+// (see normalize-url.ts), which is unique per space (a user's personal bookmarks, or a workspace)
+// among bookmarks that aren't in the trash.
+
+import { supabase } from '@/integrations/supabase/client';
+import { normalizeUrl } from './normalize-url';
+import { inSpace } from './workspaces';
+
+// Postgres unique_violation, returned when a save collides with the normalized_url index
+const UNIQUE_VIOLATION = '23505';
+
+// The bookmark a URL is already saved as
+export interface SavedBookmark {
+  id: string;
+  title: string;
+  created_at: string;
+  collection_id: string | null;
+}
+
+// Bookmarks that share a normalized URL, oldest first
+export interface DuplicateGroup<T> {
+  normalizedUrl: string;
+  bookmarks: T[];
+}
+
+/**
+ * True when a save failed because the user already has a bookmark with the same normalized URL.
+ */
+export const isDuplicateUrlError = (error: unknown): boolean =>
+  (error as { code?: string } | null)?.code === UNIQUE_VIOLATION;
+
+/**
+ * Looks up the bookmark for a URL in a space (a workspace, or the user's personal bookmarks),
+ * ignoring tracking parameters, query order and the other differences normalizeUrl() removes.
+ * The URL is normalized by the database, the same way as saved bookmarks are.
+ * Returns null if the URL isn't saved there yet.
+ */
+export const findSavedBookmark = async (
+  userId: string,
+  url: string,
+  workspaceId: string | null = null
+): Promise<SavedBookmark | null> => {
+  const { data: normalizedUrl, error: normalizeError } = await supabase.rpc('normalize_url', { url });
+  if (normalizeError) throw normalizeError;
+
+  const query = supabase
+    .from('bookmarks')
+    .select('id, title, created_at, collection_id')
+    .eq('normalized_url', normalizedUrl);
+  const { data, error } = await inSpace(query, userId, workspaceId).maybeSingle();
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Groups bookmarks whose URLs normalize to the same string. Only groups with more than one
+ * bookmark are returned, largest first; each group is sorted oldest first.
+ */
+export const findDuplicateGroups = <T extends { url: string; created_at: string }>(
+  bookmarks: T[]
+): DuplicateGroup<T>[] => {
+  const groups = new Map<string, T[]>();
+  for (const bookmark of bookmarks) {
+    const key = normalizeUrl(bookmark.url);
+    groups.set(key, [...(groups.get(key) ?? []), bookmark]);
+  }
+
+  return Array.from(groups, ([normalizedUrl, items]) => ({
+    normalizedUrl,
+    bookmarks: [...items].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+  }))
+    .filter(group => group.bookmarks.length > 1)
+    .sort((a, b) => b.bookmarks.length - a.bookmarks.length || a.normalizedUrl.localeCompare(b.normalizedUrl));
+};
+
+/**
+ * Merges duplicates into the bookmark to keep. The kept bookmark gains their tags and notes,
+ * the earliest saved date and, if it has none, their collection; the duplicates go to the trash.
+ */
+export const mergeBookmarks = async (keepId: string, duplicateIds: string[]) => {
+  const { error } = await supabase.rpc('merge_bookmarks', { keep_id: keepId, duplicate_ids: duplicateIds });
+  if (error) throw error;
+};
@@ -0,0 +1,74 @@
+// enrichment.ts
+// Client side of the background enrichment queue. New bookmarks are saved with
+// enrichment_status 'pending'; the enrich-bookmarks edge function fills them in.
+// The function also runs every minute on a schedule, so a lost request only delays enrichment.
+
+import { supabase } from '@/integrations/supabase/client';
+import { isMetadataMocked, mockPageMetadata } from '@/lib/metadata';
+
+// How often the grid re-fetches bookmarks that are still pending
+export const ENRICHMENT_POLL_MS = 3000;
+
+// Most pending bookmarks re-fetched per poll; the rest are polled once these are done
+export const ENRICHMENT_POLL_LIMIT = 50;
+
+/**
+ * Asks the worker to enrich a bookmark right away instead of waiting for the next scheduled run.
+ * With VITE_METADATA_MOCK the mock metadata is written directly instead.
+ */
+export const requestEnrichment = async (bookmarkId: string, url: string) => {
+  if (isMetadataMocked) {
+    // Keywords only feed tag suggestions; they aren't stored
+    const { keywords: _keywords, ...metadata } = await mockPageMetadata(url);
+    const { error } = await supabase
+      .from('bookmarks')
+      .update({ ...metadata, enrichment_status: 'done', enrichment_error: null })
+      .eq('id', bookmarkId);
+    if (error) throw error;
+    return;
+  }
+
+  const { error } = await supabase.functions.invoke('enrich-bookmarks', {
+    body: { bookmark_id: bookmarkId },
+  });
+  if (error) throw error;
+};
+
+/**
+ * Puts a failed bookmark back in the queue with a fresh set of attempts and enriches it now.
+ */
+export const retryEnrichment = async (bookmarkId: string, url: string) => {
+  const { error } = await supabase
+    .from('bookmarks')
+    .update({
+      enrichment_status: 'pending',
+      enrichment_attempts: 0,
+      enrichment_error: null,
+      enrichment_next_attempt_at: new Date().toISOString(),
+    })
+    .eq('id', bookmarkId);
+  if (error) throw error;
+
+  await requestEnrichment(bookmarkId, url);
+};
+
+/**
+ * Queues several bookmarks for enrichment again in a single update. The scheduled worker
+ * picks them up within a minute; with VITE_METADATA_MOCK they're filled in right away instead.
+ */
+export const requeueEnrichment = async (bookmarks: { id: string; url: string }[]) => {
+  const { error } = await supabase
+    .from('bookmarks')
+    .update({
+      enrichment_status: 'pending',
+      enrichment_attempts: 0,
+      enrichment_error: null,
+      enrichment_next_attempt_at: new Date().toISOString(),
+    })
+    .in('id', bookmarks.map(bookmark => bookmark.id));
+  if (error) throw error;
+
+  if (isMetadataMocked) {
+    await Promise.all(bookmarks.map(bookmark => requestEnrichment(bookmark.id, bookmark.url)));
+  }
+};
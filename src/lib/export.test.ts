@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { EXPORT_FORMAT_VERSION, ExportedBookmark, parseBookmarksJSON, serializeBookmarks } from './export';
+import { collectNodeIds, flattenSelectedLinks } from './netscape';
+import { POSITION_STEP } from './bookmark-order';
+
+const BOOKMARKS: ExportedBookmark[] = [
+  {
+    title: 'Second, by position',
+    url: 'https://example.com/b?q=1&lang=en',
+    summary: null,
+    tags: [],
+    created_at: '2025-02-01T08:30:00.000Z',
+    position: 2 * POSITION_STEP,
+  },
+  {
+    title: 'The "Rust" book, 2nd edition',
+    url: 'https://doc.rust-lang.org/book/',
+    summary: 'Ownership, borrowing\nand lifetimes.',
+    tags: ['lang/rust', 'reading list'],
+    created_at: '2025-01-15T12:00:00.000Z',
+    position: POSITION_STEP,
+  },
+];
+
+// The links an import of `text` would save, in order, as exported bookmarks again
+const reimport = (text: string): ExportedBookmark[] => {
+  const root = parseBookmarksJSON(text);
+  return flattenSelectedLinks(root, new Set(collectNodeIds(root))).map(({ link }, index) => ({
+    title: link.title,
+    url: link.url,
+    summary: link.description,
+    tags: link.tags,
+    created_at: link.addedAt!,
+    // The import appends links in file order, a step apart
+    position: (index + 1) * POSITION_STEP,
+  }));
+};
+
+const exportFile = (overrides: Record<string, unknown>) =>
+  JSON.stringify({ format: 'curator-bookmarks', version: EXPORT_FORMAT_VERSION, bookmarks: [], ...overrides });
+
+describe('JSON export', () => {
+  it('imports again with every field and the order intact', () => {
+    expect(reimport(serializeBookmarks(BOOKMARKS, 'json'))).toEqual([BOOKMARKS[1], BOOKMARKS[0]]);
+  });
+
+  it('rejects files from a newer version or another app', () => {
+    expect(() => parseBookmarksJSON(exportFile({ version: EXPORT_FORMAT_VERSION + 1 }))).toThrow(
+      'Unsupported export file (version:'
+    );
+    expect(() => parseBookmarksJSON(exportFile({ format: 'other-bookmarks' }))).toThrow('Unsupported export file (format:');
+    expect(() => parseBookmarksJSON('{"format":')).toThrow('This file is not valid JSON.');
+  });
+
+  it('rejects bookmarks without a valid URL or date', () => {
+    const [bookmark] = BOOKMARKS;
+    expect(() => parseBookmarksJSON(exportFile({ bookmarks: [{ ...bookmark, url: 'not a url' }] }))).toThrow(
+      'Unsupported export file (bookmarks.0.url:'
+    );
+    expect(() => parseBookmarksJSON(exportFile({ bookmarks: [{ ...bookmark, created_at: 'yesterday' }] }))).toThrow(
+      'Unsupported export file (bookmarks.0.created_at:'
+    );
+  });
+});
+
+describe('CSV export', () => {
+  it('quotes every cell, doubling quotes and keeping commas and newlines inside the cell', () => {
+    expect(serializeBookmarks(BOOKMARKS, 'csv').split('\r\n')).toEqual([
+      'title,url,summary,tags,created_at,position',
+      '"The ""Rust"" book, 2nd edition","https://doc.rust-lang.org/book/","Ownership, borrowing\nand lifetimes.","lang/rust,reading list","2025-01-15T12:00:00.000Z","1024"',
+      '"Second, by position","https://example.com/b?q=1&lang=en","","","2025-02-01T08:30:00.000Z","2048"',
+    ]);
+  });
+
+  it('keeps spreadsheets from running values as formulas', () => {
+    const [bookmark] = BOOKMARKS;
+    const csv = serializeBookmarks([{ ...bookmark, title: '=HYPERLINK("https://evil.example")', summary: '-1+2' }], 'csv');
+    expect(csv.split('\r\n')[1]).toMatch(/^"'=HYPERLINK\(""https:\/\/evil.example""\)",.*,"'-1\+2",/);
+  });
+});
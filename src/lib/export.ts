@@ -0,0 +1,197 @@
+// export.ts
+// Serializers for exporting bookmarks as JSON, CSV, Netscape bookmark HTML and Markdown,
+// plus the parser that lets the JSON format be imported again, and the Markdown export of
+// a bookmark's notes and highlights.
+
+import { z } from 'zod';
+import { NetscapeFolder } from './netscape';
+
+export type ExportFormat = 'json' | 'csv' | 'html' | 'markdown';
+
+// Bump when the JSON layout changes; parseBookmarksJSON rejects newer versions
+export const EXPORT_FORMAT_VERSION = 1;
+const EXPORT_FORMAT_NAME = 'curator-bookmarks';
+
+export interface ExportedBookmark {
+  title: string;
+  url: string;
+  summary: string | null;
+  tags: string[];
+  created_at: string;
+  position: number;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  html: { label: 'Browser bookmarks (HTML)', extension: 'html', mimeType: 'text/html' },
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+};
+
+const exportFileSchema = z.object({
+  format: z.literal(EXPORT_FORMAT_NAME),
+  version: z.number().int().min(1).max(EXPORT_FORMAT_VERSION),
+  bookmarks: z.array(z.object({
+    title: z.string(),
+    url: z.string().url(),
+    summary: z.string().nullable().default(null),
+    tags: z.array(z.string()).default([]),
+    created_at: z.string().datetime({ offset: true }),
+    position: z.number().default(0),
+  })),
+});
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Quotes a CSV cell and neutralizes values a spreadsheet would run as a formula
+const escapeCsv = (value: string) => {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+};
+
+const escapeMarkdown = (value: string) => value.replace(/([\\[\]()*_`#])/g, '\\$1');
+
+const toJSON = (bookmarks: ExportedBookmark[]) =>
+  JSON.stringify(
+    {
+      format: EXPORT_FORMAT_NAME,
+      version: EXPORT_FORMAT_VERSION,
+      exported_at: new Date().toISOString(),
+      bookmarks,
+    },
+    null,
+    2
+  );
+
+const toCSV = (bookmarks: ExportedBookmark[]) => {
+  const header = ['title', 'url', 'summary', 'tags', 'created_at', 'position'];
+  const rows = bookmarks.map(b =>
+    [b.title, b.url, b.summary ?? '', b.tags.join(','), b.created_at, String(b.position)]
+      .map(escapeCsv)
+      .join(',')
+  );
+  return [header.join(','), ...rows].join('\r\n');
+};
+
+const toNetscapeHTML = (bookmarks: ExportedBookmark[]) => {
+  const lines = bookmarks.map(b => {
+    const addDate = Math.floor(new Date(b.created_at).getTime() / 1000);
+    const tags = b.tags.length > 0 ? ` TAGS="${escapeHtml(b.tags.join(','))}"` : '';
+    const link = `    <DT><A HREF="${escapeHtml(b.url)}" ADD_DATE="${addDate}"${tags}>${escapeHtml(b.title)}</A>`;
+    return b.summary ? `${link}\n    <DD>${escapeHtml(b.summary)}` : link;
+  });
+
+  return [
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+    '<!-- This is an automatically generated file. -->',
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    '<TITLE>Bookmarks</TITLE>',
+    '<H1>Bookmarks</H1>',
+    '<DL><p>',
+    ...lines,
+    '</DL><p>',
+    '',
+  ].join('\n');
+};
+
+const toMarkdown = (bookmarks: ExportedBookmark[]) => {
+  const items = bookmarks.map(b => {
+    const tags = b.tags.length > 0 ? ` ${b.tags.map(tag => `\`${tag}\``).join(' ')}` : '';
+    const summary = b.summary ? `\n  > ${b.summary.replace(/\s*\n\s*/g, ' ')}` : '';
+    return `- [${escapeMarkdown(b.title)}](<${b.url}>)${tags}${summary}`;
+  });
+  return ['# Bookmarks', '', ...items, ''].join('\n');
+};
+
+/**
+ * Serializes bookmarks into the given format, ordered by position.
+ */
+export const serializeBookmarks = (bookmarks: ExportedBookmark[], format: ExportFormat): string => {
+  const ordered = [...bookmarks].sort((a, b) => a.position - b.position);
+
+  switch (format) {
+    case 'json':
+      return toJSON(ordered);
+    case 'csv':
+      return toCSV(ordered);
+    case 'html':
+      return toNetscapeHTML(ordered);
+    case 'markdown':
+      return toMarkdown(ordered);
+  }
+};
+
+/**
+ * A bookmark's notes and highlights as a Markdown document: the notes as written, then each
+ * highlight as a quote followed by its comment.
+ */
+export const serializeAnnotations = (
+  bookmark: { title: string; url: string; notes: string | null },
+  highlights: { text: string; comment: string | null }[]
+): string => {
+  const lines = [`# ${escapeMarkdown(bookmark.title)}`, '', `<${bookmark.url}>`, ''];
+  if (bookmark.notes?.trim()) {
+    lines.push('## Notes', '', bookmark.notes.trim(), '');
+  }
+  if (highlights.length > 0) {
+    lines.push('## Highlights', '');
+    highlights.forEach(highlight => {
+      lines.push(...highlight.text.trim().split(/\s*\n\s*/).map(line => `> ${line}`), '');
+      if (highlight.comment?.trim()) lines.push(highlight.comment.trim(), '');
+    });
+  }
+  return lines.join('\n');
+};
+
+// Starts a browser download for the given text
+export const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Parses a JSON export back into a bookmark tree the import dialog can preview.
+ * Throws with a readable message if the file isn't a supported export.
+ */
+export const parseBookmarksJSON = (text: string): NetscapeFolder => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+
+  const result = exportFileSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Unsupported export file (${issue.path.join('.') || 'file'}: ${issue.message}).`);
+  }
+
+  const bookmarks = [...result.data.bookmarks].sort((a, b) => a.position - b.position);
+  return {
+    kind: 'folder',
+    id: 'root',
+    title: 'Bookmarks',
+    children: bookmarks.map((bookmark, index) => ({
+      kind: 'link',
+      id: `node-${index}`,
+      title: bookmark.title,
+      url: bookmark.url,
+      addedAt: bookmark.created_at,
+      tags: bookmark.tags,
+      description: bookmark.summary,
+    })),
+  };
+};
@@ -0,0 +1,92 @@
+// link-health.ts
+// Client side of the link checker. The check-links edge function requests saved URLs every
+// hour (links are rechecked weekly, failing ones daily) and records the outcome on each bookmark.
+
+import { supabase } from '@/integrations/supabase/client';
+import { isDuplicateUrlError } from './duplicates';
+import { LinkStatus } from './bookmarks';
+
+// Statuses matched by is:broken. Must match compile_search_node().
+export const BROKEN_LINK_STATUSES: LinkStatus[] = ['not_found', 'timeout', 'error'];
+
+// Most bookmarks the edge function checks per request
+const CHECK_BATCH_SIZE = 100;
+
+// Link health columns of a bookmark
+export interface LinkHealth {
+  link_status: LinkStatus | null;
+  // Status code of the last response, if one arrived
+  link_http_status: number | null;
+  // Where a permanent redirect leads, when the status is 'moved'
+  link_final_url: string | null;
+  link_checked_at: string | null;
+  // Checks in a row that failed
+  link_failure_count: number;
+}
+
+/**
+ * True when the last check found the link dead, unreachable or erroring.
+ */
+export const isBrokenLink = (bookmark: Pick<LinkHealth, 'link_status'>): boolean =>
+  bookmark.link_status !== null && BROKEN_LINK_STATUSES.includes(bookmark.link_status);
+
+/**
+ * Short badge text for a checked link, e.g. "404", "Timeout" or "Moved"; null for working links.
+ */
+export const linkStatusLabel = (health: Pick<LinkHealth, 'link_status' | 'link_http_status'>): string | null => {
+  switch (health.link_status) {
+    case 'not_found':
+      return String(health.link_http_status ?? 404);
+    case 'timeout':
+      return 'Timeout';
+    case 'error':
+      return health.link_http_status ? `HTTP ${health.link_http_status}` : 'Unreachable';
+    case 'moved':
+      return 'Moved';
+    default:
+      return null;
+  }
+};
+
+/**
+ * Checks the given bookmarks' links now. Returns each bookmark's new link health by id.
+ */
+export const checkLinks = async (ids: string[]): Promise<Map<string, LinkHealth>> => {
+  const health = new Map<string, LinkHealth>();
+  for (let i = 0; i < ids.length; i += CHECK_BATCH_SIZE) {
+    const { data, error } = await supabase.functions.invoke('check-links', {
+      body: { bookmark_ids: ids.slice(i, i + CHECK_BATCH_SIZE) },
+    });
+    if (error) throw error;
+    (data.results as (LinkHealth & { id: string })[]).forEach(({ id, ...result }) => health.set(id, result));
+  }
+  return health;
+};
+
+/**
+ * Replaces a moved bookmark's URL with the address its redirect leads to. The link counts as
+ * unchecked again afterwards. Returns the changed columns.
+ */
+export const updateToRedirectTarget = async (bookmark: { id: string; link_final_url: string | null }) => {
+  if (!bookmark.link_final_url) throw new Error('This link has not moved.');
+
+  const url = bookmark.link_final_url;
+  const { data, error } = await supabase
+    .from('bookmarks')
+    .update({ url })
+    .eq('id', bookmark.id)
+    .select('updated_at')
+    .single();
+  if (isDuplicateUrlError(error)) throw new Error('You already have a bookmark for the new address.');
+  if (error) throw error;
+
+  return {
+    url,
+    updated_at: data.updated_at,
+    link_status: null,
+    link_http_status: null,
+    link_final_url: null,
+    link_checked_at: null,
+    link_failure_count: 0,
+  };
+};
@@ -0,0 +1,207 @@
+// markdown.ts
+// A small Markdown parser for bookmark notes: headings, paragraphs, lists, quotes, code blocks,
+// rules, and inline bold, italic, code and links. It produces a tree that MarkdownText renders
+// as React elements, so notes never go through innerHTML.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'list'; ordered: boolean; items: InlineNode[][] }
+  | { type: 'quote'; blocks: MarkdownBlock[] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+const QUOTE = /^\s*>\s?/;
+const UNORDERED_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+
+// Only web and mail links are rendered as links; anything else stays text
+const safeHref = (href: string) => {
+  try {
+    const url = new URL(href);
+    return url.protocol === 'http:' || url.protocol === 'https:' || url.protocol === 'mailto:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Parses inline Markdown: `code`, **bold**, *italic* / _italic_, [links](https://...) and
+ * backslash escapes.
+ */
+export const parseInline = (input: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let text = '';
+  const flush = () => {
+    if (text) nodes.push({ type: 'text', text });
+    text = '';
+  };
+
+  let i = 0;
+  while (i < input.length) {
+    const char = input[i];
+
+    if (char === '\\' && i + 1 < input.length && /[\\`*_[\]()#>+\-.!]/.test(input[i + 1])) {
+      text += input[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const close = input.indexOf('`', i + 1);
+      if (close > i + 1) {
+        flush();
+        nodes.push({ type: 'code', text: input.slice(i + 1, close) });
+        i = close + 1;
+        continue;
+      }
+    }
+
+    if ((char === '*' || char === '_') && input[i + 1] === char) {
+      const marker = char + char;
+      const close = input.indexOf(marker, i + 2);
+      if (close > i + 2) {
+        flush();
+        nodes.push({ type: 'strong', children: parseInline(input.slice(i + 2, close)) });
+        i = close + 2;
+        continue;
+      }
+    }
+
+    if ((char === '*' || char === '_') && input[i + 1] !== ' ' && input[i + 1] !== undefined) {
+      const close = input.indexOf(char, i + 1);
+      // _ inside words (snake_case) isn't emphasis
+      const inWord = char === '_' && /\w/.test(input[i - 1] ?? '');
+      if (close > i + 1 && !inWord) {
+        flush();
+        nodes.push({ type: 'em', children: parseInline(input.slice(i + 1, close)) });
+        i = close + 1;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const match = /^\[([^\]]+)\]\(([^)\s]+)\)/.exec(input.slice(i));
+      const href = match && safeHref(match[2]);
+      if (match && href) {
+        flush();
+        nodes.push({ type: 'link', href, children: parseInline(match[1]) });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    text += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+};
+
+/**
+ * Parses Markdown text into blocks.
+ */
+export const parseMarkdown = (input: string): MarkdownBlock[] => {
+  const lines = input.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const fence = line.trim().slice(0, 3);
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence)) code.push(lines[i++]);
+      i++;
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) quoted.push(lines[i++].replace(QUOTE, ''));
+      blocks.push({ type: 'quote', blocks: parseMarkdown(quoted.join('\n')) });
+      continue;
+    }
+
+    const ordered = ORDERED_ITEM.test(line);
+    if (ordered || UNORDERED_ITEM.test(line)) {
+      const pattern = ordered ? ORDERED_ITEM : UNORDERED_ITEM;
+      const items: InlineNode[][] = [];
+      while (i < lines.length && pattern.test(lines[i])) {
+        items.push(parseInline(pattern.exec(lines[i])![1]));
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    // A paragraph runs until a blank line or the start of another block
+    const paragraph: string[] = [];
+    while (
+      i < lines.length && lines[i].trim() &&
+      !FENCE.test(lines[i]) && !HEADING.test(lines[i]) && !QUOTE.test(lines[i]) &&
+      !(paragraph.length > 0 && (UNORDERED_ITEM.test(lines[i]) || ORDERED_ITEM.test(lines[i])))
+    ) {
+      paragraph.push(lines[i++].trim());
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+};
+
+const inlineText = (nodes: InlineNode[]): string =>
+  nodes.map(node => ('children' in node ? inlineText(node.children) : node.text)).join('');
+
+const blockText = (block: MarkdownBlock): string => {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+      return inlineText(block.children);
+    case 'list':
+      return block.items.map(inlineText).join('\n');
+    case 'quote':
+      return block.blocks.map(blockText).join('\n');
+    case 'code':
+      return block.text;
+    default:
+      return '';
+  }
+};
+
+/**
+ * The text of Markdown without its formatting, e.g. for one-line previews.
+ */
+export const markdownToPlainText = (input: string): string =>
+  parseMarkdown(input).map(blockText).filter(Boolean).join('\n');
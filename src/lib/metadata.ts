@@ -0,0 +1,73 @@
+// metadata.ts
+// Client for the extract-metadata edge function, which fetches a page on the server
+// and returns its title, favicon, a TL;DR with key points and link preview metadata.
+// Set VITE_METADATA_MOCK=true to use a local mock instead (no network, for offline development).
+
+import { supabase } from '@/integrations/supabase/client';
+
+export interface PageMetadata {
+  title: string;
+  tldr: string | null;
+  key_points: string[];
+  favicon_url: string | null;
+  image_url: string | null;
+  description: string | null;
+  site_name: string | null;
+  author: string | null;
+  // ISO 8601 timestamp
+  published_at: string | null;
+  canonical_url: string | null;
+  // Keywords the page declares about itself, used for tag suggestions
+  keywords: string[];
+}
+
+// True when VITE_METADATA_MOCK is set; metadata then never leaves the browser
+export const isMetadataMocked = import.meta.env.VITE_METADATA_MOCK === 'true';
+
+// Turns the last path segment into a readable title, e.g. "/blog/hello-world" -> "Hello World"
+const titleFromPath = (url: URL) => {
+  const segment = decodeURIComponent(url.pathname.split('/').filter(Boolean).pop() ?? '')
+    .replace(/\.[a-z0-9]+$/i, '')
+    .replace(/[-_]+/g, ' ')
+    .trim();
+  return segment ? segment.replace(/\b\w/g, char => char.toUpperCase()) : url.hostname;
+};
+
+/**
+ * Deterministic stand-in for the edge function: derives metadata from the URL alone.
+ */
+export const mockPageMetadata = async (url: string): Promise<PageMetadata> => {
+  const parsed = new URL(url);
+  // Simulate a short network round trip so loading states stay visible
+  await new Promise(resolve => setTimeout(resolve, 300));
+  return {
+    title: titleFromPath(parsed),
+    tldr: `Offline mock summary for ${parsed.hostname}${parsed.pathname}.`,
+    key_points: ['Generated locally without fetching the page.'],
+    favicon_url: `${parsed.protocol}//${parsed.hostname}/favicon.ico`,
+    image_url: null,
+    description: null,
+    site_name: parsed.hostname.replace(/^www\./, ''),
+    author: null,
+    published_at: null,
+    canonical_url: parsed.toString(),
+    keywords: [],
+  };
+};
+
+/**
+ * Fetches metadata for a URL through the extract-metadata edge function (or the local mock).
+ * Pass `summarize: false` when only the title and keywords are needed; tldr and key_points are then empty.
+ * Throws if the function fails; callers decide on a fallback.
+ */
+export const fetchPageMetadata = async (url: string, { summarize = true } = {}): Promise<PageMetadata> => {
+  if (isMetadataMocked) return mockPageMetadata(url);
+
+  const { data, error } = await supabase.functions.invoke<PageMetadata>('extract-metadata', {
+    body: { url, summarize },
+  });
+
+  if (error) throw error;
+  if (!data) throw new Error('No metadata returned');
+  return data;
+};
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import chromeExport from './__fixtures__/chrome-bookmarks.html?raw';
+import firefoxExport from './__fixtures__/firefox-bookmarks.html?raw';
+import { collectNodeIds, countLinks, flattenSelectedLinks, NetscapeFolder, NetscapeNode, parseNetscapeBookmarks } from './netscape';
+
+// The tree without generated ids, to compare with the expected structure
+const outline = (node: NetscapeNode): unknown =>
+  node.kind === 'folder'
+    ? { folder: node.title, children: node.children.map(outline) }
+    : { link: node.title, url: node.url, addedAt: node.addedAt, tags: node.tags, description: node.description };
+
+const link = (title: string, url: string, addedAt: string, { tags = [] as string[], description = null as string | null } = {}) =>
+  ({ link: title, url, addedAt, tags, description });
+
+describe('parseNetscapeBookmarks', () => {
+  it('reads a Chrome export, whose folders hold their list inside the DT', () => {
+    const { root, skipped } = parseNetscapeBookmarks(chromeExport);
+
+    expect(outline(root)).toEqual({
+      folder: 'Bookmarks',
+      children: [
+        {
+          folder: 'Bookmarks bar',
+          children: [
+            link('GitHub', 'https://github.com/', '2025-01-15T10:30:00.000Z'),
+            {
+              folder: 'Rust',
+              children: [
+                link(
+                  'The Rust Programming Language - The Rust Programming Language',
+                  'https://doc.rust-lang.org/book/',
+                  '2025-01-15T10:32:00.000Z'
+                ),
+                link('Tutorial | Tokio - An asynchronous Rust runtime', 'https://tokio.rs/tokio/tutorial', '2025-02-01T08:30:00.000Z'),
+              ],
+            },
+          ],
+        },
+        {
+          folder: 'Other bookmarks',
+          children: [
+            link('Hacker News', 'https://news.ycombinator.com/', '2025-01-15T10:34:00.000Z'),
+            { folder: 'Empty folder', children: [] },
+          ],
+        },
+      ],
+    });
+    // The javascript: bookmarklet and the chrome:// page
+    expect(skipped).toBe(2);
+  });
+
+  it('reads a Firefox export, with tags, descriptions and folder lists inside a DD', () => {
+    const { root, skipped } = parseNetscapeBookmarks(firefoxExport);
+
+    expect(outline(root)).toEqual({
+      folder: 'Bookmarks Menu',
+      children: [
+        link('Getting Started', 'https://www.mozilla.org/en-US/firefox/central/', '2025-01-15T10:30:00.000Z'),
+        {
+          // The folder's own description isn't taken for a link's
+          folder: 'Bookmarks Toolbar',
+          children: [
+            link('MDN Web Docs', 'https://developer.mozilla.org/en-US/', '2025-01-15T10:31:00.000Z', {
+              tags: ['docs', 'web', 'reference'],
+              description: 'Resources for Developers, by Developers',
+            }),
+            {
+              folder: 'Reading & Research',
+              children: [
+                link('[1706.03762] Attention Is All You Need', 'https://arxiv.org/abs/1706.03762', '2025-02-01T08:30:00.000Z', {
+                  tags: ['ml'],
+                }),
+              ],
+            },
+          ],
+        },
+        link('Help and Tutorials', 'https://support.mozilla.org/en-US/products/firefox', '2025-01-15T10:30:00.000Z'),
+      ],
+    });
+    // The place: query and the file:// link
+    expect(skipped).toBe(2);
+  });
+
+  it('finds a folder list that follows its closed DT', () => {
+    const { root } = parseNetscapeBookmarks(`
+      <DL><p>
+        <DT><H3>Folder</H3></DT>
+        <DL><p><DT><A HREF="https://example.com/">Inside</A></DL><p>
+        <DT><A HREF="https://example.org/">After</A>
+      </DL>
+    `);
+
+    expect(outline(root)).toMatchObject({
+      children: [{ folder: 'Folder', children: [{ link: 'Inside' }] }, { link: 'After' }],
+    });
+  });
+
+  it('reads ADD_DATE in seconds or microseconds, and ignores unusable dates', () => {
+    const { root } = parseNetscapeBookmarks(`
+      <DL><p>
+        <DT><A HREF="https://example.com/1" ADD_DATE="1736937000">Seconds</A>
+        <DT><A HREF="https://example.com/2" ADD_DATE="1736937000123456">Microseconds</A>
+        <DT><A HREF="https://example.com/3" ADD_DATE="0">Zero</A>
+        <DT><A HREF="https://example.com/4" ADD_DATE="soon">Text</A>
+        <DT><A HREF="https://example.com/5">Untitled date</A>
+      </DL>
+    `);
+
+    expect(root.children.map(node => node.kind === 'link' && node.addedAt)).toEqual([
+      '2025-01-15T10:30:00.000Z',
+      '2025-01-15T10:30:00.123Z',
+      null,
+      null,
+      null,
+    ]);
+  });
+
+  it('falls back to the URL for untitled links', () => {
+    const { root } = parseNetscapeBookmarks('<DL><p><DT><A HREF="https://example.com/page"></A></DL>');
+    expect(root.children[0]).toMatchObject({ title: 'https://example.com/page' });
+  });
+});
+
+describe('flattenSelectedLinks', () => {
+  it('returns the selected links in order with the folders they were in', () => {
+    const { root } = parseNetscapeBookmarks(chromeExport);
+    const bar = root.children[0] as NetscapeFolder;
+    const rust = bar.children[1] as NetscapeFolder;
+    // Leave out the first link in the Rust folder
+    const selected = new Set(collectNodeIds(root).filter(id => id !== rust.children[0].id));
+
+    expect(countLinks(root)).toBe(4);
+    expect(
+      flattenSelectedLinks(root, selected).map(({ link, folderPath }) => [link.title, folderPath.map(folder => folder.title)])
+    ).toEqual([
+      ['GitHub', ['Bookmarks bar']],
+      ['Tutorial | Tokio - An asynchronous Rust runtime', ['Bookmarks bar', 'Rust']],
+      ['Hacker News', ['Other bookmarks']],
+    ]);
+    // Flattening a folder leaves the folder itself out of the path
+    expect(flattenSelectedLinks(bar, selected).map(({ folderPath }) => folderPath.length)).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,161 @@
+// netscape.ts
+// Parser for the Netscape bookmark file format (bookmarks.html) exported by Chrome, Firefox, Safari and Edge.
+
+export interface NetscapeLink {
+  kind: 'link';
+  id: string;
+  title: string;
+  url: string;
+  // ISO timestamp from the ADD_DATE attribute, if present
+  addedAt: string | null;
+  // Firefox stores its own tags in a TAGS attribute
+  tags: string[];
+  // Text of the <DD> that follows the link, if any
+  description: string | null;
+}
+
+export interface NetscapeFolder {
+  kind: 'folder';
+  id: string;
+  title: string;
+  children: NetscapeNode[];
+}
+
+export type NetscapeNode = NetscapeFolder | NetscapeLink;
+
+// A selected link together with the names of the folders it was found in
+export interface FlattenedLink {
+  link: NetscapeLink;
+  folderPath: NetscapeFolder[];
+}
+
+// Converts an ADD_DATE value (seconds since the epoch) to an ISO timestamp
+const parseAddDate = (value: string | null): string | null => {
+  const seconds = Number(value);
+  if (!value || !Number.isFinite(seconds) || seconds <= 0) return null;
+  // Some exporters write microseconds; anything that large can't be seconds
+  const millis = seconds > 1e12 ? seconds / 1000 : seconds * 1000;
+  const date = new Date(millis);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+// Only web links can be saved; skip javascript:, place:, file: and similar entries
+const isWebUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Parses a Netscape bookmark file into a folder tree.
+ * The format is loose HTML (`<DL><p><DT><H3>Folder</H3><DL>…</DL><DT><A HREF>…`), so the
+ * walker treats any element other than DT as transparent and looks for a folder's DL
+ * either inside its DT or right after it.
+ * Returns the root folder and the number of entries that were skipped because they aren't web links.
+ */
+export const parseNetscapeBookmarks = (html: string): { root: NetscapeFolder; skipped: number } => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  let skipped = 0;
+  let nextId = 0;
+  const claimedLists = new Set<Element>();
+
+  const walk = (container: Element): NetscapeNode[] => {
+    const nodes: NetscapeNode[] = [];
+
+    Array.from(container.children).forEach(element => {
+      const tag = element.tagName;
+      if (tag === 'DL' && claimedLists.has(element)) return;
+
+      if (tag !== 'DT') {
+        nodes.push(...walk(element));
+        return;
+      }
+
+      const id = `node-${nextId++}`;
+      const heading = element.querySelector(':scope > h3');
+      const anchor = element.querySelector(':scope > a');
+
+      if (heading) {
+        let list = element.querySelector(':scope > dl');
+        if (!list) {
+          const next = element.nextElementSibling;
+          list = next?.tagName === 'DL' ? next : next?.tagName === 'DD' ? next.querySelector(':scope > dl') : null;
+        }
+        if (list) claimedLists.add(list);
+
+        nodes.push({
+          kind: 'folder',
+          id,
+          title: heading.textContent?.trim() || 'Untitled folder',
+          children: list ? walk(list) : [],
+        });
+      } else if (anchor) {
+        const url = anchor.getAttribute('href')?.trim() ?? '';
+        if (!isWebUrl(url)) {
+          skipped++;
+          return;
+        }
+
+        const next = element.nextElementSibling;
+        const description = next?.tagName === 'DD' && !next.querySelector('dl')
+          ? next.textContent?.trim() || null
+          : null;
+
+        nodes.push({
+          kind: 'link',
+          id,
+          title: anchor.textContent?.trim() || url,
+          url,
+          description,
+          addedAt: parseAddDate(anchor.getAttribute('add_date')),
+          tags: (anchor.getAttribute('tags') ?? '')
+            .split(',')
+            .map(tag => tag.trim())
+            .filter(tag => tag.length > 0),
+        });
+      }
+    });
+
+    return nodes;
+  };
+
+  const title = doc.querySelector('h1')?.textContent?.trim() || 'Bookmarks';
+  const root: NetscapeFolder = { kind: 'folder', id: 'root', title, children: walk(doc.body) };
+
+  return { root, skipped };
+};
+
+/**
+ * Returns every link below `folder` whose id is in `selectedIds`, with its folder path
+ * (excluding the root folder itself).
+ */
+export const flattenSelectedLinks = (folder: NetscapeFolder, selectedIds: Set<string>): FlattenedLink[] => {
+  const links: FlattenedLink[] = [];
+
+  const visit = (node: NetscapeNode, path: NetscapeFolder[]) => {
+    if (node.kind === 'link') {
+      if (selectedIds.has(node.id)) links.push({ link: node, folderPath: path });
+      return;
+    }
+    const childPath = node === folder ? path : [...path, node];
+    node.children.forEach(child => visit(child, childPath));
+  };
+  visit(folder, []);
+
+  return links;
+};
+
+/**
+ * Returns the ids of every node in the subtree, including `node` itself.
+ */
+export const collectNodeIds = (node: NetscapeNode): string[] =>
+  node.kind === 'link' ? [node.id] : [node.id, ...node.children.flatMap(collectNodeIds)];
+
+/**
+ * Counts the links in a subtree.
+ */
+export const countLinks = (node: NetscapeNode): number =>
+  node.kind === 'link' ? 1 : node.children.reduce((total, child) => total + countLinks(child), 0);
@@ -0,0 +1,57 @@
+// normalize-url.ts
+// Canonical form of a URL, used to spot the same page saved twice. Two URLs that differ only
+// by tracking parameters, query order, letter case of the host, "www.", default ports,
+// http vs https, trailing slashes or the #fragment normalize to the same string.
+//
+// The normalize_url() database function applies the same rules and is what bookmarks are
+// stored and kept unique by: the database computes normalized_url itself. This version groups
+// and compares URLs in the browser, where it can differ for URLs the URL parser rewrites
+// (international hosts, ./ and ../ segments, percent-encoding), so keep the rules in sync.
+
+// Query parameters that only identify where a click came from
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid', 'igshid',
+  'mc_cid', 'mc_eid', '_hsenc', '_hsmi', 'mkt_tok', 'ref_src', 'ref_url', 'spm', 'vero_id',
+  'oly_anon_id', 'oly_enc_id', '__s', 's_cid',
+]);
+
+/**
+ * True for query parameter names like utm_source or fbclid.
+ */
+export const isTrackingParam = (name: string): boolean => {
+  const key = name.toLowerCase();
+  return key.startsWith('utm_') || TRACKING_PARAMS.has(key);
+};
+
+/**
+ * Returns the canonical form of an http(s) URL:
+ * - https scheme, lowercase host without "www.", no default port, no user info
+ * - no trailing slashes on the path, no #fragment
+ * - tracking parameters removed and the rest sorted by name (repeated names keep their order)
+ * Other schemes and unparseable input are returned trimmed but otherwise unchanged.
+ */
+export const normalizeUrl = (input: string): string => {
+  const trimmed = input.trim();
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    return trimmed;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return trimmed;
+
+  const host = url.hostname.replace(/^www\./, '');
+  const port = url.port && url.port !== '80' && url.port !== '443' ? `:${url.port}` : '';
+  const path = url.pathname.replace(/\/+$/, '');
+
+  // Raw "name=value" pairs, so values aren't re-encoded differently from the database version
+  const params = url.search
+    .slice(1)
+    .split('&')
+    .map((pair, index) => ({ pair, name: pair.split('=')[0], index }))
+    .filter(({ pair, name }) => pair !== '' && !isTrackingParam(name))
+    .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : a.index - b.index))
+    .map(({ pair }) => pair);
+
+  return `https://${host}${port}${path}${params.length > 0 ? `?${params.join('&')}` : ''}`;
+};
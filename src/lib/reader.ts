@@ -0,0 +1,177 @@
+// reader.ts
+// Reader view helpers: display preferences and resume positions (kept in localStorage), reading
+// time, and turning an archived snapshot document back into article HTML for the reader.
+
+// Reading speed used for the "N min read" estimate
+const WORDS_PER_MINUTE = 230;
+// Resume positions kept, most recently read first
+const MAX_SAVED_POSITIONS = 200;
+
+const PREFERENCES_KEY = 'reader-preferences';
+const POSITIONS_KEY = 'reader-positions';
+
+export type ReaderWidth = 'narrow' | 'medium' | 'wide';
+export type ReaderFont = 'serif' | 'sans';
+
+export interface ReaderPreferences {
+  // Body text size in pixels
+  fontSize: number;
+  width: ReaderWidth;
+  font: ReaderFont;
+}
+
+export const READER_FONT_SIZES = { min: 14, max: 26, step: 1 };
+
+export const DEFAULT_READER_PREFERENCES: ReaderPreferences = {
+  fontSize: 18,
+  width: 'medium',
+  font: 'serif',
+};
+
+// Reads a JSON value from localStorage, falling back when it is missing or unreadable
+const readStorage = <T>(key: string, fallback: T): T => {
+  try {
+    const value = localStorage.getItem(key);
+    return value ? (JSON.parse(value) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeStorage = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage full or disabled: preferences just won't persist
+  }
+};
+
+/**
+ * The saved reader preferences, with defaults for anything missing or invalid.
+ */
+export const loadReaderPreferences = (): ReaderPreferences => {
+  const saved = readStorage<Partial<ReaderPreferences>>(PREFERENCES_KEY, {});
+  const fontSize = Number(saved.fontSize);
+  return {
+    fontSize: fontSize >= READER_FONT_SIZES.min && fontSize <= READER_FONT_SIZES.max
+      ? fontSize
+      : DEFAULT_READER_PREFERENCES.fontSize,
+    width: saved.width === 'narrow' || saved.width === 'wide' || saved.width === 'medium'
+      ? saved.width
+      : DEFAULT_READER_PREFERENCES.width,
+    font: saved.font === 'sans' || saved.font === 'serif' ? saved.font : DEFAULT_READER_PREFERENCES.font,
+  };
+};
+
+export const saveReaderPreferences = (preferences: ReaderPreferences) => {
+  writeStorage(PREFERENCES_KEY, preferences);
+};
+
+/**
+ * How far through a bookmark's article the user got last time, as a fraction of the page (0-1).
+ */
+export const loadScrollPosition = (bookmarkId: string): number => {
+  const positions = readStorage<Record<string, number>>(POSITIONS_KEY, {});
+  const position = Number(positions[bookmarkId]);
+  return position > 0 && position <= 1 ? position : 0;
+};
+
+/**
+ * Remembers how far through an article the user got. Positions are stored as a fraction of the
+ * page so they still fit after the font size or width changes.
+ */
+export const saveScrollPosition = (bookmarkId: string, position: number) => {
+  const positions = readStorage<Record<string, number>>(POSITIONS_KEY, {});
+  delete positions[bookmarkId];
+  // Newest first, so the oldest positions are the ones dropped
+  const entries = Object.entries(positions).slice(0, MAX_SAVED_POSITIONS - 1);
+  writeStorage(POSITIONS_KEY, Object.fromEntries([[bookmarkId, Math.round(position * 1000) / 1000], ...entries]));
+};
+
+/**
+ * Estimated reading time in whole minutes (at least 1).
+ */
+export const readingMinutes = (wordCount: number): number =>
+  Math.max(1, Math.round(wordCount / WORDS_PER_MINUTE));
+
+// Tags the reader renders; the snapshot was sanitized when archived, but it is read back from
+// Storage, so it is filtered again before going into the page
+const ALLOWED_TAGS = new Set([
+  'P', 'BR', 'HR', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'LI', 'DL', 'DT', 'DD',
+  'BLOCKQUOTE', 'PRE', 'CODE', 'EM', 'STRONG', 'B', 'I', 'U', 'S', 'DEL', 'INS', 'MARK',
+  'SMALL', 'SUB', 'SUP', 'ABBR', 'CITE', 'Q', 'TIME', 'A', 'IMG', 'FIGURE', 'FIGCAPTION',
+  'TABLE', 'CAPTION', 'THEAD', 'TBODY', 'TFOOT', 'TR', 'TH', 'TD',
+]);
+// Removed together with their content
+const DROPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'TEMPLATE', 'NOSCRIPT', 'IFRAME', 'OBJECT', 'EMBED', 'SVG', 'MATH']);
+// Attributes kept per tag; everything else (event handlers, styles, classes) is dropped
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  A: ['href'],
+  IMG: ['src', 'alt'],
+  TIME: ['datetime'],
+  TD: ['colspan', 'rowspan'],
+  TH: ['colspan', 'rowspan'],
+};
+
+const isSafeUrl = (value: string, allowMailto: boolean) => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:' || (allowMailto && protocol === 'mailto:');
+  } catch {
+    return false;
+  }
+};
+
+// Strips everything outside the allowlist from an element's children, in place
+const sanitizeChildren = (parent: Element) => {
+  Array.from(parent.children).forEach(element => {
+    if (DROPPED_TAGS.has(element.tagName.toUpperCase())) {
+      element.remove();
+      return;
+    }
+    sanitizeChildren(element);
+    if (!ALLOWED_TAGS.has(element.tagName)) {
+      element.replaceWith(...Array.from(element.childNodes));
+      return;
+    }
+
+    const allowed = ALLOWED_ATTRIBUTES[element.tagName] ?? [];
+    Array.from(element.attributes).forEach(attribute => {
+      if (!allowed.includes(attribute.name)) element.removeAttribute(attribute.name);
+    });
+
+    if (element.tagName === 'A') {
+      const href = element.getAttribute('href');
+      if (!href || !isSafeUrl(href, true)) {
+        element.replaceWith(...Array.from(element.childNodes));
+        return;
+      }
+      element.setAttribute('target', '_blank');
+      element.setAttribute('rel', 'noopener noreferrer nofollow');
+    } else if (element.tagName === 'IMG') {
+      const src = element.getAttribute('src');
+      if (!src || !isSafeUrl(src, false)) {
+        element.remove();
+        return;
+      }
+      element.setAttribute('loading', 'lazy');
+      element.setAttribute('referrerpolicy', 'no-referrer');
+    }
+  });
+  // Comments and other non-content nodes
+  Array.from(parent.childNodes).forEach(node => {
+    if (node.nodeType !== Node.ELEMENT_NODE && node.nodeType !== Node.TEXT_NODE) node.remove();
+  });
+};
+
+/**
+ * The article body of an archived snapshot document, as sanitized HTML. The snapshot's own
+ * header (title, byline, source) is left out; the reader shows its own.
+ */
+export const snapshotArticleHtml = (documentHtml: string): string => {
+  const doc = new DOMParser().parseFromString(documentHtml, 'text/html');
+  const article = doc.querySelector('article') ?? doc.body;
+  article.querySelector(':scope > header')?.remove();
+  sanitizeChildren(article);
+  return article.innerHTML;
+};
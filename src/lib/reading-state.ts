@@ -0,0 +1,92 @@
+// reading-state.ts
+// Read/unread, favorite and archived states of bookmarks, and the grid tabs built on them.
+// The inbox holds everything not archived; archiving files a bookmark away as reference.
+
+import { supabase } from '@/integrations/supabase/client';
+import { inSpace } from './workspaces';
+
+// Opt-out for marking bookmarks read when they are opened
+const AUTO_MARK_READ_KEY = 'auto-mark-read';
+
+export type BookmarkView = 'inbox' | 'favorites' | 'archive' | 'all';
+
+// Grid tabs, in display order
+export const BOOKMARK_VIEWS: { value: BookmarkView; label: string }[] = [
+  { value: 'inbox', label: 'Inbox' },
+  { value: 'favorites', label: 'Favorites' },
+  { value: 'archive', label: 'Archive' },
+  { value: 'all', label: 'All' },
+];
+
+// Reading state columns of a bookmark
+export interface ReadingState {
+  is_read: boolean;
+  is_favorite: boolean;
+  archived_at: string | null;
+}
+
+/**
+ * True when a bookmark belongs in the given tab.
+ */
+export const isInView = (bookmark: ReadingState, view: BookmarkView): boolean => {
+  switch (view) {
+    case 'inbox':
+      return bookmark.archived_at === null;
+    case 'favorites':
+      return bookmark.is_favorite;
+    case 'archive':
+      return bookmark.archived_at !== null;
+    default:
+      return true;
+  }
+};
+
+/**
+ * Sets reading state columns on the given bookmarks in one request. Returns each bookmark's
+ * new updated_at by id, so the grid's copies stay current for conflict detection.
+ */
+export const updateReadingState = async (
+  ids: string[],
+  changes: Partial<ReadingState>
+): Promise<Map<string, string>> => {
+  const { data, error } = await supabase
+    .from('bookmarks')
+    .update(changes)
+    .in('id', ids)
+    .select('id, updated_at');
+  if (error) throw error;
+  return new Map((data ?? []).map(row => [row.id, row.updated_at]));
+};
+
+/**
+ * Number of unread bookmarks in the inbox of a space (a workspace, or the user's personal bookmarks).
+ */
+export const fetchUnreadCount = async (userId: string, workspaceId: string | null): Promise<number> => {
+  const query = supabase
+    .from('bookmarks')
+    .select('id', { count: 'exact', head: true })
+    .eq('is_read', false)
+    .is('archived_at', null);
+  const { count, error } = await inSpace(query, userId, workspaceId);
+  if (error) throw error;
+  return count ?? 0;
+};
+
+/**
+ * Whether opening a bookmark (its link or the reader) marks it read. On unless turned off.
+ */
+export const loadAutoMarkRead = (): boolean => {
+  try {
+    return localStorage.getItem(AUTO_MARK_READ_KEY) !== 'off';
+  } catch {
+    return true;
+  }
+};
+
+export const saveAutoMarkRead = (enabled: boolean) => {
+  try {
+    localStorage.setItem(AUTO_MARK_READ_KEY, enabled ? 'on' : 'off');
+  } catch {
+    // Storage disabled: the setting just won't persist
+  }
+};
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import { getSearchText, matchesSearchQuery, parseSearchQuery, SearchableBookmark } from './search-query';
+
+const bookmark = (overrides: Partial<SearchableBookmark> = {}): SearchableBookmark => ({
+  url: 'https://www.github.com/rust-lang/rust',
+  title: 'The Rust programming language',
+  summary: 'Empowering everyone to build reliable and efficient software.',
+  tldr: null,
+  key_points: [],
+  tags: ['lang/rust', 'work'],
+  created_at: '2025-03-15T12:00:00Z',
+  link_status: null,
+  is_read: false,
+  is_favorite: false,
+  archived_at: null,
+  notes: null,
+  ...overrides,
+});
+
+const matches = (query: string, overrides?: Partial<SearchableBookmark>) => {
+  const { ast, errors } = parseSearchQuery(query);
+  expect(errors).toEqual([]);
+  return matchesSearchQuery(ast!, bookmark(overrides));
+};
+
+// The error messages with the part of the input each one points at
+const errorsOf = (query: string) =>
+  parseSearchQuery(query).errors.map(error => [error.message, query.slice(error.start, error.end)]);
+
+describe('parseSearchQuery', () => {
+  it('reads words separated by spaces as AND', () => {
+    expect(parseSearchQuery('rust async')).toEqual({
+      ast: { type: 'and', children: [{ type: 'term', value: 'rust' }, { type: 'term', value: 'async' }] },
+      errors: [],
+    });
+    expect(parseSearchQuery('   ')).toEqual({ ast: null, errors: [] });
+  });
+
+  it('reads field operators, normalizing sites and flags', () => {
+    expect(parseSearchQuery('tag:work site:https://www.GitHub.com/rust is:Unread after:2025-01-01').ast).toEqual({
+      type: 'and',
+      children: [
+        { type: 'tag', value: 'work' },
+        { type: 'site', value: 'github.com' },
+        { type: 'is', value: 'unread' },
+        { type: 'after', value: '2025-01-01' },
+      ],
+    });
+    expect(parseSearchQuery('tag:"machine learning"').ast).toEqual({ type: 'tag', value: 'machine learning' });
+  });
+
+  it('groups OR alternatives, binding looser than AND', () => {
+    expect(parseSearchQuery('(tag:ml OR tag:ai) python OR go').ast).toEqual({
+      type: 'or',
+      children: [
+        {
+          type: 'and',
+          children: [
+            { type: 'or', children: [{ type: 'tag', value: 'ml' }, { type: 'tag', value: 'ai' }] },
+            { type: 'term', value: 'python' },
+          ],
+        },
+        { type: 'term', value: 'go' },
+      ],
+    });
+    // Only the upper-case keyword is an operator
+    expect(parseSearchQuery('this or that').ast).toMatchObject({ type: 'and', children: { length: 3 } });
+  });
+
+  it('negates terms, fields and groups', () => {
+    expect(parseSearchQuery('-tag:old -(a OR b) --c').ast).toEqual({
+      type: 'and',
+      children: [
+        { type: 'not', child: { type: 'tag', value: 'old' } },
+        { type: 'not', child: { type: 'or', children: [{ type: 'term', value: 'a' }, { type: 'term', value: 'b' }] } },
+        { type: 'not', child: { type: 'not', child: { type: 'term', value: 'c' } } },
+      ],
+    });
+    // A lone or trailing dash is just text
+    expect(parseSearchQuery('a - b').ast).toMatchObject({ type: 'and', children: { length: 3 } });
+  });
+
+  it('keeps quoted phrases together', () => {
+    expect(parseSearchQuery('"pull request" site:github.com').ast).toEqual({
+      type: 'and',
+      children: [{ type: 'phrase', value: 'pull request' }, { type: 'site', value: 'github.com' }],
+    });
+    expect(getSearchText(parseSearchQuery('"pull request" review -draft tag:x').ast)).toBe('"pull request" review');
+  });
+
+  it('treats URLs and unknown prefixes without letters as plain words', () => {
+    expect(parseSearchQuery('https://example.com/a 10:30').ast).toEqual({
+      type: 'and',
+      children: [{ type: 'term', value: 'https://example.com/a' }, { type: 'term', value: '10:30' }],
+    });
+  });
+
+  it('reports problems with the part of the query they refer to', () => {
+    expect(errorsOf('rust lang:en')).toEqual([['Unknown operator "lang:". Try tag:, site:, before:, after:, is:', 'lang:en']]);
+    expect(errorsOf('after:2025-13-01 is:starred tag:')).toEqual([
+      ['Use YYYY-MM-DD dates, e.g. after:2025-01-01', 'after:2025-13-01'],
+      ['Unknown flag "is:starred". Try is:unread, is:read, is:favorite, is:archived, is:broken', 'is:starred'],
+      ['"tag:" needs a value', 'tag:'],
+    ]);
+    expect(errorsOf('(rust OR')).toEqual([
+      ['Missing closing ")"', '('],
+      ['OR needs a search term on both sides', 'OR'],
+    ]);
+    expect(errorsOf('rust) () "open')).toEqual([
+      ['Unmatched ")"', ')'],
+      ['Empty group "()"', '('],
+      ['Missing closing quote', '"open'],
+    ]);
+    expect(errorsOf('a -)')).toEqual([['Unmatched ")"', ')']]);
+  });
+
+  it('still returns the valid parts of a malformed query', () => {
+    const { ast, errors } = parseSearchQuery('rust is:starred tag:work');
+    expect(errors).toHaveLength(1);
+    expect(ast).toEqual({ type: 'and', children: [{ type: 'term', value: 'rust' }, { type: 'tag', value: 'work' }] });
+  });
+});
+
+describe('matchesSearchQuery', () => {
+  it('matches words anywhere and phrases in the text', () => {
+    expect(matches('RELIABLE rust')).toBe(true);
+    expect(matches('"programming language"')).toBe(true);
+    expect(matches('"language programming"')).toBe(false);
+    expect(matches('"rust-lang"')).toBe(false);
+    expect(matches('sorting', { notes: 'Compare with sorting in Go' })).toBe(true);
+  });
+
+  it('matches tags with their nested tags', () => {
+    expect(matches('tag:lang')).toBe(true);
+    expect(matches('tag:LANG/Rust')).toBe(true);
+    expect(matches('tag:lan')).toBe(false);
+  });
+
+  it('matches a site and its subdomains', () => {
+    expect(matches('site:github.com')).toBe(true);
+    expect(matches('site:hub.com')).toBe(false);
+    expect(matches('site:docs.github.com')).toBe(false);
+    expect(matches('site:github.com', { url: 'https://docs.github.com/en' })).toBe(true);
+  });
+
+  it('compares dates by day, excluding the day given', () => {
+    expect(matches('after:2025-03-14 before:2025-03-16')).toBe(true);
+    expect(matches('after:2025-03-15')).toBe(false);
+    expect(matches('before:2025-03-15')).toBe(false);
+  });
+
+  it('checks reading state and link health flags', () => {
+    expect(matches('is:unread -is:favorite -is:archived -is:broken')).toBe(true);
+    expect(matches('is:read OR is:favorite', { is_favorite: true })).toBe(true);
+    expect(matches('is:archived', { archived_at: '2025-04-01T00:00:00Z' })).toBe(true);
+    expect(matches('is:broken', { link_status: 'not_found' })).toBe(true);
+    expect(matches('is:broken', { link_status: 'moved' })).toBe(false);
+  });
+
+  it('combines AND, OR and NOT', () => {
+    expect(matches('(tag:ml OR tag:work) -python')).toBe(true);
+    expect(matches('tag:ml OR -rust')).toBe(false);
+  });
+});
@@ -0,0 +1,366 @@
+// search-query.ts
+// Parser and evaluator for the bookmark search query language.
+//
+// Grammar (whitespace between terms means AND):
+//   query    := or
+//   or       := and ("OR" and)*
+//   and      := unary+
+//   unary    := "-" unary | primary
+//   primary  := "(" or ")" | field ":" value | "quoted phrase" | word
+//   field    := tag | site | before | after | is
+//
+// Examples: `rust tag:work -tag:old`, `site:github.com "pull request"`,
+// `(tag:ml OR tag:ai) after:2025-01-01`, `is:unread`, `is:favorite`, `is:broken`.
+//
+// The same AST is evaluated locally (matchesSearchQuery) and sent to the
+// search_bookmarks RPC, which compiles it to SQL.
+
+import { tagMatches } from './tags';
+import { isBrokenLink } from './link-health';
+import { LinkStatus } from './bookmarks';
+
+export type SearchField = 'tag' | 'site' | 'before' | 'after' | 'is';
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'term'; value: string }
+  | { type: 'phrase'; value: string }
+  | { type: SearchField; value: string };
+
+export interface QueryError {
+  message: string;
+  // Character range in the input the error refers to
+  start: number;
+  end: number;
+}
+
+export interface ParsedQuery {
+  // null when the query is empty or nothing valid could be parsed
+  ast: QueryNode | null;
+  errors: QueryError[];
+}
+
+// Minimal bookmark shape the local evaluator needs
+export interface SearchableBookmark {
+  url: string;
+  title: string;
+  summary: string | null;
+  tldr: string | null;
+  key_points: string[];
+  tags: string[];
+  created_at: string;
+  link_status: LinkStatus | null;
+  is_read: boolean;
+  is_favorite: boolean;
+  archived_at: string | null;
+  notes: string | null;
+}
+
+const FIELDS: SearchField[] = ['tag', 'site', 'before', 'after', 'is'];
+
+// Flags accepted by `is:`
+export const IS_FLAGS = ['unread', 'read', 'favorite', 'archived', 'broken'] as const;
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'or' | 'not'; start: number; end: number }
+  | { kind: 'word' | 'phrase'; value: string; start: number; end: number }
+  | { kind: 'field'; field: SearchField; value: string; start: number; end: number };
+
+const isBoundary = (char: string | undefined) =>
+  char === undefined || /\s/.test(char) || char === '(' || char === ')' || char === '"';
+
+// Reads a "quoted" string starting at the opening quote; unclosed quotes run to the end of input
+const readQuoted = (input: string, start: number, errors: QueryError[]) => {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) {
+    errors.push({ message: 'Missing closing quote', start, end: input.length });
+    return { value: input.slice(start + 1), end: input.length };
+  }
+  return { value: input.slice(start + 1, close), end: close + 1 };
+};
+
+const tokenize = (input: string, errors: QueryError[]): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', start: i, end: i + 1 });
+      i++;
+    } else if (char === '"') {
+      const quoted = readQuoted(input, i, errors);
+      tokens.push({ kind: 'phrase', value: quoted.value, start: i, end: quoted.end });
+      i = quoted.end;
+    } else if (char === '-' && input[i + 1] !== undefined && !/[\s)]/.test(input[i + 1])) {
+      tokens.push({ kind: 'not', start: i, end: i + 1 });
+      i++;
+    } else {
+      const start = i;
+      while (!isBoundary(input[i])) i++;
+      const word = input.slice(start, i);
+      const colon = word.indexOf(':');
+
+      if (word === 'OR') {
+        tokens.push({ kind: 'or', start, end: i });
+        continue;
+      }
+
+      // Plain words (including ones like "https://…" whose prefix isn't a known field)
+      const name = colon > 0 ? word.slice(0, colon).toLowerCase() : '';
+      if (!FIELDS.includes(name as SearchField)) {
+        if (colon > 0 && /^[a-z]+$/i.test(name) && !word.slice(colon + 1).startsWith('//')) {
+          errors.push({
+            message: `Unknown operator "${name}:". Try ${FIELDS.map(f => `${f}:`).join(', ')}`,
+            start,
+            end: i,
+          });
+        }
+        tokens.push({ kind: 'word', value: word, start, end: i });
+        continue;
+      }
+
+      // field:"quoted value"
+      let value = word.slice(colon + 1);
+      if (!value && input[i] === '"') {
+        const quoted = readQuoted(input, i, errors);
+        value = quoted.value;
+        i = quoted.end;
+      }
+
+      tokens.push({ kind: 'field', field: name as SearchField, value: value.trim(), start, end: i });
+    }
+  }
+
+  return tokens;
+};
+
+// Checks a field value, returning the normalized value or pushing an error and returning null
+const validateField = (token: Extract<Token, { kind: 'field' }>, errors: QueryError[]): string | null => {
+  const { field, value, start, end } = token;
+
+  if (!value) {
+    errors.push({ message: `"${field}:" needs a value`, start, end });
+    return null;
+  }
+
+  switch (field) {
+    case 'before':
+    case 'after': {
+      const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00Z`) : null;
+      if (!date || isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) {
+        errors.push({ message: `Use YYYY-MM-DD dates, e.g. ${field}:2025-01-01`, start, end });
+        return null;
+      }
+      return value;
+    }
+    case 'is':
+      if (!(IS_FLAGS as readonly string[]).includes(value.toLowerCase())) {
+        errors.push({
+          message: `Unknown flag "is:${value}". Try ${IS_FLAGS.map(f => `is:${f}`).join(', ')}`,
+          start,
+          end,
+        });
+        return null;
+      }
+      return value.toLowerCase();
+    case 'site':
+      return value.toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^www\./, '').split('/')[0];
+    default:
+      return value;
+  }
+};
+
+/**
+ * Parses a search query into an AST. Never throws: problems are reported in
+ * `errors` and the valid parts of the query are still returned.
+ */
+export const parseSearchQuery = (input: string): ParsedQuery => {
+  const errors: QueryError[] = [];
+  const tokens = tokenize(input, errors);
+  let pos = 0;
+
+  const combine = (type: 'and' | 'or', children: QueryNode[]): QueryNode | null => {
+    if (children.length === 0) return null;
+    if (children.length === 1) return children[0];
+    return { type, children };
+  };
+
+  const parseOr = (depth: number): QueryNode | null => {
+    const children: QueryNode[] = [];
+    let current = parseAnd(depth);
+
+    while (tokens[pos]?.kind === 'or') {
+      const orToken = tokens[pos++];
+      const next = parseAnd(depth);
+      if (!current || !next) {
+        errors.push({ message: 'OR needs a search term on both sides', start: orToken.start, end: orToken.end });
+      }
+      if (current) children.push(current);
+      current = next;
+    }
+    if (current) children.push(current);
+
+    return combine('or', children);
+  };
+
+  const parseAnd = (depth: number): QueryNode | null => {
+    const children: QueryNode[] = [];
+
+    while (pos < tokens.length) {
+      const token = tokens[pos];
+      if (token.kind === 'or') break;
+      if (token.kind === 'rparen') {
+        if (depth > 0) break;
+        errors.push({ message: 'Unmatched ")"', start: token.start, end: token.end });
+        pos++;
+        continue;
+      }
+      const node = parseUnary(depth);
+      if (node) children.push(node);
+    }
+
+    return combine('and', children);
+  };
+
+  const parseUnary = (depth: number): QueryNode | null => {
+    const token = tokens[pos];
+    if (token?.kind !== 'not') return parsePrimary(depth);
+
+    pos++;
+    const next = tokens[pos];
+    if (!next || next.kind === 'or' || next.kind === 'rparen') {
+      errors.push({ message: '"-" must be followed by a term to exclude', start: token.start, end: token.end });
+      return null;
+    }
+    const child = parseUnary(depth);
+    return child ? { type: 'not', child } : null;
+  };
+
+  const parsePrimary = (depth: number): QueryNode | null => {
+    const token = tokens[pos++];
+
+    switch (token.kind) {
+      case 'lparen': {
+        const inner = parseOr(depth + 1);
+        if (tokens[pos]?.kind === 'rparen') {
+          pos++;
+        } else {
+          errors.push({ message: 'Missing closing ")"', start: token.start, end: token.end });
+        }
+        if (!inner) {
+          errors.push({ message: 'Empty group "()"', start: token.start, end: token.end });
+        }
+        return inner;
+      }
+      case 'phrase': {
+        const value = token.value.trim();
+        return value ? { type: 'phrase', value } : null;
+      }
+      case 'word':
+        return { type: 'term', value: token.value };
+      case 'field': {
+        const value = validateField(token, errors);
+        return value === null ? null : { type: token.field, value };
+      }
+      default:
+        return null;
+    }
+  };
+
+  const ast = parseOr(0);
+  return { ast, errors: errors.sort((a, b) => a.start - b.start) };
+};
+
+// Hostname of a URL without a leading "www."
+const getHost = (url: string) => {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+};
+
+// Summary fields searched by free words and phrases, like the server's weight-C text
+// Highlights aren't loaded with the grid, so only the server matches their text
+const bodyTexts = (bookmark: SearchableBookmark) =>
+  [bookmark.tldr ?? '', ...(bookmark.key_points ?? []), bookmark.summary ?? '', bookmark.notes ?? ''];
+
+/**
+ * Evaluates a query AST against a bookmark in the browser.
+ * Free text uses case-insensitive substring matching, an approximation of the
+ * server's stemmed full-text search.
+ */
+export const matchesSearchQuery = (node: QueryNode, bookmark: SearchableBookmark): boolean => {
+  switch (node.type) {
+    case 'and':
+      return node.children.every(child => matchesSearchQuery(child, bookmark));
+    case 'or':
+      return node.children.some(child => matchesSearchQuery(child, bookmark));
+    case 'not':
+      return !matchesSearchQuery(node.child, bookmark);
+    case 'term': {
+      const value = node.value.toLowerCase();
+      return [bookmark.title, bookmark.url, ...bodyTexts(bookmark), ...bookmark.tags]
+        .some(text => text.toLowerCase().includes(value));
+    }
+    case 'phrase': {
+      const value = node.value.toLowerCase();
+      return [bookmark.title, ...bodyTexts(bookmark)].some(text => text.toLowerCase().includes(value));
+    }
+    case 'tag':
+      // tag:lang also matches nested tags such as lang/rust
+      return bookmark.tags.some(tag => tagMatches(tag, node.value));
+    case 'site': {
+      const host = getHost(bookmark.url);
+      return host === node.value || host.endsWith(`.${node.value}`);
+    }
+    case 'before':
+      return new Date(bookmark.created_at).getTime() < new Date(`${node.value}T00:00:00Z`).getTime();
+    case 'after':
+      // Strictly after the given day: from the start of the following day (UTC)
+      return new Date(bookmark.created_at).getTime() >= new Date(`${node.value}T00:00:00Z`).getTime() + 86_400_000;
+    case 'is':
+      switch (node.value) {
+        case 'unread':
+          return !bookmark.is_read;
+        case 'read':
+          return bookmark.is_read;
+        case 'favorite':
+          return bookmark.is_favorite;
+        case 'archived':
+          return bookmark.archived_at !== null;
+        case 'broken':
+          return isBrokenLink(bookmark);
+        default:
+          return false;
+      }
+    default:
+      return true;
+  }
+};
+
+/**
+ * Returns the free text (words and "quoted phrases") the server should use for
+ * ranking and highlighting. Excluded terms are left out.
+ */
+export const getSearchText = (node: QueryNode | null): string => {
+  if (!node) return '';
+
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.children.map(getSearchText).filter(Boolean).join(' ');
+    case 'term':
+      return node.value;
+    case 'phrase':
+      return `"${node.value}"`;
+    default:
+      return '';
+  }
+};
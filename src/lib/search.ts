@@ -0,0 +1,39 @@
+// search.ts
+// Helpers for server-side full-text search results (see the search_bookmarks RPC).
+
+// Markers the search_bookmarks RPC wraps around matched terms (chr(2) / chr(3) in Postgres)
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+export interface SearchHighlights {
+  title: string;
+  summary: string | null;
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Splits a highlighted snippet into plain and matched segments so it can be
+ * rendered as React elements instead of injected HTML.
+ */
+export const splitHighlights = (snippet: string): HighlightSegment[] => {
+  const segments: HighlightSegment[] = [];
+  let highlighted = false;
+  let text = '';
+
+  for (const char of snippet) {
+    if (char === HIGHLIGHT_START || char === HIGHLIGHT_END) {
+      if (text) segments.push({ text, highlighted });
+      text = '';
+      highlighted = char === HIGHLIGHT_START;
+    } else {
+      text += char;
+    }
+  }
+  if (text) segments.push({ text, highlighted });
+
+  return segments;
+};
@@ -0,0 +1,130 @@
+// shares.ts
+// Public read-only links to collections. The owner manages the share row; visitors read the
+// collection through the get_shared_collection / list_shared_bookmarks functions, which only
+// return the rows of the share whose slug they know.
+
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { Bookmark } from './bookmarks';
+
+export type CollectionShare = Tables<'collection_shares'>;
+
+// What a visitor sees of a shared collection
+export interface SharedCollection {
+  name: string;
+  hide_notes: boolean;
+  hide_summaries: boolean;
+  shared_at: string;
+  bookmarks: Bookmark[];
+}
+
+/**
+ * The public address of a share.
+ */
+export const shareUrl = (slug: string) => `${window.location.origin}/s/${slug}`;
+
+/**
+ * Ids of the user's collections that are currently shared.
+ */
+export const fetchSharedCollectionIds = async (userId: string): Promise<Set<string>> => {
+  const { data, error } = await supabase
+    .from('collection_shares')
+    .select('collection_id')
+    .eq('user_id', userId);
+  if (error) throw error;
+  return new Set((data ?? []).map(row => row.collection_id));
+};
+
+/**
+ * A collection's share, or null if it isn't shared.
+ */
+export const fetchShare = async (collectionId: string): Promise<CollectionShare | null> => {
+  const { data, error } = await supabase
+    .from('collection_shares')
+    .select('*')
+    .eq('collection_id', collectionId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Publishes a collection. The database picks the slug.
+ */
+export const createShare = async (userId: string, collectionId: string): Promise<CollectionShare> => {
+  const { data, error } = await supabase
+    .from('collection_shares')
+    .insert({ user_id: userId, collection_id: collectionId })
+    .select('*')
+    .single();
+  if (error) throw error;
+  return data;
+};
+
+export const updateShare = async (
+  id: string,
+  changes: { hide_notes?: boolean; hide_summaries?: boolean }
+): Promise<CollectionShare> => {
+  const { data, error } = await supabase
+    .from('collection_shares')
+    .update(changes)
+    .eq('id', id)
+    .select('*')
+    .single();
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Replaces a share's slug, so the old link stops working. Returns the new slug.
+ */
+export const regenerateShareSlug = async (id: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('regenerate_share_slug', { share_id: id });
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Stops sharing a collection; its link stops working at once.
+ */
+export const revokeShare = async (id: string) => {
+  const { error } = await supabase.from('collection_shares').delete().eq('id', id);
+  if (error) throw error;
+};
+
+/**
+ * Loads a shared collection by its slug, for visitors. Returns null when the link is unknown
+ * or has been revoked. Bookmarks come back as grid rows with the owner's private state left out.
+ */
+export const fetchSharedCollection = async (slug: string): Promise<SharedCollection | null> => {
+  const [collectionResult, bookmarksResult] = await Promise.all([
+    supabase.rpc('get_shared_collection', { share_slug: slug }),
+    supabase.rpc('list_shared_bookmarks', { share_slug: slug }),
+  ]);
+  if (collectionResult.error) throw collectionResult.error;
+  if (bookmarksResult.error) throw bookmarksResult.error;
+
+  const [collection] = collectionResult.data ?? [];
+  if (!collection) return null;
+
+  const bookmarks: Bookmark[] = (bookmarksResult.data ?? []).map((row, index) => ({
+    ...row,
+    position: row.position ?? index,
+    updated_at: row.created_at,
+    collection_id: null,
+    canonical_url: null,
+    enrichment_status: 'done',
+    enrichment_error: null,
+    link_status: null,
+    link_http_status: null,
+    link_final_url: null,
+    link_checked_at: null,
+    link_failure_count: 0,
+    last_snapshot_at: null,
+    is_read: true,
+    is_favorite: false,
+    archived_at: null,
+  }));
+
+  return { ...collection, bookmarks };
+};
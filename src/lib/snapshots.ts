@@ -0,0 +1,51 @@
+// snapshots.ts
+// Archived copies of bookmarked pages. The archive-bookmark edge function extracts the readable
+// article and stores it in the private "snapshots" Storage bucket; every archive run that finds
+// changed content adds a new version, so older copies stay available.
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+const BUCKET = 'snapshots';
+
+export type Snapshot = Tables<'snapshots'>;
+
+/**
+ * Archives a bookmark's page now. `unchanged` is true when the page matched the latest
+ * version, which then only gets a new fetched_at.
+ */
+export const archiveBookmark = async (bookmarkId: string): Promise<{ snapshot: Snapshot; unchanged: boolean }> => {
+  const { data, error } = await supabase.functions.invoke('archive-bookmark', {
+    body: { bookmark_id: bookmarkId },
+  });
+  if (error instanceof FunctionsHttpError) {
+    // Show why the page couldn't be archived (not found, no readable content...) rather than the status code
+    const body = await error.context.json().catch(() => null);
+    throw new Error(body?.error ?? error.message);
+  }
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Every archived version of a bookmark, newest first.
+ */
+export const fetchSnapshots = async (bookmarkId: string): Promise<Snapshot[]> => {
+  const { data, error } = await supabase
+    .from('snapshots')
+    .select('*')
+    .eq('bookmark_id', bookmarkId)
+    .order('version', { ascending: false });
+  if (error) throw error;
+  return data ?? [];
+};
+
+/**
+ * The archived page as a standalone HTML document.
+ */
+export const loadSnapshotHtml = async (snapshot: Pick<Snapshot, 'html_path'>): Promise<string> => {
+  const { data, error } = await supabase.storage.from(BUCKET).download(snapshot.html_path);
+  if (error) throw error;
+  return data.text();
+};
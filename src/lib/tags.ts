@@ -0,0 +1,258 @@
+// tags.ts
+// Tag helpers: the tags table row shape, colors, nesting ("lang/rust"), vocabulary counts,
+// and the ranking behind tag suggestions in the add-bookmark form.
+// Suggestions come from the user's existing tags and from keywords in the page's title, domain and content.
+
+import type { CSSProperties } from 'react';
+
+// A row of the tags table
+export interface Tag {
+  id: string;
+  // Nested tags use slashes: "lang/rust" sits under "lang"
+  name: string;
+  // Hex color such as "#3b82f6", or null for the default badge style
+  color: string | null;
+}
+
+// A tag in the manager's tree, with the number of bookmarks using it
+export interface TagNode extends Tag {
+  usage: number;
+  depth: number;
+  children: TagNode[];
+}
+
+// Separator between a parent tag and its child
+export const TAG_SEPARATOR = '/';
+
+// Colors offered in the tag manager
+export const TAG_COLORS = [
+  '#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6',
+  '#3b82f6', '#6366f1', '#a855f7', '#ec4899', '#64748b',
+];
+
+/**
+ * Inline style for a colored tag badge; undefined keeps the badge's default look.
+ */
+export const tagBadgeStyle = (color: string | null | undefined): CSSProperties | undefined =>
+  color ? { backgroundColor: `${color}26`, borderColor: `${color}80`, color } : undefined;
+
+/**
+ * Name of the parent of a nested tag ("lang" for "lang/rust"), or null for top-level tags.
+ */
+export const getParentTagName = (name: string): string | null => {
+  const index = name.lastIndexOf(TAG_SEPARATOR);
+  return index > 0 ? name.slice(0, index) : null;
+};
+
+/**
+ * Last segment of a nested tag's name ("rust" for "lang/rust").
+ */
+export const getTagLeafName = (name: string): string => name.slice(name.lastIndexOf(TAG_SEPARATOR) + 1);
+
+/**
+ * True when `tag` is `filter` or nested anywhere under it, case-insensitively.
+ */
+export const tagMatches = (tag: string, filter: string): boolean => {
+  const lowerTag = tag.toLowerCase();
+  const lowerFilter = filter.toLowerCase();
+  return lowerTag === lowerFilter || lowerTag.startsWith(lowerFilter + TAG_SEPARATOR);
+};
+
+/**
+ * Color for a tag: its own, else the nearest colored ancestor's, so "lang/rust" inherits from "lang".
+ */
+export const resolveTagColor = (name: string, colors: Map<string, string | null>): string | null => {
+  for (let current: string | null = name; current; current = getParentTagName(current)) {
+    const color = colors.get(current);
+    if (color) return color;
+  }
+  return null;
+};
+
+/**
+ * Builds the nested tag tree from flat rows, sorted by name at each level.
+ * Tags whose parent has no row of its own are shown at the top level.
+ */
+export const buildTagTree = (tags: Tag[], usage: Map<string, number>): TagNode[] => {
+  const nodes = new Map<string, TagNode>();
+  tags.forEach(tag => nodes.set(tag.name, { ...tag, usage: usage.get(tag.id) ?? 0, depth: 0, children: [] }));
+
+  const roots: TagNode[] = [];
+  nodes.forEach(node => {
+    const parent = getParentTagName(node.name);
+    const parentNode = parent ? nodes.get(parent) : undefined;
+    (parentNode ? parentNode.children : roots).push(node);
+  });
+
+  const sortAndSetDepth = (list: TagNode[], depth: number) => {
+    list.sort((a, b) => a.name.localeCompare(b.name));
+    list.forEach(node => {
+      node.depth = depth;
+      sortAndSetDepth(node.children, depth + 1);
+    });
+  };
+  sortAndSetDepth(roots, 0);
+
+  return roots;
+};
+
+export interface TagSuggestion {
+  tag: string;
+  // Where the suggestion came from: a tag the user already uses, or a keyword from the page
+  source: 'vocabulary' | 'page';
+  score: number;
+}
+
+export interface PageTagContext {
+  url?: string;
+  title?: string | null;
+  // Keywords the page declares (meta keywords, article:tag, JSON-LD)
+  keywords?: string[];
+}
+
+const MAX_SUGGESTIONS = 8;
+// Head start for existing tags over new page keywords that match equally well
+const VOCABULARY_BONUS = 3;
+
+// Common words that make poor tags
+const STOP_WORDS = new Set(
+  ('a an and are as at be by for from has how i in into is it its of on or our so that the this to was we what ' +
+    'when where who why will with you your vs via new about best guide introduction intro using use part page home')
+    .split(' ')
+);
+
+// Domain labels that say nothing about the content
+const GENERIC_DOMAIN_PARTS = new Set(['www', 'com', 'org', 'net', 'io', 'dev', 'app', 'co', 'blog', 'docs', 'en', 'm']);
+
+// Lowercased, singular-insensitive key used to treat "JS", "js" and "Tags"/"tag" as the same tag
+const tagKey = (tag: string) => {
+  const key = tag.trim().toLowerCase();
+  return key.length > 3 && key.endsWith('s') && !key.endsWith('ss') ? key.slice(0, -1) : key;
+};
+
+/**
+ * Groups tags that only differ by case or a plural "s" (JS/js, tag/tags), most used first in each group.
+ */
+export const findDuplicateTags = <T extends Tag>(tags: T[], usage: Map<string, number>): T[][] => {
+  const groups = new Map<string, T[]>();
+  tags.forEach(tag => {
+    const key = tagKey(tag.name);
+    groups.set(key, [...(groups.get(key) ?? []), tag]);
+  });
+  return Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .map(group => group.sort((a, b) => (usage.get(b.id) ?? 0) - (usage.get(a.id) ?? 0)));
+};
+
+/**
+ * Unique tags across bookmarks, sorted alphabetically.
+ */
+export const collectTags = (bookmarks: { tags: string[] | null }[]): string[] => {
+  const tags = new Set<string>();
+  bookmarks.forEach(bookmark => bookmark.tags?.forEach(tag => tags.add(tag)));
+  return Array.from(tags).sort();
+};
+
+/**
+ * How many bookmarks use each tag.
+ */
+export const countTags = (bookmarks: { tags: string[] | null }[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  bookmarks.forEach(bookmark => bookmark.tags?.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return counts;
+};
+
+/**
+ * Returns the existing spelling of a tag when the vocabulary already has it in another case
+ * (or singular/plural), so typing "JS" reuses "js". Otherwise returns the trimmed input.
+ */
+export const canonicalTag = (tag: string, vocabulary: Iterable<string>): string => {
+  const key = tagKey(tag);
+  for (const existing of vocabulary) {
+    if (tagKey(existing) === key) return existing;
+  }
+  return tag.trim();
+};
+
+// Candidate keywords from the page, each with a weight for how strongly it suggests a tag
+const pageTerms = ({ url, title, keywords }: PageTagContext): Map<string, number> => {
+  const terms = new Map<string, number>();
+  const add = (term: string, weight: number) => {
+    const clean = term.trim().toLowerCase();
+    if (clean.length < 2 || clean.length > 40 || STOP_WORDS.has(clean) || /^[\d.]+$/.test(clean)) return;
+    terms.set(clean, Math.max(terms.get(clean) ?? 0, weight));
+  };
+
+  keywords?.forEach(keyword => add(keyword, 3));
+
+  if (url) {
+    try {
+      // Drop the top-level domain, then generic labels: blog.rust-lang.org -> rust-lang
+      new URL(url).hostname.split('.')
+        .slice(0, -1)
+        .filter(part => !GENERIC_DOMAIN_PARTS.has(part))
+        .forEach(part => add(part, 2));
+    } catch {
+      // Not a valid URL yet
+    }
+  }
+
+  title?.split(/[^\p{L}\p{N}+#.-]+/u)
+    .map(word => word.replace(/^[.-]+|[.-]+$/g, ''))
+    .filter(word => word.length >= 3)
+    .forEach(word => add(word, 1));
+
+  return terms;
+};
+
+/**
+ * Ranks tag suggestions for the text being typed.
+ * - Existing tags score by how often they're used, and much higher when the page mentions them,
+ *   so the user's own vocabulary wins over new spellings of the same idea.
+ * - Page keywords the vocabulary doesn't have yet are suggested as new tags.
+ * - While typing, only tags starting with (or, ranked lower, containing) the text are kept.
+ * - Tags already selected are left out.
+ */
+export const suggestTags = (
+  query: string,
+  vocabulary: Map<string, number>,
+  page: PageTagContext,
+  selected: string[],
+  limit = MAX_SUGGESTIONS
+): TagSuggestion[] => {
+  const needle = query.trim().toLowerCase();
+  const selectedKeys = new Set(selected.map(tagKey));
+  const terms = pageTerms(page);
+  const termKeys = new Map(Array.from(terms, ([term, weight]) => [tagKey(term), weight]));
+  const suggestions = new Map<string, TagSuggestion>();
+
+  const matchBonus = (tag: string) => {
+    if (!needle) return 0;
+    const lower = tag.toLowerCase();
+    if (lower.startsWith(needle)) return 10;
+    if (lower.includes(needle)) return 5;
+    return null;
+  };
+
+  vocabulary.forEach((count, tag) => {
+    const key = tagKey(tag);
+    const bonus = matchBonus(tag);
+    if (selectedKeys.has(key) || bonus === null) return;
+    // Without any text typed, only suggest existing tags that relate to the page
+    const pageWeight = termKeys.get(key) ?? 0;
+    if (!needle && pageWeight === 0) return;
+
+    suggestions.set(key, { tag, source: 'vocabulary', score: VOCABULARY_BONUS + bonus + pageWeight * 4 + Math.log2(1 + count) });
+  });
+
+  terms.forEach((weight, term) => {
+    const key = tagKey(term);
+    const bonus = matchBonus(term);
+    if (selectedKeys.has(key) || suggestions.has(key) || bonus === null) return;
+    suggestions.set(key, { tag: term, source: 'page', score: bonus + weight });
+  });
+
+  return Array.from(suggestions.values())
+    .sort((a, b) => b.score - a.score || a.tag.localeCompare(b.tag))
+    .slice(0, limit);
+};
@@ -0,0 +1,74 @@
+// trash.ts
+// Soft delete. Deleted bookmarks keep their row with deleted_at set, are hidden from normal
+// queries by RLS, and are purged after TRASH_RETENTION_DAYS by the purge-trash edge function,
+// which pg_cron calls every hour.
+
+import { differenceInCalendarDays, addDays } from 'date-fns';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+// Must match TRASH_RETENTION_DAYS in the purge-trash edge function
+export const TRASH_RETENTION_DAYS = 30;
+
+// A bookmark as listed in the Trash view
+export interface TrashedBookmark {
+  id: string;
+  url: string;
+  title: string;
+  favicon_url: string | null;
+  site_name: string | null;
+  tags: string[];
+  created_at: string;
+  deleted_at: string;
+}
+
+/**
+ * Moves bookmarks to the trash. Returns how many were moved.
+ */
+export const trashBookmarks = async (ids: string[]): Promise<number> => {
+  const { data, error } = await supabase.rpc('trash_bookmarks', { bookmark_ids: ids });
+  if (error) throw error;
+  return data ?? 0;
+};
+
+/**
+ * Takes bookmarks back out of the trash. Returns how many were restored.
+ */
+export const restoreBookmarks = async (ids: string[]): Promise<number> => {
+  const { data, error } = await supabase.rpc('restore_bookmarks', { bookmark_ids: ids });
+  if (error) throw error;
+  return data ?? 0;
+};
+
+/**
+ * Permanently deletes bookmarks that are in the trash, with their archived snapshot files; with
+ * no ids, empties the whole trash. Only the trash of the given workspace (or the personal space,
+ * for null) is affected. Returns how many were deleted.
+ */
+export const deleteTrashedBookmarks = async (ids?: string[], workspaceId: string | null = null): Promise<number> => {
+  const { data, error } = await supabase.functions.invoke('purge-trash', {
+    body: { bookmark_ids: ids ?? null, workspace_id: workspaceId },
+  });
+  if (error instanceof FunctionsHttpError) {
+    // Show why the bookmarks couldn't be deleted rather than the status code
+    const body = await error.context.json().catch(() => null);
+    throw new Error(body?.error ?? error.message);
+  }
+  if (error) throw error;
+  return data.deleted;
+};
+
+/**
+ * The trash of a workspace, or the current user's personal trash for null; most recently deleted first.
+ */
+export const fetchTrashedBookmarks = async (workspaceId: string | null = null): Promise<TrashedBookmark[]> => {
+  const { data, error } = await supabase.rpc('list_trashed_bookmarks', { workspace_filter: workspaceId });
+  if (error) throw error;
+  return data ?? [];
+};
+
+/**
+ * Whole days left before a trashed bookmark is purged (0 on its last day).
+ */
+export const daysUntilPurge = (deletedAt: string, now = new Date()): number =>
+  Math.max(0, differenceInCalendarDays(addDays(new Date(deletedAt), TRASH_RETENTION_DAYS), now));
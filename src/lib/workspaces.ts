@@ -0,0 +1,231 @@
+// workspaces.ts
+// Team workspaces: bookmarks shared by a group of members, each with a role. Bookmarks without a
+// workspace_id make up the user's personal space. Access is enforced by row level security;
+// the helpers here only decide what the UI offers.
+
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+// Remembers the last active space per browser
+const ACTIVE_WORKSPACE_KEY = 'active-workspace';
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+// Roles an invitation can grant; owners promote members afterwards
+export type InvitableRole = Exclude<WorkspaceRole, 'owner'>;
+
+export const WORKSPACE_ROLES: { value: WorkspaceRole; label: string; description: string }[] = [
+  { value: 'owner', label: 'Owner', description: 'Manages members and the workspace' },
+  { value: 'editor', label: 'Editor', description: 'Adds, edits and deletes bookmarks' },
+  { value: 'viewer', label: 'Viewer', description: 'Reads bookmarks' },
+];
+
+// A workspace with the current user's role in it
+export interface Workspace {
+  id: string;
+  name: string;
+  created_at: string;
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceMember {
+  user_id: string;
+  email: string | null;
+  full_name: string | null;
+  role: WorkspaceRole;
+  created_at: string;
+}
+
+export type WorkspaceInvitation = Omit<Tables<'workspace_invitations'>, 'role'> & { role: InvitableRole };
+
+// What an invitee sees before accepting
+export interface InvitationPreview {
+  workspace_name: string;
+  email: string;
+  role: InvitableRole;
+  invited_by_name: string | null;
+  expires_at: string;
+  accepted_at: string | null;
+}
+
+// Result of sending an invitation through the invite-member edge function
+export interface SentInvitation {
+  invitation: WorkspaceInvitation;
+  invite_url: string;
+  // False when the server has no email provider configured; share invite_url by hand instead
+  emailed: boolean;
+}
+
+export const roleLabel = (role: WorkspaceRole) =>
+  WORKSPACE_ROLES.find(option => option.value === role)?.label ?? role;
+
+/**
+ * True when the role may add, change and delete bookmarks. The personal space (no workspace)
+ * is always editable.
+ */
+export const canEditBookmarks = (workspace: Workspace | null) => !workspace || workspace.role !== 'viewer';
+
+// A bookmarks or tags query that can still be filtered, e.g. supabase.from('bookmarks').select()
+interface SpaceFilterable {
+  eq(column: 'user_id' | 'workspace_id', value: string): this;
+  is(column: 'workspace_id', value: null): this;
+}
+
+/**
+ * Limits a bookmarks or tags query to one space: the workspace's rows, or the user's own rows
+ * outside any workspace.
+ */
+export const inSpace = <Q extends SpaceFilterable>(query: Q, userId: string, workspaceId: string | null): Q =>
+  workspaceId ? query.eq('workspace_id', workspaceId) : query.eq('user_id', userId).is('workspace_id', null);
+
+/**
+ * The workspaces the user belongs to, by name.
+ */
+export const fetchWorkspaces = async (userId: string): Promise<Workspace[]> => {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('role, workspaces (id, name, created_at)')
+    .eq('user_id', userId);
+  if (error) throw error;
+  return (data ?? [])
+    .filter(row => row.workspaces)
+    .map(row => ({ ...row.workspaces!, role: row.role as WorkspaceRole }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Creates a workspace; the database makes the creator its owner.
+ */
+export const createWorkspace = async (userId: string, name: string): Promise<Workspace> => {
+  const { data, error } = await supabase
+    .from('workspaces')
+    .insert({ name: name.trim(), created_by: userId })
+    .select('id, name, created_at')
+    .single();
+  if (error) throw error;
+  return { ...data, role: 'owner' };
+};
+
+export const renameWorkspace = async (id: string, name: string) => {
+  const { error } = await supabase.from('workspaces').update({ name: name.trim() }).eq('id', id);
+  if (error) throw error;
+};
+
+/**
+ * Deletes a workspace with all of its bookmarks. Owners only.
+ */
+export const deleteWorkspace = async (id: string) => {
+  const { error } = await supabase.from('workspaces').delete().eq('id', id);
+  if (error) throw error;
+};
+
+export const fetchWorkspaceMembers = async (workspaceId: string): Promise<WorkspaceMember[]> => {
+  const { data, error } = await supabase.rpc('list_workspace_members', { ws: workspaceId });
+  if (error) throw error;
+  return (data ?? []).map(member => ({ ...member, role: member.role as WorkspaceRole }));
+};
+
+/**
+ * Changes a member's role. A workspace can't be left without an owner.
+ */
+export const updateMemberRole = async (workspaceId: string, userId: string, role: WorkspaceRole) => {
+  const { error } = await supabase
+    .from('workspace_members')
+    .update({ role })
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId);
+  if (error) throw error;
+};
+
+/**
+ * Removes a member, or leaves the workspace when userId is the current user.
+ */
+export const removeMember = async (workspaceId: string, userId: string) => {
+  const { error } = await supabase
+    .from('workspace_members')
+    .delete()
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId);
+  if (error) throw error;
+};
+
+/**
+ * Invitations that haven't been accepted yet, newest first. Owners only.
+ */
+export const fetchPendingInvitations = async (workspaceId: string): Promise<WorkspaceInvitation[]> => {
+  const { data, error } = await supabase
+    .from('workspace_invitations')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .is('accepted_at', null)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data ?? []).map(invitation => ({ ...invitation, role: invitation.role as InvitableRole }));
+};
+
+/**
+ * Invites someone by email. Replaces any open invitation to the same address.
+ */
+export const inviteMember = async (workspaceId: string, email: string, role: InvitableRole): Promise<SentInvitation> => {
+  const { data, error } = await supabase.functions.invoke('invite-member', {
+    body: { workspace_id: workspaceId, email, role },
+  });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data as SentInvitation;
+};
+
+/**
+ * Withdraws an invitation; its link stops working.
+ */
+export const revokeInvitation = async (id: string) => {
+  const { error } = await supabase.from('workspace_invitations').delete().eq('id', id);
+  if (error) throw error;
+};
+
+/**
+ * The address of an invitation, as sent in the email.
+ */
+export const invitationUrl = (token: string) => `${window.location.origin}/invite/${token}`;
+
+/**
+ * Looks an invitation up by its token. Returns null when it doesn't exist or was withdrawn.
+ */
+export const fetchInvitation = async (token: string): Promise<InvitationPreview | null> => {
+  const { data, error } = await supabase.rpc('get_workspace_invitation', { invite_token: token });
+  if (error) throw error;
+  const [invitation] = data ?? [];
+  return invitation ? { ...invitation, role: invitation.role as InvitableRole } : null;
+};
+
+/**
+ * Joins the workspace an invitation is for. Returns the workspace id.
+ */
+export const acceptInvitation = async (token: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('accept_workspace_invitation', { invite_token: token });
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Id of the workspace the user last had open; null for the personal space.
+ */
+export const loadActiveWorkspaceId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const saveActiveWorkspaceId = (id: string | null) => {
+  try {
+    if (id) {
+      localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+    } else {
+      localStorage.removeItem(ACTIVE_WORKSPACE_KEY);
+    }
+  } catch {
+    // Storage disabled: the choice just won't persist
+  }
+};
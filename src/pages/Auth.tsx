@@ -8,12 +8,14 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Bookmark, Sparkles } from 'lucide-react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 
 const Auth = () => {
   // Get authentication functions and user from context
   const { signIn, signUp, user } = useAuth();
   const navigate = useNavigate();
+  // Page that sent the user here to sign in, e.g. an invitation link
+  const returnTo = (useLocation().state as { from?: string } | null)?.from ?? '/';
   // State for loading and form data
   const [isLoading, setIsLoading] = useState(false);
   const [formData, setFormData] = useState({
@@ -22,12 +24,12 @@ const Auth = () => {
     fullName: '',
   });
 
-  // If user is already logged in, redirect to home page
+  // If user is already logged in, redirect to home page (or back to the page that asked for sign-in)
   useEffect(() => {
     if (user) {
-      navigate('/');
+      navigate(returnTo);
     }
-  }, [user, navigate]);
+  }, [user, navigate, returnTo]);
 
   // Handle form submission for sign in or sign up
   const handleSubmit = async (type: 'signin' | 'signup') => {
@@ -0,0 +1,50 @@
+// Duplicates page: finds bookmarks saved more than once and merges them
+import { useAuth } from '@/contexts/AuthContext';
+import { Link, Navigate } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import Header from '@/components/Header';
+import DuplicateFinder from '@/components/DuplicateFinder';
+import { Button } from '@/components/ui/button';
+
+const Duplicates = () => {
+  // Get user and loading state from authentication context
+  const { user, loading } = useAuth();
+
+  // Show loading spinner while checking authentication
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-primary/20 flex items-center justify-center">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // If not logged in, redirect to authentication page
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  return (
+    <div className="min-h-screen">
+      <Header />
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-3xl mx-auto space-y-4">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to bookmarks
+            </Link>
+          </Button>
+          <DuplicateFinder />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Duplicates;
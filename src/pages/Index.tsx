@@ -1,25 +1,83 @@
 // Index page: Main dashboard for authenticated users
-// Shows header, add bookmark form, and bookmark grid
+// Shows the collections sidebar, header, add bookmark form, and bookmark grid
+// Collections are personal, so the sidebar is hidden while a workspace is open
 import { useAuth } from '@/contexts/AuthContext';
-import { useState } from 'react';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { useBookmarkCache } from '@/hooks/use-bookmarks';
+import { useCallback, useState } from 'react';
 import Header from '@/components/Header';
 import AddBookmarkForm from '@/components/AddBookmarkForm';
 import BookmarkGrid from '@/components/BookmarkGrid';
+import CollectionSidebar from '@/components/CollectionSidebar';
+import { SidebarInset, SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
 import { Navigate } from 'react-router-dom';
+import {
+  DndContext,
+  closestCenter,
+  pointerWithin,
+  CollisionDetection,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core';
+import { sortableKeyboardCoordinates } from '@dnd-kit/sortable';
+import { COLLECTION_DROP_PREFIX } from '@/lib/collections';
+import { Bookmark } from '@/lib/bookmarks';
+import { SavedBookmark } from '@/lib/duplicates';
+
+// Prefer a sidebar folder directly under the pointer, otherwise fall back to sorting between cards
+const collectionAwareCollision: CollisionDetection = (args) => {
+  const collectionHits = pointerWithin(args).filter(collision =>
+    String(collision.id).startsWith(COLLECTION_DROP_PREFIX)
+  );
+  if (collectionHits.length > 0) return collectionHits;
+
+  return closestCenter({
+    ...args,
+    droppableContainers: args.droppableContainers.filter(container =>
+      !String(container.id).startsWith(COLLECTION_DROP_PREFIX)
+    ),
+  });
+};
 
 const Index = () => {
   // Get user and loading state from authentication context
   const { user, loading } = useAuth();
-  // Used to trigger refresh of bookmarks after adding a new one
-  const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const { activeWorkspace, loading: workspacesLoading } = useWorkspace();
+  const bookmarkCache = useBookmarkCache();
+  // Collection selected in the sidebar; null shows all bookmarks
+  const [selectedCollectionId, setSelectedCollectionId] = useState<string | null>(null);
+  // The selection only applies to the personal space, and is kept for when it's reopened
+  const collectionId = activeWorkspace ? null : selectedCollectionId;
+  // Bookmarks currently shown in the grid, for "export current view"
+  const [visibleBookmarks, setVisibleBookmarks] = useState<Bookmark[]>([]);
+  // Bookmark the grid should scroll to, e.g. after "Open existing" in the add form
+  const [focusBookmarkId, setFocusBookmarkId] = useState<string | null>(null);
 
-  // Called when a new bookmark is added to refresh the grid
-  const handleBookmarkAdded = () => {
-    setRefreshTrigger(prev => prev + 1);
+  // Drag-and-drop sensors shared by the bookmark grid and the collections sidebar
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  // Called when bookmarks change collection from the sidebar (dropped onto a folder, or their folder deleted)
+  const handleBookmarkMoved = () => {
+    bookmarkCache.invalidate();
   };
 
-  // Show loading spinner while checking authentication
-  if (loading) {
+  // Show a bookmark that's already saved; switches to its collection unless all bookmarks are shown
+  const handleOpenExisting = (bookmark: SavedBookmark) => {
+    setSelectedCollectionId(current => (current === null ? null : bookmark.collection_id));
+    setFocusBookmarkId(bookmark.id);
+  };
+
+  const handleFocusHandled = useCallback(() => setFocusBookmarkId(null), []);
+
+  // Show loading spinner while checking authentication and which space to open
+  if (loading || (user && workspacesLoading)) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
@@ -39,19 +97,39 @@ const Index = () => {
 
   // Main dashboard UI for logged-in users
   return (
-    <div className="min-h-screen">
-      <Header />
-      <main className="container mx-auto px-4 py-8 space-y-8">
-        <div className="max-w-2xl mx-auto">
-          <AddBookmarkForm onBookmarkAdded={handleBookmarkAdded} />
-        </div>
-        
-        <div className="max-w-7xl mx-auto">
-          <BookmarkGrid refreshTrigger={refreshTrigger} />
-        </div>
-      </main>
-    </div>
+    <SidebarProvider>
+      <DndContext sensors={sensors} collisionDetection={collectionAwareCollision}>
+        {!activeWorkspace && (
+          <CollectionSidebar
+            selectedCollectionId={selectedCollectionId}
+            onSelectCollection={setSelectedCollectionId}
+            onBookmarkMoved={handleBookmarkMoved}
+          />
+        )}
+        <SidebarInset className="min-h-screen bg-transparent">
+          <Header currentView={visibleBookmarks} />
+          <div className="container mx-auto px-4 py-8 space-y-8">
+            <div className="max-w-2xl mx-auto">
+              <AddBookmarkForm
+                collectionId={collectionId}
+                onOpenExisting={handleOpenExisting}
+              />
+            </div>
+
+            <div className="max-w-7xl mx-auto space-y-4">
+              {!activeWorkspace && <SidebarTrigger />}
+              <BookmarkGrid
+                collectionId={collectionId}
+                onVisibleBookmarksChange={setVisibleBookmarks}
+                focusBookmarkId={focusBookmarkId}
+                onFocusHandled={handleFocusHandled}
+              />
+            </div>
+          </div>
+        </SidebarInset>
+      </DndContext>
+    </SidebarProvider>
   );
 };
 
-export default Index;
\ No newline at end of file
+export default Index;
@@ -0,0 +1,150 @@
+// Invite page: shows a workspace invitation from an email link and lets the signed-in invitee join
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Bookmark, Sparkles, MailX, Users, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { acceptInvitation, fetchInvitation, InvitationPreview, roleLabel } from '@/lib/workspaces';
+
+type PageState =
+  | { status: 'loading' }
+  | { status: 'ready'; invitation: InvitationPreview }
+  // Unknown or withdrawn invitation
+  | { status: 'not_found' }
+  | { status: 'error'; message: string };
+
+const Invite = () => {
+  const { token } = useParams<{ token: string }>();
+  const { user, loading } = useAuth();
+  const { refreshWorkspaces, setActiveWorkspaceId } = useWorkspace();
+  const navigate = useNavigate();
+  const [state, setState] = useState<PageState>({ status: 'loading' });
+  const [isJoining, setIsJoining] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setState({ status: 'loading' });
+    fetchInvitation(token!)
+      .then(invitation => {
+        if (cancelled) return;
+        setState(invitation ? { status: 'ready', invitation } : { status: 'not_found' });
+      })
+      .catch(error => {
+        if (!cancelled) setState({ status: 'error', message: (error as Error).message });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  // Joins the workspace and opens it
+  const handleJoin = async () => {
+    setIsJoining(true);
+    try {
+      const workspaceId = await acceptInvitation(token!);
+      await refreshWorkspaces();
+      setActiveWorkspaceId(workspaceId);
+      if (state.status === 'ready') {
+        toast({ title: "Welcome aboard", description: `You joined "${state.invitation.workspace_name}".` });
+      }
+      navigate('/');
+    } catch (error) {
+      toast({
+        title: "Couldn't join the workspace",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  const renderInvitation = (invitation: InvitationPreview) => {
+    const expired = new Date(invitation.expires_at) < new Date();
+    const wrongAccount = !!user?.email && user.email.toLowerCase() !== invitation.email;
+
+    return (
+      <div className="glass-card mx-auto max-w-md rounded-lg p-8 text-center">
+        <Users className="mx-auto mb-4 h-10 w-10 text-primary" />
+        <h1 className="text-lg font-semibold">Join "{invitation.workspace_name}"</h1>
+        <p className="mt-1 text-sm text-muted-foreground">
+          {invitation.invited_by_name ?? 'A teammate'} invited {invitation.email} as{' '}
+          {invitation.role === 'viewer' ? 'a' : 'an'} {roleLabel(invitation.role).toLowerCase()}.
+        </p>
+
+        <div className="mt-6 space-y-3">
+          {invitation.accepted_at ? (
+            <p className="text-sm text-muted-foreground">
+              This invitation was accepted on {format(new Date(invitation.accepted_at), 'MMM d, yyyy')}.
+            </p>
+          ) : expired ? (
+            <p className="text-sm text-destructive">This invitation has expired. Ask for a new one.</p>
+          ) : !user ? (
+            <Button className="btn-primary w-full" onClick={() => navigate('/auth', { state: { from: `/invite/${token}` } })}>
+              Sign in to accept
+            </Button>
+          ) : wrongAccount ? (
+            <p className="text-sm text-destructive">
+              You're signed in as {user.email}. Sign in as {invitation.email} to accept this invitation.
+            </p>
+          ) : (
+            <Button className="btn-primary w-full" onClick={handleJoin} disabled={isJoining}>
+              {isJoining && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Join workspace
+            </Button>
+          )}
+          {user && (
+            <Button variant="ghost" className="w-full" asChild>
+              <Link to="/">Go to my bookmarks</Link>
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen">
+      <header className="glass-card sticky top-0 z-50 border-b border-glass-border">
+        <div className="container mx-auto flex items-center px-4 py-4">
+          <Link to="/" className="flex items-center gap-3">
+            <div className="relative">
+              <Bookmark className="h-8 w-8 text-primary" />
+              <Sparkles className="h-4 w-4 text-primary-glow absolute -top-1 -right-1" />
+            </div>
+            <span className="text-xl font-bold bg-gradient-to-r from-primary to-primary-glow bg-clip-text text-transparent">
+              Link Saver
+            </span>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-16">
+        {state.status === 'loading' || loading ? (
+          <div className="flex items-center justify-center py-24">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : state.status === 'ready' ? (
+          renderInvitation(state.invitation)
+        ) : (
+          <div className="glass-card mx-auto max-w-md rounded-lg p-8 text-center">
+            <MailX className="mx-auto mb-4 h-10 w-10 text-muted-foreground" />
+            <h1 className="text-lg font-semibold">
+              {state.status === 'not_found' ? 'This invitation is no longer valid' : "Couldn't load this invitation"}
+            </h1>
+            <p className="mt-1 text-sm text-muted-foreground">
+              {state.status === 'not_found'
+                ? 'It may have been withdrawn or replaced by a newer one. Ask the workspace owner to invite you again.'
+                : state.message}
+            </p>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Invite;
@@ -0,0 +1,34 @@
+// Reader page: distraction-free view of a bookmark's archived article
+import { useAuth } from '@/contexts/AuthContext';
+import { Navigate, useParams } from 'react-router-dom';
+import ArticleReader from '@/components/ArticleReader';
+
+const Reader = () => {
+  // Get user and loading state from authentication context
+  const { user, loading } = useAuth();
+  const { bookmarkId } = useParams<{ bookmarkId: string }>();
+
+  // Show loading spinner while checking authentication
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-primary/20 flex items-center justify-center">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // If not logged in, redirect to authentication page
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  // Keyed by bookmark so moving between articles starts from a clean state
+  return <ArticleReader key={bookmarkId} bookmarkId={bookmarkId!} />;
+};
+
+export default Reader;
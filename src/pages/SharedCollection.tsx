@@ -0,0 +1,92 @@
+// Shared collection page: a read-only view of a collection someone published, open to anyone with the link
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Bookmark, Sparkles, Link2Off } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import SharedBookmarkGrid from '@/components/SharedBookmarkGrid';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchSharedCollection, SharedCollection as SharedCollectionData } from '@/lib/shares';
+
+type PageState =
+  | { status: 'loading' }
+  | { status: 'ready'; collection: SharedCollectionData }
+  // Unknown or revoked link
+  | { status: 'not_found' }
+  | { status: 'error'; message: string };
+
+const SharedCollection = () => {
+  const { slug } = useParams<{ slug: string }>();
+  // Signed-in visitors go back to their own bookmarks; everyone else is offered an account
+  const { user } = useAuth();
+  const [state, setState] = useState<PageState>({ status: 'loading' });
+
+  useEffect(() => {
+    let cancelled = false;
+    setState({ status: 'loading' });
+    fetchSharedCollection(slug!)
+      .then(collection => {
+        if (cancelled) return;
+        setState(collection ? { status: 'ready', collection } : { status: 'not_found' });
+      })
+      .catch(error => {
+        if (!cancelled) setState({ status: 'error', message: (error as Error).message });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [slug]);
+
+  return (
+    <div className="min-h-screen">
+      <header className="glass-card sticky top-0 z-50 border-b border-glass-border">
+        <div className="container mx-auto flex items-center justify-between px-4 py-4">
+          <Link to="/" className="flex items-center gap-3">
+            <div className="relative">
+              <Bookmark className="h-8 w-8 text-primary" />
+              <Sparkles className="h-4 w-4 text-primary-glow absolute -top-1 -right-1" />
+            </div>
+            <span className="text-xl font-bold bg-gradient-to-r from-primary to-primary-glow bg-clip-text text-transparent">
+              Link Saver
+            </span>
+          </Link>
+          <Button variant="outline" size="sm" asChild>
+            <Link to={user ? '/' : '/auth'}>{user ? 'My bookmarks' : 'Save your own bookmarks'}</Link>
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        {state.status === 'loading' ? (
+          <div className="flex items-center justify-center py-24">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : state.status === 'ready' ? (
+          <div className="space-y-6">
+            <div>
+              <h1 className="text-3xl font-bold">{state.collection.name}</h1>
+              <p className="mt-1 text-sm text-muted-foreground">
+                A shared reading list · shared {format(new Date(state.collection.shared_at), 'MMM d, yyyy')}
+              </p>
+            </div>
+            <SharedBookmarkGrid bookmarks={state.collection.bookmarks} />
+          </div>
+        ) : (
+          <div className="glass-card mx-auto max-w-md rounded-lg p-8 text-center">
+            <Link2Off className="mx-auto mb-4 h-10 w-10 text-muted-foreground" />
+            <h1 className="text-lg font-semibold">
+              {state.status === 'not_found' ? 'This link is no longer shared' : "Couldn't load this collection"}
+            </h1>
+            <p className="mt-1 text-sm text-muted-foreground">
+              {state.status === 'not_found'
+                ? 'The owner may have stopped sharing it or created a new link.'
+                : state.message}
+            </p>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SharedCollection;
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL: string;
+  readonly VITE_SUPABASE_ANON_KEY: string;
+  // "true" to use the local metadata mock instead of the extract-metadata edge function
+  readonly VITE_METADATA_MOCK?: string;
+}
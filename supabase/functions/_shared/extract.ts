@@ -0,0 +1,275 @@
+// extract.ts
+// Pulls a title, favicon, link preview metadata and the readable article text out of a page's HTML.
+// Summarizing the text is left to a Summarizer (see summarize/).
+// Reads Open Graph, Twitter Card and JSON-LD tags, falling back to plain HTML.
+// Kept free of I/O so it can be exercised with fixture HTML.
+
+import { DOMParser, type Element, type HTMLDocument } from 'https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts';
+
+// Longest article text handed to a summarizer
+export const MAX_TEXT_LENGTH = 20_000;
+// Longest description kept from meta tags
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+export interface PageMetadata {
+  title: string;
+  favicon_url: string | null;
+  image_url: string | null;
+  description: string | null;
+  site_name: string | null;
+  author: string | null;
+  // ISO 8601 timestamp
+  published_at: string | null;
+  canonical_url: string | null;
+}
+
+export interface ExtractedPage extends PageMetadata {
+  // Readable text of the main content, or the description when there is none
+  text: string;
+  // Keywords the page declares about itself (meta keywords, article:tag, JSON-LD), for tag suggestions
+  keywords: string[];
+}
+
+// Elements that never hold the article text
+const NOISE_SELECTORS = 'script, style, noscript, template, svg, nav, header, footer, aside, form, iframe';
+
+// schema.org types whose JSON-LD describes the page itself
+const CONTENT_TYPES = /Article|BlogPosting|Report|WebPage|VideoObject|Recipe|Product|CreativeWork/;
+
+type JsonObject = Record<string, unknown>;
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Cuts text at the last sentence (or word) boundary that fits in `limit`
+export const truncateAtSentence = (text: string, limit: number) => {
+  if (text.length <= limit) return text;
+  const slice = text.slice(0, limit);
+  const sentenceEnd = Math.max(slice.lastIndexOf('. '), slice.lastIndexOf('! '), slice.lastIndexOf('? '));
+  if (sentenceEnd > limit * 0.5) return slice.slice(0, sentenceEnd + 1);
+  return `${slice.slice(0, slice.lastIndexOf(' ') > 0 ? slice.lastIndexOf(' ') : limit)}...`;
+};
+
+// Resolves a possibly relative URL against the page URL; only http(s) results are kept
+const resolveUrl = (value: string | null | undefined, base: string) => {
+  if (!value) return null;
+  try {
+    const url = new URL(value.trim(), base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+// Normalizes a date string to ISO 8601, or null if it can't be parsed
+const toIsoDate = (value: string | null | undefined) => {
+  if (!value) return null;
+  const date = new Date(value.trim());
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const firstNonEmpty = (...values: (string | null | undefined)[]) => {
+  for (const value of values) {
+    const text = value ? collapseWhitespace(value) : '';
+    if (text) return text;
+  }
+  return null;
+};
+
+// Readable text of the main content: <article>, then <main>, then <body>
+const extractMainText = (root: Element | null) => {
+  if (!root) return '';
+  root.querySelectorAll(NOISE_SELECTORS).forEach(node => (node as Element).remove());
+
+  const paragraphs = Array.from(root.querySelectorAll('p'))
+    .map(node => collapseWhitespace(node.textContent))
+    .filter(text => text.length >= 40);
+
+  return paragraphs.length > 0 ? paragraphs.join(' ') : collapseWhitespace(root.textContent);
+};
+
+// Content of the first <meta> whose property or name matches one of the keys, in key order
+const readMeta = (doc: HTMLDocument, ...keys: string[]) => {
+  for (const key of keys) {
+    const value = doc.querySelector(`meta[property="${key}"], meta[name="${key}"]`)?.getAttribute('content');
+    const text = firstNonEmpty(value);
+    if (text) return text;
+  }
+  return null;
+};
+
+// All JSON-LD objects on the page, with @graph containers and arrays flattened
+const readJsonLd = (doc: HTMLDocument): JsonObject[] => {
+  const objects: JsonObject[] = [];
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      const object = value as JsonObject;
+      objects.push(object);
+      if (object['@graph']) visit(object['@graph']);
+    }
+  };
+
+  doc.querySelectorAll('script[type="application/ld+json"]').forEach(node => {
+    try {
+      visit(JSON.parse((node as Element).textContent));
+    } catch {
+      // Ignore malformed blocks; plenty of sites ship them
+    }
+  });
+  return objects;
+};
+
+// Picks a string out of the shapes schema.org allows: "x", { name/url: "x" } or a list of either
+const jsonLdText = (value: unknown, key: 'name' | 'url'): string | null => {
+  if (typeof value === 'string') return firstNonEmpty(value);
+  if (Array.isArray(value)) {
+    const parts = value.map(item => jsonLdText(item, key)).filter((part): part is string => !!part);
+    return key === 'name' && parts.length > 0 ? parts.join(', ') : parts[0] ?? null;
+  }
+  if (value && typeof value === 'object') {
+    const field = (value as JsonObject)[key];
+    return typeof field === 'string' ? firstNonEmpty(field) : null;
+  }
+  return null;
+};
+
+// Author names that are really profile URLs (article:author often is) aren't useful on a card
+const cleanAuthor = (value: string | null) => (value && !/^https?:\/\//i.test(value) ? value : null);
+
+// Largest declared icon size, e.g. "32x32 16x16" -> 32; "any" (SVG) counts as largest
+const iconSize = (sizes: string | null) => {
+  if (!sizes) return 0;
+  if (/any/i.test(sizes)) return Number.MAX_SAFE_INTEGER;
+  return Math.max(0, ...sizes.split(/\s+/).map(size => parseInt(size, 10) || 0));
+};
+
+// Best <link rel=icon>: the largest declared size, falling back to /favicon.ico
+const extractFavicon = (doc: HTMLDocument, pageUrl: string) => {
+  const icons = Array.from(doc.querySelectorAll('link[rel]'))
+    .map(node => node as Element)
+    .filter(node => /(^|\s)(icon|apple-touch-icon)(\s|$)/i.test(node.getAttribute('rel') ?? ''))
+    .map(node => ({ href: resolveUrl(node.getAttribute('href'), pageUrl), size: iconSize(node.getAttribute('sizes')) }))
+    .filter(icon => icon.href)
+    .sort((a, b) => b.size - a.size);
+
+  return icons[0]?.href ?? resolveUrl('/favicon.ico', pageUrl);
+};
+
+// Longest keyword kept; anything longer is a sentence, not a keyword
+const MAX_KEYWORD_LENGTH = 40;
+const MAX_KEYWORDS = 20;
+
+// Declared keywords: <meta name="keywords">, article:tag and JSON-LD keywords, de-duplicated
+const extractKeywords = (doc: HTMLDocument, content: JsonObject) => {
+  const values: string[] = [];
+  doc.querySelectorAll('meta[name="keywords"], meta[name="news_keywords"]').forEach(node => {
+    values.push(...((node as Element).getAttribute('content') ?? '').split(','));
+  });
+  doc.querySelectorAll('meta[property="article:tag"]').forEach(node => {
+    values.push((node as Element).getAttribute('content') ?? '');
+  });
+  const ldKeywords = content.keywords;
+  if (typeof ldKeywords === 'string') values.push(...ldKeywords.split(','));
+  if (Array.isArray(ldKeywords)) values.push(...ldKeywords.filter((value): value is string => typeof value === 'string'));
+
+  const seen = new Set<string>();
+  return values
+    .map(value => collapseWhitespace(value))
+    .filter(value => {
+      const key = value.toLowerCase();
+      if (!value || value.length > MAX_KEYWORD_LENGTH || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_KEYWORDS);
+};
+
+/**
+ * Metadata for pages we can't parse (PDFs, images, empty documents): just the hostname and favicon.
+ */
+export const fallbackMetadata = (pageUrl: string): ExtractedPage => ({
+  title: new URL(pageUrl).hostname,
+  favicon_url: resolveUrl('/favicon.ico', pageUrl),
+  image_url: null,
+  description: null,
+  site_name: null,
+  author: null,
+  published_at: null,
+  canonical_url: pageUrl,
+  text: '',
+  keywords: [],
+});
+
+// True for content types extractMetadata can parse
+export const isHtmlContentType = (contentType: string) => /text\/html|application\/xhtml\+xml/i.test(contentType);
+
+/**
+ * Extracts metadata from an HTML document fetched from `pageUrl`.
+ * Open Graph wins over Twitter Card, which wins over JSON-LD, which wins over plain HTML.
+ */
+export const extractMetadata = (html: string, pageUrl: string): ExtractedPage => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  if (!doc) return fallbackMetadata(pageUrl);
+
+  const jsonLd = readJsonLd(doc);
+  const content = jsonLd.find(object => CONTENT_TYPES.test(String(object['@type'] ?? ''))) ?? jsonLd[0] ?? {};
+  const website = jsonLd.find(object => object['@type'] === 'WebSite');
+
+  const title = firstNonEmpty(
+    readMeta(doc, 'og:title', 'twitter:title'),
+    jsonLdText(content.headline, 'name'),
+    doc.querySelector('title')?.textContent,
+  ) ?? new URL(pageUrl).hostname;
+
+  const description = firstNonEmpty(
+    readMeta(doc, 'og:description', 'twitter:description'),
+    jsonLdText(content.description, 'name'),
+    readMeta(doc, 'description'),
+  );
+
+  const image_url = resolveUrl(
+    readMeta(doc, 'og:image:secure_url', 'og:image', 'og:image:url', 'twitter:image', 'twitter:image:src') ??
+      jsonLdText(content.image, 'url') ??
+      jsonLdText(content.thumbnailUrl, 'url'),
+    pageUrl,
+  );
+
+  const site_name = firstNonEmpty(
+    readMeta(doc, 'og:site_name'),
+    jsonLdText(content.publisher, 'name'),
+    jsonLdText(website?.name, 'name'),
+    readMeta(doc, 'application-name'),
+  );
+
+  const author = cleanAuthor(readMeta(doc, 'author', 'article:author')) ??
+    cleanAuthor(jsonLdText(content.author, 'name')) ??
+    cleanAuthor(readMeta(doc, 'twitter:creator'));
+
+  const published_at = toIsoDate(
+    readMeta(doc, 'article:published_time', 'og:published_time', 'date', 'pubdate', 'dc.date') ??
+      jsonLdText(content.datePublished, 'name') ??
+      doc.querySelector('time[datetime]')?.getAttribute('datetime'),
+  );
+
+  const canonical_url = resolveUrl(
+    doc.querySelector('link[rel="canonical"]')?.getAttribute('href') ?? readMeta(doc, 'og:url'),
+    pageUrl,
+  ) ?? pageUrl;
+
+  const main = doc.querySelector('article') ?? doc.querySelector('main') ?? doc.body;
+  const text = extractMainText(main as Element | null) || description || '';
+
+  return {
+    title: title.slice(0, 500),
+    favicon_url: extractFavicon(doc, pageUrl),
+    image_url,
+    description: description ? truncateAtSentence(description, MAX_DESCRIPTION_LENGTH) : null,
+    site_name,
+    author,
+    published_at,
+    canonical_url,
+    text: text.slice(0, MAX_TEXT_LENGTH),
+    keywords: extractKeywords(doc, content),
+  };
+};
@@ -0,0 +1,232 @@
+// fetch-page.ts
+// Fetches a public web page for server-side processing, with a timeout, a size limit
+// and a guard against requests to private or local addresses. Redirects are followed one
+// hop at a time so every address on the way is checked, not just the first and the last.
+
+// Give up on pages that take longer than this to respond
+export const FETCH_TIMEOUT_MS = 8000;
+
+// Stop reading after this many bytes; metadata lives in the <head> and summaries only need the start of the body
+export const MAX_PAGE_BYTES = 2 * 1024 * 1024;
+
+// Stop following redirects after this many hops
+export const MAX_REDIRECTS = 10;
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; LinkSaverBot/1.0; +https://github.com/itzdiv/omvad_link_saver)';
+
+export class FetchPageError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'FetchPageError';
+  }
+}
+
+export interface FetchedPage {
+  // URL after redirects
+  url: string;
+  status: number;
+  contentType: string;
+  body: string;
+  // True when the body was cut off at MAX_PAGE_BYTES
+  truncated: boolean;
+}
+
+// Looks up the addresses a hostname points to
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+// IPv4 ranges that aren't reachable public hosts, as [network, prefix length]
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, including cloud metadata services
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved, including broadcast
+];
+
+const ipv4ToNumber = (address: string) =>
+  address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+
+const isInIpv4Range = (address: number, [network, prefix]: [string, number]) => {
+  const size = 2 ** (32 - prefix);
+  return Math.floor(address / size) === Math.floor(ipv4ToNumber(network) / size);
+};
+
+// Rejects hosts that point at this machine or private networks (literal addresses and well-known names only)
+export const isPrivateHost = (hostname: string): boolean => {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return true;
+  }
+
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(host)) {
+    const address = ipv4ToNumber(host);
+    return PRIVATE_IPV4_RANGES.some(range => isInIpv4Range(address, range));
+  }
+
+  // IPv4 addresses mapped into IPv6, written either way (URLs normalize to the hex form)
+  const mapped = host.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateHost(mapped[1]);
+  const mappedHex = host.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isPrivateHost(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+
+  // IPv6 loopback, unspecified, unique-local, link-local and multicast ranges
+  return host === '::1' || host === '::' || /^f[cd][0-9a-f]{2}:/.test(host) || /^fe[89ab][0-9a-f]:/.test(host) ||
+    /^ff[0-9a-f]{2}:/.test(host);
+};
+
+/**
+ * Resolves a hostname's IPv4 and IPv6 addresses. A failed lookup gives no addresses; the request
+ * then fails on its own when it can't connect.
+ */
+export const resolveHost: HostResolver = async (hostname) => {
+  const lookups = await Promise.allSettled([Deno.resolveDns(hostname, 'A'), Deno.resolveDns(hostname, 'AAAA')]);
+  return lookups.flatMap(lookup => (lookup.status === 'fulfilled' ? lookup.value : []));
+};
+
+/**
+ * True when a host is private by name or literal address, or when its name resolves to a
+ * private address (e.g. a public domain pointing at 169.254.169.254).
+ */
+export const isPrivateDestination = async (hostname: string, resolve: HostResolver = resolveHost) => {
+  if (isPrivateHost(hostname)) return true;
+  const host = hostname.replace(/^\[|\]$/g, '');
+  // Literal addresses were checked above
+  if (/^[\d.]+$/.test(host) || host.includes(':')) return false;
+  return (await resolve(host)).some(isPrivateHost);
+};
+
+/**
+ * Validates that `value` is a public http(s) URL and returns it parsed.
+ */
+export const parsePublicUrl = (value: unknown): URL => {
+  if (typeof value !== 'string' || value.length > 2048) {
+    throw new FetchPageError('A URL is required', 400);
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new FetchPageError('Invalid URL', 400);
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new FetchPageError('Only http and https URLs are supported', 400);
+  }
+  if (isPrivateHost(url.hostname)) {
+    throw new FetchPageError('Private and local addresses are not allowed', 400);
+  }
+
+  return url;
+};
+
+// Reads at most `limit` bytes of the response body
+const readLimited = async (response: Response, limit: number) => {
+  const reader = response.body?.getReader();
+  if (!reader) return { bytes: new Uint8Array(), truncated: false };
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let truncated = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+    if (size >= limit) {
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+  }
+
+  const bytes = new Uint8Array(Math.min(size, limit));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, bytes.length - offset);
+    bytes.set(part, offset);
+    offset += part.length;
+    if (offset >= bytes.length) break;
+  }
+
+  return { bytes, truncated };
+};
+
+export interface FetchPageOptions {
+  fetcher?: (url: string, init: RequestInit) => Promise<Response>;
+  resolve?: HostResolver;
+}
+
+/**
+ * Fetches a page as text. Throws FetchPageError on timeouts, network failures, too many
+ * redirects and private addresses, including any a redirect passes through; non-2xx responses
+ * are returned as-is.
+ */
+export const fetchPage = async (
+  url: URL,
+  { fetcher = (target, init) => fetch(target, init), resolve = resolveHost }: FetchPageOptions = {}
+): Promise<FetchedPage> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    let current = url;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      if (await isPrivateDestination(current.hostname, resolve)) {
+        throw new FetchPageError(
+          hop === 0 ? 'Private and local addresses are not allowed' : 'The page redirected to a private address',
+          400
+        );
+      }
+
+      const response = await fetcher(current.toString(), {
+        signal: controller.signal,
+        redirect: 'manual',
+        headers: {
+          'User-Agent': USER_AGENT,
+          'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5',
+        },
+      });
+
+      const location = response.headers.get('location');
+      if (REDIRECT_STATUSES.has(response.status) && location) {
+        await response.body?.cancel();
+        current = new URL(location, current);
+        if (current.protocol !== 'http:' && current.protocol !== 'https:') {
+          throw new FetchPageError('The page redirected to an unsupported address', 400);
+        }
+        continue;
+      }
+
+      const { bytes, truncated } = await readLimited(response, MAX_PAGE_BYTES);
+      return {
+        url: current.toString(),
+        status: response.status,
+        contentType: response.headers.get('content-type') ?? '',
+        body: new TextDecoder().decode(bytes),
+        truncated,
+      };
+    }
+    throw new FetchPageError(`The page redirected more than ${MAX_REDIRECTS} times`, 502);
+  } catch (error) {
+    if (error instanceof FetchPageError) throw error;
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      throw new FetchPageError(`The page took longer than ${FETCH_TIMEOUT_MS / 1000}s to respond`, 504);
+    }
+    throw new FetchPageError(`Could not fetch the page: ${(error as Error).message}`, 502);
+  } finally {
+    clearTimeout(timeout);
+  }
+};
@@ -0,0 +1,163 @@
+// link-check.ts
+// Checks whether a saved link still works: follows redirects one hop at a time so the final
+// URL and each hop's address can be checked, and sorts the outcome into a link status.
+// Also decides how a result is recorded: how many checks in a row have failed and when to
+// check again. The fetcher is injectable so the checker can be run against a local HTTP stub.
+
+import { FETCH_TIMEOUT_MS, type HostResolver, isPrivateDestination, MAX_REDIRECTS, resolveHost } from './fetch-page.ts';
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; LinkSaverBot/1.0; +https://github.com/itzdiv/omvad_link_saver)';
+
+// Working links are checked again after a week; failing ones after a day
+export const RECHECK_OK_MS = 7 * 24 * 60 * 60 * 1000;
+export const RECHECK_FAILED_MS = 24 * 60 * 60 * 1000;
+
+// Stored in bookmarks.link_status
+export type LinkStatus = 'ok' | 'moved' | 'not_found' | 'timeout' | 'error';
+
+export interface LinkCheckResult {
+  status: LinkStatus;
+  // Status code of the last response; null when no response arrived
+  httpStatus: number | null;
+  // Where a permanent redirect led, for 'moved'; null otherwise
+  finalUrl: string | null;
+  // What went wrong, for logs
+  error: string | null;
+}
+
+export type Fetcher = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface LinkCheckerOptions {
+  fetcher?: Fetcher;
+  // Looks up hostnames, so links resolving to private addresses are refused
+  resolve?: HostResolver;
+  timeoutMs?: number;
+  // Only for running against a local stub; real checks never request private addresses
+  allowPrivateHosts?: boolean;
+}
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const PERMANENT_REDIRECT_STATUSES = new Set([301, 308]);
+// The page is there but turns away bots or needs a login, so the link itself isn't broken
+const REACHABLE_ERROR_STATUSES = new Set([401, 403, 429]);
+
+// Ignores the differences a redirect commonly adds without the page moving:
+// http -> https, "www.", default ports and a trailing slash
+const sameResource = (a: URL, b: URL) => {
+  const key = (url: URL) =>
+    `${url.hostname.replace(/^www\./, '')}${url.pathname.replace(/\/+$/, '')}${url.search}`;
+  return key(a) === key(b);
+};
+
+/**
+ * Builds a checker that requests a URL and classifies the response:
+ * - ok: a 2xx response, or one that only turns bots away (401, 403, 429)
+ * - moved: a 2xx response reached through a permanent redirect (301/308) to a different page
+ * - not_found: 404 or 410
+ * - timeout: no response within the timeout
+ * - error: any other status, a network failure, a redirect loop or a redirect to a private address
+ * HEAD is tried first; servers that don't handle it get a GET.
+ */
+export const createLinkChecker = ({
+  fetcher = (url, init) => fetch(url, init),
+  resolve = resolveHost,
+  timeoutMs = FETCH_TIMEOUT_MS,
+  allowPrivateHosts = false,
+}: LinkCheckerOptions = {}) => {
+  // One request without following redirects; the body is never read
+  const request = async (url: URL, method: 'HEAD' | 'GET', signal: AbortSignal) => {
+    const response = await fetcher(url.toString(), {
+      method,
+      signal,
+      redirect: 'manual',
+      headers: {
+        'User-Agent': USER_AGENT,
+        'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5',
+      },
+    });
+    await response.body?.cancel();
+    return response;
+  };
+
+  return async (value: string): Promise<LinkCheckResult> => {
+    const fail = (status: LinkStatus, error: string, httpStatus: number | null = null): LinkCheckResult =>
+      ({ status, httpStatus, finalUrl: null, error });
+
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      return fail('error', 'Invalid URL');
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return fail('error', 'Only http and https URLs can be checked');
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    const original = url;
+    let movedPermanently = false;
+
+    try {
+      for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        if (!allowPrivateHosts && (await isPrivateDestination(url.hostname, resolve))) {
+          return fail('error', 'The link points to a private address');
+        }
+
+        let response = await request(url, 'HEAD', controller.signal);
+        if (response.status >= 400) {
+          response = await request(url, 'GET', controller.signal);
+        }
+
+        const location = response.headers.get('location');
+        if (REDIRECT_STATUSES.has(response.status) && location) {
+          // Only an unbroken chain of permanent redirects means the page has moved
+          movedPermanently = (hop === 0 || movedPermanently) && PERMANENT_REDIRECT_STATUSES.has(response.status);
+          url = new URL(location, url);
+          continue;
+        }
+
+        if (response.status === 404 || response.status === 410) {
+          return fail('not_found', `HTTP ${response.status}`, response.status);
+        }
+        if (response.status >= 400 && !REACHABLE_ERROR_STATUSES.has(response.status)) {
+          return fail('error', `HTTP ${response.status}`, response.status);
+        }
+
+        const moved = movedPermanently && !sameResource(original, url);
+        return {
+          status: moved ? 'moved' : 'ok',
+          httpStatus: response.status,
+          finalUrl: moved ? url.toString() : null,
+          error: null,
+        };
+      }
+      return fail('error', `More than ${MAX_REDIRECTS} redirects`);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return fail('timeout', `No response within ${timeoutMs / 1000}s`);
+      }
+      return fail('error', (error as Error).message);
+    } finally {
+      clearTimeout(timeout);
+    }
+  };
+};
+
+/**
+ * True when a check found the link broken: anything but ok or moved.
+ */
+export const isLinkFailure = (result: LinkCheckResult) => result.status !== 'ok' && result.status !== 'moved';
+
+/**
+ * Consecutive failed checks including this one: one more than before when it failed, and back to
+ * zero as soon as the link works again.
+ */
+export const nextFailureCount = (result: LinkCheckResult, previousFailures: number) =>
+  isLinkFailure(result) ? previousFailures + 1 : 0;
+
+/**
+ * When to check the link again after this result.
+ */
+export const nextCheckAt = (result: LinkCheckResult, now = Date.now()) =>
+  new Date(now + (isLinkFailure(result) ? RECHECK_FAILED_MS : RECHECK_OK_MS)).toISOString();
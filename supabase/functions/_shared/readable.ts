@@ -0,0 +1,204 @@
+// readable.ts
+// Readability-style article extraction for archived snapshots. Scores the page's blocks by how
+// much paragraph text they hold, keeps the best container and rewrites it as sanitized HTML:
+// an allowlist of formatting tags, absolute http(s) links and images, and no scripts, styles,
+// event handlers or inline attributes. Also returns the plain text.
+// Kept free of I/O so it can be exercised with fixture HTML.
+
+import { DOMParser, type Element, type HTMLDocument, type Node } from 'https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts';
+
+export interface ReadableArticle {
+  title: string;
+  byline: string | null;
+  // First paragraph or so, for previews
+  excerpt: string | null;
+  // Sanitized article HTML (a fragment, no <html> or <body>)
+  html: string;
+  text: string;
+  wordCount: number;
+}
+
+// Removed before scoring; they never hold the article
+const NOISE_SELECTORS = 'script, style, noscript, template, svg, canvas, nav, header, footer, aside, form, iframe, object, embed, button, input, select, textarea, dialog';
+
+// Class names and ids of page furniture, unless they also look like content
+const UNLIKELY_CANDIDATES = /comment|sidebar|share|social|related|promo|advert|sponsor|cookie|consent|newsletter|subscribe|popup|modal|menu|breadcrumb|pagination|masthead|banner|disqus|outbrain|taboola/i;
+const LIKELY_CANDIDATES = /article|body|content|entry|main|post|story|text|prose/i;
+
+// Tags kept in the snapshot; every other element is unwrapped (its children are kept)
+const ALLOWED_TAGS = new Set([
+  'p', 'br', 'hr', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'dl', 'dt', 'dd',
+  'blockquote', 'pre', 'code', 'em', 'strong', 'b', 'i', 'u', 's', 'del', 'ins', 'mark',
+  'small', 'sub', 'sup', 'abbr', 'cite', 'q', 'time', 'a', 'img', 'figure', 'figcaption',
+  'table', 'caption', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td',
+]);
+// Headings are shifted down so the snapshot's own title stays the only <h1>
+const RENAMED_TAGS: Record<string, string> = { h1: 'h2' };
+const VOID_TAGS = new Set(['br', 'hr', 'img']);
+// Tags whose text counts as article content when scoring
+const SCORED_TAGS = 'p, pre, td, blockquote, li';
+
+const EXCERPT_LENGTH = 300;
+// A paragraph shorter than this doesn't count towards its container's score
+const MIN_PARAGRAPH_LENGTH = 25;
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Resolves a link or image address against the page; only http(s) (and mailto for links) are kept
+const safeUrl = (value: string | null, base: string, allowMailto = false) => {
+  if (!value) return null;
+  try {
+    const url = new URL(value.trim(), base);
+    if (url.protocol === 'http:' || url.protocol === 'https:') return url.toString();
+    return allowMailto && url.protocol === 'mailto:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+// Share of an element's text that sits inside links; menus and link lists score close to 1
+const linkDensity = (element: Element) => {
+  const length = collapseWhitespace(element.textContent).length;
+  if (length === 0) return 0;
+  const linkLength = Array.from(element.querySelectorAll('a'))
+    .reduce((sum, link) => sum + collapseWhitespace((link as Element).textContent).length, 0);
+  return linkLength / length;
+};
+
+const classAndId = (element: Element) => `${element.getAttribute('class') ?? ''} ${element.getAttribute('id') ?? ''}`;
+
+// Drops page furniture so it can't win the scoring
+const removeUnlikelyCandidates = (root: Element) => {
+  root.querySelectorAll(NOISE_SELECTORS).forEach(node => (node as Element).remove());
+  root.querySelectorAll('div, section, span, ul, table').forEach(node => {
+    const element = node as Element;
+    const names = classAndId(element);
+    if (UNLIKELY_CANDIDATES.test(names) && !LIKELY_CANDIDATES.test(names)) element.remove();
+  });
+};
+
+// The element holding most of the article text: each paragraph scores for its parent and,
+// at half weight, its grandparent; scores are then discounted by link density
+const findArticleRoot = (doc: HTMLDocument): Element | null => {
+  const scores = new Map<Element, number>();
+
+  doc.querySelectorAll(SCORED_TAGS).forEach(node => {
+    const text = collapseWhitespace((node as Element).textContent);
+    if (text.length < MIN_PARAGRAPH_LENGTH) return;
+    const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+
+    const parent = (node as Element).parentElement;
+    const grandparent = parent?.parentElement;
+    if (parent) scores.set(parent, (scores.get(parent) ?? 0) + score);
+    if (grandparent) scores.set(grandparent, (scores.get(grandparent) ?? 0) + score / 2);
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  for (const [element, score] of scores) {
+    const bonus = LIKELY_CANDIDATES.test(classAndId(element)) || element.tagName === 'ARTICLE' ? 1.25 : 1;
+    const adjusted = score * bonus * (1 - linkDensity(element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  }
+
+  return best ?? (doc.querySelector('article') as Element | null) ?? (doc.querySelector('main') as Element | null) ?? doc.body;
+};
+
+// Rewrites a node and its children as sanitized HTML
+const serialize = (node: Node, base: string): string => {
+  if (node.nodeType === 3) return escapeHtml(node.textContent);
+  if (node.nodeType !== 1) return '';
+
+  const element = node as Element;
+  const source = element.tagName.toLowerCase();
+  const tag = RENAMED_TAGS[source] ?? source;
+  const children = Array.from(element.childNodes).map(child => serialize(child, base)).join('');
+  if (!ALLOWED_TAGS.has(tag)) return children;
+
+  let attributes = '';
+  if (tag === 'a') {
+    const href = safeUrl(element.getAttribute('href'), base, true);
+    if (!href) return children;
+    attributes = ` href="${escapeHtml(href)}" rel="noopener noreferrer nofollow" target="_blank"`;
+  } else if (tag === 'img') {
+    const src = safeUrl(element.getAttribute('src') ?? element.getAttribute('data-src'), base);
+    if (!src) return '';
+    attributes = ` src="${escapeHtml(src)}" alt="${escapeHtml(element.getAttribute('alt') ?? '')}" loading="lazy"`;
+  } else if (tag === 'time') {
+    const datetime = element.getAttribute('datetime');
+    if (datetime) attributes = ` datetime="${escapeHtml(datetime)}"`;
+  } else if (tag === 'td' || tag === 'th') {
+    for (const name of ['colspan', 'rowspan']) {
+      const value = element.getAttribute(name);
+      if (value && /^\d+$/.test(value)) attributes += ` ${name}="${value}"`;
+    }
+  }
+
+  if (VOID_TAGS.has(tag)) return `<${tag}${attributes}>`;
+  // Blocks left empty by the cleanup are dropped
+  if (!children.trim() && tag !== 'td' && tag !== 'th') return '';
+  return `<${tag}${attributes}>${children}</${tag}>`;
+};
+
+const readMeta = (doc: HTMLDocument, ...keys: string[]) => {
+  for (const key of keys) {
+    const value = doc.querySelector(`meta[property="${key}"], meta[name="${key}"]`)?.getAttribute('content');
+    if (value && collapseWhitespace(value)) return collapseWhitespace(value);
+  }
+  return null;
+};
+
+// True when the element sits inside another text block, whose text already includes it
+const isNestedBlock = (element: Element) => {
+  for (let parent = element.parentElement; parent; parent = parent.parentElement) {
+    if (['P', 'LI', 'PRE', 'BLOCKQUOTE'].includes(parent.tagName)) return true;
+  }
+  return false;
+};
+
+// Plain text of the article, one paragraph per block
+const toPlainText = (root: Element) => {
+  const blocks = Array.from(root.querySelectorAll('h1, h2, h3, h4, h5, h6, p, li, pre, blockquote, figcaption, td, th'))
+    .filter(node => !isNestedBlock(node as Element))
+    .map(node => collapseWhitespace((node as Element).textContent))
+    .filter(Boolean);
+  return blocks.length > 0 ? blocks.join('\n\n') : collapseWhitespace(root.textContent);
+};
+
+/**
+ * Extracts the readable article from an HTML page fetched from `pageUrl`.
+ * Returns null when the page has no text worth keeping.
+ */
+export const extractReadable = (html: string, pageUrl: string): ReadableArticle | null => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  if (!doc?.body) return null;
+
+  const title = readMeta(doc, 'og:title', 'twitter:title') ??
+    (collapseWhitespace(doc.querySelector('title')?.textContent ?? '') || new URL(pageUrl).hostname);
+  const byline = readMeta(doc, 'author', 'article:author');
+
+  removeUnlikelyCandidates(doc.body as Element);
+  const root = findArticleRoot(doc);
+  if (!root) return null;
+
+  const text = toPlainText(root);
+  if (!text) return null;
+
+  const sanitized = Array.from(root.childNodes).map(child => serialize(child, pageUrl)).join('').trim();
+  const firstParagraph = text.split('\n\n').find(block => block.length >= MIN_PARAGRAPH_LENGTH) ?? text;
+
+  return {
+    title: title.slice(0, 500),
+    byline,
+    excerpt: firstParagraph.length > EXCERPT_LENGTH ? `${firstParagraph.slice(0, EXCERPT_LENGTH - 1).trimEnd()}…` : firstParagraph,
+    html: sanitized,
+    text,
+    wordCount: text.split(/\s+/).filter(Boolean).length,
+  };
+};
@@ -0,0 +1,34 @@
+// snapshot-files.ts
+// Archived snapshot files. They live in the private "snapshots" Storage bucket under
+// <owner id>/<bookmark id>/. Their rows are deleted with their bookmark, but the files can only
+// be removed through the Storage API, and only while the rows still say where they are.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export const SNAPSHOT_BUCKET = 'snapshots';
+
+// Bookmark ids per snapshots query; they go in the request's query string
+const IDS_PER_QUERY = 100;
+// Most files Storage removes in one request
+const PATHS_PER_REMOVE = 1000;
+
+/**
+ * Removes the stored files of the given bookmarks' snapshots. Call it before deleting the
+ * bookmarks; it throws if any files couldn't be removed, so the bookmarks can be kept to try again.
+ */
+export const removeSnapshotFiles = async (client: SupabaseClient, bookmarkIds: string[]) => {
+  const paths: string[] = [];
+  for (let i = 0; i < bookmarkIds.length; i += IDS_PER_QUERY) {
+    const { data, error } = await client
+      .from('snapshots')
+      .select('html_path, text_path')
+      .in('bookmark_id', bookmarkIds.slice(i, i + IDS_PER_QUERY));
+    if (error) throw error;
+    paths.push(...(data ?? []).flatMap(snapshot => [snapshot.html_path, snapshot.text_path]));
+  }
+
+  for (let i = 0; i < paths.length; i += PATHS_PER_REMOVE) {
+    const { error } = await client.storage.from(SNAPSHOT_BUCKET).remove(paths.slice(i, i + PATHS_PER_REMOVE));
+    if (error) throw error;
+  }
+};
@@ -0,0 +1,109 @@
+// extractive.ts
+// Local summarizer that picks the most representative sentences from the article (no network).
+// Sentences are scored by how many of the article's frequent words they contain, with a bonus
+// for words from the title and for appearing early, then the best ones are kept in reading order.
+
+import { MAX_KEY_POINTS, normalizeSummary, type Summarizer } from './summarizer.ts';
+
+// Sentences shorter or longer than this are usually captions, navigation or run-on fragments
+const MIN_SENTENCE_LENGTH = 40;
+const MAX_SENTENCE_LENGTH = 300;
+// Articles with fewer usable sentences than this are summarized by their first sentence alone
+const MIN_SENTENCES_FOR_POINTS = 3;
+// Sentences sharing more than this fraction of their words with a chosen one are skipped
+const MAX_OVERLAP = 0.6;
+
+const STOP_WORDS = new Set(
+  ('a about above after again against all am an and any are as at be because been before being below between ' +
+    'both but by can could did do does doing down during each few for from further had has have having he her here ' +
+    'hers herself him himself his how i if in into is it its itself just me more most my myself no nor not now of ' +
+    'off on once only or other our ours ourselves out over own same she should so some such than that the their ' +
+    'theirs them themselves then there these they this those through to too under until up very was we were what ' +
+    'when where which while who whom why will with would you your yours yourself yourselves also may might must ' +
+    'one new like get got use used using make many much even well way us let')
+    .split(' '),
+);
+
+interface ScoredSentence {
+  index: number;
+  text: string;
+  words: Set<string>;
+  score: number;
+}
+
+// Splits on sentence-ending punctuation followed by whitespace and an uppercase letter, digit or quote
+const splitSentences = (text: string) =>
+  text
+    .replace(/\s+/g, ' ')
+    .split(/(?<=[.!?])\s+(?=["'“(\p{Lu}\d])/u)
+    .map(sentence => sentence.trim());
+
+const contentWords = (text: string) =>
+  (text.toLowerCase().match(/\p{L}[\p{L}\p{N}'-]*/gu) ?? [])
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+
+const overlap = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => {
+    if (b.has(word)) shared++;
+  });
+  return shared / Math.min(a.size, b.size);
+};
+
+/**
+ * Scores every usable sentence; higher is more representative of the article.
+ */
+const scoreSentences = (title: string, text: string): ScoredSentence[] => {
+  const sentences = splitSentences(text)
+    .filter(sentence => sentence.length >= MIN_SENTENCE_LENGTH && sentence.length <= MAX_SENTENCE_LENGTH);
+
+  const frequency = new Map<string, number>();
+  sentences.forEach(sentence => {
+    contentWords(sentence).forEach(word => frequency.set(word, (frequency.get(word) ?? 0) + 1));
+  });
+  const maxFrequency = Math.max(1, ...frequency.values());
+  const titleWords = new Set(contentWords(title));
+
+  return sentences.map((sentence, index) => {
+    const words = contentWords(sentence);
+    const unique = new Set(words);
+    const weight = words.reduce((sum, word) => sum + (frequency.get(word) ?? 0) / maxFrequency, 0);
+    const titleBonus = overlap(unique, titleWords) * 0.5;
+    // Openings tend to state what the article is about
+    const positionBonus = 0.3 / (1 + index / 3);
+
+    return {
+      index,
+      text: sentence,
+      words: unique,
+      score: words.length > 0 ? weight / Math.sqrt(words.length) + titleBonus + positionBonus : 0,
+    };
+  });
+};
+
+/**
+ * Builds the extractive summarizer: the best sentence is the TL;DR and the next best are key points.
+ */
+export const createExtractiveSummarizer = (): Summarizer => ({
+  name: 'extractive',
+  summarize({ title, text }) {
+    const scored = scoreSentences(title, text);
+    if (scored.length === 0) return Promise.resolve(null);
+
+    // Greedily pick the best sentences, skipping ones that repeat an earlier pick
+    const picked: ScoredSentence[] = [];
+    for (const sentence of [...scored].sort((a, b) => b.score - a.score)) {
+      if (picked.length > MAX_KEY_POINTS) break;
+      if (picked.some(other => overlap(sentence.words, other.words) > MAX_OVERLAP)) continue;
+      picked.push(sentence);
+    }
+
+    const [tldr, ...rest] = picked;
+    const keyPoints = scored.length >= MIN_SENTENCES_FOR_POINTS
+      ? rest.sort((a, b) => a.index - b.index).map(sentence => sentence.text)
+      : [];
+
+    return Promise.resolve(normalizeSummary({ tldr: tldr.text, key_points: keyPoints }));
+  },
+});
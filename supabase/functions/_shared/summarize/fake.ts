@@ -0,0 +1,21 @@
+// fake.ts
+// Deterministic summarizer for tests and local development: the same input always gives the same output
+// and nothing leaves the machine.
+
+import { normalizeSummary, type Summarizer } from './summarizer.ts';
+
+/**
+ * Summarizes as "<title>: <first sentence>", with the next sentences as key points.
+ */
+export const createFakeSummarizer = (): Summarizer => ({
+  name: 'fake',
+  summarize({ title, text }) {
+    const sentences = text.split(/(?<=[.!?])\s+/).map(sentence => sentence.trim()).filter(Boolean);
+    if (sentences.length === 0) return Promise.resolve(null);
+
+    return Promise.resolve(normalizeSummary({
+      tldr: `${title}: ${sentences[0]}`,
+      key_points: sentences.slice(1, 4),
+    }));
+  },
+});
@@ -0,0 +1,43 @@
+// index.ts
+// Picks a Summarizer implementation from the environment.
+//
+// SUMMARIZER=extractive (default)  sentence scoring, no network
+// SUMMARIZER=llm                   OpenAI-compatible chat completions API (see llm.ts);
+//                                  falls back to extractive if the API call fails
+// SUMMARIZER=fake                  deterministic output for tests and local development
+
+import { createExtractiveSummarizer } from './extractive.ts';
+import { createFakeSummarizer } from './fake.ts';
+import { createLlmSummarizer } from './llm.ts';
+import type { Summarizer } from './summarizer.ts';
+
+export type { Summarizer, SummarizerInput, Summary } from './summarizer.ts';
+
+// Uses `fallback` whenever `primary` throws, so a flaky API never blocks enrichment
+const withFallback = (primary: Summarizer, fallback: Summarizer): Summarizer => ({
+  name: primary.name,
+  async summarize(input) {
+    try {
+      return await primary.summarize(input);
+    } catch (error) {
+      console.error(`${primary.name} summarizer failed, using ${fallback.name}:`, (error as Error).message);
+      return fallback.summarize(input);
+    }
+  },
+});
+
+/**
+ * Builds the summarizer selected by the SUMMARIZER environment variable.
+ */
+export const createSummarizer = (env: (key: string) => string | undefined = key => Deno.env.get(key)): Summarizer => {
+  switch (env('SUMMARIZER') ?? 'extractive') {
+    case 'llm':
+      return withFallback(createLlmSummarizer(env), createExtractiveSummarizer());
+    case 'fake':
+      return createFakeSummarizer();
+    case 'extractive':
+      return createExtractiveSummarizer();
+    default:
+      throw new Error(`Unknown SUMMARIZER "${env('SUMMARIZER')}" (expected extractive, llm or fake)`);
+  }
+};
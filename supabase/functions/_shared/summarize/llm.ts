@@ -0,0 +1,73 @@
+// llm.ts
+// Summarizer backed by an OpenAI-compatible chat completions API.
+//
+// LLM_API_KEY   required
+// LLM_API_URL   defaults to https://api.openai.com/v1/chat/completions
+// LLM_MODEL     defaults to gpt-4o-mini
+
+import { normalizeSummary, MAX_KEY_POINTS, type Summarizer } from './summarizer.ts';
+
+const DEFAULT_API_URL = 'https://api.openai.com/v1/chat/completions';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+// Give up on the API after this long; the caller falls back to the extractive summarizer
+const REQUEST_TIMEOUT_MS = 20_000;
+// Characters of article text sent to the model
+const MAX_INPUT_LENGTH = 12_000;
+
+const SYSTEM_PROMPT =
+  'You summarize web pages for a bookmark manager. Reply with JSON only: ' +
+  `{"tldr": "<one or two plain sentences>", "key_points": ["<up to ${MAX_KEY_POINTS} short points>"]}. ` +
+  'Use only facts from the page. Write in the language of the page. No markdown.';
+
+/**
+ * Builds the LLM summarizer from environment variables. Throws if LLM_API_KEY is missing.
+ */
+export const createLlmSummarizer = (env: (key: string) => string | undefined): Summarizer => {
+  const apiKey = env('LLM_API_KEY');
+  if (!apiKey) throw new Error('SUMMARIZER=llm requires LLM_API_KEY');
+  const apiUrl = env('LLM_API_URL') ?? DEFAULT_API_URL;
+  const model = env('LLM_MODEL') ?? DEFAULT_MODEL;
+
+  return {
+    name: 'llm',
+    async summarize({ title, text, url }) {
+      if (!text.trim()) return null;
+
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model,
+          temperature: 0.2,
+          response_format: { type: 'json_object' },
+          messages: [
+            { role: 'system', content: SYSTEM_PROMPT },
+            { role: 'user', content: `Title: ${title}\nURL: ${url}\n\n${text.slice(0, MAX_INPUT_LENGTH)}` },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`LLM API responded with HTTP ${response.status}`);
+      }
+
+      const completion = await response.json();
+      const content = completion?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') throw new Error('LLM API returned no content');
+
+      const parsed = JSON.parse(content);
+      if (typeof parsed?.tldr !== 'string' || !Array.isArray(parsed?.key_points)) {
+        throw new Error('LLM reply is missing tldr or key_points');
+      }
+
+      return normalizeSummary({
+        tldr: parsed.tldr,
+        key_points: parsed.key_points.filter((point: unknown): point is string => typeof point === 'string'),
+      });
+    },
+  };
+};
@@ -0,0 +1,46 @@
+// summarizer.ts
+// The Summarizer interface shared by every implementation, and the limits their output is held to.
+
+export interface SummarizerInput {
+  title: string;
+  // Readable article text
+  text: string;
+  url: string;
+}
+
+export interface Summary {
+  // One or two sentences
+  tldr: string;
+  // Short bullet points, most important first
+  key_points: string[];
+}
+
+export interface Summarizer {
+  // Used in logs
+  name: string;
+  // Resolves to null when there isn't enough text to summarize
+  summarize(input: SummarizerInput): Promise<Summary | null>;
+}
+
+// Upper bounds every implementation's output is clamped to
+export const MAX_TLDR_LENGTH = 400;
+export const MAX_KEY_POINTS = 5;
+export const MAX_KEY_POINT_LENGTH = 200;
+
+const clamp = (text: string, limit: number) =>
+  text.length <= limit ? text : `${text.slice(0, limit - 1).trimEnd()}…`;
+
+/**
+ * Trims whitespace, drops empty points and enforces the length limits.
+ */
+export const normalizeSummary = (summary: Summary): Summary | null => {
+  const tldr = clamp(summary.tldr.replace(/\s+/g, ' ').trim(), MAX_TLDR_LENGTH);
+  if (!tldr) return null;
+
+  const key_points = summary.key_points
+    .map(point => clamp(point.replace(/\s+/g, ' ').replace(/^[-*•]\s*/, '').trim(), MAX_KEY_POINT_LENGTH))
+    .filter(point => point && point !== tldr)
+    .slice(0, MAX_KEY_POINTS);
+
+  return { tldr, key_points };
+};
@@ -0,0 +1,160 @@
+// archive-bookmark edge function
+// Saves a permanent, readable snapshot of a bookmarked page: fetches it, extracts the article
+// as sanitized HTML plus plain text, uploads both to the "snapshots" Storage bucket and records
+// a new version in the snapshots table. Archiving a page whose content hasn't changed only
+// updates the latest version's fetched_at.
+//
+// POST { bookmark_id } -> archive one bookmark, with the caller's token
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { FetchPageError, fetchPage, parsePublicUrl } from '../_shared/fetch-page.ts';
+import { isHtmlContentType } from '../_shared/extract.ts';
+import { extractReadable, type ReadableArticle } from '../_shared/readable.ts';
+import { SNAPSHOT_BUCKET } from '../_shared/snapshot-files.ts';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY')!;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Wraps the article in a standalone document. The content security policy blocks scripts and
+// any requests other than images, in case the file is ever opened directly.
+const renderDocument = (article: ReadableArticle, url: string, fetchedAt: string) => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src http: https: data:; style-src 'unsafe-inline'">
+<title>${escapeHtml(article.title)}</title>
+</head>
+<body>
+<article>
+<header>
+<h1>${escapeHtml(article.title)}</h1>
+${article.byline ? `<p class="byline">${escapeHtml(article.byline)}</p>\n` : ''}<p class="source">Archived from <a href="${escapeHtml(url)}" rel="noopener noreferrer nofollow" target="_blank">${escapeHtml(url)}</a> on <time datetime="${fetchedAt}">${fetchedAt.slice(0, 10)}</time></p>
+</header>
+${article.html}
+</article>
+</body>
+</html>
+`;
+
+const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { bookmark_id: bookmarkId } = await req.json().catch(() => ({}));
+    if (typeof bookmarkId !== 'string') {
+      return jsonResponse({ error: 'bookmark_id is required' }, 400);
+    }
+
+    // Act as the caller, so row level security limits them to their own bookmarks and files
+    const client = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    });
+
+    const { data: bookmark, error: bookmarkError } = await client
+      .from('bookmarks')
+      .select('id, url, user_id')
+      .eq('id', bookmarkId)
+      .maybeSingle();
+    if (bookmarkError) throw bookmarkError;
+    if (!bookmark) return jsonResponse({ error: 'Bookmark not found' }, 404);
+
+    const page = await fetchPage(parsePublicUrl(bookmark.url));
+    if (page.status >= 400) {
+      throw new FetchPageError(`The page responded with HTTP ${page.status}`, 502);
+    }
+    if (!isHtmlContentType(page.contentType)) {
+      throw new FetchPageError('Only web pages can be archived', 422);
+    }
+
+    const article = extractReadable(page.body, page.url);
+    if (!article) {
+      throw new FetchPageError('No readable content was found on the page', 422);
+    }
+
+    const fetchedAt = new Date().toISOString();
+    const contentHash = await sha256(article.html);
+
+    // Same content as the latest version: just record that it was fetched again
+    const { data: latest, error: latestError } = await client
+      .from('snapshots')
+      .select('id, content_hash')
+      .eq('bookmark_id', bookmarkId)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (latestError) throw latestError;
+
+    if (latest?.content_hash === contentHash) {
+      const { data: snapshot, error } = await client
+        .from('snapshots')
+        .update({ fetched_at: fetchedAt })
+        .eq('id', latest.id)
+        .select()
+        .single();
+      if (error) throw error;
+      await client.from('bookmarks').update({ last_snapshot_at: fetchedAt }).eq('id', bookmarkId);
+      return jsonResponse({ snapshot, unchanged: true });
+    }
+
+    const snapshotId = crypto.randomUUID();
+    const folder = `${bookmark.user_id}/${bookmarkId}`;
+    const htmlPath = `${folder}/${snapshotId}.html`;
+    const textPath = `${folder}/${snapshotId}.txt`;
+    const storage = client.storage.from(SNAPSHOT_BUCKET);
+
+    const uploads = await Promise.all([
+      storage.upload(htmlPath, renderDocument(article, page.url, fetchedAt), { contentType: 'text/html; charset=utf-8' }),
+      storage.upload(textPath, `${article.title}\n\n${article.text}\n`, { contentType: 'text/plain; charset=utf-8' }),
+    ]);
+    const uploadError = uploads.find(upload => upload.error)?.error;
+    if (uploadError) {
+      await storage.remove([htmlPath, textPath]);
+      throw uploadError;
+    }
+
+    // The version number is assigned by a trigger
+    const { data: snapshot, error: insertError } = await client
+      .from('snapshots')
+      .insert({
+        id: snapshotId,
+        user_id: bookmark.user_id,
+        bookmark_id: bookmarkId,
+        version: 0,
+        url: page.url,
+        title: article.title,
+        byline: article.byline,
+        excerpt: article.excerpt,
+        word_count: article.wordCount,
+        html_path: htmlPath,
+        text_path: textPath,
+        content_hash: contentHash,
+        fetched_at: fetchedAt,
+      })
+      .select()
+      .single();
+    if (insertError) {
+      await storage.remove([htmlPath, textPath]);
+      throw insertError;
+    }
+
+    return jsonResponse({ snapshot, unchanged: false });
+  } catch (error) {
+    console.error('archive-bookmark failed:', error);
+    const status = error instanceof FetchPageError ? error.status : 500;
+    return jsonResponse({ error: (error as Error).message }, status);
+  }
+});
@@ -0,0 +1,130 @@
+// check-links edge function
+// Link health checker. Requests saved URLs and records the HTTP status, where a permanent
+// redirect leads, when the link was checked and how many checks in a row have failed.
+// Working links are checked again after a week; failing ones after a day.
+//
+// POST { bookmark_ids } -> check these bookmarks now, with the caller's token (the "Check links" action)
+// POST {}               -> check the links that are due; service role only (called every hour by pg_cron)
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import {
+  createLinkChecker,
+  type LinkCheckResult,
+  nextCheckAt,
+  nextFailureCount,
+} from '../_shared/link-check.ts';
+
+// Links checked per scheduled run
+const BATCH_SIZE = 50;
+// Most bookmarks a user can check at once
+const MAX_ON_DEMAND = 100;
+// Requests in flight at the same time
+const CONCURRENCY = 10;
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY')!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const checkLink = createLinkChecker();
+
+interface LinkCheckJob {
+  id: string;
+  url: string;
+  // Consecutive failed checks before this one
+  failure_count: number;
+}
+
+// Link health columns as written back to the bookmark
+interface LinkHealth {
+  id: string;
+  link_status: LinkCheckResult['status'];
+  link_http_status: number | null;
+  link_final_url: string | null;
+  link_checked_at: string;
+  link_failure_count: number;
+}
+
+// Checks one link and records the result on the bookmark
+const processJob = async (client: SupabaseClient, job: LinkCheckJob): Promise<LinkHealth> => {
+  const result = await checkLink(job.url);
+  if (result.error) console.error(`Link check for bookmark ${job.id} failed:`, result.error);
+
+  const health: LinkHealth = {
+    id: job.id,
+    link_status: result.status,
+    link_http_status: result.httpStatus,
+    link_final_url: result.finalUrl,
+    link_checked_at: new Date().toISOString(),
+    link_failure_count: nextFailureCount(result, job.failure_count),
+  };
+
+  const { id, ...columns } = health;
+  const { error } = await client
+    .from('bookmarks')
+    .update({ ...columns, link_next_check_at: nextCheckAt(result) })
+    .eq('id', id);
+  if (error) console.error(`Could not record link check for bookmark ${id}:`, error.message);
+
+  return health;
+};
+
+// Runs the jobs with at most CONCURRENCY requests at a time, keeping their order
+const processAll = async (client: SupabaseClient, jobs: LinkCheckJob[]) => {
+  const results: LinkHealth[] = new Array(jobs.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < jobs.length) {
+      const index = next++;
+      results[index] = await processJob(client, jobs[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, jobs.length) }, worker));
+  return results;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { bookmark_ids: bookmarkIds } = await req.json().catch(() => ({}));
+    const authorization = req.headers.get('Authorization') ?? '';
+
+    let client: SupabaseClient;
+    if (Array.isArray(bookmarkIds)) {
+      if (bookmarkIds.length > MAX_ON_DEMAND || bookmarkIds.some(id => typeof id !== 'string')) {
+        return jsonResponse({ error: `bookmark_ids must be at most ${MAX_ON_DEMAND} ids` }, 400);
+      }
+      // Act as the caller, so row level security limits them to their own bookmarks
+      client = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+        global: { headers: { Authorization: authorization } },
+      });
+    } else if (authorization === `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+      client = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    } else {
+      return jsonResponse({ error: 'bookmark_ids is required' }, 400);
+    }
+
+    const { data: jobs, error } = await client.rpc('claim_link_checks', {
+      batch_size: bookmarkIds ? bookmarkIds.length : BATCH_SIZE,
+      bookmark_filter: bookmarkIds ?? null,
+    });
+    if (error) throw error;
+
+    const results = await processAll(client, jobs as LinkCheckJob[]);
+    return jsonResponse({
+      checked: results.length,
+      broken: results.filter(result => result.link_failure_count > 0).length,
+      moved: results.filter(result => result.link_status === 'moved').length,
+      results,
+    });
+  } catch (error) {
+    console.error('check-links failed:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
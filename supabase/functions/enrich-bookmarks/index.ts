@@ -0,0 +1,145 @@
+// enrich-bookmarks edge function
+// Background worker that fills in title, TL;DR, key points and link preview metadata for saved bookmarks.
+// Bookmarks are inserted with enrichment_status = 'pending'; this worker claims due jobs,
+// fetches the page and marks each row done, or schedules a retry with exponential backoff
+// until MAX_ATTEMPTS, after which the row is marked failed.
+//
+// POST { bookmark_id } -> enrich one bookmark now, with the caller's token (the client calls this after saving)
+// POST {}              -> drain due jobs; service role only (called every minute by pg_cron)
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { FetchPageError, fetchPage, parsePublicUrl } from '../_shared/fetch-page.ts';
+import { extractMetadata, fallbackMetadata, isHtmlContentType } from '../_shared/extract.ts';
+import { createSummarizer } from '../_shared/summarize/index.ts';
+
+// Jobs claimed per scheduled run; each takes at most one page fetch
+const BATCH_SIZE = 10;
+// Attempts before a bookmark is marked failed
+const MAX_ATTEMPTS = 5;
+// Delay before the first retry; each further retry waits four times longer (30s, 2m, 8m, 32m)
+const RETRY_BASE_MS = 30_000;
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY')!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// Chosen by the SUMMARIZER environment variable (see _shared/summarize)
+const summarizer = createSummarizer();
+
+interface EnrichmentJob {
+  id: string;
+  url: string;
+  title: string;
+  // Attempts including this one
+  attempts: number;
+}
+
+type JobOutcome = 'done' | 'retrying' | 'failed';
+
+// Bad URLs and missing pages won't fix themselves, so they fail without retrying
+const isPermanentFailure = (error: unknown) =>
+  error instanceof FetchPageError && error.status < 500;
+
+const retryDelay = (attempts: number) => RETRY_BASE_MS * 4 ** (attempts - 1);
+
+// Fetches the page for one job and writes the result back to the bookmark
+const processJob = async (client: SupabaseClient, job: EnrichmentJob): Promise<JobOutcome> => {
+  try {
+    const page = await fetchPage(parsePublicUrl(job.url));
+    if (page.status === 404 || page.status === 410) {
+      throw new FetchPageError(`The page no longer exists (HTTP ${page.status})`, 404);
+    }
+    if (page.status >= 400) {
+      throw new FetchPageError(`The page responded with HTTP ${page.status}`, 502);
+    }
+
+    const { text, ...metadata } = isHtmlContentType(page.contentType)
+      ? extractMetadata(page.body, page.url)
+      : fallbackMetadata(page.url);
+    const summary = await summarizer.summarize({ title: metadata.title, text, url: page.url });
+
+    // Bookmarks are saved with the hostname as a placeholder title; keep anything the user typed
+    const hasPlaceholderTitle = job.title === new URL(job.url).hostname;
+
+    const { error } = await client
+      .from('bookmarks')
+      .update({
+        title: hasPlaceholderTitle ? metadata.title : job.title,
+        tldr: summary?.tldr ?? null,
+        key_points: summary?.key_points ?? [],
+        favicon_url: metadata.favicon_url,
+        image_url: metadata.image_url,
+        description: metadata.description,
+        site_name: metadata.site_name,
+        author: metadata.author,
+        published_at: metadata.published_at,
+        canonical_url: metadata.canonical_url,
+        enrichment_status: 'done',
+        enrichment_error: null,
+      })
+      .eq('id', job.id);
+
+    if (error) throw error;
+    return 'done';
+  } catch (error) {
+    const message = (error as Error).message;
+    const giveUp = isPermanentFailure(error) || job.attempts >= MAX_ATTEMPTS;
+    console.error(`Enriching bookmark ${job.id} failed (attempt ${job.attempts}):`, message);
+
+    const { error: updateError } = await client
+      .from('bookmarks')
+      .update({
+        enrichment_status: giveUp ? 'failed' : 'pending',
+        enrichment_error: message,
+        enrichment_next_attempt_at: new Date(Date.now() + retryDelay(job.attempts)).toISOString(),
+      })
+      .eq('id', job.id);
+
+    if (updateError) console.error(`Could not record failure for bookmark ${job.id}:`, updateError.message);
+    return giveUp ? 'failed' : 'retrying';
+  }
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { bookmark_id: bookmarkId } = await req.json().catch(() => ({}));
+    const authorization = req.headers.get('Authorization') ?? '';
+
+    let client: SupabaseClient;
+    if (typeof bookmarkId === 'string') {
+      // Act as the caller, so row level security limits them to their own bookmarks
+      client = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+        global: { headers: { Authorization: authorization } },
+      });
+    } else if (authorization === `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+      client = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    } else {
+      return jsonResponse({ error: 'bookmark_id is required' }, 400);
+    }
+
+    const { data: jobs, error } = await client.rpc('claim_enrichment_jobs', {
+      batch_size: bookmarkId ? 1 : BATCH_SIZE,
+      bookmark_filter: bookmarkId ?? null,
+    });
+    if (error) throw error;
+
+    const outcomes = await Promise.all((jobs as EnrichmentJob[]).map(job => processJob(client, job)));
+    return jsonResponse({
+      claimed: outcomes.length,
+      done: outcomes.filter(outcome => outcome === 'done').length,
+      retrying: outcomes.filter(outcome => outcome === 'retrying').length,
+      failed: outcomes.filter(outcome => outcome === 'failed').length,
+    });
+  } catch (error) {
+    console.error('enrich-bookmarks failed:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
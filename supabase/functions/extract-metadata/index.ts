@@ -0,0 +1,44 @@
+// extract-metadata edge function
+// Fetches a page on the server and returns its title, favicon, a TL;DR with key points and
+// link preview metadata (image, description, site name, author, published date, canonical URL),
+// so saved URLs are never sent to third-party proxies from the browser.
+//
+// POST { url: string, summarize?: boolean } -> PageMetadata (see _shared/extract.ts) & { keywords, tldr, key_points }
+// Pass summarize: false for a quick lookup (tag suggestions) that skips the summarizer.
+
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { FetchPageError, fetchPage, parsePublicUrl } from '../_shared/fetch-page.ts';
+import { extractMetadata, fallbackMetadata, isHtmlContentType } from '../_shared/extract.ts';
+import { createSummarizer } from '../_shared/summarize/index.ts';
+
+// Chosen by the SUMMARIZER environment variable (see _shared/summarize)
+const summarizer = createSummarizer();
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { url: rawUrl, summarize = true } = await req.json().catch(() => ({}));
+    const url = parsePublicUrl(rawUrl);
+    const page = await fetchPage(url);
+
+    // Non-HTML responses (PDFs, images, errors) still get a usable title
+    const { text, ...metadata } = page.status < 400 && isHtmlContentType(page.contentType)
+      ? extractMetadata(page.body, page.url)
+      : fallbackMetadata(page.url);
+    const summary = summarize !== false
+      ? await summarizer.summarize({ title: metadata.title, text, url: page.url })
+      : null;
+
+    return jsonResponse({ ...metadata, tldr: summary?.tldr ?? null, key_points: summary?.key_points ?? [] });
+  } catch (error) {
+    const status = error instanceof FetchPageError ? error.status : 500;
+    console.error('extract-metadata failed:', error);
+    return jsonResponse({ error: (error as Error).message }, status);
+  }
+});
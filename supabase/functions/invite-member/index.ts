@@ -0,0 +1,128 @@
+// invite-member edge function
+// Invites someone to a workspace by email. Records the invitation (replacing any open one for
+// the same address) and emails the invitee a link with its token. Only workspace owners can
+// invite; row level security enforces that, since the function acts as the caller.
+//
+// POST { workspace_id, email, role } -> { invitation, invite_url, emailed }
+//
+// Email is sent through Resend when RESEND_API_KEY is set. Without it the invitation is still
+// created and emailed is false, so the owner can share invite_url themselves.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY')!;
+const RESEND_API_KEY = Deno.env.get('RESEND_API_KEY');
+const INVITE_FROM_EMAIL = Deno.env.get('INVITE_FROM_EMAIL') ?? 'Link Saver <invites@resend.dev>';
+// Public address of the app, for the link in the email; falls back to the caller's origin
+const APP_URL = Deno.env.get('APP_URL');
+
+const INVITABLE_ROLES = ['editor', 'viewer'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const sendInvitationEmail = async (to: string, workspaceName: string, inviter: string, role: string, url: string) => {
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${RESEND_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      from: INVITE_FROM_EMAIL,
+      to: [to],
+      subject: `${inviter} invited you to "${workspaceName}" on Link Saver`,
+      text: `${inviter} invited you to join the "${workspaceName}" workspace as ${role === 'viewer' ? 'a viewer' : 'an editor'}.\n\nAccept the invitation: ${url}\n\nThe link works for 7 days.\n`,
+      html: `<p>${escapeHtml(inviter)} invited you to join the <strong>${escapeHtml(workspaceName)}</strong> workspace as ${role === 'viewer' ? 'a viewer' : 'an editor'}.</p>
+<p><a href="${escapeHtml(url)}">Accept the invitation</a></p>
+<p>The link works for 7 days.</p>`,
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Email provider responded with HTTP ${response.status}: ${await response.text()}`);
+  }
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { workspace_id: workspaceId, email: rawEmail, role = 'editor' } = await req.json().catch(() => ({}));
+    const email = typeof rawEmail === 'string' ? rawEmail.trim().toLowerCase() : '';
+    if (typeof workspaceId !== 'string') {
+      return jsonResponse({ error: 'workspace_id is required' }, 400);
+    }
+    if (!EMAIL_PATTERN.test(email)) {
+      return jsonResponse({ error: 'Enter a valid email address' }, 400);
+    }
+    if (!INVITABLE_ROLES.includes(role)) {
+      return jsonResponse({ error: 'role must be editor or viewer' }, 400);
+    }
+
+    // Act as the caller, so row level security only lets owners invite
+    const client = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    });
+
+    const { data: { user } } = await client.auth.getUser();
+    if (!user) return jsonResponse({ error: 'Not signed in' }, 401);
+
+    const { data: workspace, error: workspaceError } = await client
+      .from('workspaces')
+      .select('id, name')
+      .eq('id', workspaceId)
+      .maybeSingle();
+    if (workspaceError) throw workspaceError;
+    if (!workspace) return jsonResponse({ error: 'Workspace not found' }, 404);
+
+    // Inviting the same address again replaces the open invitation, so only the newest link works
+    const { error: deleteError } = await client
+      .from('workspace_invitations')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('email', email)
+      .is('accepted_at', null);
+    if (deleteError) throw deleteError;
+
+    const { data: invitation, error: insertError } = await client
+      .from('workspace_invitations')
+      .insert({ workspace_id: workspaceId, email, role, invited_by: user.id })
+      .select()
+      .single();
+    if (insertError) {
+      // Row level security rejects the insert for anyone but an owner
+      if (insertError.code === '42501') {
+        return jsonResponse({ error: 'Only workspace owners can invite members' }, 403);
+      }
+      throw insertError;
+    }
+
+    const origin = (APP_URL ?? req.headers.get('Origin') ?? '').replace(/\/$/, '');
+    const inviteUrl = `${origin}/invite/${invitation.token}`;
+
+    let emailed = false;
+    if (RESEND_API_KEY) {
+      const inviter = (user.user_metadata?.full_name as string | undefined) || user.email || 'A teammate';
+      try {
+        await sendInvitationEmail(email, workspace.name, inviter, role, inviteUrl);
+        emailed = true;
+      } catch (error) {
+        // The invitation stands; the owner can still share the link
+        console.error('Sending the invitation email failed:', error);
+      }
+    }
+
+    return jsonResponse({ invitation, invite_url: inviteUrl, emailed });
+  } catch (error) {
+    console.error('invite-member failed:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
@@ -0,0 +1,99 @@
+// purge-trash edge function
+// Permanently deletes bookmarks from the trash together with their archived snapshot files.
+// The files are removed first: once a bookmark is gone, so are the rows that say where its
+// files are. If the files can't be removed, the bookmarks stay in the trash to try again.
+//
+// POST { bookmark_ids, workspace_id } -> delete these bookmarks from the trash of the personal space
+//                                        (workspace_id null) or a workspace, with the caller's token;
+//                                        bookmark_ids null empties that whole trash
+// POST {}                             -> purge what has been in any trash for TRASH_RETENTION_DAYS;
+//                                        service role only (called every hour by pg_cron)
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { removeSnapshotFiles } from '../_shared/snapshot-files.ts';
+
+// Days a bookmark stays in the trash; TRASH_RETENTION_DAYS in src/lib/trash.ts must match
+const TRASH_RETENTION_DAYS = 30;
+// Bookmarks purged per scheduled run
+const BATCH_SIZE = 200;
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY')!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// Deletes bookmarks from the caller's trash in one space; row level security and
+// delete_trashed_bookmarks limit them to bookmarks they can edit
+const deleteFromTrash = async (client: SupabaseClient, bookmarkIds: string[] | null, workspaceId: string | null) => {
+  const { data: trashed, error: listError } = await client.rpc('list_trashed_bookmarks', { workspace_filter: workspaceId });
+  if (listError) throw listError;
+  const ids = (trashed as { id: string }[])
+    .map(bookmark => bookmark.id)
+    .filter(id => !bookmarkIds || bookmarkIds.includes(id));
+  if (ids.length === 0) return 0;
+
+  await removeSnapshotFiles(client, ids);
+
+  const { data: deleted, error } = await client.rpc('delete_trashed_bookmarks', {
+    bookmark_ids: ids,
+    workspace_filter: workspaceId,
+  });
+  if (error) throw error;
+  return deleted as number;
+};
+
+// Deletes the bookmarks that have been in the trash longest, past the retention period
+const purgeExpired = async (client: SupabaseClient) => {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data: expired, error: listError } = await client
+    .from('bookmarks')
+    .select('id')
+    .lt('deleted_at', cutoff)
+    .order('deleted_at', { ascending: true })
+    .limit(BATCH_SIZE);
+  if (listError) throw listError;
+  const ids = (expired ?? []).map(bookmark => bookmark.id as string);
+  if (ids.length === 0) return 0;
+
+  await removeSnapshotFiles(client, ids);
+
+  const { error } = await client.from('bookmarks').delete().in('id', ids).lt('deleted_at', cutoff);
+  if (error) throw error;
+  return ids.length;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const authorization = req.headers.get('Authorization') ?? '';
+
+    if (authorization === `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+      const purged = await purgeExpired(createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY));
+      return jsonResponse({ deleted: purged });
+    }
+
+    const { bookmark_ids: bookmarkIds = null, workspace_id: workspaceId = null } = body;
+    if (bookmarkIds !== null && (!Array.isArray(bookmarkIds) || bookmarkIds.some(id => typeof id !== 'string'))) {
+      return jsonResponse({ error: 'bookmark_ids must be a list of ids or null' }, 400);
+    }
+    if (workspaceId !== null && typeof workspaceId !== 'string') {
+      return jsonResponse({ error: 'workspace_id must be an id or null' }, 400);
+    }
+
+    // Act as the caller, so row level security limits them to the bookmarks and files they can edit
+    const client = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      global: { headers: { Authorization: authorization } },
+    });
+    return jsonResponse({ deleted: await deleteFromTrash(client, bookmarkIds, workspaceId) });
+  } catch (error) {
+    console.error('purge-trash failed:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
@@ -0,0 +1,85 @@
+-- Create collections table for nested bookmark folders
+CREATE TABLE public.collections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  parent_id UUID REFERENCES public.collections(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  position INTEGER DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_collections_user_parent ON public.collections (user_id, parent_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.collections ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own collections" 
+ON public.collections 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own collections" 
+ON public.collections 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own collections" 
+ON public.collections 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own collections" 
+ON public.collections 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_collections_updated_at
+BEFORE UPDATE ON public.collections
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Reject parents owned by another user and moves that would create a cycle
+CREATE OR REPLACE FUNCTION public.check_collection_parent()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.collections
+    WHERE id = NEW.parent_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Parent collection not found';
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM public.collections WHERE id = NEW.parent_id
+      UNION ALL
+      SELECT c.id, c.parent_id
+      FROM public.collections c
+      JOIN ancestors a ON c.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A collection cannot be moved into itself or one of its descendants';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_collections_parent
+BEFORE INSERT OR UPDATE OF parent_id ON public.collections
+FOR EACH ROW
+EXECUTE FUNCTION public.check_collection_parent();
+
+-- Link bookmarks to a collection; deleting a collection leaves its bookmarks unfiled
+ALTER TABLE public.bookmarks
+ADD COLUMN collection_id UUID REFERENCES public.collections(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_bookmarks_collection_id ON public.bookmarks (collection_id);
@@ -0,0 +1,94 @@
+-- Immutable wrapper so the tags array can be used inside a generated column
+CREATE OR REPLACE FUNCTION public.tags_to_text(tags TEXT[])
+RETURNS TEXT AS $$
+  SELECT coalesce(array_to_string(tags, ' '), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Full-text search document: title ranks highest, then tags, summary and url
+ALTER TABLE public.bookmarks
+ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', public.tags_to_text(tags)), 'B') ||
+  setweight(to_tsvector('english', coalesce(summary, '')), 'C') ||
+  setweight(to_tsvector('simple', regexp_replace(url, '[^[:alnum:]]+', ' ', 'g')), 'D')
+) STORED;
+
+CREATE INDEX idx_bookmarks_search_vector ON public.bookmarks USING GIN (search_vector);
+
+-- Turn free text into a tsquery: "quoted phrases" must match in order,
+-- every other word is matched as a prefix so results update while typing
+CREATE OR REPLACE FUNCTION public.build_search_query(search_text TEXT)
+RETURNS TSQUERY AS $$
+DECLARE
+  result TSQUERY;
+  part TSQUERY;
+  phrase TEXT;
+  word TEXT;
+BEGIN
+  FOR phrase IN
+    SELECT match[1] FROM regexp_matches(coalesce(search_text, ''), '"([^"]+)"', 'g') AS match
+  LOOP
+    part := phraseto_tsquery('english', phrase);
+    IF numnode(part) > 0 THEN
+      result := CASE WHEN result IS NULL THEN part ELSE result && part END;
+    END IF;
+  END LOOP;
+
+  FOR word IN
+    SELECT unnest(regexp_split_to_array(
+      trim(regexp_replace(
+        regexp_replace(lower(coalesce(search_text, '')), '"[^"]+"', ' ', 'g'),
+        '[^[:alnum:]]+', ' ', 'g'
+      )),
+      '\s+'
+    ))
+  LOOP
+    CONTINUE WHEN word = '';
+    part := to_tsquery('english', word || ':*');
+    IF numnode(part) > 0 THEN
+      result := CASE WHEN result IS NULL THEN part ELSE result && part END;
+    END IF;
+  END LOOP;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Ranked search over the caller's bookmarks with highlighted snippets.
+-- Matches are wrapped in chr(2)/chr(3) so the client can render them without parsing HTML.
+CREATE OR REPLACE FUNCTION public.search_bookmarks(
+  search_text TEXT,
+  collection_filter UUID DEFAULT NULL,
+  match_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (
+  bookmark JSONB,
+  rank REAL,
+  title_highlight TEXT,
+  summary_highlight TEXT
+) AS $$
+  WITH search AS (
+    SELECT public.build_search_query(search_text) AS query
+  ),
+  matches AS (
+    SELECT b.*, search.query, ts_rank_cd(b.search_vector, search.query, 32) AS match_rank
+    FROM public.bookmarks b, search
+    WHERE b.user_id = auth.uid()
+      AND search.query IS NOT NULL
+      AND b.search_vector @@ search.query
+      AND (collection_filter IS NULL OR b.collection_id = collection_filter)
+    ORDER BY match_rank DESC, b.position ASC
+    LIMIT least(greatest(match_limit, 1), 500)
+  )
+  SELECT
+    to_jsonb(m) - 'search_vector' - 'query' - 'match_rank',
+    m.match_rank,
+    ts_headline('english', m.title, m.query,
+      'HighlightAll=true, StartSel=' || chr(2) || ', StopSel=' || chr(3)),
+    CASE WHEN m.summary IS NULL THEN NULL ELSE
+      ts_headline('english', m.summary, m.query,
+        'MaxFragments=2, MinWords=8, MaxWords=24, FragmentDelimiter=" … ", StartSel=' || chr(2) || ', StopSel=' || chr(3))
+    END
+  FROM matches m
+  ORDER BY m.match_rank DESC, m.position ASC;
+$$ LANGUAGE sql STABLE;
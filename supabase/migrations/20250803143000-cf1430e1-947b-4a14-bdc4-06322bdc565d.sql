@@ -0,0 +1,117 @@
+-- Compile a search query AST (see src/lib/search-query.ts) into a SQL condition on bookmarks "b".
+-- Every value is quoted with %L and node types are whitelisted, so the result is safe to EXECUTE.
+CREATE OR REPLACE FUNCTION public.compile_search_node(node JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  node_type TEXT := node->>'type';
+  node_value TEXT := node->>'value';
+  parts TEXT[];
+  text_query TSQUERY;
+  host_expr CONSTANT TEXT := $h$regexp_replace(lower(substring(b.url from '^[a-zA-Z][a-zA-Z0-9+.-]*://([^/:?#]+)')), '^www\.', '')$h$;
+BEGIN
+  CASE node_type
+    WHEN 'and', 'or' THEN
+      SELECT array_agg(public.compile_search_node(child))
+      INTO parts
+      FROM jsonb_array_elements(node->'children') AS child;
+
+      IF parts IS NULL THEN
+        RETURN 'true';
+      END IF;
+      RETURN '(' || array_to_string(parts, CASE WHEN node_type = 'and' THEN ' AND ' ELSE ' OR ' END) || ')';
+
+    WHEN 'not' THEN
+      RETURN '(NOT ' || public.compile_search_node(node->'child') || ')';
+
+    WHEN 'term', 'phrase' THEN
+      text_query := CASE
+        WHEN node_type = 'term' THEN public.build_search_query(node_value)
+        ELSE phraseto_tsquery('english', node_value)
+      END;
+      -- Stop words produce an empty query, which matches everything
+      IF text_query IS NULL OR numnode(text_query) = 0 THEN
+        RETURN 'true';
+      END IF;
+      RETURN format('(b.search_vector @@ %L::tsquery)', text_query::text);
+
+    WHEN 'tag' THEN
+      RETURN format('EXISTS (SELECT 1 FROM unnest(b.tags) AS t WHERE lower(t) = lower(%L))', node_value);
+
+    WHEN 'site' THEN
+      RETURN format('(%1$s = %2$L OR right(%1$s, %3$s) = %4$L)',
+        host_expr, lower(node_value), length(node_value) + 1, '.' || lower(node_value));
+
+    WHEN 'before' THEN
+      RETURN format('(b.created_at < %L::date::timestamptz)', node_value::date);
+
+    WHEN 'after' THEN
+      RETURN format('(b.created_at >= (%L::date + 1)::timestamptz)', node_value::date);
+
+    WHEN 'is' THEN
+      -- Read state isn't tracked yet, so every bookmark counts as unread
+      CASE lower(node_value)
+        WHEN 'unread' THEN RETURN 'true';
+        WHEN 'read' THEN RETURN 'false';
+        ELSE RAISE EXCEPTION 'Unknown search flag: is:%', node_value;
+      END CASE;
+
+    ELSE
+      RAISE EXCEPTION 'Unknown search node type: %', node_type;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Replace search_bookmarks with a version that also accepts a query AST.
+-- search_text (free words and "phrases") drives ranking and highlighting;
+-- query_ast, when given, decides which rows match.
+DROP FUNCTION IF EXISTS public.search_bookmarks(TEXT, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_bookmarks(
+  search_text TEXT,
+  collection_filter UUID DEFAULT NULL,
+  match_limit INTEGER DEFAULT 100,
+  query_ast JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  bookmark JSONB,
+  rank REAL,
+  title_highlight TEXT,
+  summary_highlight TEXT
+) AS $$
+DECLARE
+  text_query TSQUERY := public.build_search_query(search_text);
+  condition TEXT;
+  highlight_options CONSTANT TEXT := 'StartSel=' || chr(2) || ', StopSel=' || chr(3);
+BEGIN
+  IF query_ast IS NOT NULL THEN
+    condition := public.compile_search_node(query_ast);
+  ELSIF text_query IS NOT NULL THEN
+    condition := 'b.search_vector @@ $1';
+  ELSE
+    RETURN;
+  END IF;
+
+  RETURN QUERY EXECUTE format($query$
+    WITH matches AS (
+      SELECT b.*, coalesce(ts_rank_cd(b.search_vector, $1, 32), 0)::real AS match_rank
+      FROM public.bookmarks b
+      WHERE b.user_id = auth.uid()
+        AND ($2::uuid IS NULL OR b.collection_id = $2)
+        AND %s
+      ORDER BY match_rank DESC, b.position ASC
+      LIMIT $3
+    )
+    SELECT
+      to_jsonb(m) - 'search_vector' - 'match_rank',
+      m.match_rank,
+      CASE WHEN $1 IS NULL THEN m.title
+        ELSE ts_headline('english', m.title, $1, 'HighlightAll=true, ' || $4) END,
+      CASE WHEN $1 IS NULL OR m.summary IS NULL THEN NULL
+        ELSE ts_headline('english', m.summary, $1,
+          'MaxFragments=2, MinWords=8, MaxWords=24, FragmentDelimiter=" … ", ' || $4) END
+    FROM matches m
+    ORDER BY m.match_rank DESC, m.position ASC
+  $query$, condition)
+  USING text_query, collection_filter, least(greatest(match_limit, 1), 500), highlight_options;
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,8 @@
+-- Rich link metadata read from Open Graph, Twitter Card and JSON-LD tags
+ALTER TABLE public.bookmarks
+  ADD COLUMN image_url TEXT,
+  ADD COLUMN description TEXT,
+  ADD COLUMN site_name TEXT,
+  ADD COLUMN author TEXT,
+  ADD COLUMN published_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN canonical_url TEXT;
@@ -0,0 +1,65 @@
+-- Background enrichment: bookmarks are saved immediately and a worker fills in
+-- title, summary and link preview metadata afterwards, retrying with backoff.
+ALTER TABLE public.bookmarks
+  ADD COLUMN enrichment_status TEXT NOT NULL DEFAULT 'done'
+    CHECK (enrichment_status IN ('pending', 'done', 'failed')),
+  ADD COLUMN enrichment_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN enrichment_error TEXT,
+  ADD COLUMN enrichment_next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+-- Existing rows are already enriched; new ones start in the queue
+ALTER TABLE public.bookmarks ALTER COLUMN enrichment_status SET DEFAULT 'pending';
+
+-- Failed summaries used to be stored as a placeholder string; clear them and queue the rows again
+UPDATE public.bookmarks
+SET summary = NULL, enrichment_status = 'pending'
+WHERE summary = 'Summary temporarily unavailable.';
+
+-- Lets the worker find due jobs without scanning every bookmark
+CREATE INDEX idx_bookmarks_enrichment_queue
+  ON public.bookmarks (enrichment_next_attempt_at)
+  WHERE enrichment_status = 'pending';
+
+-- Claims up to batch_size due jobs (optionally a single bookmark) for the worker.
+-- Claimed rows get a lease: if the worker dies mid-job they become due again after 5 minutes.
+-- SECURITY INVOKER, so callers using a user's token can only claim that user's bookmarks.
+CREATE OR REPLACE FUNCTION public.claim_enrichment_jobs(batch_size INTEGER DEFAULT 10, bookmark_filter UUID DEFAULT NULL)
+RETURNS TABLE (id UUID, url TEXT, title TEXT, summary TEXT, attempts INTEGER)
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.bookmarks AS b
+  SET enrichment_attempts = b.enrichment_attempts + 1,
+      enrichment_next_attempt_at = now() + interval '5 minutes'
+  WHERE b.id IN (
+    SELECT q.id
+    FROM public.bookmarks AS q
+    WHERE q.enrichment_status = 'pending'
+      AND q.enrichment_next_attempt_at <= now()
+      AND (bookmark_filter IS NULL OR q.id = bookmark_filter)
+    ORDER BY q.enrichment_next_attempt_at
+    LIMIT LEAST(GREATEST(batch_size, 1), 50)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING b.id, b.url, b.title, b.summary, b.enrichment_attempts;
+$$;
+
+-- Run the worker every minute to pick up new jobs and retries.
+-- Requires the project_url and service_role_key secrets in Vault (see Readme).
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'enrich-bookmarks',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/enrich-bookmarks',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,95 @@
+-- Structured summaries: a short TL;DR plus bullet key points, written by the enrichment worker's Summarizer.
+-- The old summary column is kept for imported descriptions and bookmarks saved before this change.
+ALTER TABLE public.bookmarks
+  ADD COLUMN tldr TEXT,
+  ADD COLUMN key_points TEXT[] NOT NULL DEFAULT '{}';
+
+-- Rebuild the search vector so TL;DRs and key points are searchable with the same weight as summaries
+DROP INDEX IF EXISTS public.idx_bookmarks_search_vector;
+ALTER TABLE public.bookmarks DROP COLUMN search_vector;
+
+ALTER TABLE public.bookmarks
+ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', public.tags_to_text(tags)), 'B') ||
+  setweight(to_tsvector('english',
+    coalesce(tldr, '') || ' ' || public.tags_to_text(key_points) || ' ' || coalesce(summary, '')), 'C') ||
+  setweight(to_tsvector('simple', regexp_replace(url, '[^[:alnum:]]+', ' ', 'g')), 'D')
+) STORED;
+
+CREATE INDEX idx_bookmarks_search_vector ON public.bookmarks USING GIN (search_vector);
+
+-- Same as before, but the summary snippet is taken from the TL;DR when there is one
+CREATE OR REPLACE FUNCTION public.search_bookmarks(
+  search_text TEXT,
+  collection_filter UUID DEFAULT NULL,
+  match_limit INTEGER DEFAULT 100,
+  query_ast JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  bookmark JSONB,
+  rank REAL,
+  title_highlight TEXT,
+  summary_highlight TEXT
+) AS $$
+DECLARE
+  text_query TSQUERY := public.build_search_query(search_text);
+  condition TEXT;
+  highlight_options CONSTANT TEXT := 'StartSel=' || chr(2) || ', StopSel=' || chr(3);
+BEGIN
+  IF query_ast IS NOT NULL THEN
+    condition := public.compile_search_node(query_ast);
+  ELSIF text_query IS NOT NULL THEN
+    condition := 'b.search_vector @@ $1';
+  ELSE
+    RETURN;
+  END IF;
+
+  RETURN QUERY EXECUTE format($query$
+    WITH matches AS (
+      SELECT b.*, coalesce(ts_rank_cd(b.search_vector, $1, 32), 0)::real AS match_rank
+      FROM public.bookmarks b
+      WHERE b.user_id = auth.uid()
+        AND ($2::uuid IS NULL OR b.collection_id = $2)
+        AND %s
+      ORDER BY match_rank DESC, b.position ASC
+      LIMIT $3
+    )
+    SELECT
+      to_jsonb(m) - 'search_vector' - 'match_rank',
+      m.match_rank,
+      CASE WHEN $1 IS NULL THEN m.title
+        ELSE ts_headline('english', m.title, $1, 'HighlightAll=true, ' || $4) END,
+      CASE WHEN $1 IS NULL OR coalesce(m.tldr, m.summary) IS NULL THEN NULL
+        ELSE ts_headline('english', coalesce(m.tldr, m.summary), $1,
+          'MaxFragments=2, MinWords=8, MaxWords=24, FragmentDelimiter=" … ", ' || $4) END
+    FROM matches m
+    ORDER BY m.match_rank DESC, m.position ASC
+  $query$, condition)
+  USING text_query, collection_filter, least(greatest(match_limit, 1), 500), highlight_options;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- The worker no longer needs the old summary when claiming jobs
+DROP FUNCTION IF EXISTS public.claim_enrichment_jobs(INTEGER, UUID);
+
+CREATE OR REPLACE FUNCTION public.claim_enrichment_jobs(batch_size INTEGER DEFAULT 10, bookmark_filter UUID DEFAULT NULL)
+RETURNS TABLE (id UUID, url TEXT, title TEXT, attempts INTEGER)
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.bookmarks AS b
+  SET enrichment_attempts = b.enrichment_attempts + 1,
+      enrichment_next_attempt_at = now() + interval '5 minutes'
+  WHERE b.id IN (
+    SELECT q.id
+    FROM public.bookmarks AS q
+    WHERE q.enrichment_status = 'pending'
+      AND q.enrichment_next_attempt_at <= now()
+      AND (bookmark_filter IS NULL OR q.id = bookmark_filter)
+    ORDER BY q.enrichment_next_attempt_at
+    LIMIT LEAST(GREATEST(batch_size, 1), 50)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING b.id, b.url, b.title, b.enrichment_attempts;
+$$;
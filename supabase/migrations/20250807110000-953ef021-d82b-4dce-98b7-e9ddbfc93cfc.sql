@@ -0,0 +1,262 @@
+-- Normalized tags: one row per tag per user, linked to bookmarks through bookmark_tags.
+-- Nested tags are named with slashes ("lang/rust"); the parent is the part before the last slash.
+-- bookmarks.tags stays as a denormalized copy in display order: the app writes it and full-text
+-- search reads it. A trigger keeps bookmark_tags in sync with it, and the tag management
+-- functions below update both.
+CREATE TABLE public.tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL CHECK (name = btrim(name) AND name <> '' AND name !~ '(^/|/$|//)'),
+  color TEXT CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+CREATE TABLE public.bookmark_tags (
+  bookmark_id UUID NOT NULL REFERENCES public.bookmarks(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (bookmark_id, tag_id)
+);
+
+CREATE INDEX idx_bookmark_tags_tag ON public.bookmark_tags (tag_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bookmark_tags ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own tags" 
+ON public.tags 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tags" 
+ON public.tags 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tags" 
+ON public.tags 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tags" 
+ON public.tags 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Links are written by the sync trigger; users only read their own
+CREATE POLICY "Users can view their own bookmark tags" 
+ON public.bookmark_tags 
+FOR SELECT 
+USING (EXISTS (SELECT 1 FROM public.tags t WHERE t.id = tag_id AND t.user_id = auth.uid()));
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_tags_updated_at
+BEFORE UPDATE ON public.tags
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Mirror bookmarks.tags into tags/bookmark_tags, creating tags the user hasn't used before
+CREATE OR REPLACE FUNCTION public.sync_bookmark_tags()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.tags (user_id, name)
+  SELECT DISTINCT NEW.user_id, btrim(t)
+  FROM unnest(coalesce(NEW.tags, '{}')) AS t
+  WHERE btrim(t) <> '' AND btrim(t) !~ '(^/|/$|//)'
+  ON CONFLICT (user_id, name) DO NOTHING;
+
+  DELETE FROM public.bookmark_tags bt
+  USING public.tags tg
+  WHERE bt.bookmark_id = NEW.id
+    AND tg.id = bt.tag_id
+    AND NOT (tg.name = ANY (SELECT btrim(t) FROM unnest(coalesce(NEW.tags, '{}')) AS t));
+
+  INSERT INTO public.bookmark_tags (bookmark_id, tag_id)
+  SELECT NEW.id, tg.id
+  FROM public.tags tg
+  WHERE tg.user_id = NEW.user_id
+    AND tg.name = ANY (SELECT btrim(t) FROM unnest(coalesce(NEW.tags, '{}')) AS t)
+  ON CONFLICT DO NOTHING;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_bookmark_tags
+AFTER INSERT OR UPDATE OF tags ON public.bookmarks
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_bookmark_tags();
+
+-- Migrate existing tag arrays
+INSERT INTO public.tags (user_id, name)
+SELECT DISTINCT b.user_id, btrim(t)
+FROM public.bookmarks b, unnest(b.tags) AS t
+WHERE btrim(t) <> '' AND btrim(t) !~ '(^/|/$|//)'
+ON CONFLICT (user_id, name) DO NOTHING;
+
+INSERT INTO public.bookmark_tags (bookmark_id, tag_id)
+SELECT DISTINCT b.id, tg.id
+FROM public.bookmarks b, unnest(b.tags) AS t, public.tags tg
+WHERE tg.user_id = b.user_id AND tg.name = btrim(t)
+ON CONFLICT DO NOTHING;
+
+-- Replace one tag name with another in every bookmark of the current user, keeping order and dropping duplicates
+CREATE OR REPLACE FUNCTION public.replace_tag_in_bookmarks(old_name TEXT, new_name TEXT)
+RETURNS VOID AS $$
+  UPDATE public.bookmarks b
+  SET tags = (
+    SELECT coalesce(array_agg(name ORDER BY first_position), '{}')
+    FROM (
+      SELECT name, min(position) AS first_position
+      FROM unnest(array_replace(b.tags, old_name, new_name)) WITH ORDINALITY AS t(name, position)
+      WHERE name IS NOT NULL
+      GROUP BY name
+    ) deduped
+  )
+  WHERE b.user_id = auth.uid() AND old_name = ANY (b.tags);
+$$ LANGUAGE sql;
+
+-- Rename a tag; nested tags move with it (lang -> languages renames lang/rust -> languages/rust)
+CREATE OR REPLACE FUNCTION public.rename_tag(tag_id UUID, new_name TEXT)
+RETURNS VOID AS $$
+DECLARE
+  old_name TEXT;
+  clean_name TEXT := btrim(new_name);
+  affected RECORD;
+BEGIN
+  SELECT name INTO old_name FROM public.tags WHERE id = tag_id AND user_id = auth.uid();
+  IF old_name IS NULL THEN
+    RAISE EXCEPTION 'Tag not found';
+  END IF;
+  IF clean_name = old_name THEN
+    RETURN;
+  END IF;
+  IF starts_with(clean_name, old_name || '/') THEN
+    RAISE EXCEPTION 'A tag cannot be nested under itself';
+  END IF;
+
+  FOR affected IN
+    SELECT id, name FROM public.tags
+    WHERE user_id = auth.uid() AND (name = old_name OR starts_with(name, old_name || '/'))
+    ORDER BY length(name)
+  LOOP
+    DECLARE
+      target_name TEXT := clean_name || substr(affected.name, length(old_name) + 1);
+    BEGIN
+      IF EXISTS (SELECT 1 FROM public.tags WHERE user_id = auth.uid() AND name = target_name) THEN
+        RAISE EXCEPTION 'A tag named "%" already exists. Merge the tags instead.', target_name;
+      END IF;
+      UPDATE public.tags SET name = target_name WHERE id = affected.id;
+      PERFORM public.replace_tag_in_bookmarks(affected.name, target_name);
+    END;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Merge tags into target: bookmarks tagged with any source get the target instead, then the sources are deleted
+CREATE OR REPLACE FUNCTION public.merge_tags(source_ids UUID[], target_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  target_name TEXT;
+  source RECORD;
+BEGIN
+  SELECT name INTO target_name FROM public.tags WHERE id = target_id AND user_id = auth.uid();
+  IF target_name IS NULL THEN
+    RAISE EXCEPTION 'Tag not found';
+  END IF;
+
+  FOR source IN
+    SELECT id, name FROM public.tags
+    WHERE user_id = auth.uid() AND id = ANY (source_ids) AND id <> target_id
+  LOOP
+    PERFORM public.replace_tag_in_bookmarks(source.name, target_name);
+    DELETE FROM public.tags WHERE id = source.id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Delete a tag and remove it from every bookmark; nested tags are kept
+CREATE OR REPLACE FUNCTION public.delete_tag(tag_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  old_name TEXT;
+BEGIN
+  SELECT name INTO old_name FROM public.tags WHERE id = tag_id AND user_id = auth.uid();
+  IF old_name IS NULL THEN
+    RAISE EXCEPTION 'Tag not found';
+  END IF;
+
+  UPDATE public.bookmarks
+  SET tags = array_remove(tags, old_name)
+  WHERE user_id = auth.uid() AND old_name = ANY (tags);
+
+  DELETE FROM public.tags WHERE id = tag_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same compiler as before; tag: now also matches tags nested under the given one.
+CREATE OR REPLACE FUNCTION public.compile_search_node(node JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  node_type TEXT := node->>'type';
+  node_value TEXT := node->>'value';
+  parts TEXT[];
+  text_query TSQUERY;
+  host_expr CONSTANT TEXT := $h$regexp_replace(lower(substring(b.url from '^[a-zA-Z][a-zA-Z0-9+.-]*://([^/:?#]+)')), '^www\.', '')$h$;
+BEGIN
+  CASE node_type
+    WHEN 'and', 'or' THEN
+      SELECT array_agg(public.compile_search_node(child))
+      INTO parts
+      FROM jsonb_array_elements(node->'children') AS child;
+
+      IF parts IS NULL THEN
+        RETURN 'true';
+      END IF;
+      RETURN '(' || array_to_string(parts, CASE WHEN node_type = 'and' THEN ' AND ' ELSE ' OR ' END) || ')';
+
+    WHEN 'not' THEN
+      RETURN '(NOT ' || public.compile_search_node(node->'child') || ')';
+
+    WHEN 'term', 'phrase' THEN
+      text_query := CASE
+        WHEN node_type = 'term' THEN public.build_search_query(node_value)
+        ELSE phraseto_tsquery('english', node_value)
+      END;
+      -- Stop words produce an empty query, which matches everything
+      IF text_query IS NULL OR numnode(text_query) = 0 THEN
+        RETURN 'true';
+      END IF;
+      RETURN format('(b.search_vector @@ %L::tsquery)', text_query::text);
+
+    WHEN 'tag' THEN
+      -- tag:lang also matches nested tags such as lang/rust
+      RETURN format('EXISTS (SELECT 1 FROM unnest(b.tags) AS t WHERE lower(t) = lower(%1$L) OR starts_with(lower(t), lower(%1$L) || ''/''))', node_value);
+
+    WHEN 'site' THEN
+      RETURN format('(%1$s = %2$L OR right(%1$s, %3$s) = %4$L)',
+        host_expr, lower(node_value), length(node_value) + 1, '.' || lower(node_value));
+
+    WHEN 'before' THEN
+      RETURN format('(b.created_at < %L::date::timestamptz)', node_value::date);
+
+    WHEN 'after' THEN
+      RETURN format('(b.created_at >= (%L::date + 1)::timestamptz)', node_value::date);
+
+    WHEN 'is' THEN
+      -- Read state isn't tracked yet, so every bookmark counts as unread
+      CASE lower(node_value)
+        WHEN 'unread' THEN RETURN 'true';
+        WHEN 'read' THEN RETURN 'false';
+        ELSE RAISE EXCEPTION 'Unknown search flag: is:%', node_value;
+      END CASE;
+
+    ELSE
+      RAISE EXCEPTION 'Unknown search node type: %', node_type;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
@@ -0,0 +1,3 @@
+-- Free-form notes the user writes about a bookmark in the edit dialog
+ALTER TABLE public.bookmarks
+  ADD COLUMN notes TEXT;
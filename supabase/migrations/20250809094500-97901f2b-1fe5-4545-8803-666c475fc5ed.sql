@@ -0,0 +1,124 @@
+-- Soft delete: deleting a bookmark moves it to the trash, where it stays for 30 days
+ALTER TABLE public.bookmarks
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_bookmarks_deleted_at
+ON public.bookmarks (deleted_at)
+WHERE deleted_at IS NOT NULL;
+
+-- Normal queries (grid, search, export) only see bookmarks that aren't in the trash.
+-- The trash itself is read and changed through the functions below.
+DROP POLICY "Users can view their own bookmarks" ON public.bookmarks;
+
+CREATE POLICY "Users can view their own bookmarks" 
+ON public.bookmarks 
+FOR SELECT 
+USING (auth.uid() = user_id AND deleted_at IS NULL);
+
+-- Tag usage counts leave out trashed bookmarks too
+DROP POLICY "Users can view their own bookmark tags" ON public.bookmark_tags;
+
+CREATE POLICY "Users can view their own bookmark tags" 
+ON public.bookmark_tags 
+FOR SELECT 
+USING (
+  EXISTS (SELECT 1 FROM public.tags t WHERE t.id = tag_id AND t.user_id = auth.uid())
+  AND EXISTS (SELECT 1 FROM public.bookmarks b WHERE b.id = bookmark_id AND b.deleted_at IS NULL)
+);
+
+-- Move the current user's bookmarks to the trash; returns how many were moved
+CREATE OR REPLACE FUNCTION public.trash_bookmarks(bookmark_ids UUID[])
+RETURNS INTEGER AS $$
+  WITH trashed AS (
+    UPDATE public.bookmarks
+    SET deleted_at = now()
+    WHERE user_id = auth.uid() AND id = ANY (bookmark_ids) AND deleted_at IS NULL
+    RETURNING id
+  )
+  SELECT count(*)::INTEGER FROM trashed;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Take bookmarks back out of the trash; returns how many were restored
+CREATE OR REPLACE FUNCTION public.restore_bookmarks(bookmark_ids UUID[])
+RETURNS INTEGER AS $$
+  WITH restored AS (
+    UPDATE public.bookmarks
+    SET deleted_at = NULL
+    WHERE user_id = auth.uid() AND id = ANY (bookmark_ids) AND deleted_at IS NOT NULL
+    RETURNING id
+  )
+  SELECT count(*)::INTEGER FROM restored;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Permanently delete bookmarks that are already in the trash; NULL empties the whole trash
+CREATE OR REPLACE FUNCTION public.delete_trashed_bookmarks(bookmark_ids UUID[] DEFAULT NULL)
+RETURNS INTEGER AS $$
+  WITH deleted AS (
+    DELETE FROM public.bookmarks
+    WHERE user_id = auth.uid()
+      AND deleted_at IS NOT NULL
+      AND (bookmark_ids IS NULL OR id = ANY (bookmark_ids))
+    RETURNING id
+  )
+  SELECT count(*)::INTEGER FROM deleted;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- The current user's trash, most recently deleted first
+CREATE OR REPLACE FUNCTION public.list_trashed_bookmarks()
+RETURNS TABLE (
+  id UUID,
+  url TEXT,
+  title TEXT,
+  favicon_url TEXT,
+  site_name TEXT,
+  tags TEXT[],
+  created_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT b.id, b.url, b.title, b.favicon_url, b.site_name, coalesce(b.tags, '{}'), b.created_at, b.deleted_at
+  FROM public.bookmarks b
+  WHERE b.user_id = auth.uid() AND b.deleted_at IS NOT NULL
+  ORDER BY b.deleted_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Delete everything that has been in the trash for more than 30 days. Run by pg_cron, not by users.
+CREATE OR REPLACE FUNCTION public.purge_expired_trash()
+RETURNS INTEGER AS $$
+  WITH purged AS (
+    DELETE FROM public.bookmarks
+    WHERE deleted_at < now() - interval '30 days'
+    RETURNING id
+  )
+  SELECT count(*)::INTEGER FROM purged;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_trash() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'purge-expired-trash',
+  '15 3 * * *',
+  $$ SELECT public.purge_expired_trash(); $$
+);
+
+-- Trashed bookmarks aren't enriched
+CREATE OR REPLACE FUNCTION public.claim_enrichment_jobs(batch_size INTEGER DEFAULT 10, bookmark_filter UUID DEFAULT NULL)
+RETURNS TABLE (id UUID, url TEXT, title TEXT, attempts INTEGER)
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.bookmarks AS b
+  SET enrichment_attempts = b.enrichment_attempts + 1,
+      enrichment_next_attempt_at = now() + interval '5 minutes'
+  WHERE b.id IN (
+    SELECT q.id
+    FROM public.bookmarks AS q
+    WHERE q.enrichment_status = 'pending'
+      AND q.enrichment_next_attempt_at <= now()
+      AND q.deleted_at IS NULL
+      AND (bookmark_filter IS NULL OR q.id = bookmark_filter)
+    ORDER BY q.enrichment_next_attempt_at
+    LIMIT LEAST(GREATEST(batch_size, 1), 50)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING b.id, b.url, b.title, b.enrichment_attempts;
+$$;
@@ -0,0 +1,24 @@
+-- Add and remove tags on many bookmarks in one call, for bulk actions in the grid.
+-- Tags are compared case-insensitively: adding "JS" to a bookmark tagged "js" keeps "js",
+-- and removing "js" also removes "JS". Existing order is kept and new tags go at the end.
+-- Returns the new tags of every bookmark that was updated.
+CREATE OR REPLACE FUNCTION public.update_bookmark_tags(
+  bookmark_ids UUID[],
+  add_tags TEXT[] DEFAULT '{}',
+  remove_tags TEXT[] DEFAULT '{}'
+)
+RETURNS TABLE (id UUID, tags TEXT[]) AS $$
+  UPDATE public.bookmarks b
+  SET tags = (
+    SELECT coalesce(array_agg(name ORDER BY first_position), '{}')
+    FROM (
+      SELECT (array_agg(btrim(t.name) ORDER BY t.position))[1] AS name, min(t.position) AS first_position
+      FROM unnest(coalesce(b.tags, '{}') || coalesce(add_tags, '{}')) WITH ORDINALITY AS t(name, position)
+      WHERE btrim(t.name) <> ''
+        AND lower(btrim(t.name)) <> ALL (SELECT lower(btrim(r)) FROM unnest(coalesce(remove_tags, '{}')) AS r)
+      GROUP BY lower(btrim(t.name))
+    ) deduped
+  )
+  WHERE b.user_id = auth.uid() AND b.id = ANY (bookmark_ids)
+  RETURNING b.id, b.tags;
+$$ LANGUAGE sql SET search_path = public;
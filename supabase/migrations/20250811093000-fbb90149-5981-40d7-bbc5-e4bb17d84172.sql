@@ -0,0 +1,156 @@
+-- Duplicate detection: each bookmark stores a canonical form of its URL, unique per user.
+-- normalize_url() mirrors src/lib/normalize-url.ts; the app sends normalized_url itself and
+-- the trigger below fills it in for any other writer.
+CREATE OR REPLACE FUNCTION public.normalize_url(url TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  parts TEXT[];
+  host TEXT;
+  port TEXT;
+  path TEXT;
+  query TEXT;
+BEGIN
+  parts := regexp_match(
+    btrim(url),
+    '^([hH][tT][tT][pP][sS]?)://(?:[^@/?#]*@)?([^:/?#]*)(?::([0-9]+))?([^?#]*)(?:\?([^#]*))?'
+  );
+  IF parts IS NULL THEN
+    RETURN btrim(url);
+  END IF;
+
+  host := regexp_replace(lower(parts[2]), '^www\.', '');
+  port := CASE WHEN parts[3] IS NULL OR parts[3] IN ('80', '443') THEN '' ELSE ':' || parts[3] END;
+  path := regexp_replace(parts[4], '/+$', '');
+
+  -- Drop tracking parameters and sort the rest by name, keeping the order of repeated names
+  SELECT string_agg(pair, '&' ORDER BY split_part(pair, '=', 1) COLLATE "C", position)
+  INTO query
+  FROM unnest(string_to_array(parts[5], '&')) WITH ORDINALITY AS q(pair, position)
+  WHERE pair <> ''
+    AND lower(split_part(pair, '=', 1)) NOT LIKE 'utm\_%'
+    AND lower(split_part(pair, '=', 1)) NOT IN (
+      'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid', 'igshid',
+      'mc_cid', 'mc_eid', '_hsenc', '_hsmi', 'mkt_tok', 'ref_src', 'ref_url', 'spm', 'vero_id',
+      'oly_anon_id', 'oly_enc_id', '__s', 's_cid'
+    );
+
+  RETURN 'https://' || host || port || path || coalesce('?' || query, '');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+ALTER TABLE public.bookmarks
+  ADD COLUMN normalized_url TEXT;
+
+-- Fill in normalized_url when the writer didn't, and recompute it when only the URL changed
+CREATE OR REPLACE FUNCTION public.set_normalized_url()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.normalized_url := coalesce(NEW.normalized_url, public.normalize_url(NEW.url));
+  ELSIF NEW.url IS DISTINCT FROM OLD.url AND NEW.normalized_url IS NOT DISTINCT FROM OLD.normalized_url THEN
+    NEW.normalized_url := public.normalize_url(NEW.url);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_bookmarks_normalized_url
+BEFORE INSERT OR UPDATE OF url, normalized_url ON public.bookmarks
+FOR EACH ROW
+EXECUTE FUNCTION public.set_normalized_url();
+
+-- Existing duplicates stay until they're merged on the duplicates page: only the oldest
+-- bookmark of each group gets a normalized_url, so the unique index can be created.
+UPDATE public.bookmarks b
+SET normalized_url = ranked.normalized
+FROM (
+  SELECT id,
+         public.normalize_url(url) AS normalized,
+         row_number() OVER (PARTITION BY user_id, public.normalize_url(url) ORDER BY created_at, id) AS rank
+  FROM public.bookmarks
+  WHERE deleted_at IS NULL
+) ranked
+WHERE b.id = ranked.id AND ranked.rank = 1;
+
+-- Bookmarks in the trash don't count, so a deleted link can be saved again
+CREATE UNIQUE INDEX bookmarks_user_normalized_url_key
+ON public.bookmarks (user_id, normalized_url)
+WHERE deleted_at IS NULL;
+
+-- Merge duplicates into the bookmark to keep: it gains their tags and notes, the earliest
+-- saved date and, if it has none, their collection. The duplicates move to the trash.
+CREATE OR REPLACE FUNCTION public.merge_bookmarks(keep_id UUID, duplicate_ids UUID[])
+RETURNS VOID AS $$
+DECLARE
+  kept public.bookmarks%ROWTYPE;
+BEGIN
+  SELECT * INTO kept FROM public.bookmarks
+  WHERE id = keep_id AND user_id = auth.uid() AND deleted_at IS NULL;
+  IF kept.id IS NULL THEN
+    RAISE EXCEPTION 'Bookmark not found';
+  END IF;
+
+  UPDATE public.bookmarks
+  SET tags = (
+        SELECT coalesce(array_agg(name ORDER BY first_position), '{}')
+        FROM (
+          SELECT t.name, min(t.position) AS first_position
+          FROM unnest(
+            coalesce(kept.tags, '{}') || coalesce((
+              SELECT array_agg(tag ORDER BY d.created_at)
+              FROM public.bookmarks d, unnest(d.tags) AS tag
+              WHERE d.id = ANY (duplicate_ids) AND d.id <> keep_id AND d.user_id = auth.uid() AND d.deleted_at IS NULL
+            ), '{}')
+          ) WITH ORDINALITY AS t(name, position)
+          GROUP BY t.name
+        ) deduped
+      ),
+      notes = nullif(concat_ws(E'\n\n', kept.notes, (
+        SELECT string_agg(d.notes, E'\n\n' ORDER BY d.created_at)
+        FROM public.bookmarks d
+        WHERE d.id = ANY (duplicate_ids) AND d.id <> keep_id AND d.user_id = auth.uid()
+          AND d.deleted_at IS NULL AND nullif(btrim(d.notes), '') IS NOT NULL
+      )), ''),
+      collection_id = coalesce(kept.collection_id, (
+        SELECT d.collection_id
+        FROM public.bookmarks d
+        WHERE d.id = ANY (duplicate_ids) AND d.id <> keep_id AND d.user_id = auth.uid()
+          AND d.deleted_at IS NULL AND d.collection_id IS NOT NULL
+        ORDER BY d.created_at
+        LIMIT 1
+      )),
+      created_at = least(kept.created_at, (
+        SELECT min(d.created_at)
+        FROM public.bookmarks d
+        WHERE d.id = ANY (duplicate_ids) AND d.id <> keep_id AND d.user_id = auth.uid() AND d.deleted_at IS NULL
+      ))
+  WHERE id = keep_id;
+
+  -- Trashed duplicates give up their normalized_url so the kept bookmark can claim it
+  UPDATE public.bookmarks
+  SET deleted_at = now(), normalized_url = NULL
+  WHERE id = ANY (duplicate_ids) AND id <> keep_id AND user_id = auth.uid() AND deleted_at IS NULL;
+
+  UPDATE public.bookmarks
+  SET normalized_url = public.normalize_url(url)
+  WHERE id = keep_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Restoring a bookmark from the trash recomputes its normalized_url; a link that has been
+-- saved again since then can't be restored until the newer copy is deleted.
+CREATE OR REPLACE FUNCTION public.restore_bookmarks(bookmark_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+  restored INTEGER;
+BEGIN
+  UPDATE public.bookmarks
+  SET deleted_at = NULL, normalized_url = public.normalize_url(url)
+  WHERE user_id = auth.uid() AND id = ANY (bookmark_ids) AND deleted_at IS NOT NULL;
+  GET DIAGNOSTICS restored = ROW_COUNT;
+  RETURN restored;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'This link has been saved again since it was deleted. Delete the newer copy first.';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
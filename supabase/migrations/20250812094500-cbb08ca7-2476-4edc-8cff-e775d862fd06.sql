@@ -0,0 +1,142 @@
+-- Link health: a checker requests every saved URL on a schedule (or on demand) and records
+-- how it responded, so dead and moved links can be flagged on their cards.
+ALTER TABLE public.bookmarks
+  ADD COLUMN link_status TEXT
+    CHECK (link_status IN ('ok', 'moved', 'not_found', 'timeout', 'error')),
+  ADD COLUMN link_http_status INTEGER,
+  ADD COLUMN link_final_url TEXT,
+  ADD COLUMN link_checked_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN link_failure_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN link_next_check_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+-- Lets the checker find due links without scanning every bookmark
+CREATE INDEX idx_bookmarks_link_check_queue
+  ON public.bookmarks (link_next_check_at)
+  WHERE deleted_at IS NULL;
+
+-- Claims up to batch_size links that are due for a check, or the given bookmarks right away.
+-- Claimed rows get a lease: if the checker dies mid-run they become due again after 10 minutes.
+-- SECURITY INVOKER, so callers using a user's token can only claim that user's bookmarks.
+CREATE OR REPLACE FUNCTION public.claim_link_checks(batch_size INTEGER DEFAULT 25, bookmark_filter UUID[] DEFAULT NULL)
+RETURNS TABLE (id UUID, url TEXT, failure_count INTEGER)
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.bookmarks AS b
+  SET link_next_check_at = now() + interval '10 minutes'
+  WHERE b.id IN (
+    SELECT q.id
+    FROM public.bookmarks AS q
+    WHERE q.deleted_at IS NULL
+      AND (
+        (bookmark_filter IS NULL AND q.link_next_check_at <= now())
+        OR q.id = ANY (bookmark_filter)
+      )
+    ORDER BY q.link_next_check_at
+    LIMIT LEAST(GREATEST(batch_size, 1), 100)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING b.id, b.url, b.link_failure_count;
+$$;
+
+-- A new URL (edited, or updated to its redirect target) hasn't been checked yet
+CREATE OR REPLACE FUNCTION public.reset_link_health()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.url IS DISTINCT FROM OLD.url THEN
+    NEW.link_status := NULL;
+    NEW.link_http_status := NULL;
+    NEW.link_final_url := NULL;
+    NEW.link_checked_at := NULL;
+    NEW.link_failure_count := 0;
+    NEW.link_next_check_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER reset_bookmarks_link_health
+BEFORE UPDATE OF url ON public.bookmarks
+FOR EACH ROW
+EXECUTE FUNCTION public.reset_link_health();
+
+-- is:broken matches links whose last check failed
+CREATE OR REPLACE FUNCTION public.compile_search_node(node JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  node_type TEXT := node->>'type';
+  node_value TEXT := node->>'value';
+  parts TEXT[];
+  text_query TSQUERY;
+  host_expr CONSTANT TEXT := $h$regexp_replace(lower(substring(b.url from '^[a-zA-Z][a-zA-Z0-9+.-]*://([^/:?#]+)')), '^www\.', '')$h$;
+BEGIN
+  CASE node_type
+    WHEN 'and', 'or' THEN
+      SELECT array_agg(public.compile_search_node(child))
+      INTO parts
+      FROM jsonb_array_elements(node->'children') AS child;
+
+      IF parts IS NULL THEN
+        RETURN 'true';
+      END IF;
+      RETURN '(' || array_to_string(parts, CASE WHEN node_type = 'and' THEN ' AND ' ELSE ' OR ' END) || ')';
+
+    WHEN 'not' THEN
+      RETURN '(NOT ' || public.compile_search_node(node->'child') || ')';
+
+    WHEN 'term', 'phrase' THEN
+      text_query := CASE
+        WHEN node_type = 'term' THEN public.build_search_query(node_value)
+        ELSE phraseto_tsquery('english', node_value)
+      END;
+      -- Stop words produce an empty query, which matches everything
+      IF text_query IS NULL OR numnode(text_query) = 0 THEN
+        RETURN 'true';
+      END IF;
+      RETURN format('(b.search_vector @@ %L::tsquery)', text_query::text);
+
+    WHEN 'tag' THEN
+      -- tag:lang also matches nested tags such as lang/rust
+      RETURN format('EXISTS (SELECT 1 FROM unnest(b.tags) AS t WHERE lower(t) = lower(%1$L) OR starts_with(lower(t), lower(%1$L) || ''/''))', node_value);
+
+    WHEN 'site' THEN
+      RETURN format('(%1$s = %2$L OR right(%1$s, %3$s) = %4$L)',
+        host_expr, lower(node_value), length(node_value) + 1, '.' || lower(node_value));
+
+    WHEN 'before' THEN
+      RETURN format('(b.created_at < %L::date::timestamptz)', node_value::date);
+
+    WHEN 'after' THEN
+      RETURN format('(b.created_at >= (%L::date + 1)::timestamptz)', node_value::date);
+
+    WHEN 'is' THEN
+      -- Read state isn't tracked yet, so every bookmark counts as unread
+      CASE lower(node_value)
+        WHEN 'unread' THEN RETURN 'true';
+        WHEN 'read' THEN RETURN 'false';
+        WHEN 'broken' THEN RETURN $b$(b.link_status IN ('not_found', 'timeout', 'error'))$b$;
+        ELSE RAISE EXCEPTION 'Unknown search flag: is:%', node_value;
+      END CASE;
+
+    ELSE
+      RAISE EXCEPTION 'Unknown search node type: %', node_type;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Check links every hour; each run takes the batch that's most overdue.
+-- Requires the project_url and service_role_key secrets in Vault (see Readme).
+SELECT cron.schedule(
+  'check-links',
+  '7 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/check-links',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
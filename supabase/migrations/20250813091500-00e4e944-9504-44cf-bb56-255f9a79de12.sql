@@ -0,0 +1,94 @@
+-- Archived snapshots: a cleaned, readable copy of a bookmarked page, kept in case it disappears.
+-- The sanitized HTML and plain text live in the private "snapshots" Storage bucket under
+-- <user_id>/<bookmark_id>/<snapshot_id>.html|.txt; each archive run adds a new version.
+CREATE TABLE public.snapshots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  bookmark_id UUID NOT NULL REFERENCES public.bookmarks(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  -- Page URL after redirects
+  url TEXT NOT NULL,
+  title TEXT NOT NULL,
+  byline TEXT,
+  excerpt TEXT,
+  word_count INTEGER NOT NULL DEFAULT 0,
+  html_path TEXT NOT NULL,
+  text_path TEXT NOT NULL,
+  -- SHA-256 of the sanitized HTML, so archiving an unchanged page doesn't add a version
+  content_hash TEXT NOT NULL,
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (bookmark_id, version)
+);
+
+-- When the latest snapshot was taken, so cards know there's an archived copy to open
+ALTER TABLE public.bookmarks
+  ADD COLUMN last_snapshot_at TIMESTAMP WITH TIME ZONE;
+
+-- Enable Row Level Security
+ALTER TABLE public.snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own snapshots" 
+ON public.snapshots 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own snapshots" 
+ON public.snapshots 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.bookmarks b WHERE b.id = bookmark_id AND b.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own snapshots" 
+ON public.snapshots 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own snapshots" 
+ON public.snapshots 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Number each bookmark's snapshots 1, 2, 3... and record the latest on the bookmark.
+-- Updating the bookmark first locks its row, so concurrent archive runs get distinct versions.
+CREATE OR REPLACE FUNCTION public.set_snapshot_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.bookmarks
+  SET last_snapshot_at = NEW.fetched_at
+  WHERE id = NEW.bookmark_id;
+
+  SELECT coalesce(max(version), 0) + 1 INTO NEW.version
+  FROM public.snapshots
+  WHERE bookmark_id = NEW.bookmark_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_snapshots_version
+BEFORE INSERT ON public.snapshots
+FOR EACH ROW
+EXECUTE FUNCTION public.set_snapshot_version();
+
+-- Private bucket for snapshot files; each user can only touch their own folder
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('snapshots', 'snapshots', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view their own snapshot files"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'snapshots' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can create their own snapshot files"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'snapshots' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own snapshot files"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'snapshots' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,77 @@
+-- Reading states: whether a bookmark has been read, is a favorite, or was archived (filed away
+-- as reference, out of the inbox). Archiving is separate from the trash and from archived
+-- page snapshots.
+ALTER TABLE public.bookmarks
+  ADD COLUMN is_read BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN is_favorite BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+-- Keeps the header's unread count cheap
+CREATE INDEX idx_bookmarks_unread
+  ON public.bookmarks (user_id)
+  WHERE NOT is_read AND archived_at IS NULL AND deleted_at IS NULL;
+
+-- is:read and is:unread use the real read state; adds is:favorite and is:archived
+CREATE OR REPLACE FUNCTION public.compile_search_node(node JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  node_type TEXT := node->>'type';
+  node_value TEXT := node->>'value';
+  parts TEXT[];
+  text_query TSQUERY;
+  host_expr CONSTANT TEXT := $h$regexp_replace(lower(substring(b.url from '^[a-zA-Z][a-zA-Z0-9+.-]*://([^/:?#]+)')), '^www\.', '')$h$;
+BEGIN
+  CASE node_type
+    WHEN 'and', 'or' THEN
+      SELECT array_agg(public.compile_search_node(child))
+      INTO parts
+      FROM jsonb_array_elements(node->'children') AS child;
+
+      IF parts IS NULL THEN
+        RETURN 'true';
+      END IF;
+      RETURN '(' || array_to_string(parts, CASE WHEN node_type = 'and' THEN ' AND ' ELSE ' OR ' END) || ')';
+
+    WHEN 'not' THEN
+      RETURN '(NOT ' || public.compile_search_node(node->'child') || ')';
+
+    WHEN 'term', 'phrase' THEN
+      text_query := CASE
+        WHEN node_type = 'term' THEN public.build_search_query(node_value)
+        ELSE phraseto_tsquery('english', node_value)
+      END;
+      -- Stop words produce an empty query, which matches everything
+      IF text_query IS NULL OR numnode(text_query) = 0 THEN
+        RETURN 'true';
+      END IF;
+      RETURN format('(b.search_vector @@ %L::tsquery)', text_query::text);
+
+    WHEN 'tag' THEN
+      -- tag:lang also matches nested tags such as lang/rust
+      RETURN format('EXISTS (SELECT 1 FROM unnest(b.tags) AS t WHERE lower(t) = lower(%1$L) OR starts_with(lower(t), lower(%1$L) || ''/''))', node_value);
+
+    WHEN 'site' THEN
+      RETURN format('(%1$s = %2$L OR right(%1$s, %3$s) = %4$L)',
+        host_expr, lower(node_value), length(node_value) + 1, '.' || lower(node_value));
+
+    WHEN 'before' THEN
+      RETURN format('(b.created_at < %L::date::timestamptz)', node_value::date);
+
+    WHEN 'after' THEN
+      RETURN format('(b.created_at >= (%L::date + 1)::timestamptz)', node_value::date);
+
+    WHEN 'is' THEN
+      CASE lower(node_value)
+        WHEN 'unread' THEN RETURN '(NOT b.is_read)';
+        WHEN 'read' THEN RETURN '(b.is_read)';
+        WHEN 'favorite' THEN RETURN '(b.is_favorite)';
+        WHEN 'archived' THEN RETURN '(b.archived_at IS NOT NULL)';
+        WHEN 'broken' THEN RETURN $b$(b.link_status IN ('not_found', 'timeout', 'error'))$b$;
+        ELSE RAISE EXCEPTION 'Unknown search flag: is:%', node_value;
+      END CASE;
+
+    ELSE
+      RAISE EXCEPTION 'Unknown search node type: %', node_type;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
@@ -0,0 +1,142 @@
+-- Personal notes and highlights. Notes (bookmarks.notes, now written in Markdown) become
+-- searchable, and highlights store passages selected in the reader with a color and comment.
+CREATE TABLE public.highlights (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  bookmark_id UUID NOT NULL REFERENCES public.bookmarks(id) ON DELETE CASCADE,
+  -- Snapshot the passage was selected in; kept when the page is archived again
+  snapshot_id UUID REFERENCES public.snapshots(id) ON DELETE SET NULL,
+  text TEXT NOT NULL CHECK (btrim(text) <> ''),
+  -- Character offsets into the snapshot's article text, plus a little surrounding text so the
+  -- passage can be found again in a newer snapshot
+  start_offset INTEGER NOT NULL CHECK (start_offset >= 0),
+  end_offset INTEGER NOT NULL CHECK (end_offset > start_offset),
+  prefix TEXT NOT NULL DEFAULT '',
+  suffix TEXT NOT NULL DEFAULT '',
+  color TEXT NOT NULL DEFAULT 'yellow' CHECK (color IN ('yellow', 'green', 'blue', 'pink', 'purple')),
+  comment TEXT,
+  search_vector TSVECTOR GENERATED ALWAYS AS (
+    to_tsvector('english', text || ' ' || coalesce(comment, ''))
+  ) STORED,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_highlights_bookmark ON public.highlights (bookmark_id, start_offset);
+CREATE INDEX idx_highlights_search_vector ON public.highlights USING GIN (search_vector);
+
+-- Enable Row Level Security
+ALTER TABLE public.highlights ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own highlights" 
+ON public.highlights 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own highlights" 
+ON public.highlights 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.bookmarks b WHERE b.id = bookmark_id AND b.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own highlights" 
+ON public.highlights 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own highlights" 
+ON public.highlights 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_highlights_updated_at
+BEFORE UPDATE ON public.highlights
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rebuild the search vector so notes are searchable, weighted like summaries
+DROP INDEX IF EXISTS public.idx_bookmarks_search_vector;
+ALTER TABLE public.bookmarks DROP COLUMN search_vector;
+
+ALTER TABLE public.bookmarks
+ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', public.tags_to_text(tags)), 'B') ||
+  setweight(to_tsvector('english',
+    coalesce(tldr, '') || ' ' || public.tags_to_text(key_points) || ' ' || coalesce(summary, '') || ' ' || coalesce(notes, '')), 'C') ||
+  setweight(to_tsvector('simple', regexp_replace(url, '[^[:alnum:]]+', ' ', 'g')), 'D')
+) STORED;
+
+CREATE INDEX idx_bookmarks_search_vector ON public.bookmarks USING GIN (search_vector);
+
+-- Free text also matches the bookmark's highlights
+CREATE OR REPLACE FUNCTION public.compile_search_node(node JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  node_type TEXT := node->>'type';
+  node_value TEXT := node->>'value';
+  parts TEXT[];
+  text_query TSQUERY;
+  host_expr CONSTANT TEXT := $h$regexp_replace(lower(substring(b.url from '^[a-zA-Z][a-zA-Z0-9+.-]*://([^/:?#]+)')), '^www\.', '')$h$;
+BEGIN
+  CASE node_type
+    WHEN 'and', 'or' THEN
+      SELECT array_agg(public.compile_search_node(child))
+      INTO parts
+      FROM jsonb_array_elements(node->'children') AS child;
+
+      IF parts IS NULL THEN
+        RETURN 'true';
+      END IF;
+      RETURN '(' || array_to_string(parts, CASE WHEN node_type = 'and' THEN ' AND ' ELSE ' OR ' END) || ')';
+
+    WHEN 'not' THEN
+      RETURN '(NOT ' || public.compile_search_node(node->'child') || ')';
+
+    WHEN 'term', 'phrase' THEN
+      text_query := CASE
+        WHEN node_type = 'term' THEN public.build_search_query(node_value)
+        ELSE phraseto_tsquery('english', node_value)
+      END;
+      -- Stop words produce an empty query, which matches everything
+      IF text_query IS NULL OR numnode(text_query) = 0 THEN
+        RETURN 'true';
+      END IF;
+      -- Highlighted passages and their comments match too
+      RETURN format(
+        '(b.search_vector @@ %1$L::tsquery OR EXISTS (SELECT 1 FROM public.highlights h WHERE h.bookmark_id = b.id AND h.search_vector @@ %1$L::tsquery))',
+        text_query::text);
+
+    WHEN 'tag' THEN
+      -- tag:lang also matches nested tags such as lang/rust
+      RETURN format('EXISTS (SELECT 1 FROM unnest(b.tags) AS t WHERE lower(t) = lower(%1$L) OR starts_with(lower(t), lower(%1$L) || ''/''))', node_value);
+
+    WHEN 'site' THEN
+      RETURN format('(%1$s = %2$L OR right(%1$s, %3$s) = %4$L)',
+        host_expr, lower(node_value), length(node_value) + 1, '.' || lower(node_value));
+
+    WHEN 'before' THEN
+      RETURN format('(b.created_at < %L::date::timestamptz)', node_value::date);
+
+    WHEN 'after' THEN
+      RETURN format('(b.created_at >= (%L::date + 1)::timestamptz)', node_value::date);
+
+    WHEN 'is' THEN
+      CASE lower(node_value)
+        WHEN 'unread' THEN RETURN '(NOT b.is_read)';
+        WHEN 'read' THEN RETURN '(b.is_read)';
+        WHEN 'favorite' THEN RETURN '(b.is_favorite)';
+        WHEN 'archived' THEN RETURN '(b.archived_at IS NOT NULL)';
+        WHEN 'broken' THEN RETURN $b$(b.link_status IN ('not_found', 'timeout', 'error'))$b$;
+        ELSE RAISE EXCEPTION 'Unknown search flag: is:%', node_value;
+      END CASE;
+
+    ELSE
+      RAISE EXCEPTION 'Unknown search node type: %', node_type;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
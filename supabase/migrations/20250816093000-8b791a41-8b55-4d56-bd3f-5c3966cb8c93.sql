@@ -0,0 +1,127 @@
+-- Shared collections: a collection can be published as a read-only page at /s/<slug>.
+-- The slug is the only secret, so it is random (122 bits) and can be regenerated to
+-- invalidate an old link. Deleting the share revokes it.
+CREATE TABLE public.collection_shares (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  collection_id UUID NOT NULL UNIQUE REFERENCES public.collections(id) ON DELETE CASCADE,
+  slug TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', '')
+    CHECK (slug ~ '^[0-9a-f]{32}$'),
+  -- What visitors don't see
+  hide_notes BOOLEAN NOT NULL DEFAULT false,
+  hide_summaries BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_collection_shares_user_id ON public.collection_shares (user_id);
+
+-- Enable Row Level Security. Only owners can see or change their shares; visitors never read
+-- this table (or bookmarks) directly, so slugs can't be listed.
+ALTER TABLE public.collection_shares ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own collection shares"
+ON public.collection_shares
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own collection shares"
+ON public.collection_shares
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.collections c WHERE c.id = collection_id AND c.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own collection shares"
+ON public.collection_shares
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.collections c WHERE c.id = collection_id AND c.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can delete their own collection shares"
+ON public.collection_shares
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_collection_shares_updated_at
+BEFORE UPDATE ON public.collection_shares
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Give a share a new slug; the old link stops working. SECURITY INVOKER, so only the owner's
+-- shares can be changed.
+CREATE OR REPLACE FUNCTION public.regenerate_share_slug(share_id UUID)
+RETURNS TEXT AS $$
+  UPDATE public.collection_shares
+  SET slug = DEFAULT
+  WHERE id = share_id
+  RETURNING slug;
+$$ LANGUAGE sql SET search_path = public;
+
+-- Public read path for visitors (including signed-out ones). Each function looks up exactly
+-- one share by its slug and returns only that collection's rows, with hidden fields blanked.
+
+-- The shared collection's name and settings; no rows when the slug is unknown or revoked
+CREATE OR REPLACE FUNCTION public.get_shared_collection(share_slug TEXT)
+RETURNS TABLE (
+  name TEXT,
+  hide_notes BOOLEAN,
+  hide_summaries BOOLEAN,
+  shared_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT c.name, s.hide_notes, s.hide_summaries, s.created_at
+  FROM public.collection_shares s
+  JOIN public.collections c ON c.id = s.collection_id
+  WHERE s.slug = share_slug;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The bookmarks filed directly in a shared collection, in the owner's order. Trashed bookmarks
+-- and private columns (reading state, link health, enrichment errors) are never returned.
+CREATE OR REPLACE FUNCTION public.list_shared_bookmarks(share_slug TEXT)
+RETURNS TABLE (
+  id UUID,
+  url TEXT,
+  title TEXT,
+  favicon_url TEXT,
+  summary TEXT,
+  tldr TEXT,
+  key_points TEXT[],
+  description TEXT,
+  notes TEXT,
+  tags TEXT[],
+  image_url TEXT,
+  site_name TEXT,
+  author TEXT,
+  published_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE,
+  "position" INTEGER
+) AS $$
+  SELECT
+    b.id,
+    b.url,
+    b.title,
+    b.favicon_url,
+    CASE WHEN s.hide_summaries THEN NULL ELSE b.summary END,
+    CASE WHEN s.hide_summaries THEN NULL ELSE b.tldr END,
+    CASE WHEN s.hide_summaries THEN '{}' ELSE coalesce(b.key_points, '{}') END,
+    CASE WHEN s.hide_summaries THEN NULL ELSE b.description END,
+    CASE WHEN s.hide_notes THEN NULL ELSE b.notes END,
+    coalesce(b.tags, '{}'),
+    b.image_url,
+    b.site_name,
+    b.author,
+    b.published_at,
+    b.created_at,
+    b.position
+  FROM public.collection_shares s
+  JOIN public.bookmarks b ON b.collection_id = s.collection_id AND b.user_id = s.user_id
+  WHERE s.slug = share_slug AND b.deleted_at IS NULL
+  ORDER BY b.position, b.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_collection(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.list_shared_bookmarks(TEXT) TO anon, authenticated;
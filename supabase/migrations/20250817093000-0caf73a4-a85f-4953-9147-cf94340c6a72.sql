@@ -0,0 +1,594 @@
+-- Team workspaces: a workspace holds bookmarks shared by its members, who each have a role.
+-- Viewers can read, editors can also add, change and delete bookmarks, and owners can also
+-- manage members and invitations. Bookmarks without a workspace_id are personal, as before.
+CREATE TABLE public.workspaces (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.workspace_members (
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX idx_workspace_members_user_id ON public.workspace_members (user_id);
+
+-- Invitations are accepted with their token, which is sent to the invitee by email. The token is
+-- the only secret, so it is random (122 bits); an invitation expires after a week.
+CREATE TABLE public.workspace_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email = lower(btrim(email)) AND email LIKE '%_@_%'),
+  role TEXT NOT NULL DEFAULT 'editor' CHECK (role IN ('editor', 'viewer')),
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  invited_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '7 days',
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID
+);
+
+-- One open invitation per address; inviting again replaces it
+CREATE UNIQUE INDEX workspace_invitations_pending_email_key
+ON public.workspace_invitations (workspace_id, email)
+WHERE accepted_at IS NULL;
+
+ALTER TABLE public.bookmarks
+  ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_bookmarks_workspace_id
+ON public.bookmarks (workspace_id, position)
+WHERE workspace_id IS NOT NULL;
+
+-- A link can be saved once in each space: once personally by each user, and once per workspace
+DROP INDEX IF EXISTS public.bookmarks_user_normalized_url_key;
+
+CREATE UNIQUE INDEX bookmarks_user_normalized_url_key
+ON public.bookmarks (user_id, normalized_url)
+WHERE deleted_at IS NULL AND workspace_id IS NULL;
+
+CREATE UNIQUE INDEX bookmarks_workspace_normalized_url_key
+ON public.bookmarks (workspace_id, normalized_url)
+WHERE deleted_at IS NULL AND workspace_id IS NOT NULL;
+
+-- Roles in increasing order of what they allow
+CREATE OR REPLACE FUNCTION public.workspace_role_rank(role TEXT)
+RETURNS INTEGER AS $$
+  SELECT CASE role WHEN 'owner' THEN 3 WHEN 'editor' THEN 2 WHEN 'viewer' THEN 1 ELSE 0 END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- True when the current user is a member of the workspace with at least min_role.
+-- SECURITY DEFINER so policies on workspace_members can use it without recursing.
+CREATE OR REPLACE FUNCTION public.has_workspace_role(ws UUID, min_role TEXT DEFAULT 'viewer')
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.workspace_members m
+    WHERE m.workspace_id = ws
+      AND m.user_id = auth.uid()
+      AND public.workspace_role_rank(m.role) >= public.workspace_role_rank(min_role)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- True when the current user may act on a bookmark with the given owner and workspace:
+-- personal bookmarks belong to their owner alone, workspace bookmarks to members with min_role
+CREATE OR REPLACE FUNCTION public.can_access_bookmark(owner_id UUID, ws UUID, min_role TEXT DEFAULT 'viewer')
+RETURNS BOOLEAN AS $$
+  SELECT CASE WHEN ws IS NULL THEN owner_id = auth.uid() ELSE public.has_workspace_role(ws, min_role) END;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Same check by bookmark id, for rows that hang off a bookmark (snapshots, highlights, files).
+-- SECURITY DEFINER so it also sees bookmarks in the trash.
+CREATE OR REPLACE FUNCTION public.can_access_bookmark_id(bookmark UUID, min_role TEXT DEFAULT 'viewer')
+RETURNS BOOLEAN AS $$
+  SELECT coalesce((
+    SELECT public.can_access_bookmark(b.user_id, b.workspace_id, min_role)
+    FROM public.bookmarks b
+    WHERE b.id = bookmark
+  ), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The workspace creator becomes its first owner
+CREATE OR REPLACE FUNCTION public.add_workspace_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (NEW.id, NEW.created_by, 'owner');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER add_workspaces_owner
+AFTER INSERT ON public.workspaces
+FOR EACH ROW
+EXECUTE FUNCTION public.add_workspace_owner();
+
+-- A workspace always keeps at least one owner, unless the workspace itself is being deleted
+CREATE OR REPLACE FUNCTION public.keep_workspace_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.role = 'owner'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+    AND EXISTS (SELECT 1 FROM public.workspaces w WHERE w.id = OLD.workspace_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.workspace_members m
+      WHERE m.workspace_id = OLD.workspace_id AND m.role = 'owner' AND m.user_id <> OLD.user_id
+    )
+  THEN
+    RAISE EXCEPTION 'A workspace needs at least one owner. Make someone else an owner first.';
+  END IF;
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER keep_workspace_members_owner
+BEFORE UPDATE OR DELETE ON public.workspace_members
+FOR EACH ROW
+EXECUTE FUNCTION public.keep_workspace_owner();
+
+CREATE TRIGGER update_workspaces_updated_at
+BEFORE UPDATE ON public.workspaces
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Workspaces are visible to their members (and to the creator, so the insert can return the row)
+CREATE POLICY "Members can view their workspaces"
+ON public.workspaces
+FOR SELECT
+USING (created_by = auth.uid() OR public.has_workspace_role(id));
+
+CREATE POLICY "Users can create workspaces"
+ON public.workspaces
+FOR INSERT
+WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Owners can update their workspaces"
+ON public.workspaces
+FOR UPDATE
+USING (public.has_workspace_role(id, 'owner'));
+
+CREATE POLICY "Owners can delete their workspaces"
+ON public.workspaces
+FOR DELETE
+USING (public.has_workspace_role(id, 'owner'));
+
+-- Members see each other; owners add members and change roles; anyone can leave
+CREATE POLICY "Members can view their workspace members"
+ON public.workspace_members
+FOR SELECT
+USING (public.has_workspace_role(workspace_id));
+
+CREATE POLICY "Owners can add workspace members"
+ON public.workspace_members
+FOR INSERT
+WITH CHECK (public.has_workspace_role(workspace_id, 'owner'));
+
+CREATE POLICY "Owners can update workspace members"
+ON public.workspace_members
+FOR UPDATE
+USING (public.has_workspace_role(workspace_id, 'owner'));
+
+CREATE POLICY "Owners can remove workspace members"
+ON public.workspace_members
+FOR DELETE
+USING (user_id = auth.uid() OR public.has_workspace_role(workspace_id, 'owner'));
+
+-- Invitations are managed by owners; invitees use the token functions below instead
+CREATE POLICY "Owners can view workspace invitations"
+ON public.workspace_invitations
+FOR SELECT
+USING (public.has_workspace_role(workspace_id, 'owner'));
+
+CREATE POLICY "Owners can create workspace invitations"
+ON public.workspace_invitations
+FOR INSERT
+WITH CHECK (invited_by = auth.uid() AND public.has_workspace_role(workspace_id, 'owner'));
+
+CREATE POLICY "Owners can delete workspace invitations"
+ON public.workspace_invitations
+FOR DELETE
+USING (public.has_workspace_role(workspace_id, 'owner'));
+
+-- Bookmarks are authorized by ownership in the personal space and by role in a workspace.
+-- Bookmarks are always created by the signed-in user, who stays their user_id.
+DROP POLICY "Users can view their own bookmarks" ON public.bookmarks;
+DROP POLICY "Users can create their own bookmarks" ON public.bookmarks;
+DROP POLICY "Users can update their own bookmarks" ON public.bookmarks;
+DROP POLICY "Users can delete their own bookmarks" ON public.bookmarks;
+
+CREATE POLICY "Users can view bookmarks they can access"
+ON public.bookmarks
+FOR SELECT
+USING (deleted_at IS NULL AND public.can_access_bookmark(user_id, workspace_id));
+
+CREATE POLICY "Users can create bookmarks where they can edit"
+ON public.bookmarks
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.can_access_bookmark(user_id, workspace_id, 'editor'));
+
+CREATE POLICY "Users can update bookmarks they can edit"
+ON public.bookmarks
+FOR UPDATE
+USING (public.can_access_bookmark(user_id, workspace_id, 'editor'))
+WITH CHECK (public.can_access_bookmark(user_id, workspace_id, 'editor'));
+
+CREATE POLICY "Users can delete bookmarks they can edit"
+ON public.bookmarks
+FOR DELETE
+USING (public.can_access_bookmark(user_id, workspace_id, 'editor'));
+
+-- Snapshots follow their bookmark: members can read a workspace bookmark's archive and editors
+-- can archive it. Rows keep the bookmark owner's user_id, matching their file folder.
+DROP POLICY "Users can view their own snapshots" ON public.snapshots;
+DROP POLICY "Users can create their own snapshots" ON public.snapshots;
+DROP POLICY "Users can update their own snapshots" ON public.snapshots;
+DROP POLICY "Users can delete their own snapshots" ON public.snapshots;
+
+CREATE POLICY "Users can view snapshots of bookmarks they can access"
+ON public.snapshots
+FOR SELECT
+USING (public.can_access_bookmark_id(bookmark_id));
+
+CREATE POLICY "Users can create snapshots of bookmarks they can edit"
+ON public.snapshots
+FOR INSERT
+WITH CHECK (
+  public.can_access_bookmark_id(bookmark_id, 'editor')
+  AND EXISTS (SELECT 1 FROM public.bookmarks b WHERE b.id = bookmark_id AND b.user_id = snapshots.user_id)
+);
+
+CREATE POLICY "Users can update snapshots of bookmarks they can edit"
+ON public.snapshots
+FOR UPDATE
+USING (public.can_access_bookmark_id(bookmark_id, 'editor'));
+
+CREATE POLICY "Users can delete snapshots of bookmarks they can edit"
+ON public.snapshots
+FOR DELETE
+USING (public.can_access_bookmark_id(bookmark_id, 'editor'));
+
+-- Snapshot files live under <owner id>/<bookmark id>/. The owner's own-folder policies stay;
+-- these let workspace members reach the files of the workspace's bookmarks.
+CREATE OR REPLACE FUNCTION public.can_access_snapshot_file(object_name TEXT, min_role TEXT DEFAULT 'viewer')
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.bookmarks b
+    WHERE b.id::text = (storage.foldername(object_name))[2]
+      AND b.user_id::text = (storage.foldername(object_name))[1]
+      AND b.workspace_id IS NOT NULL
+      AND public.has_workspace_role(b.workspace_id, min_role)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Workspace members can view snapshot files"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'snapshots' AND public.can_access_snapshot_file(name));
+
+CREATE POLICY "Workspace editors can create snapshot files"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'snapshots' AND public.can_access_snapshot_file(name, 'editor'));
+
+CREATE POLICY "Workspace editors can delete snapshot files"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'snapshots' AND public.can_access_snapshot_file(name, 'editor'));
+
+-- Highlights stay private to whoever made them, but can be made on any bookmark the user can read
+DROP POLICY "Users can create their own highlights" ON public.highlights;
+
+CREATE POLICY "Users can create their own highlights"
+ON public.highlights
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.can_access_bookmark_id(bookmark_id));
+
+-- Same search as before, limited to one space: the personal bookmarks when workspace_filter is
+-- NULL, otherwise that workspace's bookmarks
+DROP FUNCTION IF EXISTS public.search_bookmarks(TEXT, UUID, INTEGER, JSONB);
+
+CREATE OR REPLACE FUNCTION public.search_bookmarks(
+  search_text TEXT,
+  collection_filter UUID DEFAULT NULL,
+  match_limit INTEGER DEFAULT 100,
+  query_ast JSONB DEFAULT NULL,
+  workspace_filter UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  bookmark JSONB,
+  rank REAL,
+  title_highlight TEXT,
+  summary_highlight TEXT
+) AS $$
+DECLARE
+  text_query TSQUERY := public.build_search_query(search_text);
+  condition TEXT;
+  highlight_options CONSTANT TEXT := 'StartSel=' || chr(2) || ', StopSel=' || chr(3);
+BEGIN
+  IF query_ast IS NOT NULL THEN
+    condition := public.compile_search_node(query_ast);
+  ELSIF text_query IS NOT NULL THEN
+    condition := 'b.search_vector @@ $1';
+  ELSE
+    RETURN;
+  END IF;
+
+  RETURN QUERY EXECUTE format($query$
+    WITH matches AS (
+      SELECT b.*, coalesce(ts_rank_cd(b.search_vector, $1, 32), 0)::real AS match_rank
+      FROM public.bookmarks b
+      WHERE b.workspace_id IS NOT DISTINCT FROM $5
+        AND ($5::uuid IS NOT NULL OR b.user_id = auth.uid())
+        AND ($2::uuid IS NULL OR b.collection_id = $2)
+        AND %s
+      ORDER BY match_rank DESC, b.position ASC
+      LIMIT $3
+    )
+    SELECT
+      to_jsonb(m) - 'search_vector' - 'match_rank',
+      m.match_rank,
+      CASE WHEN $1 IS NULL THEN m.title
+        ELSE ts_headline('english', m.title, $1, 'HighlightAll=true, ' || $4) END,
+      CASE WHEN $1 IS NULL OR coalesce(m.tldr, m.summary) IS NULL THEN NULL
+        ELSE ts_headline('english', coalesce(m.tldr, m.summary), $1,
+          'MaxFragments=2, MinWords=8, MaxWords=24, FragmentDelimiter=" … ", ' || $4) END
+    FROM matches m
+    ORDER BY m.match_rank DESC, m.position ASC
+  $query$, condition)
+  USING text_query, collection_filter, least(greatest(match_limit, 1), 500), highlight_options, workspace_filter;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Bulk tagging works on any bookmark the user can edit
+CREATE OR REPLACE FUNCTION public.update_bookmark_tags(
+  bookmark_ids UUID[],
+  add_tags TEXT[] DEFAULT '{}',
+  remove_tags TEXT[] DEFAULT '{}'
+)
+RETURNS TABLE (id UUID, tags TEXT[]) AS $$
+  UPDATE public.bookmarks b
+  SET tags = (
+    SELECT coalesce(array_agg(name ORDER BY first_position), '{}')
+    FROM (
+      SELECT (array_agg(btrim(t.name) ORDER BY t.position))[1] AS name, min(t.position) AS first_position
+      FROM unnest(coalesce(b.tags, '{}') || coalesce(add_tags, '{}')) WITH ORDINALITY AS t(name, position)
+      WHERE btrim(t.name) <> ''
+        AND lower(btrim(t.name)) <> ALL (SELECT lower(btrim(r)) FROM unnest(coalesce(remove_tags, '{}')) AS r)
+      GROUP BY lower(btrim(t.name))
+    ) deduped
+  )
+  WHERE public.can_access_bookmark(b.user_id, b.workspace_id, 'editor') AND b.id = ANY (bookmark_ids)
+  RETURNING b.id, b.tags;
+$$ LANGUAGE sql SET search_path = public;
+
+-- The trash works per space too: editors can trash, restore and delete a workspace's bookmarks
+CREATE OR REPLACE FUNCTION public.trash_bookmarks(bookmark_ids UUID[])
+RETURNS INTEGER AS $$
+  WITH trashed AS (
+    UPDATE public.bookmarks
+    SET deleted_at = now()
+    WHERE public.can_access_bookmark(user_id, workspace_id, 'editor') AND id = ANY (bookmark_ids) AND deleted_at IS NULL
+    RETURNING id
+  )
+  SELECT count(*)::INTEGER FROM trashed;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.restore_bookmarks(bookmark_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+  restored INTEGER;
+BEGIN
+  UPDATE public.bookmarks
+  SET deleted_at = NULL, normalized_url = public.normalize_url(url)
+  WHERE public.can_access_bookmark(user_id, workspace_id, 'editor') AND id = ANY (bookmark_ids) AND deleted_at IS NOT NULL;
+  GET DIAGNOSTICS restored = ROW_COUNT;
+  RETURN restored;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'This link has been saved again since it was deleted. Delete the newer copy first.';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Merging works within one space: the kept bookmark and every duplicate must be in the same
+-- space, and the user must be able to edit them all
+CREATE OR REPLACE FUNCTION public.merge_bookmarks(keep_id UUID, duplicate_ids UUID[])
+RETURNS VOID AS $$
+DECLARE
+  kept public.bookmarks%ROWTYPE;
+BEGIN
+  SELECT * INTO kept FROM public.bookmarks
+  WHERE id = keep_id AND deleted_at IS NULL AND public.can_access_bookmark(user_id, workspace_id, 'editor');
+  IF kept.id IS NULL THEN
+    RAISE EXCEPTION 'Bookmark not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(duplicate_ids) AS dup(id)
+    LEFT JOIN public.bookmarks d ON d.id = dup.id
+    WHERE dup.id <> keep_id
+      AND (d.id IS NULL OR NOT public.can_access_bookmark(d.user_id, d.workspace_id, 'editor'))
+  ) THEN
+    RAISE EXCEPTION 'Bookmark not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.bookmarks d
+    WHERE d.id = ANY (duplicate_ids) AND d.workspace_id IS DISTINCT FROM kept.workspace_id
+  ) THEN
+    RAISE EXCEPTION 'Only bookmarks in the same space can be merged';
+  END IF;
+
+  UPDATE public.bookmarks
+  SET tags = (
+        SELECT coalesce(array_agg(name ORDER BY first_position), '{}')
+        FROM (
+          SELECT t.name, min(t.position) AS first_position
+          FROM unnest(
+            coalesce(kept.tags, '{}') || coalesce((
+              SELECT array_agg(tag ORDER BY d.created_at)
+              FROM public.bookmarks d, unnest(d.tags) AS tag
+              WHERE d.id = ANY (duplicate_ids) AND d.id <> keep_id AND d.deleted_at IS NULL
+            ), '{}')
+          ) WITH ORDINALITY AS t(name, position)
+          GROUP BY t.name
+        ) deduped
+      ),
+      notes = nullif(concat_ws(E'\n\n', kept.notes, (
+        SELECT string_agg(d.notes, E'\n\n' ORDER BY d.created_at)
+        FROM public.bookmarks d
+        WHERE d.id = ANY (duplicate_ids) AND d.id <> keep_id
+          AND d.deleted_at IS NULL AND nullif(btrim(d.notes), '') IS NOT NULL
+      )), ''),
+      collection_id = coalesce(kept.collection_id, (
+        SELECT d.collection_id
+        FROM public.bookmarks d
+        WHERE d.id = ANY (duplicate_ids) AND d.id <> keep_id
+          AND d.deleted_at IS NULL AND d.collection_id IS NOT NULL
+        ORDER BY d.created_at
+        LIMIT 1
+      )),
+      created_at = least(kept.created_at, (
+        SELECT min(d.created_at)
+        FROM public.bookmarks d
+        WHERE d.id = ANY (duplicate_ids) AND d.id <> keep_id AND d.deleted_at IS NULL
+      ))
+  WHERE id = keep_id;
+
+  -- Trashed duplicates give up their normalized_url so the kept bookmark can claim it
+  UPDATE public.bookmarks
+  SET deleted_at = now(), normalized_url = NULL
+  WHERE id = ANY (duplicate_ids) AND id <> keep_id AND deleted_at IS NULL;
+
+  UPDATE public.bookmarks
+  SET normalized_url = public.normalize_url(url)
+  WHERE id = keep_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS public.delete_trashed_bookmarks(UUID[]);
+
+-- NULL bookmark_ids empties the whole trash of the space
+CREATE OR REPLACE FUNCTION public.delete_trashed_bookmarks(
+  bookmark_ids UUID[] DEFAULT NULL,
+  workspace_filter UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+  WITH deleted AS (
+    DELETE FROM public.bookmarks
+    WHERE workspace_id IS NOT DISTINCT FROM workspace_filter
+      AND public.can_access_bookmark(user_id, workspace_id, 'editor')
+      AND deleted_at IS NOT NULL
+      AND (bookmark_ids IS NULL OR id = ANY (bookmark_ids))
+    RETURNING id
+  )
+  SELECT count(*)::INTEGER FROM deleted;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS public.list_trashed_bookmarks();
+
+CREATE OR REPLACE FUNCTION public.list_trashed_bookmarks(workspace_filter UUID DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  url TEXT,
+  title TEXT,
+  favicon_url TEXT,
+  site_name TEXT,
+  tags TEXT[],
+  created_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT b.id, b.url, b.title, b.favicon_url, b.site_name, coalesce(b.tags, '{}'), b.created_at, b.deleted_at
+  FROM public.bookmarks b
+  WHERE b.workspace_id IS NOT DISTINCT FROM workspace_filter
+    AND public.can_access_bookmark(b.user_id, b.workspace_id)
+    AND b.deleted_at IS NOT NULL
+  ORDER BY b.deleted_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- A workspace's members with their names and email addresses, owners first
+CREATE OR REPLACE FUNCTION public.list_workspace_members(ws UUID)
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  full_name TEXT,
+  role TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT m.user_id, p.email, nullif(p.full_name, ''), m.role, m.created_at
+  FROM public.workspace_members m
+  LEFT JOIN public.profiles p ON p.user_id = m.user_id
+  WHERE m.workspace_id = ws AND public.has_workspace_role(ws)
+  ORDER BY public.workspace_role_rank(m.role) DESC, m.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- What an invitation link is for, so the invitee can see it before accepting; no rows when the
+-- token is unknown
+CREATE OR REPLACE FUNCTION public.get_workspace_invitation(invite_token TEXT)
+RETURNS TABLE (
+  workspace_name TEXT,
+  email TEXT,
+  role TEXT,
+  invited_by_name TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  accepted_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT w.name, i.email, i.role, coalesce(nullif(p.full_name, ''), p.email), i.expires_at, i.accepted_at
+  FROM public.workspace_invitations i
+  JOIN public.workspaces w ON w.id = i.workspace_id
+  LEFT JOIN public.profiles p ON p.user_id = i.invited_by
+  WHERE i.token = invite_token;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Join a workspace with an invitation sent to the current user's email address.
+-- Returns the workspace id; accepting again after joining does nothing.
+CREATE OR REPLACE FUNCTION public.accept_workspace_invitation(invite_token TEXT)
+RETURNS UUID AS $$
+DECLARE
+  invitation public.workspace_invitations%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to accept this invitation.';
+  END IF;
+
+  SELECT * INTO invitation FROM public.workspace_invitations
+  WHERE token = invite_token
+  FOR UPDATE;
+
+  IF invitation.id IS NULL THEN
+    RAISE EXCEPTION 'This invitation doesn''t exist or has been withdrawn.';
+  END IF;
+  IF invitation.accepted_at IS NOT NULL THEN
+    IF invitation.accepted_by = auth.uid() THEN
+      RETURN invitation.workspace_id;
+    END IF;
+    RAISE EXCEPTION 'This invitation has already been used.';
+  END IF;
+  IF invitation.expires_at < now() THEN
+    RAISE EXCEPTION 'This invitation has expired. Ask for a new one.';
+  END IF;
+  IF lower(auth.jwt() ->> 'email') IS DISTINCT FROM invitation.email THEN
+    RAISE EXCEPTION 'This invitation was sent to %. Sign in with that address to accept it.', invitation.email;
+  END IF;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (invitation.workspace_id, auth.uid(), invitation.role)
+  ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+  UPDATE public.workspace_invitations
+  SET accepted_at = now(), accepted_by = auth.uid()
+  WHERE id = invitation.id;
+
+  RETURN invitation.workspace_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
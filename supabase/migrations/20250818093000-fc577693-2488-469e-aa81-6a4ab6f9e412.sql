@@ -0,0 +1,4 @@
+-- Stream bookmark changes to open tabs and devices through Supabase Realtime.
+-- Realtime checks the bookmarks select policy for every change, so subscribers only receive
+-- rows they can see: their own bookmarks and those of workspaces they belong to.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.bookmarks;
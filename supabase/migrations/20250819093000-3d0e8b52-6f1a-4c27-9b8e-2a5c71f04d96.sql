@@ -0,0 +1,202 @@
+-- Fractional bookmark positions. Moving a bookmark gives it a position halfway between its new
+-- neighbours, so a reorder writes one row instead of renumbering the whole list. Positions are
+-- spread 1024 apart to leave room, and a space is renumbered ("rebalanced") when the gap
+-- between two neighbours gets too small to split again.
+
+-- Rows that share a position are ordered newest first, like new bookmarks
+UPDATE public.bookmarks b
+SET position = ordered.n * 1024
+FROM (
+  SELECT id, row_number() OVER (
+    PARTITION BY workspace_id, CASE WHEN workspace_id IS NULL THEN user_id END
+    ORDER BY position NULLS LAST, created_at DESC
+  ) AS n
+  FROM public.bookmarks
+) ordered
+WHERE b.id = ordered.id;
+
+ALTER TABLE public.bookmarks
+  ALTER COLUMN position DROP DEFAULT,
+  ALTER COLUMN position TYPE DOUBLE PRECISION;
+
+CREATE INDEX idx_bookmarks_user_position
+ON public.bookmarks (user_id, position)
+WHERE workspace_id IS NULL;
+
+-- New bookmarks go to the top of their space unless a position is given (e.g. by an import)
+CREATE OR REPLACE FUNCTION public.place_new_bookmark()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.position IS NULL THEN
+    SELECT coalesce(min(b.position), 0) - 1024 INTO NEW.position
+    FROM public.bookmarks b
+    WHERE b.workspace_id IS NOT DISTINCT FROM NEW.workspace_id
+      AND (NEW.workspace_id IS NOT NULL OR b.user_id = NEW.user_id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER place_new_bookmark
+BEFORE INSERT ON public.bookmarks
+FOR EACH ROW
+EXECUTE FUNCTION public.place_new_bookmark();
+
+-- Renumbers the bookmarks of one space 1024 apart, keeping their order. Trashed
+-- bookmarks are included so they come back in the same place. Not callable by users.
+CREATE OR REPLACE FUNCTION public.rebalance_bookmark_positions(owner_id UUID, ws UUID)
+RETURNS INTEGER AS $$
+  WITH ordered AS (
+    SELECT id, row_number() OVER (ORDER BY position NULLS LAST, created_at DESC) * 1024 AS new_position
+    FROM public.bookmarks
+    WHERE workspace_id IS NOT DISTINCT FROM ws AND (ws IS NOT NULL OR user_id = owner_id)
+  ),
+  rebalanced AS (
+    UPDATE public.bookmarks b
+    SET position = o.new_position
+    FROM ordered o
+    WHERE b.id = o.id AND b.position IS DISTINCT FROM o.new_position
+    RETURNING b.id
+  )
+  SELECT count(*)::INTEGER FROM rebalanced;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.rebalance_bookmark_positions(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Moves a bookmark between two neighbours, given as they are shown: after_id just above it and
+-- before_id just below it, either NULL at the ends of the list. The neighbours may be far apart
+-- in the full list (e.g. in a filtered view); the bookmarks between them keep their order.
+-- Returns the new position.
+CREATE OR REPLACE FUNCTION public.move_bookmark(bookmark_id UUID, after_id UUID DEFAULT NULL, before_id UUID DEFAULT NULL)
+RETURNS DOUBLE PRECISION AS $$
+DECLARE
+  -- Closest two positions may get before the space is rebalanced
+  min_gap CONSTANT DOUBLE PRECISION := 1e-6;
+  moved public.bookmarks%ROWTYPE;
+  lower_position DOUBLE PRECISION;
+  upper_position DOUBLE PRECISION;
+  new_position DOUBLE PRECISION;
+BEGIN
+  SELECT * INTO moved FROM public.bookmarks WHERE id = bookmark_id AND deleted_at IS NULL;
+  IF NOT FOUND OR NOT public.can_access_bookmark(moved.user_id, moved.workspace_id, 'editor') THEN
+    RAISE EXCEPTION 'Bookmark not found';
+  END IF;
+
+  FOR attempt IN 1..2 LOOP
+    lower_position := NULL;
+    upper_position := NULL;
+    IF after_id IS NOT NULL THEN
+      SELECT position INTO lower_position FROM public.bookmarks
+      WHERE id = after_id AND deleted_at IS NULL
+        AND workspace_id IS NOT DISTINCT FROM moved.workspace_id
+        AND (moved.workspace_id IS NOT NULL OR user_id = moved.user_id);
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'The bookmark to move after is no longer in this list';
+      END IF;
+    END IF;
+    IF before_id IS NOT NULL THEN
+      SELECT position INTO upper_position FROM public.bookmarks
+      WHERE id = before_id AND deleted_at IS NULL
+        AND workspace_id IS NOT DISTINCT FROM moved.workspace_id
+        AND (moved.workspace_id IS NOT NULL OR user_id = moved.user_id);
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'The bookmark to move before is no longer in this list';
+      END IF;
+    END IF;
+
+    EXIT WHEN lower_position IS NULL OR upper_position IS NULL OR upper_position - lower_position > min_gap;
+    IF attempt = 2 THEN
+      -- Still no room after rebalancing: the neighbours were reordered elsewhere in the meantime
+      RAISE EXCEPTION 'The list changed while moving this bookmark. Try again.';
+    END IF;
+    PERFORM public.rebalance_bookmark_positions(moved.user_id, moved.workspace_id);
+  END LOOP;
+
+  new_position := CASE
+    WHEN lower_position IS NULL AND upper_position IS NULL THEN moved.position
+    WHEN lower_position IS NULL THEN upper_position - 1024
+    WHEN upper_position IS NULL THEN lower_position + 1024
+    ELSE (lower_position + upper_position) / 2
+  END;
+
+  UPDATE public.bookmarks SET position = new_position WHERE id = bookmark_id;
+  RETURN new_position;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Rebalances every space where two bookmarks have come within min_gap of each other, well before
+-- moves run out of room. Run by pg_cron, not by users. Returns how many spaces were rebalanced.
+CREATE OR REPLACE FUNCTION public.rebalance_crowded_bookmark_positions(min_gap DOUBLE PRECISION DEFAULT 1e-3)
+RETURNS INTEGER AS $$
+  WITH gaps AS (
+    SELECT
+      user_id,
+      workspace_id,
+      position - lag(position) OVER (
+        PARTITION BY workspace_id, CASE WHEN workspace_id IS NULL THEN user_id END
+        ORDER BY position
+      ) AS gap
+    FROM public.bookmarks
+  ),
+  crowded AS (
+    SELECT DISTINCT CASE WHEN workspace_id IS NULL THEN user_id END AS owner_id, workspace_id
+    FROM gaps
+    WHERE gap < min_gap
+  )
+  SELECT count(public.rebalance_bookmark_positions(owner_id, workspace_id))::INTEGER FROM crowded;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.rebalance_crowded_bookmark_positions(DOUBLE PRECISION) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'rebalance-bookmark-positions',
+  '45 3 * * *',
+  $$ SELECT public.rebalance_crowded_bookmark_positions(); $$
+);
+
+-- Shared collections return the new position type
+DROP FUNCTION IF EXISTS public.list_shared_bookmarks(TEXT);
+
+CREATE OR REPLACE FUNCTION public.list_shared_bookmarks(share_slug TEXT)
+RETURNS TABLE (
+  id UUID,
+  url TEXT,
+  title TEXT,
+  favicon_url TEXT,
+  summary TEXT,
+  tldr TEXT,
+  key_points TEXT[],
+  description TEXT,
+  notes TEXT,
+  tags TEXT[],
+  image_url TEXT,
+  site_name TEXT,
+  author TEXT,
+  published_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE,
+  "position" DOUBLE PRECISION
+) AS $$
+  SELECT
+    b.id,
+    b.url,
+    b.title,
+    b.favicon_url,
+    CASE WHEN s.hide_summaries THEN NULL ELSE b.summary END,
+    CASE WHEN s.hide_summaries THEN NULL ELSE b.tldr END,
+    CASE WHEN s.hide_summaries THEN '{}' ELSE coalesce(b.key_points, '{}') END,
+    CASE WHEN s.hide_summaries THEN NULL ELSE b.description END,
+    CASE WHEN s.hide_notes THEN NULL ELSE b.notes END,
+    coalesce(b.tags, '{}'),
+    b.image_url,
+    b.site_name,
+    b.author,
+    b.published_at,
+    b.created_at,
+    b.position
+  FROM public.collection_shares s
+  JOIN public.bookmarks b ON b.collection_id = s.collection_id AND b.user_id = s.user_id
+  WHERE s.slug = share_slug AND b.deleted_at IS NULL
+  ORDER BY b.position, b.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.list_shared_bookmarks(TEXT) TO anon, authenticated;
@@ -0,0 +1,110 @@
+-- Serialize position changes per space. Without this, two moves into the same gap could both
+-- pick the same midpoint, and a move running alongside a rebalance could overwrite it.
+
+-- Held until the end of the transaction. Not callable by users.
+CREATE OR REPLACE FUNCTION public.lock_bookmark_positions(owner_id UUID, ws UUID)
+RETURNS VOID AS $$
+  SELECT pg_advisory_xact_lock(hashtext('bookmark_positions'), hashtext(coalesce(ws, owner_id)::TEXT));
+$$ LANGUAGE sql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.lock_bookmark_positions(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.place_new_bookmark()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.position IS NULL THEN
+    PERFORM public.lock_bookmark_positions(NEW.user_id, NEW.workspace_id);
+    SELECT coalesce(min(b.position), 0) - 1024 INTO NEW.position
+    FROM public.bookmarks b
+    WHERE b.workspace_id IS NOT DISTINCT FROM NEW.workspace_id
+      AND (NEW.workspace_id IS NOT NULL OR b.user_id = NEW.user_id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.rebalance_bookmark_positions(owner_id UUID, ws UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  rebalanced INTEGER;
+BEGIN
+  PERFORM public.lock_bookmark_positions(owner_id, ws);
+
+  WITH ordered AS (
+    SELECT id, row_number() OVER (ORDER BY position NULLS LAST, created_at DESC) * 1024 AS new_position
+    FROM public.bookmarks
+    WHERE workspace_id IS NOT DISTINCT FROM ws AND (ws IS NOT NULL OR user_id = owner_id)
+  )
+  UPDATE public.bookmarks b
+  SET position = o.new_position
+  FROM ordered o
+  WHERE b.id = o.id AND b.position IS DISTINCT FROM o.new_position;
+
+  GET DIAGNOSTICS rebalanced = ROW_COUNT;
+  RETURN rebalanced;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Neighbour positions are read only once the space is locked, so they can't change before the
+-- move is written
+CREATE OR REPLACE FUNCTION public.move_bookmark(bookmark_id UUID, after_id UUID DEFAULT NULL, before_id UUID DEFAULT NULL)
+RETURNS DOUBLE PRECISION AS $$
+DECLARE
+  -- Closest two positions may get before the space is rebalanced
+  min_gap CONSTANT DOUBLE PRECISION := 1e-6;
+  moved public.bookmarks%ROWTYPE;
+  lower_position DOUBLE PRECISION;
+  upper_position DOUBLE PRECISION;
+  new_position DOUBLE PRECISION;
+BEGIN
+  SELECT * INTO moved FROM public.bookmarks WHERE id = bookmark_id AND deleted_at IS NULL;
+  IF NOT FOUND OR NOT public.can_access_bookmark(moved.user_id, moved.workspace_id, 'editor') THEN
+    RAISE EXCEPTION 'Bookmark not found';
+  END IF;
+
+  PERFORM public.lock_bookmark_positions(moved.user_id, moved.workspace_id);
+
+  FOR attempt IN 1..2 LOOP
+    lower_position := NULL;
+    upper_position := NULL;
+    IF after_id IS NOT NULL THEN
+      SELECT position INTO lower_position FROM public.bookmarks
+      WHERE id = after_id AND deleted_at IS NULL
+        AND workspace_id IS NOT DISTINCT FROM moved.workspace_id
+        AND (moved.workspace_id IS NOT NULL OR user_id = moved.user_id);
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'The bookmark to move after is no longer in this list';
+      END IF;
+    END IF;
+    IF before_id IS NOT NULL THEN
+      SELECT position INTO upper_position FROM public.bookmarks
+      WHERE id = before_id AND deleted_at IS NULL
+        AND workspace_id IS NOT DISTINCT FROM moved.workspace_id
+        AND (moved.workspace_id IS NOT NULL OR user_id = moved.user_id);
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'The bookmark to move before is no longer in this list';
+      END IF;
+    END IF;
+
+    EXIT WHEN lower_position IS NULL OR upper_position IS NULL OR upper_position - lower_position > min_gap;
+    IF attempt = 2 THEN
+      -- Still no room after rebalancing: the neighbours were reordered elsewhere in the meantime
+      RAISE EXCEPTION 'The list changed while moving this bookmark. Try again.';
+    END IF;
+    PERFORM public.rebalance_bookmark_positions(moved.user_id, moved.workspace_id);
+  END LOOP;
+
+  -- Re-read under the lock, in case a rebalance renumbered the moved bookmark itself
+  SELECT position INTO moved.position FROM public.bookmarks WHERE id = bookmark_id;
+
+  new_position := CASE
+    WHEN lower_position IS NULL AND upper_position IS NULL THEN moved.position
+    WHEN lower_position IS NULL THEN upper_position - 1024
+    WHEN upper_position IS NULL THEN lower_position + 1024
+    ELSE (lower_position + upper_position) / 2
+  END;
+
+  UPDATE public.bookmarks SET position = new_position WHERE id = bookmark_id;
+  RETURN new_position;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,35 @@
+-- A bookmark can only be filed in a collection of its owner's. The bookmarks policies only check
+-- user_id, so without this a bookmark could be pointed at another user's collection through the
+-- API. Collections are personal, so workspace bookmarks can't be filed at all.
+
+-- Unfile bookmarks already pointing at a collection they can't be in
+UPDATE public.bookmarks b
+SET collection_id = NULL
+WHERE b.collection_id IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM public.collections c
+    WHERE c.id = b.collection_id AND c.user_id = b.user_id AND b.workspace_id IS NULL
+  );
+
+CREATE OR REPLACE FUNCTION public.check_bookmark_collection()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.collection_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.workspace_id IS NOT NULL OR NOT EXISTS (
+    SELECT 1 FROM public.collections
+    WHERE id = NEW.collection_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Collection not found';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_bookmarks_collection
+BEFORE INSERT OR UPDATE OF collection_id, user_id, workspace_id ON public.bookmarks
+FOR EACH ROW
+EXECUTE FUNCTION public.check_bookmark_collection();
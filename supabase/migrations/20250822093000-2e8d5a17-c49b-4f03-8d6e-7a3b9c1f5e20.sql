@@ -0,0 +1,94 @@
+-- Tag renames, merges and deletes also update bookmarks in the trash. Run as the caller, the
+-- bookmarks select policy hid trashed rows from them, so a restored bookmark brought the old tag
+-- name back. The functions now run as their owner and check ownership themselves: each one
+-- still only touches the caller's own tags and bookmarks.
+
+CREATE OR REPLACE FUNCTION public.replace_tag_in_bookmarks(old_name TEXT, new_name TEXT)
+RETURNS VOID AS $$
+  UPDATE public.bookmarks b
+  SET tags = (
+    SELECT coalesce(array_agg(name ORDER BY first_position), '{}')
+    FROM (
+      SELECT name, min(position) AS first_position
+      FROM unnest(array_replace(b.tags, old_name, new_name)) WITH ORDINALITY AS t(name, position)
+      WHERE name IS NOT NULL
+      GROUP BY name
+    ) deduped
+  )
+  WHERE b.user_id = auth.uid() AND old_name = ANY (b.tags);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.rename_tag(tag_id UUID, new_name TEXT)
+RETURNS VOID AS $$
+DECLARE
+  old_name TEXT;
+  clean_name TEXT := btrim(new_name);
+  affected RECORD;
+BEGIN
+  SELECT name INTO old_name FROM public.tags WHERE id = tag_id AND user_id = auth.uid();
+  IF old_name IS NULL THEN
+    RAISE EXCEPTION 'Tag not found';
+  END IF;
+  IF clean_name = old_name THEN
+    RETURN;
+  END IF;
+  IF starts_with(clean_name, old_name || '/') THEN
+    RAISE EXCEPTION 'A tag cannot be nested under itself';
+  END IF;
+
+  FOR affected IN
+    SELECT id, name FROM public.tags
+    WHERE user_id = auth.uid() AND (name = old_name OR starts_with(name, old_name || '/'))
+    ORDER BY length(name)
+  LOOP
+    DECLARE
+      target_name TEXT := clean_name || substr(affected.name, length(old_name) + 1);
+    BEGIN
+      IF EXISTS (SELECT 1 FROM public.tags WHERE user_id = auth.uid() AND name = target_name) THEN
+        RAISE EXCEPTION 'A tag named "%" already exists. Merge the tags instead.', target_name;
+      END IF;
+      UPDATE public.tags SET name = target_name WHERE id = affected.id;
+      PERFORM public.replace_tag_in_bookmarks(affected.name, target_name);
+    END;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.merge_tags(source_ids UUID[], target_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  target_name TEXT;
+  source RECORD;
+BEGIN
+  SELECT name INTO target_name FROM public.tags WHERE id = target_id AND user_id = auth.uid();
+  IF target_name IS NULL THEN
+    RAISE EXCEPTION 'Tag not found';
+  END IF;
+
+  FOR source IN
+    SELECT id, name FROM public.tags
+    WHERE user_id = auth.uid() AND id = ANY (source_ids) AND id <> target_id
+  LOOP
+    PERFORM public.replace_tag_in_bookmarks(source.name, target_name);
+    DELETE FROM public.tags WHERE id = source.id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.delete_tag(tag_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  old_name TEXT;
+BEGIN
+  SELECT name INTO old_name FROM public.tags WHERE id = tag_id AND user_id = auth.uid();
+  IF old_name IS NULL THEN
+    RAISE EXCEPTION 'Tag not found';
+  END IF;
+
+  UPDATE public.bookmarks
+  SET tags = array_remove(tags, old_name)
+  WHERE user_id = auth.uid() AND old_name = ANY (tags);
+
+  DELETE FROM public.tags WHERE id = tag_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,218 @@
+-- Tags belong to a space, like the bookmarks they label: personal tags to their user, workspace
+-- tags to the workspace, shared by its members. Until now a workspace bookmark's tags were its
+-- author's personal tags, so renaming, merging, deleting or coloring a tag in a workspace only
+-- reached the bookmarks of whoever did it, and other members saw none of it.
+ALTER TABLE public.tags
+  ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+
+-- A name is used once in each space: once personally by each user, and once per workspace
+ALTER TABLE public.tags DROP CONSTRAINT tags_user_id_name_key;
+
+CREATE UNIQUE INDEX tags_user_name_key
+ON public.tags (user_id, name)
+WHERE workspace_id IS NULL;
+
+CREATE UNIQUE INDEX tags_workspace_name_key
+ON public.tags (workspace_id, name)
+WHERE workspace_id IS NOT NULL;
+
+-- Give each workspace the tags its bookmarks use, colored like the personal tag of the first
+-- member who used them
+INSERT INTO public.tags (user_id, workspace_id, name, color)
+SELECT DISTINCT ON (b.workspace_id, btrim(t.name)) b.user_id, b.workspace_id, btrim(t.name), personal.color
+FROM public.bookmarks b
+CROSS JOIN LATERAL unnest(b.tags) AS t(name)
+LEFT JOIN public.tags personal
+  ON personal.user_id = b.user_id AND personal.workspace_id IS NULL AND personal.name = btrim(t.name)
+WHERE b.workspace_id IS NOT NULL AND btrim(t.name) <> '' AND btrim(t.name) !~ '(^/|/$|//)'
+ORDER BY b.workspace_id, btrim(t.name), b.created_at
+ON CONFLICT DO NOTHING;
+
+-- Personal tags only ever used in a workspace now live there
+DELETE FROM public.tags tg
+WHERE tg.workspace_id IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.bookmark_tags bt JOIN public.bookmarks b ON b.id = bt.bookmark_id
+    WHERE bt.tag_id = tg.id AND b.workspace_id IS NOT NULL
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM public.bookmark_tags bt JOIN public.bookmarks b ON b.id = bt.bookmark_id
+    WHERE bt.tag_id = tg.id AND b.workspace_id IS NULL
+  );
+
+-- Relink workspace bookmarks to their workspace's tags
+DELETE FROM public.bookmark_tags bt
+USING public.bookmarks b
+WHERE b.id = bt.bookmark_id AND b.workspace_id IS NOT NULL;
+
+INSERT INTO public.bookmark_tags (bookmark_id, tag_id)
+SELECT DISTINCT b.id, tg.id
+FROM public.bookmarks b, unnest(b.tags) AS t, public.tags tg
+WHERE b.workspace_id IS NOT NULL AND tg.workspace_id = b.workspace_id AND tg.name = btrim(t)
+ON CONFLICT DO NOTHING;
+
+DROP POLICY "Users can view their own tags" ON public.tags;
+DROP POLICY "Users can create their own tags" ON public.tags;
+DROP POLICY "Users can update their own tags" ON public.tags;
+DROP POLICY "Users can delete their own tags" ON public.tags;
+DROP POLICY "Users can view their own bookmark tags" ON public.bookmark_tags;
+
+CREATE POLICY "Users can view tags they can access"
+ON public.tags
+FOR SELECT
+USING (public.can_access_bookmark(user_id, workspace_id));
+
+CREATE POLICY "Users can create tags where they can edit"
+ON public.tags
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.can_access_bookmark(user_id, workspace_id, 'editor'));
+
+CREATE POLICY "Users can update tags they can edit"
+ON public.tags
+FOR UPDATE
+USING (public.can_access_bookmark(user_id, workspace_id, 'editor'))
+WITH CHECK (public.can_access_bookmark(user_id, workspace_id, 'editor'));
+
+CREATE POLICY "Users can delete tags they can edit"
+ON public.tags
+FOR DELETE
+USING (public.can_access_bookmark(user_id, workspace_id, 'editor'));
+
+CREATE POLICY "Users can view bookmark tags they can access"
+ON public.bookmark_tags
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.tags t
+  WHERE t.id = tag_id AND public.can_access_bookmark(t.user_id, t.workspace_id)
+));
+
+-- Mirror bookmarks.tags into the tags of the bookmark's space. A space is keyed by its
+-- workspace, or by its user for personal bookmarks, as in lock_bookmark_positions.
+CREATE OR REPLACE FUNCTION public.sync_bookmark_tags()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.tags (user_id, workspace_id, name)
+  SELECT DISTINCT NEW.user_id, NEW.workspace_id, btrim(t)
+  FROM unnest(coalesce(NEW.tags, '{}')) AS t
+  WHERE btrim(t) <> '' AND btrim(t) !~ '(^/|/$|//)'
+  ON CONFLICT DO NOTHING;
+
+  DELETE FROM public.bookmark_tags bt
+  USING public.tags tg
+  WHERE bt.bookmark_id = NEW.id
+    AND tg.id = bt.tag_id
+    AND NOT (tg.name = ANY (SELECT btrim(t) FROM unnest(coalesce(NEW.tags, '{}')) AS t));
+
+  INSERT INTO public.bookmark_tags (bookmark_id, tag_id)
+  SELECT NEW.id, tg.id
+  FROM public.tags tg
+  WHERE coalesce(tg.workspace_id, tg.user_id) = coalesce(NEW.workspace_id, NEW.user_id)
+    AND tg.name = ANY (SELECT btrim(t) FROM unnest(coalesce(NEW.tags, '{}')) AS t)
+  ON CONFLICT DO NOTHING;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The tag functions below work on the tag's space and need the editor role in a workspace.
+-- replace_tag_in_bookmarks gains the space to work in; without one it's the personal space.
+DROP FUNCTION public.replace_tag_in_bookmarks(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.replace_tag_in_bookmarks(old_name TEXT, new_name TEXT, ws UUID DEFAULT NULL)
+RETURNS VOID AS $$
+  UPDATE public.bookmarks b
+  SET tags = (
+    SELECT coalesce(array_agg(name ORDER BY first_position), '{}')
+    FROM (
+      SELECT name, min(position) AS first_position
+      FROM unnest(array_replace(b.tags, old_name, new_name)) WITH ORDINALITY AS t(name, position)
+      WHERE name IS NOT NULL
+      GROUP BY name
+    ) deduped
+  )
+  WHERE b.workspace_id IS NOT DISTINCT FROM ws
+    AND public.can_access_bookmark(b.user_id, b.workspace_id, 'editor')
+    AND old_name = ANY (b.tags);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.rename_tag(tag_id UUID, new_name TEXT)
+RETURNS VOID AS $$
+DECLARE
+  tag RECORD;
+  clean_name TEXT := btrim(new_name);
+  affected RECORD;
+BEGIN
+  SELECT name, user_id, workspace_id INTO tag FROM public.tags WHERE id = tag_id;
+  IF NOT FOUND OR NOT public.can_access_bookmark(tag.user_id, tag.workspace_id, 'editor') THEN
+    RAISE EXCEPTION 'Tag not found';
+  END IF;
+  IF clean_name = tag.name THEN
+    RETURN;
+  END IF;
+  IF starts_with(clean_name, tag.name || '/') THEN
+    RAISE EXCEPTION 'A tag cannot be nested under itself';
+  END IF;
+
+  FOR affected IN
+    SELECT id, name FROM public.tags
+    WHERE coalesce(workspace_id, user_id) = coalesce(tag.workspace_id, tag.user_id)
+      AND (name = tag.name OR starts_with(name, tag.name || '/'))
+    ORDER BY length(name)
+  LOOP
+    DECLARE
+      target_name TEXT := clean_name || substr(affected.name, length(tag.name) + 1);
+    BEGIN
+      IF EXISTS (
+        SELECT 1 FROM public.tags
+        WHERE coalesce(workspace_id, user_id) = coalesce(tag.workspace_id, tag.user_id) AND name = target_name
+      ) THEN
+        RAISE EXCEPTION 'A tag named "%" already exists. Merge the tags instead.', target_name;
+      END IF;
+      UPDATE public.tags SET name = target_name WHERE id = affected.id;
+      PERFORM public.replace_tag_in_bookmarks(affected.name, target_name, tag.workspace_id);
+    END;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.merge_tags(source_ids UUID[], target_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  target RECORD;
+  source RECORD;
+BEGIN
+  SELECT name, user_id, workspace_id INTO target FROM public.tags WHERE id = target_id;
+  IF NOT FOUND OR NOT public.can_access_bookmark(target.user_id, target.workspace_id, 'editor') THEN
+    RAISE EXCEPTION 'Tag not found';
+  END IF;
+
+  -- Only tags from the target's space are merged
+  FOR source IN
+    SELECT id, name FROM public.tags
+    WHERE coalesce(workspace_id, user_id) = coalesce(target.workspace_id, target.user_id)
+      AND id = ANY (source_ids) AND id <> target_id
+  LOOP
+    PERFORM public.replace_tag_in_bookmarks(source.name, target.name, target.workspace_id);
+    DELETE FROM public.tags WHERE id = source.id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.delete_tag(tag_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  tag RECORD;
+BEGIN
+  SELECT name, user_id, workspace_id INTO tag FROM public.tags WHERE id = tag_id;
+  IF NOT FOUND OR NOT public.can_access_bookmark(tag.user_id, tag.workspace_id, 'editor') THEN
+    RAISE EXCEPTION 'Tag not found';
+  END IF;
+
+  UPDATE public.bookmarks
+  SET tags = array_remove(tags, tag.name)
+  WHERE coalesce(workspace_id, user_id) = coalesce(tag.workspace_id, tag.user_id)
+    AND tag.name = ANY (tags);
+
+  DELETE FROM public.tags WHERE id = tag_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
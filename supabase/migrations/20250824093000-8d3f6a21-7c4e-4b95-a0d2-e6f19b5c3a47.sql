@@ -0,0 +1,31 @@
+-- The bookmarks Realtime channels become private. Each one carries a broadcast announcing
+-- bookmarks moved to the trash (see bookmark-sync.ts), and on a public channel anyone who knew a
+-- user or workspace id could listen in or tell its tabs to drop bookmarks. Only members of a
+-- space can join its channel now, and only those who can edit its bookmarks can announce.
+
+-- True when the current user may use the bookmarks channel with the given topic:
+-- "bookmarks:<user id>" for the user's own space, "bookmarks:<workspace id>" for a workspace
+CREATE OR REPLACE FUNCTION public.can_use_bookmark_channel(topic TEXT, min_role TEXT DEFAULT 'viewer')
+RETURNS BOOLEAN AS $$
+DECLARE
+  space_id UUID;
+BEGIN
+  IF topic !~* '^bookmarks:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RETURN false;
+  END IF;
+  space_id := substr(topic, length('bookmarks:') + 1)::UUID;
+  RETURN space_id = auth.uid() OR public.has_workspace_role(space_id, min_role);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+CREATE POLICY "Members can receive their bookmark broadcasts"
+ON realtime.messages
+FOR SELECT
+TO authenticated
+USING (realtime.messages.extension = 'broadcast' AND public.can_use_bookmark_channel(realtime.topic()));
+
+CREATE POLICY "Editors can send bookmark broadcasts"
+ON realtime.messages
+FOR INSERT
+TO authenticated
+WITH CHECK (realtime.messages.extension = 'broadcast' AND public.can_use_bookmark_channel(realtime.topic(), 'editor'));
@@ -0,0 +1,23 @@
+-- Expired trash is purged by the purge-trash edge function instead of in the database. Deleting
+-- the rows here left the bookmarks' snapshot files in Storage for good, since files can only be
+-- removed through the Storage API; the function removes them before deleting the bookmarks.
+SELECT cron.unschedule('purge-expired-trash');
+
+DROP FUNCTION IF EXISTS public.purge_expired_trash();
+
+-- Purge every hour; each run takes the batch that has been in the trash longest.
+-- Requires the project_url and service_role_key secrets in Vault (see Readme).
+SELECT cron.schedule(
+  'purge-trash',
+  '15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/purge-trash',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,11 @@
+-- normalized_url is always computed here, whatever the writer sent. The app's normalizeUrl()
+-- parses URLs differently from normalize_url() (it punycodes international hosts, resolves
+-- ./ and ../ and normalizes percent-encoding), so a key sent by the app could differ from the
+-- one the database computes for the same link, and the unique index would miss the duplicate.
+CREATE OR REPLACE FUNCTION public.set_normalized_url()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.normalized_url := public.normalize_url(NEW.url);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,61 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { actAs, createDatabase } from './database';
+
+const OWNER = '00000000-0000-0000-0000-00000000000a';
+const OTHER_USER = '00000000-0000-0000-0000-00000000000b';
+const WORKSPACE = '00000000-0000-0000-0000-0000000000f1';
+
+const SCHEMA = `
+  CREATE TABLE public.workspace_members (
+    workspace_id UUID NOT NULL,
+    user_id UUID NOT NULL,
+    role TEXT NOT NULL
+  );
+`;
+
+const FUNCTIONS = ['workspace_role_rank', 'has_workspace_role', 'can_use_bookmark_channel'];
+
+let db: PGlite;
+
+const canUse = async (topic: string, minRole = 'viewer') => {
+  const { rows } = await db.query<{ allowed: boolean | null }>(
+    'SELECT public.can_use_bookmark_channel($1, $2) AS allowed',
+    [topic, minRole]
+  );
+  return rows[0].allowed === true;
+};
+
+beforeEach(async () => {
+  db = await createDatabase(SCHEMA, FUNCTIONS);
+  await db.query(`INSERT INTO public.workspace_members VALUES ($1, $2, 'viewer')`, [WORKSPACE, OWNER]);
+  await actAs(db, OWNER);
+});
+
+afterEach(async () => {
+  await db.close();
+});
+
+describe('can_use_bookmark_channel', () => {
+  it("allows the user's own channel, and nobody else's", async () => {
+    expect(await canUse(`bookmarks:${OWNER}`, 'editor')).toBe(true);
+    expect(await canUse(`bookmarks:${OTHER_USER}`)).toBe(false);
+  });
+
+  it("allows a workspace's channel by role", async () => {
+    expect(await canUse(`bookmarks:${WORKSPACE}`)).toBe(true);
+    expect(await canUse(`bookmarks:${WORKSPACE}`, 'editor')).toBe(false);
+
+    await actAs(db, OTHER_USER);
+    expect(await canUse(`bookmarks:${WORKSPACE}`)).toBe(false);
+  });
+
+  it('refuses other topics and signed-out callers', async () => {
+    expect(await canUse(`collections:${OWNER}`)).toBe(false);
+    expect(await canUse('bookmarks:not-a-uuid')).toBe(false);
+
+    await actAs(db, null);
+    expect(await canUse(`bookmarks:${OWNER}`)).toBe(false);
+  });
+});
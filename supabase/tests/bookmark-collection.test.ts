@@ -0,0 +1,74 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { createDatabase } from './database';
+
+const OWNER = '00000000-0000-0000-0000-00000000000a';
+const OTHER_USER = '00000000-0000-0000-0000-00000000000b';
+const WORKSPACE = '00000000-0000-0000-0000-0000000000f1';
+const OWN_COLLECTION = '00000000-0000-0000-0000-0000000000c1';
+const OTHER_COLLECTION = '00000000-0000-0000-0000-0000000000c2';
+
+const SCHEMA = `
+  CREATE TABLE public.collections (
+    id UUID PRIMARY KEY,
+    user_id UUID NOT NULL
+  );
+  CREATE TABLE public.bookmarks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    workspace_id UUID,
+    collection_id UUID REFERENCES public.collections(id) ON DELETE SET NULL
+  );
+`;
+
+let db: PGlite;
+
+const insert = (collectionId: string | null, workspaceId: string | null = null) =>
+  db.query('INSERT INTO public.bookmarks (user_id, workspace_id, collection_id) VALUES ($1, $2, $3) RETURNING id', [
+    OWNER,
+    workspaceId,
+    collectionId,
+  ]);
+
+beforeEach(async () => {
+  db = await createDatabase(SCHEMA, ['check_bookmark_collection']);
+  await db.exec(`
+    CREATE TRIGGER check_bookmarks_collection
+    BEFORE INSERT OR UPDATE OF collection_id, user_id, workspace_id ON public.bookmarks
+    FOR EACH ROW EXECUTE FUNCTION public.check_bookmark_collection();
+  `);
+  await db.query('INSERT INTO public.collections VALUES ($1, $2), ($3, $4)', [OWN_COLLECTION, OWNER, OTHER_COLLECTION, OTHER_USER]);
+});
+
+afterEach(async () => {
+  await db.close();
+});
+
+describe('check_bookmark_collection', () => {
+  it("files bookmarks in the owner's collections, or none", async () => {
+    await expect(insert(OWN_COLLECTION)).resolves.toBeDefined();
+    await expect(insert(null)).resolves.toBeDefined();
+    await expect(insert(null, WORKSPACE)).resolves.toBeDefined();
+  });
+
+  it("rejects another user's collection on insert and update", async () => {
+    await expect(insert(OTHER_COLLECTION)).rejects.toThrow('Collection not found');
+
+    const { rows } = await insert(null);
+    await expect(
+      db.query('UPDATE public.bookmarks SET collection_id = $1 WHERE id = $2', [OTHER_COLLECTION, (rows[0] as { id: string }).id])
+    ).rejects.toThrow('Collection not found');
+  });
+
+  it('rejects collections for workspace bookmarks', async () => {
+    await expect(insert(OWN_COLLECTION, WORKSPACE)).rejects.toThrow('Collection not found');
+  });
+
+  it('still lets a deleted collection unfile its bookmarks', async () => {
+    await insert(OWN_COLLECTION);
+    await db.query('DELETE FROM public.collections WHERE id = $1', [OWN_COLLECTION]);
+    const { rows } = await db.query<{ count: number }>('SELECT count(*)::INTEGER AS count FROM public.bookmarks WHERE collection_id IS NULL');
+    expect(rows[0].count).toBe(1);
+  });
+});
@@ -0,0 +1,139 @@
+// @vitest-environment node
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { createDatabase } from './database';
+import { matchesSearchQuery, parseSearchQuery, SearchableBookmark } from '../../src/lib/search-query';
+
+// The evaluator's imports reach the browser client, which needs localStorage; it isn't used here
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+// The search document as the migrations build it
+const SCHEMA = `
+  CREATE OR REPLACE FUNCTION public.tags_to_text(tags TEXT[])
+  RETURNS TEXT AS $$
+    SELECT coalesce(array_to_string(tags, ' '), '');
+  $$ LANGUAGE sql IMMUTABLE;
+  CREATE TABLE public.bookmarks (
+    id TEXT PRIMARY KEY,
+    url TEXT NOT NULL,
+    title TEXT NOT NULL,
+    summary TEXT,
+    tldr TEXT,
+    key_points TEXT[] NOT NULL DEFAULT '{}',
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    link_status TEXT,
+    is_read BOOLEAN NOT NULL DEFAULT false,
+    is_favorite BOOLEAN NOT NULL DEFAULT false,
+    archived_at TIMESTAMP WITH TIME ZONE,
+    search_vector TSVECTOR GENERATED ALWAYS AS (
+      setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+      setweight(to_tsvector('english', public.tags_to_text(tags)), 'B') ||
+      setweight(to_tsvector('english',
+        coalesce(tldr, '') || ' ' || public.tags_to_text(key_points) || ' ' || coalesce(summary, '') || ' ' || coalesce(notes, '')), 'C') ||
+      setweight(to_tsvector('simple', regexp_replace(url, '[^[:alnum:]]+', ' ', 'g')), 'D')
+    ) STORED
+  );
+  CREATE TABLE public.highlights (
+    bookmark_id TEXT NOT NULL,
+    search_vector TSVECTOR
+  );
+`;
+
+const FUNCTIONS = ['build_search_query', 'compile_search_node'];
+
+const base: SearchableBookmark = {
+  url: 'https://example.com/',
+  title: '',
+  summary: null,
+  tldr: null,
+  key_points: [],
+  tags: [],
+  created_at: '2025-03-15T12:00:00Z',
+  link_status: null,
+  is_read: false,
+  is_favorite: false,
+  archived_at: null,
+  notes: null,
+};
+
+const BOOKMARKS: Record<string, SearchableBookmark> = {
+  rust: {
+    ...base,
+    url: 'https://www.github.com/rust-lang/rust',
+    title: 'The Rust programming language',
+    summary: 'A language empowering everyone to build reliable software.',
+    tags: ['lang/rust', 'work'],
+  },
+  python: {
+    ...base,
+    url: 'https://docs.python.org/3/',
+    title: 'Python documentation',
+    tags: ['lang/python', 'ml'],
+    created_at: '2025-01-10T08:00:00Z',
+    is_read: true,
+    link_status: 'not_found',
+  },
+  pr: {
+    ...base,
+    url: 'https://github.blog/pull-requests',
+    title: 'Reviewing a pull request',
+    notes: 'Keep every pull request small.',
+    tags: ['work'],
+    created_at: '2025-06-01T00:00:00Z',
+    is_favorite: true,
+    archived_at: '2025-06-02T00:00:00Z',
+  },
+};
+
+// Ids of the bookmarks a query matches, by each evaluator
+const clientMatches = (query: string) =>
+  Object.keys(BOOKMARKS).filter(id => matchesSearchQuery(parseSearchQuery(query).ast!, BOOKMARKS[id])).sort();
+
+const serverMatches = async (query: string) => {
+  const { rows: [{ condition }] } = await db.query<{ condition: string }>(
+    'SELECT public.compile_search_node($1) AS condition',
+    [JSON.stringify(parseSearchQuery(query).ast)]
+  );
+  const { rows } = await db.query<{ id: string }>(`SELECT b.id FROM public.bookmarks b WHERE ${condition} ORDER BY b.id`);
+  return rows.map(row => row.id);
+};
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await createDatabase(SCHEMA, FUNCTIONS);
+  for (const [id, bookmark] of Object.entries(BOOKMARKS)) {
+    await db.query(
+      `INSERT INTO public.bookmarks
+         (id, url, title, summary, tags, notes, created_at, link_status, is_read, is_favorite, archived_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        id, bookmark.url, bookmark.title, bookmark.summary, bookmark.tags, bookmark.notes, bookmark.created_at,
+        bookmark.link_status, bookmark.is_read, bookmark.is_favorite, bookmark.archived_at,
+      ]
+    );
+  }
+});
+
+afterAll(async () => {
+  await db.close();
+});
+
+describe('compile_search_node', () => {
+  it.each([
+    'language',
+    '"pull request"',
+    'tag:lang',
+    'tag:work -tag:lang',
+    'site:github.com',
+    '(tag:ml OR is:favorite) -is:archived',
+    'after:2025-01-10 before:2025-06-01',
+    'is:unread OR is:broken',
+  ])('matches the same bookmarks as the client for %s', async (query) => {
+    const expected = clientMatches(query);
+    expect(expected).not.toEqual([]);
+    expect(await serverMatches(query)).toEqual(expected);
+  });
+});
@@ -0,0 +1,147 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from 'vitest';
+import { fetchPage, isPrivateDestination, isPrivateHost, MAX_REDIRECTS } from '../functions/_shared/fetch-page.ts';
+
+// Every public name resolves to a public address unless a test says otherwise
+const publicResolver = async () => ['93.184.215.14'];
+
+const redirect = (location: string, status = 302) => new Response(null, { status, headers: { location } });
+const page = (body: string) => new Response(body, { status: 200, headers: { 'content-type': 'text/html' } });
+
+// A fetcher answering from a table of URL -> response
+const stubFetcher = (routes: Record<string, () => Response>) =>
+  vi.fn(async (url: string) => {
+    const route = routes[url];
+    if (!route) throw new Error(`Unexpected request to ${url}`);
+    return route();
+  });
+
+describe('isPrivateHost', () => {
+  it.each([
+    // Local names
+    ['localhost', true],
+    ['app.localhost', true],
+    ['printer.local', true],
+    ['metadata.google.internal', true],
+    ['example.com', false],
+    // IPv4, at the edges of each range
+    ['0.0.0.0', true],
+    ['0.255.255.255', true],
+    ['1.0.0.0', false],
+    ['10.1.2.3', true],
+    ['100.63.255.255', false],
+    ['100.64.0.0', true],
+    ['100.127.255.255', true],
+    ['100.128.0.0', false],
+    ['127.0.0.1', true],
+    ['169.254.169.254', true],
+    ['172.15.255.255', false],
+    ['172.16.0.1', true],
+    ['172.31.255.255', true],
+    ['172.32.0.0', false],
+    ['192.0.0.1', true],
+    ['192.0.1.0', false],
+    ['192.168.0.1', true],
+    ['198.17.255.255', false],
+    ['198.18.0.1', true],
+    ['198.19.255.255', true],
+    ['198.20.0.0', false],
+    ['223.255.255.255', false],
+    ['224.0.0.1', true],
+    ['239.255.255.250', true],
+    ['240.0.0.1', true],
+    ['255.255.255.255', true],
+    ['93.184.215.14', false],
+    ['8.8.8.8', false],
+    // IPv6
+    ['[::1]', true],
+    ['::', true],
+    ['fc00::1', true],
+    ['fd12:3456::1', true],
+    ['fe80::1', true],
+    ['ff02::1', true],
+    ['[ff05::1:3]', true],
+    ['2606:4700:4700::1111', false],
+    // IPv4 mapped into IPv6
+    ['::ffff:127.0.0.1', true],
+    ['::ffff:a9fe:a9fe', true],
+    ['::ffff:6440:1', true],
+    ['::ffff:5db8:d70e', false],
+  ])('%s is private: %s', (host, expected) => {
+    expect(isPrivateHost(host)).toBe(expected);
+  });
+});
+
+describe('isPrivateDestination', () => {
+  it('rejects a public name that resolves to a private address', async () => {
+    expect(await isPrivateDestination('metadata.example.com', async () => ['169.254.169.254'])).toBe(true);
+    expect(await isPrivateDestination('example.com', publicResolver)).toBe(false);
+  });
+
+  it("doesn't look up literal addresses", async () => {
+    const resolve = vi.fn(publicResolver);
+    expect(await isPrivateDestination('93.184.215.14', resolve)).toBe(false);
+    expect(resolve).not.toHaveBeenCalled();
+  });
+});
+
+describe('fetchPage', () => {
+  it('follows redirects one hop at a time', async () => {
+    const fetcher = stubFetcher({
+      'https://example.com/old': () => redirect('/new', 301),
+      'https://example.com/new': () => page('<title>New</title>'),
+    });
+
+    const result = await fetchPage(new URL('https://example.com/old'), { fetcher, resolve: publicResolver });
+
+    expect(result).toMatchObject({ url: 'https://example.com/new', status: 200, body: '<title>New</title>' });
+    expect(fetcher.mock.calls.every(([, init]) => init.redirect === 'manual')).toBe(true);
+  });
+
+  it('refuses a redirect through a private address, without requesting it', async () => {
+    const fetcher = stubFetcher({
+      'https://example.com/': () => redirect('http://169.254.169.254/latest/meta-data/'),
+    });
+
+    await expect(fetchPage(new URL('https://example.com/'), { fetcher, resolve: publicResolver }))
+      .rejects.toThrow('The page redirected to a private address');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    'http://0.0.0.0/',
+    'http://100.100.100.200/latest/meta-data/',
+    'http://192.0.0.170/',
+    'http://198.18.0.1/',
+    'http://224.0.0.251/',
+    'http://[ff02::1]/',
+    'http://[::ffff:169.254.169.254]/',
+  ])('refuses a redirect to %s, without requesting it', async (location) => {
+    const fetcher = stubFetcher({ 'https://example.com/': () => redirect(location) });
+
+    await expect(fetchPage(new URL('https://example.com/'), { fetcher, resolve: publicResolver }))
+      .rejects.toThrow('The page redirected to a private address');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a redirect to a name that resolves to a private address', async () => {
+    const fetcher = stubFetcher({ 'https://example.com/': () => redirect('https://internal.example.net/') });
+    const resolve = async (host: string) => (host === 'internal.example.net' ? ['10.0.0.5'] : ['93.184.215.14']);
+
+    await expect(fetchPage(new URL('https://example.com/'), { fetcher, resolve })).rejects.toMatchObject({ status: 400 });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses redirects to other protocols', async () => {
+    const fetcher = stubFetcher({ 'https://example.com/': () => redirect('file:///etc/passwd') });
+    await expect(fetchPage(new URL('https://example.com/'), { fetcher, resolve: publicResolver }))
+      .rejects.toThrow('unsupported address');
+  });
+
+  it(`gives up after ${MAX_REDIRECTS} redirects`, async () => {
+    const fetcher = vi.fn(async (url: string) => redirect(`${url}x`));
+    await expect(fetchPage(new URL('https://example.com/'), { fetcher, resolve: publicResolver }))
+      .rejects.toMatchObject({ status: 502 });
+    expect(fetcher).toHaveBeenCalledTimes(MAX_REDIRECTS + 1);
+  });
+});
@@ -0,0 +1,133 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from 'vitest';
+import { MAX_REDIRECTS } from '../functions/_shared/fetch-page.ts';
+import {
+  createLinkChecker,
+  type LinkCheckResult,
+  nextCheckAt,
+  nextFailureCount,
+  RECHECK_FAILED_MS,
+  RECHECK_OK_MS,
+} from '../functions/_shared/link-check.ts';
+
+// Every public name resolves to a public address
+const publicResolver = async () => ['93.184.215.14'];
+
+const respond = (status: number, location?: string) =>
+  new Response(null, { status, headers: location ? { location } : {} });
+
+// A fetcher answering from a table of URL -> response; a route can answer HEAD and GET differently
+const stubFetcher = (routes: Record<string, (method: string) => Response>) =>
+  vi.fn(async (url: string, init: RequestInit) => {
+    const route = routes[url];
+    if (!route) throw new TypeError(`Unexpected request to ${url}`);
+    return route(init.method ?? 'GET');
+  });
+
+const check = (url: string, routes: Record<string, (method: string) => Response>) =>
+  createLinkChecker({ fetcher: stubFetcher(routes), resolve: publicResolver })(url);
+
+const result = (status: LinkCheckResult['status']): LinkCheckResult =>
+  ({ status, httpStatus: null, finalUrl: null, error: null });
+
+describe('createLinkChecker', () => {
+  it.each([200, 204, 401, 403, 429])('counts HTTP %i as ok', async (status) => {
+    expect(await check('https://example.com/', { 'https://example.com/': () => respond(status) }))
+      .toEqual({ status: 'ok', httpStatus: status, finalUrl: null, error: null });
+  });
+
+  it.each([404, 410])('counts HTTP %i as not found', async (status) => {
+    expect(await check('https://example.com/', { 'https://example.com/': () => respond(status) }))
+      .toMatchObject({ status: 'not_found', httpStatus: status });
+  });
+
+  it('counts server errors as errors', async () => {
+    expect(await check('https://example.com/', { 'https://example.com/': () => respond(500) }))
+      .toMatchObject({ status: 'error', httpStatus: 500, error: 'HTTP 500' });
+  });
+
+  it('retries with GET when the server refuses HEAD', async () => {
+    const fetcher = stubFetcher({ 'https://example.com/': (method) => respond(method === 'HEAD' ? 405 : 200) });
+    const checkLink = createLinkChecker({ fetcher, resolve: publicResolver });
+
+    expect(await checkLink('https://example.com/')).toMatchObject({ status: 'ok', httpStatus: 200 });
+    expect(fetcher.mock.calls.map(([, init]) => init.method)).toEqual(['HEAD', 'GET']);
+  });
+
+  it('reports a chain of permanent redirects to another page as moved', async () => {
+    expect(await check('https://example.com/old', {
+      'https://example.com/old': () => respond(301, '/older'),
+      'https://example.com/older': () => respond(308, 'https://example.org/new'),
+      'https://example.org/new': () => respond(200),
+    })).toEqual({ status: 'moved', httpStatus: 200, finalUrl: 'https://example.org/new', error: null });
+  });
+
+  it("doesn't report temporary redirects or https and www upgrades as moved", async () => {
+    expect(await check('https://example.com/old', {
+      'https://example.com/old': () => respond(301, '/middle'),
+      'https://example.com/middle': () => respond(302, '/new'),
+      'https://example.com/new': () => respond(200),
+    })).toMatchObject({ status: 'ok', finalUrl: null });
+
+    expect(await check('http://example.com/page', {
+      'http://example.com/page': () => respond(301, 'https://www.example.com/page/'),
+      'https://www.example.com/page/': () => respond(200),
+    })).toMatchObject({ status: 'ok', finalUrl: null });
+  });
+
+  it('refuses a redirect to a private address without requesting it', async () => {
+    const fetcher = stubFetcher({ 'https://example.com/': () => respond(302, 'http://10.0.0.1/admin') });
+    const checkLink = createLinkChecker({ fetcher, resolve: publicResolver });
+
+    expect(await checkLink('https://example.com/')).toMatchObject({ status: 'error', error: 'The link points to a private address' });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it(`gives up after ${MAX_REDIRECTS} redirects`, async () => {
+    const fetcher = vi.fn(async (url: string) => respond(302, `${url}x`));
+    const checkLink = createLinkChecker({ fetcher, resolve: publicResolver });
+
+    expect(await checkLink('https://example.com/')).toMatchObject({ status: 'error', error: `More than ${MAX_REDIRECTS} redirects` });
+  });
+
+  it('times out when no response arrives', async () => {
+    // Never answers; fails once the checker aborts the request
+    const fetcher = (_url: string, init: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      });
+    const checkLink = createLinkChecker({ fetcher, resolve: publicResolver, timeoutMs: 10 });
+
+    expect(await checkLink('https://example.com/')).toMatchObject({ status: 'timeout', httpStatus: null });
+  });
+
+  it('reports network failures and unusable URLs as errors', async () => {
+    expect(await check('https://unreachable.example/', {})).toMatchObject({ status: 'error', httpStatus: null });
+    expect(await check('not a url', {})).toMatchObject({ status: 'error', error: 'Invalid URL' });
+    expect(await check('ftp://example.com/file', {})).toMatchObject({ status: 'error' });
+  });
+});
+
+describe('nextFailureCount', () => {
+  it('counts consecutive failures', () => {
+    let failures = 0;
+    for (const status of ['not_found', 'timeout', 'error'] as const) {
+      failures = nextFailureCount(result(status), failures);
+    }
+    expect(failures).toBe(3);
+  });
+
+  it('starts over once the link works', () => {
+    expect(nextFailureCount(result('ok'), 4)).toBe(0);
+    expect(nextFailureCount(result('moved'), 4)).toBe(0);
+    expect(nextFailureCount(result('not_found'), 0)).toBe(1);
+  });
+});
+
+describe('nextCheckAt', () => {
+  it('checks failing links again sooner', () => {
+    const now = Date.parse('2025-08-01T00:00:00Z');
+    expect(nextCheckAt(result('ok'), now)).toBe(new Date(now + RECHECK_OK_MS).toISOString());
+    expect(nextCheckAt(result('timeout'), now)).toBe(new Date(now + RECHECK_FAILED_MS).toISOString());
+  });
+});
@@ -0,0 +1,114 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { actAs, createDatabase } from './database';
+
+const OWNER = '00000000-0000-0000-0000-00000000000a';
+const OTHER_USER = '00000000-0000-0000-0000-00000000000b';
+const WORKSPACE = '00000000-0000-0000-0000-0000000000f1';
+const OTHER_WORKSPACE = '00000000-0000-0000-0000-0000000000f2';
+
+const SCHEMA = `
+  CREATE TABLE public.workspace_members (
+    workspace_id UUID NOT NULL,
+    user_id UUID NOT NULL,
+    role TEXT NOT NULL
+  );
+  CREATE TABLE public.bookmarks (
+    id UUID PRIMARY KEY,
+    user_id UUID NOT NULL,
+    workspace_id UUID,
+    collection_id UUID,
+    url TEXT NOT NULL,
+    normalized_url TEXT,
+    tags TEXT[] DEFAULT '{}',
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    deleted_at TIMESTAMP WITH TIME ZONE
+  );
+`;
+
+const FUNCTIONS = ['workspace_role_rank', 'has_workspace_role', 'can_access_bookmark', 'normalize_url', 'merge_bookmarks'];
+
+// Bookmark ids are uuids; tests refer to them by letter
+const id = (letter: string) => `00000000-0000-0000-0000-0000000000${letter.charCodeAt(0).toString(16)}`;
+
+let db: PGlite;
+
+const insert = async (letter: string, { userId = OWNER, workspaceId = null as string | null, tags = [] as string[] } = {}) => {
+  await db.query(
+    'INSERT INTO public.bookmarks (id, user_id, workspace_id, url, tags) VALUES ($1, $2, $3, $4, $5)',
+    [id(letter), userId, workspaceId, 'https://example.com/', tags]
+  );
+};
+
+const merge = (keep: string, duplicates: string[]) =>
+  db.query('SELECT public.merge_bookmarks($1, $2)', [id(keep), duplicates.map(id)]);
+
+const bookmark = async (letter: string) => {
+  const { rows } = await db.query<{ tags: string[]; trashed: boolean }>(
+    'SELECT tags, deleted_at IS NOT NULL AS trashed FROM public.bookmarks WHERE id = $1',
+    [id(letter)]
+  );
+  return rows[0];
+};
+
+const setRole = (role: string) =>
+  db.query('UPDATE public.workspace_members SET role = $1 WHERE workspace_id = $2 AND user_id = $3', [role, WORKSPACE, OWNER]);
+
+beforeEach(async () => {
+  db = await createDatabase(SCHEMA, FUNCTIONS);
+  await db.query(
+    `INSERT INTO public.workspace_members VALUES ($1, $2, 'editor'), ($3, $2, 'editor')`,
+    [WORKSPACE, OWNER, OTHER_WORKSPACE]
+  );
+  await actAs(db, OWNER);
+});
+
+afterEach(async () => {
+  await db.close();
+});
+
+describe('merge_bookmarks', () => {
+  it("merges a workspace's duplicates as an editor, whoever saved them", async () => {
+    await insert('a', { workspaceId: WORKSPACE, tags: ['rust'] });
+    await insert('b', { workspaceId: WORKSPACE, userId: OTHER_USER, tags: ['async'] });
+
+    await merge('a', ['b']);
+
+    expect(await bookmark('a')).toEqual({ tags: ['rust', 'async'], trashed: false });
+    expect(await bookmark('b')).toMatchObject({ trashed: true });
+  });
+
+  it('refuses once the user is only a viewer or has left the workspace', async () => {
+    await insert('a', { workspaceId: WORKSPACE });
+    await insert('b', { workspaceId: WORKSPACE });
+
+    await setRole('viewer');
+    await expect(merge('a', ['b'])).rejects.toThrow('Bookmark not found');
+
+    await db.query('DELETE FROM public.workspace_members WHERE workspace_id = $1', [WORKSPACE]);
+    await expect(merge('a', ['b'])).rejects.toThrow('Bookmark not found');
+    expect(await bookmark('b')).toMatchObject({ trashed: false });
+  });
+
+  it("refuses duplicates the user can't edit, leaving every bookmark as it was", async () => {
+    await insert('a', { tags: ['mine'] });
+    await insert('b', { userId: OTHER_USER, tags: ['theirs'] });
+
+    await expect(merge('a', ['b'])).rejects.toThrow('Bookmark not found');
+    expect(await bookmark('a')).toEqual({ tags: ['mine'], trashed: false });
+    expect(await bookmark('b')).toMatchObject({ trashed: false });
+  });
+
+  it('refuses to merge across spaces', async () => {
+    await insert('a');
+    await insert('b', { workspaceId: WORKSPACE });
+    await insert('c', { workspaceId: OTHER_WORKSPACE });
+
+    await expect(merge('a', ['b'])).rejects.toThrow('Only bookmarks in the same space can be merged');
+    await expect(merge('b', ['a'])).rejects.toThrow('Only bookmarks in the same space can be merged');
+    await expect(merge('b', ['c'])).rejects.toThrow('Only bookmarks in the same space can be merged');
+    expect(await bookmark('a')).toMatchObject({ trashed: false });
+  });
+});
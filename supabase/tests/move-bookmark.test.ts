@@ -0,0 +1,191 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { actAs, createDatabase } from './database';
+
+const OWNER = '00000000-0000-0000-0000-00000000000a';
+const OTHER_USER = '00000000-0000-0000-0000-00000000000b';
+const WORKSPACE = '00000000-0000-0000-0000-0000000000f1';
+
+const SCHEMA = `
+  CREATE TABLE public.workspace_members (
+    workspace_id UUID NOT NULL,
+    user_id UUID NOT NULL,
+    role TEXT NOT NULL
+  );
+  CREATE TABLE public.bookmarks (
+    id UUID PRIMARY KEY,
+    user_id UUID NOT NULL,
+    workspace_id UUID,
+    position DOUBLE PRECISION,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    deleted_at TIMESTAMP WITH TIME ZONE
+  );
+`;
+
+const FUNCTIONS = [
+  'workspace_role_rank',
+  'has_workspace_role',
+  'can_access_bookmark',
+  'lock_bookmark_positions',
+  'rebalance_bookmark_positions',
+  'rebalance_crowded_bookmark_positions',
+  'move_bookmark',
+];
+
+// Bookmark ids are uuids; tests refer to them by letter
+const id = (letter: string) => `00000000-0000-0000-0000-0000000000${letter.charCodeAt(0).toString(16)}`;
+const letterOf = (uuid: string) => String.fromCharCode(parseInt(uuid.slice(-2), 16));
+
+let db: PGlite;
+
+const insert = async (letter: string, position: number, { userId = OWNER, workspaceId = null as string | null } = {}) => {
+  await db.query(
+    'INSERT INTO public.bookmarks (id, user_id, workspace_id, position) VALUES ($1, $2, $3, $4)',
+    [id(letter), userId, workspaceId, position]
+  );
+};
+
+const move = async (letter: string, after: string | null, before: string | null): Promise<number> => {
+  const { rows } = await db.query<{ position: number }>(
+    'SELECT public.move_bookmark($1, $2, $3) AS position',
+    [id(letter), after && id(after), before && id(before)]
+  );
+  return rows[0].position;
+};
+
+// Positions by letter, and the order they put the owner's personal bookmarks in
+const positions = async () => {
+  const { rows } = await db.query<{ id: string; position: number }>(
+    'SELECT id, position FROM public.bookmarks WHERE user_id = $1 AND workspace_id IS NULL ORDER BY position, created_at DESC',
+    [OWNER]
+  );
+  return new Map(rows.map(row => [letterOf(row.id), row.position]));
+};
+const order = async () => [...(await positions()).keys()].join('');
+
+beforeEach(async () => {
+  db = await createDatabase(SCHEMA, FUNCTIONS);
+  for (const [index, letter] of ['a', 'b', 'c', 'd', 'e', 'f'].entries()) {
+    await insert(letter, (index + 1) * 1024);
+  }
+  await actAs(db, OWNER);
+});
+
+afterEach(async () => {
+  await db.close();
+});
+
+describe('move_bookmark', () => {
+  it('writes only the moved bookmark, halfway between its neighbours', async () => {
+    const before = await positions();
+    expect(await move('b', 'd', 'e')).toBe(4608);
+
+    const after = await positions();
+    expect(await order()).toBe('acdbef');
+    expect([...after].filter(([letter, position]) => before.get(letter) !== position)).toEqual([['b', 4608]]);
+  });
+
+  it('moves between neighbours of a filtered view, keeping the hidden bookmarks in place', async () => {
+    // A view showing a, c and e: dropping a between c and e
+    await move('a', 'c', 'e');
+    const result = await order();
+    expect(result.replace(/[bdf]/g, '')).toBe('cae');
+    expect(result.replace(/[ace]/g, '')).toBe('bdf');
+  });
+
+  it('moves to the top and the bottom', async () => {
+    expect(await move('d', null, 'a')).toBe(0);
+    expect(await move('b', 'f', null)).toBe(6144 + 1024);
+    expect(await order()).toBe('dacefb');
+  });
+
+  it('rebalances the space when the neighbours are too close to split', async () => {
+    await db.query('UPDATE public.bookmarks SET position = 2048.0000001 WHERE id = $1', [id('c')]);
+
+    const position = await move('f', 'b', 'c');
+
+    expect(await order()).toBe('abfcde');
+    const after = await positions();
+    expect(position).toBe(after.get('f'));
+    // Everything else is evenly spaced again, so the move landed halfway between b and c
+    expect([...after].filter(([letter]) => letter !== 'f').map(([, value]) => value)).toEqual([1024, 2048, 3072, 4096, 5120]);
+    expect(position).toBe(2560);
+  });
+
+  it('rebalances neighbours that share a position', async () => {
+    await db.query('UPDATE public.bookmarks SET position = 2048 WHERE id = $1', [id('c')]);
+    // Equal positions are ordered newest first
+    await db.query(`UPDATE public.bookmarks SET created_at = now() - interval '1 day' WHERE id = $1`, [id('b')]);
+    expect(await order()).toBe('acbdef');
+
+    await move('e', 'c', 'b');
+    expect(await order()).toBe('acebdf');
+  });
+
+  it('rejects a move the list no longer allows', async () => {
+    // b sits above a, so there's nothing between "after b" and "before a" even after rebalancing
+    await expect(move('d', 'b', 'a')).rejects.toThrow('The list changed while moving this bookmark');
+  });
+
+  it("rejects someone else's bookmark and neighbours from another space", async () => {
+    await insert('x', 1024, { userId: OTHER_USER });
+    await insert('w', 1024, { workspaceId: WORKSPACE });
+
+    await expect(move('x', 'a', 'b')).rejects.toThrow('Bookmark not found');
+    await expect(move('a', 'x', null)).rejects.toThrow('no longer in this list');
+    await expect(move('a', null, 'w')).rejects.toThrow('no longer in this list');
+  });
+
+  it('ignores bookmarks in the trash', async () => {
+    await db.query('UPDATE public.bookmarks SET deleted_at = now() WHERE id = $1', [id('c')]);
+    await expect(move('c', 'a', 'b')).rejects.toThrow('Bookmark not found');
+    await expect(move('a', 'c', 'd')).rejects.toThrow('no longer in this list');
+  });
+
+  it('lets workspace editors move, but not viewers', async () => {
+    await insert('v', 1024, { userId: OTHER_USER, workspaceId: WORKSPACE });
+    await insert('w', 2048, { userId: OTHER_USER, workspaceId: WORKSPACE });
+    await db.query(`INSERT INTO public.workspace_members VALUES ($1, $2, 'viewer')`, [WORKSPACE, OWNER]);
+
+    await expect(move('v', 'w', null)).rejects.toThrow('Bookmark not found');
+
+    await db.query(`UPDATE public.workspace_members SET role = 'editor'`);
+    expect(await move('v', 'w', null)).toBe(3072);
+  });
+
+  it('holds the space lock until the transaction ends', async () => {
+    await db.transaction(async (tx) => {
+      await tx.query('SELECT public.move_bookmark($1, $2, $3)', [id('a'), id('b'), id('c')]);
+      const { rows } = await tx.query<{ count: number }>(
+        `SELECT count(*)::INTEGER AS count FROM pg_locks WHERE locktype = 'advisory' AND granted`
+      );
+      expect(rows[0].count).toBe(1);
+    });
+  });
+});
+
+describe('rebalance_crowded_bookmark_positions', () => {
+  it('rebalances only the spaces with bookmarks closer than the minimum gap', async () => {
+    await insert('v', 1024, { userId: OTHER_USER });
+    await insert('w', 1024.0001, { userId: OTHER_USER });
+    await insert('y', 1024, { userId: OTHER_USER, workspaceId: WORKSPACE });
+    await insert('z', 5000, { userId: OTHER_USER, workspaceId: WORKSPACE });
+
+    const { rows } = await db.query<{ count: number }>('SELECT public.rebalance_crowded_bookmark_positions() AS count');
+    expect(rows[0].count).toBe(1);
+
+    const { rows: others } = await db.query<{ id: string; position: number }>(
+      'SELECT id, position FROM public.bookmarks WHERE user_id = $1 ORDER BY id',
+      [OTHER_USER]
+    );
+    expect(others.map(row => [letterOf(row.id), row.position])).toEqual([
+      ['v', 1024],
+      ['w', 2048],
+      ['y', 1024],
+      ['z', 5000],
+    ]);
+    // The owner's list was already spread out
+    expect([...(await positions()).values()]).toEqual([1024, 2048, 3072, 4096, 5120, 6144]);
+  });
+});
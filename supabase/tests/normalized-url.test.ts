@@ -0,0 +1,49 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { createDatabase } from './database';
+
+const SCHEMA = `
+  CREATE TABLE public.bookmarks (
+    id SERIAL PRIMARY KEY,
+    url TEXT NOT NULL,
+    normalized_url TEXT,
+    title TEXT
+  );
+`;
+
+let db: PGlite;
+
+const normalizedUrl = async (id: number) => {
+  const { rows } = await db.query<{ normalized_url: string }>('SELECT normalized_url FROM public.bookmarks WHERE id = $1', [id]);
+  return rows[0].normalized_url;
+};
+
+beforeEach(async () => {
+  db = await createDatabase(SCHEMA, ['normalize_url', 'set_normalized_url']);
+  await db.exec(`
+    CREATE TRIGGER set_bookmarks_normalized_url
+    BEFORE INSERT OR UPDATE OF url, normalized_url ON public.bookmarks
+    FOR EACH ROW EXECUTE FUNCTION public.set_normalized_url();
+  `);
+});
+
+afterEach(async () => {
+  await db.close();
+});
+
+describe('set_normalized_url', () => {
+  it('computes the key from the URL, ignoring the one the writer sent', async () => {
+    await db.query(`INSERT INTO public.bookmarks (url, normalized_url) VALUES ('http://www.Example.com/a/?utm_source=x', 'https://other.example')`);
+    expect(await normalizedUrl(1)).toBe('https://example.com/a');
+
+    await db.query(`UPDATE public.bookmarks SET normalized_url = 'https://other.example' WHERE id = 1`);
+    expect(await normalizedUrl(1)).toBe('https://example.com/a');
+  });
+
+  it('follows URL changes', async () => {
+    await db.query(`INSERT INTO public.bookmarks (url) VALUES ('https://example.com/a')`);
+    await db.query(`UPDATE public.bookmarks SET url = 'https://example.com/b?z=1&a=2' WHERE id = 1`);
+    expect(await normalizedUrl(1)).toBe('https://example.com/b?a=2&z=1');
+  });
+});
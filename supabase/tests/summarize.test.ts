@@ -0,0 +1,74 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createSummarizer } from '../functions/_shared/summarize/index.ts';
+import { MAX_TLDR_LENGTH } from '../functions/_shared/summarize/summarizer.ts';
+
+const ARTICLE = {
+  title: 'Tokio tutorial',
+  url: 'https://tokio.rs/tokio/tutorial',
+  text: [
+    'Tokio is an asynchronous runtime for Rust.',
+    'It provides the building blocks for network applications.',
+    'Tasks are lightweight and cheap to spawn!',
+    'Channels let   tasks talk to each other.',
+    'The runtime schedules tasks across threads.',
+  ].join(' '),
+};
+
+// An environment holding only `vars`
+const envOf = (vars: Record<string, string>) => (key: string) => vars[key];
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('createSummarizer', () => {
+  it('summarizes deterministically with SUMMARIZER=fake', async () => {
+    const summarizer = createSummarizer(envOf({ SUMMARIZER: 'fake' }));
+
+    expect(summarizer.name).toBe('fake');
+    const summary = await summarizer.summarize(ARTICLE);
+    expect(summary).toEqual({
+      tldr: 'Tokio tutorial: Tokio is an asynchronous runtime for Rust.',
+      key_points: [
+        'It provides the building blocks for network applications.',
+        'Tasks are lightweight and cheap to spawn!',
+        'Channels let tasks talk to each other.',
+      ],
+    });
+    expect(await summarizer.summarize(ARTICLE)).toEqual(summary);
+  });
+
+  it('holds the fake summary to the same limits as the others', async () => {
+    const summarizer = createSummarizer(envOf({ SUMMARIZER: 'fake' }));
+
+    expect(await summarizer.summarize({ ...ARTICLE, text: '   ' })).toBeNull();
+    const { tldr } = (await summarizer.summarize({ ...ARTICLE, text: `${'word '.repeat(200)}.` }))!;
+    expect(tldr).toHaveLength(MAX_TLDR_LENGTH);
+    expect(tldr.endsWith('…')).toBe(true);
+  });
+
+  it('uses the extractive summarizer by default', async () => {
+    const summarizer = createSummarizer(envOf({}));
+
+    expect(summarizer.name).toBe('extractive');
+    expect(await summarizer.summarize(ARTICLE)).toMatchObject({ tldr: expect.any(String) });
+  });
+
+  it('falls back to the extractive summary when the LLM API fails', async () => {
+    const fetch = vi.fn(async () => new Response('Service unavailable', { status: 503 }));
+    vi.stubGlobal('fetch', fetch);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const summary = await createSummarizer(envOf({ SUMMARIZER: 'llm', LLM_API_KEY: 'key' })).summarize(ARTICLE);
+
+    expect(fetch).toHaveBeenCalledOnce();
+    expect(summary).toEqual(await createSummarizer(envOf({ SUMMARIZER: 'extractive' })).summarize(ARTICLE));
+  });
+
+  it('rejects unknown summarizers and an LLM without a key', () => {
+    expect(() => createSummarizer(envOf({ SUMMARIZER: 'magic' }))).toThrow('Unknown SUMMARIZER "magic"');
+    expect(() => createSummarizer(envOf({ SUMMARIZER: 'llm' }))).toThrow('SUMMARIZER=llm requires LLM_API_KEY');
+  });
+});
@@ -0,0 +1,213 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { actAs, asAuthenticated, createDatabase } from './database';
+
+const OWNER = '00000000-0000-0000-0000-00000000000a';
+const OTHER_USER = '00000000-0000-0000-0000-00000000000b';
+const WORKSPACE = '00000000-0000-0000-0000-0000000000f1';
+
+const SCHEMA = `
+  CREATE TABLE public.workspace_members (
+    workspace_id UUID NOT NULL,
+    user_id UUID NOT NULL,
+    role TEXT NOT NULL
+  );
+  CREATE TABLE public.bookmarks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    workspace_id UUID,
+    title TEXT NOT NULL,
+    tags TEXT[] DEFAULT '{}',
+    deleted_at TIMESTAMP WITH TIME ZONE
+  );
+  CREATE TABLE public.tags (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL,
+    workspace_id UUID,
+    name TEXT NOT NULL,
+    color TEXT
+  );
+  CREATE UNIQUE INDEX tags_user_name_key ON public.tags (user_id, name) WHERE workspace_id IS NULL;
+  CREATE UNIQUE INDEX tags_workspace_name_key ON public.tags (workspace_id, name) WHERE workspace_id IS NOT NULL;
+  CREATE TABLE public.bookmark_tags (
+    bookmark_id UUID NOT NULL REFERENCES public.bookmarks(id) ON DELETE CASCADE,
+    tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+    PRIMARY KEY (bookmark_id, tag_id)
+  );
+  GRANT ALL ON ALL TABLES IN SCHEMA public TO authenticated;
+`;
+
+// Bookmarks as the API sees them: trashed rows are hidden from the caller
+const POLICIES = `
+  ALTER TABLE public.bookmarks ENABLE ROW LEVEL SECURITY;
+  ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+  CREATE POLICY select_bookmarks ON public.bookmarks FOR SELECT
+    USING (deleted_at IS NULL AND public.can_access_bookmark(user_id, workspace_id));
+  CREATE POLICY update_bookmarks ON public.bookmarks FOR UPDATE
+    USING (public.can_access_bookmark(user_id, workspace_id, 'editor'));
+  CREATE POLICY space_tags ON public.tags USING (public.can_access_bookmark(user_id, workspace_id, 'editor'));
+`;
+
+const FUNCTIONS = [
+  'workspace_role_rank',
+  'has_workspace_role',
+  'can_access_bookmark',
+  'sync_bookmark_tags',
+  'replace_tag_in_bookmarks',
+  'rename_tag',
+  'merge_tags',
+  'delete_tag',
+];
+
+let db: PGlite;
+
+const addBookmark = async (
+  title: string,
+  tags: string[],
+  { userId = OWNER, workspaceId = null as string | null, trashed = false } = {}
+) => {
+  await db.query('INSERT INTO public.bookmarks (user_id, workspace_id, title, tags, deleted_at) VALUES ($1, $2, $3, $4, $5)', [
+    userId,
+    workspaceId,
+    title,
+    tags,
+    trashed ? new Date().toISOString() : null,
+  ]);
+};
+
+// A tag by name in the user's personal space, or in a workspace
+const tagId = async (name: string, { userId = OWNER, workspaceId = null as string | null } = {}) => {
+  const { rows } = await db.query<{ id: string }>(
+    'SELECT id FROM public.tags WHERE coalesce(workspace_id, user_id) = $1 AND name = $2',
+    [workspaceId ?? userId, name]
+  );
+  return rows[0].id;
+};
+
+// Tags of every bookmark by title, trashed ones included
+const tagsByTitle = async () => {
+  const { rows } = await db.query<{ title: string; tags: string[] }>('SELECT title, tags FROM public.bookmarks ORDER BY title');
+  return Object.fromEntries(rows.map(row => [row.title, row.tags]));
+};
+
+// Calls a tag function through the API as the owner
+const call = (sql: string, params: unknown[]) => asAuthenticated(db, () => db.query(sql, params));
+
+beforeEach(async () => {
+  db = await createDatabase(SCHEMA, FUNCTIONS);
+  await db.exec(POLICIES);
+  await db.exec(`
+    CREATE TRIGGER sync_bookmark_tags
+    AFTER INSERT OR UPDATE OF tags ON public.bookmarks
+    FOR EACH ROW EXECUTE FUNCTION public.sync_bookmark_tags();
+  `);
+  await addBookmark('live', ['lang', 'lang/rust', 'news']);
+  await addBookmark('trashed', ['lang/rust', 'news'], { trashed: true });
+  await addBookmark('other user', ['lang', 'news'], { userId: OTHER_USER });
+  await actAs(db, OWNER);
+});
+
+afterEach(async () => {
+  await db.close();
+});
+
+describe('rename_tag', () => {
+  it('renames the tag and its nested tags in trashed bookmarks too', async () => {
+    await call('SELECT public.rename_tag($1, $2)', [await tagId('lang'), 'languages']);
+
+    expect(await tagsByTitle()).toEqual({
+      live: ['languages', 'languages/rust', 'news'],
+      trashed: ['languages/rust', 'news'],
+      'other user': ['lang', 'news'],
+    });
+  });
+
+  it("refuses another user's tag", async () => {
+    const id = await tagId('lang', { userId: OTHER_USER });
+    await expect(call('SELECT public.rename_tag($1, $2)', [id, 'x'])).rejects.toThrow('Tag not found');
+  });
+});
+
+describe('merge_tags', () => {
+  it('merges in trashed bookmarks too', async () => {
+    await call('SELECT public.merge_tags($1, $2)', [[await tagId('news')], await tagId('lang/rust')]);
+
+    expect(await tagsByTitle()).toEqual({
+      live: ['lang', 'lang/rust'],
+      trashed: ['lang/rust'],
+      'other user': ['lang', 'news'],
+    });
+  });
+});
+
+describe('delete_tag', () => {
+  it('removes the tag from trashed bookmarks too', async () => {
+    await call('SELECT public.delete_tag($1)', [await tagId('news')]);
+
+    expect(await tagsByTitle()).toEqual({
+      live: ['lang', 'lang/rust'],
+      trashed: ['lang/rust'],
+      'other user': ['lang', 'news'],
+    });
+  });
+});
+
+describe('replace_tag_in_bookmarks', () => {
+  it("only touches the caller's bookmarks when called directly", async () => {
+    await call('SELECT public.replace_tag_in_bookmarks($1, $2)', ['news', 'press']);
+
+    expect(await tagsByTitle()).toMatchObject({ trashed: ['lang/rust', 'press'], 'other user': ['lang', 'news'] });
+  });
+});
+
+describe('in a workspace', () => {
+  beforeEach(async () => {
+    await addBookmark('shared', ['lang', 'news'], { userId: OTHER_USER, workspaceId: WORKSPACE });
+    await addBookmark('shared trashed', ['news'], { workspaceId: WORKSPACE, trashed: true });
+    await db.query(`INSERT INTO public.workspace_members VALUES ($1, $2, 'editor')`, [WORKSPACE, OWNER]);
+  });
+
+  it('keeps one tag per name for the workspace, apart from the personal ones', async () => {
+    const { rows } = await db.query<{ workspace_id: string | null; links: number }>(
+      `SELECT t.workspace_id, count(bt.bookmark_id)::INTEGER AS links
+       FROM public.tags t LEFT JOIN public.bookmark_tags bt ON bt.tag_id = t.id
+       WHERE t.name = 'news' GROUP BY t.id ORDER BY t.workspace_id NULLS FIRST, t.user_id`
+    );
+    expect(rows).toEqual([
+      { workspace_id: null, links: 2 },
+      { workspace_id: null, links: 1 },
+      { workspace_id: WORKSPACE, links: 2 },
+    ]);
+  });
+
+  it("renames the workspace's tag in every member's bookmarks, and nowhere else", async () => {
+    await call('SELECT public.rename_tag($1, $2)', [await tagId('news', { workspaceId: WORKSPACE }), 'press']);
+
+    expect(await tagsByTitle()).toEqual({
+      live: ['lang', 'lang/rust', 'news'],
+      trashed: ['lang/rust', 'news'],
+      'other user': ['lang', 'news'],
+      shared: ['lang', 'press'],
+      'shared trashed': ['press'],
+    });
+  });
+
+  it('deletes and merges within the tag space', async () => {
+    await call('SELECT public.delete_tag($1)', [await tagId('lang', { workspaceId: WORKSPACE })]);
+    // The personal tag is from another space, so it isn't merged
+    await call('SELECT public.merge_tags($1, $2)', [[await tagId('lang')], await tagId('news', { workspaceId: WORKSPACE })]);
+
+    expect(await tagsByTitle()).toMatchObject({ live: ['lang', 'lang/rust', 'news'], shared: ['news'] });
+  });
+
+  it('refuses viewers', async () => {
+    await db.query(`UPDATE public.workspace_members SET role = 'viewer'`);
+    const id = await tagId('news', { workspaceId: WORKSPACE });
+
+    await expect(call('SELECT public.rename_tag($1, $2)', [id, 'press'])).rejects.toThrow('Tag not found');
+    await expect(call('SELECT public.delete_tag($1)', [id])).rejects.toThrow('Tag not found');
+    await call('SELECT public.replace_tag_in_bookmarks($1, $2, $3)', ['news', 'press', WORKSPACE]);
+    expect(await tagsByTitle()).toMatchObject({ shared: ['lang', 'news'], 'shared trashed': ['news'] });
+  });
+});
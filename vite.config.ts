@@ -1,4 +1,5 @@
 // made by Divyansh
+/// <reference types="vitest" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -19,4 +20,13 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  test: {
+    environment: "jsdom",
+    // Lets the Supabase client module load; tests mock it before making requests
+    env: {
+      VITE_SUPABASE_URL: "http://localhost:54321",
+      VITE_SUPABASE_ANON_KEY: "test-anon-key",
+    },
+    include: ["src/**/*.test.{ts,tsx}", "supabase/tests/**/*.test.ts"],
+  },
 }));